@@ -1,10 +1,9 @@
 
 import React, { useState, useEffect } from 'react';
 import { 
-  ClassLevel, Subject, Chapter, AppState, Board, Stream, User, ContentType, SystemSettings, ActivityLogEntry, WeeklyTest, LessonContent
+  ClassLevel, Subject, Chapter, AppState, Board, Stream, User, ContentType, SystemSettings, ActivityLogEntry, LessonContent
 } from './types';
-import { getChapterData, saveChapterData, checkFirebaseConnection, saveTestResult, saveUserToLive, updateUserStatus, getUserData, subscribeToSettings, auth } from './firebase';
-import { signInAnonymously } from 'firebase/auth';
+import { getChapterData, saveChapterData, submitTestAnswers, subscribeToTestResult, getQuestionBank, recordQuestionsServed, updateUserFields, saveUserChanges, updateUserStatus, getUserData, migrateMcqHistory, openCreditLedger, expireSubscription, subscribeToSettings } from './storage';
 import { fetchChapters, fetchLessonContent } from './services/gemini';
 import { BoardSelection } from './components/BoardSelection';
 import { ClassSelection } from './components/ClassSelection';
@@ -30,7 +29,11 @@ import { CustomAlert, CustomConfirm } from './components/CustomDialogs';
 import { MarksheetCard } from './components/MarksheetCard';
 import { BrainCircuit, Globe, LogOut, LayoutDashboard, BookOpen, Headphones, HelpCircle, Newspaper, KeyRound, Lock, X, ShieldCheck, FileText, UserPlus, EyeOff, WifiOff } from 'lucide-react';
 import { SUPPORT_EMAIL } from './constants';
-import { StudentTab, PendingReward, MCQResult } from './types';
+import { evaluateAccess, grantSubscription } from './utils/accessPolicy';
+import { applyCreditChange } from './utils/creditLedger';
+import { toMarksheetResult } from './utils/testScoring';
+import { drawWeeklyPool, toTestQuestions } from './utils/questionBank';
+import { StudentTab, PendingReward, MCQResult, CreditTransaction, PublicWeeklyTest, TestSubmission, IntegrityEvent } from './types';
 
 const TermsPopup: React.FC<{ onClose: () => void, text?: string }> = ({ onClose, text }) => (
     <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-end md:items-center justify-center p-0 md:p-4 animate-in fade-in duration-300">
@@ -139,10 +142,12 @@ const App: React.FC = () => {
   const [showTerms, setShowTerms] = useState(false);
   const [generationDataReady, setGenerationDataReady] = useState(false);
   const [loadingMessage, setLoadingMessage] = useState<string>(''); // NEW
-  const [activeWeeklyTest, setActiveWeeklyTest] = useState<WeeklyTest | null>(null);
+  const [activeWeeklyTest, setActiveWeeklyTest] = useState<PublicWeeklyTest | null>(null);
+  const [activeWeeklyQuestionIds, setActiveWeeklyQuestionIds] = useState<string[] | undefined>(undefined); // Pool tests only
   const [studentTab, setStudentTab] = useState<StudentTab>('HOME');
   const [activeReward, setActiveReward] = useState<PendingReward | null>(null);
   const [lastTestResult, setLastTestResult] = useState<MCQResult | null>(null);
+  const [awaitingResultTestId, setAwaitingResultTestId] = useState<string | null>(null);
   
   // CUSTOM DIALOG STATE (GLOBAL)
   const [alertConfig, setAlertConfig] = useState<{isOpen: boolean, message: string}>({isOpen: false, message: ''});
@@ -170,11 +175,14 @@ const App: React.FC = () => {
       let updatedUser = { ...state.user };
       let hasUpdates = false;
       let newReward: PendingReward | null = null;
+      let loginTxn: CreditTransaction | null = null;
 
       // 1. Daily Login Bonus (10 Coins)
       const lastRewardDate = state.user.lastLoginRewardDate ? new Date(state.user.lastLoginRewardDate).toDateString() : '';
       if (lastRewardDate !== today && !activeReward) {
-          updatedUser.credits = (updatedUser.credits || 0) + 10;
+          const change = applyCreditChange(updatedUser, 10, 'DAILY_LOGIN', { actor: 'SYSTEM', refId: today });
+          updatedUser = change.user;
+          loginTxn = change.txn;
           updatedUser.lastLoginRewardDate = new Date().toISOString();
           hasUpdates = true;
           
@@ -207,7 +215,7 @@ const App: React.FC = () => {
       if (hasUpdates || newReward) {
           if (hasUpdates) {
               localStorage.setItem('nst_current_user', JSON.stringify(updatedUser));
-              saveUserToLive(updatedUser);
+              saveUserChanges(state.user, updatedUser, loginTxn ? [loginTxn] : undefined);
               setState(prev => ({...prev, user: updatedUser}));
           }
           if (newReward) {
@@ -262,7 +270,11 @@ const App: React.FC = () => {
   // --- SYNC USER PROFILE ON LOAD (ENSURE PREMIUM UPDATE VISIBLE) ---
   useEffect(() => {
       if (state.user) {
-          getUserData(state.user.id).then(cloudUser => {
+          getUserData(state.user.id).then(async cloudUser => {
+             // Results still embedded by older clients (or in the first version's history docs) move to their own collection first
+             if (cloudUser && (cloudUser.mcqHistory?.length || !cloudUser.resultsMigratedAt)) cloudUser = await migrateMcqHistory(cloudUser);
+             // Coins held from before the ledger get their opening entry
+             if (cloudUser && !cloudUser.ledgerOpenedAt) cloudUser = await openCreditLedger(cloudUser);
              if (cloudUser) {
                  // Ignore if identical
                  const currentStr = JSON.stringify(state.user);
@@ -282,25 +294,21 @@ const App: React.FC = () => {
       if (!state.user?.isPremium || !state.user.subscriptionEndDate) return;
       if (state.user.role === 'ADMIN') return; // PROTECT ADMIN
 
-      const checkExpiry = () => {
+      // Also runs on load, so a copy restored from this device is checked against the stored end date first
+      const checkExpiry = async () => {
           const now = new Date();
           const end = new Date(state.user!.subscriptionEndDate!);
           if (end <= now) {
               console.log("Subscription Expired (Real-time).");
-              const updatedUser = { 
-                  ...state.user!, 
-                  isPremium: false, 
-                  subscriptionTier: 'FREE' as const, // Explicit cast
-                  subscriptionLevel: 'BASIC' as const, 
-                  subscriptionEndDate: undefined 
-              };
+              const { user: updatedUser, expired } = await expireSubscription(state.user!);
+              if (!expired && updatedUser.subscriptionEndDate === state.user!.subscriptionEndDate) return; // Write failed, next check retries
               localStorage.setItem('nst_current_user', JSON.stringify(updatedUser));
-              saveUserToLive(updatedUser);
               setState(prev => ({...prev, user: updatedUser}));
-              setAlertConfig({isOpen: true, message: "Your subscription period has ended. You are now on the Free plan."});
+              if (expired) setAlertConfig({isOpen: true, message: "Your subscription period has ended. You are now on the Free plan."});
           }
       };
 
+      checkExpiry();
       const interval = setInterval(checkExpiry, 60000); // Check every minute
       return () => clearInterval(interval);
   }, [state.user]);
@@ -334,20 +342,7 @@ const App: React.FC = () => {
       const loggedInUserStr = localStorage.getItem('nst_current_user');
       if (loggedInUserStr) {
         let user: User = JSON.parse(loggedInUserStr);
-
-        // AUTO-CANCEL SUBSCRIPTION IF EXPIRED (SKIP ADMIN)
-        if (user.role !== 'ADMIN' && user.isPremium && user.subscriptionEndDate && new Date(user.subscriptionEndDate) <= new Date()) {
-            console.log("Subscription Expired. Downgrading to Free.");
-            user = { 
-                ...user, 
-                isPremium: false, 
-                subscriptionTier: 'FREE', 
-                subscriptionLevel: 'BASIC',
-                subscriptionEndDate: undefined 
-            };
-            localStorage.setItem('nst_current_user', JSON.stringify(user));
-            saveUserToLive(user);
-        }
+        // An ended subscription is downgraded by the real-time subscription check, against the stored copy
 
         if (!user.progress) user.progress = {};
         if (user.isLocked) { 
@@ -473,7 +468,6 @@ const App: React.FC = () => {
     if (!state.originalAdmin) {
         localStorage.setItem('nst_current_user', JSON.stringify(user));
     }
-    saveUserToLive(user); // छात्र का डेटा क्लाउड पर भेजें
     localStorage.setItem('nst_has_seen_welcome', 'true');
     setState(prev => ({ ...prev, user, view: user.role === 'ADMIN' ? 'ADMIN_DASHBOARD' : 'STUDENT_DASHBOARD' as any, selectedBoard: user.board || null, selectedClass: user.classLevel || null, selectedStream: user.stream || null, language: user.board === 'BSEB' ? 'Hindi' : 'English', showWelcome: false }));
   };
@@ -592,7 +586,7 @@ const App: React.FC = () => {
                      onConfirm: (auto) => {
                          if (auto) {
                              const u = { ...state.user!, isAutoDeductEnabled: true };
-                             saveUserToLive(u);
+                             updateUserFields(u.id, { set: { isAutoDeductEnabled: true } });
                              setState(p => ({...p, user: u}));
                          }
                          setCreditModal(null);
@@ -602,9 +596,9 @@ const App: React.FC = () => {
                  return;
              }
 
-             const updatedUser = { ...state.user, credits: state.user.credits - cost };
+             const { user: updatedUser, change } = applyCreditChange(state.user, -cost, 'CONTENT_PURCHASE', { refId: `${tempSelectedChapter.id}_${type}`, note: `${type} • ${tempSelectedChapter.title}` });
              localStorage.setItem('nst_current_user', JSON.stringify(updatedUser));
-             saveUserToLive(updatedUser);
+             updateUserFields(updatedUser.id, change);
              setState(prev => ({...prev, user: updatedUser}));
         }
 
@@ -701,33 +695,10 @@ const App: React.FC = () => {
          if(onlineContent.price !== undefined) cost = onlineContent.price;
     }
 
-    // --- ACCESS CONTROL LOGIC (Unified) ---
-    let hasAccess = false;
-    
-    // 1. Admin / System
-    if (state.user.role === 'ADMIN' || state.originalAdmin) {
-        hasAccess = true;
-    } 
-    // 2. Cost is 0 (Free Content)
-    else if (cost === 0) {
-        hasAccess = true;
-    }
-    // 3. Subscription Check
-    else if (state.user.isPremium && state.user.subscriptionEndDate && new Date(state.user.subscriptionEndDate) > new Date()) {
-        const userLevel = state.user.subscriptionLevel || 'BASIC'; // Default to BASIC if undefined
-        
-        // ULTRA Access: Everything
-        if (userLevel === 'ULTRA') {
-            hasAccess = true;
-        } 
-        // BASIC Access: MCQ & Notes (HTML) & AI Notes
-        else if (userLevel === 'BASIC') {
-            if (['MCQ_ANALYSIS', 'MCQ_SIMPLE', 'NOTES_HTML_FREE', 'NOTES_HTML_PREMIUM', 'NOTES_PREMIUM', 'NOTES_SIMPLE'].includes(type)) {
-                hasAccess = true;
-            }
-            // PDF/VIDEO/UltraPDF remain locked for Basic
-        }
-    }
+    // --- ACCESS CONTROL LOGIC (Unified Access Policy) ---
+    // Impersonating admin (originalAdmin) keeps full access
+    const decision = evaluateAccess(state.user, { kind: 'LESSON', lessonType: type, price: cost }, state.settings);
+    let hasAccess = !!state.originalAdmin || decision.result === 'ALLOW';
 
     // 4. Credit Deduction (Fallback)
     if (!hasAccess) {
@@ -742,7 +713,7 @@ const App: React.FC = () => {
                      onConfirm: (auto) => {
                          if (auto) {
                              const u = { ...state.user!, isAutoDeductEnabled: true };
-                             saveUserToLive(u);
+                             updateUserFields(u.id, { set: { isAutoDeductEnabled: true } });
                              setState(p => ({...p, user: u}));
                          }
                          setCreditModal(null);
@@ -753,7 +724,7 @@ const App: React.FC = () => {
             }
 
             // Deduct Credits
-            const updatedUser = { ...state.user, credits: state.user.credits - cost };
+            const { user: updatedUser, change } = applyCreditChange(state.user, -cost, 'CONTENT_PURCHASE', { refId: `${tempSelectedChapter.id}_${type}`, note: `${type} • ${tempSelectedChapter.title}` });
             localStorage.setItem('nst_current_user', JSON.stringify(updatedUser));
             
             // Sync to LocalStorage list
@@ -767,7 +738,7 @@ const App: React.FC = () => {
                 }
             }
             // Sync to Live
-            saveUserToLive(updatedUser);
+            updateUserFields(updatedUser.id, change);
             
             setState(prev => ({...prev, user: updatedUser}));
             hasAccess = true; // Access Granted via Credits
@@ -815,19 +786,22 @@ const App: React.FC = () => {
       if (!activeReward || !state.user) return;
       
       let updatedUser = { ...state.user };
+      let rewardTxn: CreditTransaction | null = null;
       
       if (activeReward.type === 'COINS') {
-          updatedUser.credits = (updatedUser.credits || 0) + (activeReward.amount || 0);
+          const change = applyCreditChange(updatedUser, activeReward.amount || 0, 'REWARD_CLAIM', { refId: activeReward.id, note: activeReward.label, actor: 'SYSTEM' });
+          updatedUser = change.user;
+          rewardTxn = change.txn;
       } else if (activeReward.type === 'SUBSCRIPTION') {
-          updatedUser.subscriptionTier = activeReward.subTier as any;
-          updatedUser.subscriptionLevel = activeReward.subLevel;
-          updatedUser.subscriptionEndDate = new Date(Date.now() + (activeReward.durationHours || 4) * 60 * 60 * 1000).toISOString();
-          updatedUser.isPremium = true;
-          updatedUser.grantedByAdmin = true;
+          updatedUser = {
+              ...updatedUser,
+              ...grantSubscription(updatedUser, activeReward.subTier || 'WEEKLY', activeReward.subLevel || 'BASIC', activeReward.durationHours || 4),
+              grantedByAdmin: true
+          };
       }
       
       localStorage.setItem('nst_current_user', JSON.stringify(updatedUser));
-      saveUserToLive(updatedUser);
+      saveUserChanges(state.user, updatedUser, rewardTxn ? [rewardTxn] : undefined);
       setState(prev => ({...prev, user: updatedUser}));
       setActiveReward(null);
       setAlertConfig({isOpen: true, message: `🎉 Reward Claimed: ${activeReward.label}`});
@@ -842,91 +816,101 @@ const App: React.FC = () => {
       };
       
       localStorage.setItem('nst_current_user', JSON.stringify(updatedUser));
-      saveUserToLive(updatedUser);
+      updateUserFields(updatedUser.id, { arrayUnion: { pendingRewards: [activeReward] } });
       setState(prev => ({...prev, user: updatedUser}));
       setActiveReward(null);
   };
 
-  const handleStartWeeklyTest = (test: WeeklyTest) => {
-    setActiveWeeklyTest(test);
+  const handleStartWeeklyTest = async (test: PublicWeeklyTest) => {
+    if (!test.poolRules?.length) {
+        setActiveWeeklyQuestionIds(undefined);
+        setActiveWeeklyTest(test);
+        return;
+    }
+
+    // Pool test: the draw is fixed per student (same questions after a reload), the evaluator replays it
+    if (!state.user) return;
+    const POOL_KEY = `weekly_test_pool_${test.id}`;
+    const bank = await getQuestionBank();
+    const bankById = Object.fromEntries(bank.map(q => [q.id, q]));
+    const questionIds = drawWeeklyPool(test, bank, state.user.id).questionIds;
+    if (!questionIds.length) {
+        setAlertConfig({isOpen: true, message: "This test's questions could not be loaded. Please check your connection and try again."});
+        return;
+    }
+    // Served counts go up once per attempt, not on every reload
+    if (!localStorage.getItem(POOL_KEY)) {
+        localStorage.setItem(POOL_KEY, JSON.stringify(questionIds));
+        recordQuestionsServed(questionIds);
+    }
+    setActiveWeeklyQuestionIds(questionIds);
+    setActiveWeeklyTest({ ...test, questions: toTestQuestions(questionIds, bankById), totalQuestions: questionIds.length });
   };
 
-  const handleWeeklyTestComplete = async (score: number, total: number, answers: Record<number, number>) => {
+  const handleWeeklyTestComplete = async (answers: Record<number, number>, startedAt: string, seed: number, integrityLog: IntegrityEvent[], timing: Pick<TestSubmission, 'sectionOpenedAt' | 'answeredAt'>, autoSubmitReason?: TestSubmission['autoSubmitReason']) => {
     if (!activeWeeklyTest || !state.user) return;
     
-    // Save Attempt
-    const attempt = {
+    // Raw answers only: the official score and rank come from the evaluator
+    const submission: TestSubmission = {
         testId: activeWeeklyTest.id,
-        testName: activeWeeklyTest.name,
         userId: state.user.id,
         userName: state.user.name,
-        startedAt: localStorage.getItem(`weekly_test_start_${activeWeeklyTest.id}`) || new Date().toISOString(),
-        submittedAt: new Date().toISOString(),
-        score: Math.round((score / total) * 100),
-        totalQuestions: total,
-        answers: answers
+        classLevel: activeWeeklyTest.classLevel,
+        board: state.user.board,
+        answers: answers,
+        seed: seed,
+        questionIds: activeWeeklyQuestionIds,
+        integrityLog: integrityLog,
+        autoSubmitReason: autoSubmitReason,
+        sectionOpenedAt: timing.sectionOpenedAt,
+        answeredAt: timing.answeredAt,
+        startedAt: startedAt,
+        submittedAt: new Date().toISOString()
     };
     
     // 1. Local Backup
     const key = `nst_test_attempts_${state.user.id}`;
     const attempts = JSON.parse(localStorage.getItem(key) || '{}');
-    attempts[activeWeeklyTest.id] = attempt;
+    attempts[activeWeeklyTest.id] = submission;
     localStorage.setItem(key, JSON.stringify(attempts));
 
-    // 2. Firestore Sync (So Admin can see)
-    await saveTestResult(state.user.id, attempt);
+    // 2. Cloud Submission
+    const submitted = await submitTestAnswers(submission);
+    if (!submitted) {
+        setAlertConfig({isOpen: true, message: "Could not submit your answers. Please check your connection and try again."});
+        return;
+    }
     
-    logActivity("TEST_SUBMIT", `Completed ${activeWeeklyTest.name} with score ${score}/${total}`);
+    localStorage.removeItem(`weekly_test_pool_${activeWeeklyTest.id}`);
+    logActivity("TEST_SUBMIT", `Submitted ${activeWeeklyTest.name} (${Object.keys(answers).length}/${activeWeeklyTest.questions.length} answered)`);
     setActiveWeeklyTest(null);
     
     // AUTOMATIC REWARD: PARTICIPATION (24 Hours Free)
     // "baki sab ko jo test diye ho unko 24 ghanta free subscription"
-    const rewardEndDate = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
     const updatedUser = { 
         ...state.user, 
-        subscriptionTier: 'WEEKLY' as any, // 24h Access (mapped to valid tier)
-        subscriptionEndDate: rewardEndDate,
+        ...grantSubscription(state.user, 'WEEKLY', 'BASIC', 24), // 24h Access (mapped to valid tier)
         grantedByAdmin: true 
     };
     localStorage.setItem('nst_current_user', JSON.stringify(updatedUser));
-    await saveUserToLive(updatedUser);
+    await saveUserChanges(state.user, updatedUser);
 
-    // Create Result Object for Marksheet
-    const startTimeStr = localStorage.getItem(`weekly_test_start_${activeWeeklyTest.id}`);
-    const timeTaken = startTimeStr ? (Date.now() - parseInt(startTimeStr)) / 1000 : 0;
-    
-    const omrData = activeWeeklyTest.questions.map((q, idx) => ({
-        qIndex: idx,
-        selected: answers[idx] !== undefined ? answers[idx] : -1,
-        correct: q.correctAnswer
-    }));
-
-    const result: MCQResult = {
-        id: `wt-${Date.now()}`,
-        userId: state.user.id,
-        chapterId: activeWeeklyTest.id,
-        subjectId: 'WEEKLY',
-        subjectName: 'Weekly Test',
-        chapterTitle: activeWeeklyTest.name,
-        date: new Date().toISOString(),
-        totalQuestions: total,
-        correctCount: score,
-        wrongCount: total - score,
-        score: score,
-        totalTimeSeconds: timeTaken,
-        averageTimePerQuestion: total > 0 ? timeTaken / total : 0,
-        performanceTag: (score / total) >= 0.8 ? 'EXCELLENT' : (score / total) >= 0.5 ? 'GOOD' : 'BAD',
-        classLevel: activeWeeklyTest.classLevel,
-        omrData: omrData
-    };
-    
-    setLastTestResult(result);
-    // setAlertConfig({isOpen: true, message: `Test Submitted! You scored ${score}/${total}.\n\n🎁 REWARD UNLOCKED: 24 Hours Free Subscription granted for participating!`});
-    
-    // Cleanup Local Timer
-    localStorage.removeItem(`weekly_test_start_${activeWeeklyTest.id}`);
+    // Marksheet opens once the official result is written
+    setAwaitingResultTestId(submission.testId);
+    setAlertConfig({isOpen: true, message: `Test Submitted!\n\nYour official score, rank and the answer key will appear once results are published after the test closes.\n\n🎁 REWARD UNLOCKED: 24 Hours Free Subscription granted for participating!`});
   };
 
+  // Waits for the evaluator's result, then shows the marksheet
+  useEffect(() => {
+    if (!awaitingResultTestId || !state.user) return;
+    const unsub = subscribeToTestResult(awaitingResultTestId, state.user.id, (official) => {
+        if (!official) return;
+        setLastTestResult(toMarksheetResult(official));
+        setAwaitingResultTestId(null);
+    });
+    return () => unsub();
+  }, [awaitingResultTestId, state.user?.id]);
+
   // --- SAFE NAVIGATION LOGIC ---
   const goHome = () => {
      if (state.user?.role === 'STUDENT' || state.originalAdmin) {
@@ -1129,6 +1113,7 @@ const App: React.FC = () => {
                             onRedeemSuccess={u => setState(prev => ({...prev, user: u}))} 
                             settings={state.settings} 
                             onStartWeeklyTest={handleStartWeeklyTest} 
+                            onViewWeeklyTestResult={setAwaitingResultTestId}
                             activeTab={studentTab} 
                             onTabChange={setStudentTab} 
                             setFullScreen={setIsFullScreen} // PASSED PROP
@@ -0,0 +1,147 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Chapter, ChapterMastery, MCQItem, Subject } from '../types';
+import { getChapterQuestionStats } from '../storage';
+import { getQuestionKey, QUESTION_DIFFICULTY_LABELS } from '../utils/questionBank';
+import { ADAPTIVE_SESSION_LENGTH, getQuestionRating, getStartingAbility, pickNextQuestion, ratingToDifficulty, updateAbility } from '../utils/adaptivePractice';
+import { MASTERY_LEVEL_LABELS, getMasteryLevel, getMasteryScore, hasEnoughData } from '../utils/chapterMastery';
+import { ArrowLeft, CheckCircle, XCircle, TrendingUp } from 'lucide-react';
+
+export interface AdaptiveAnswer {
+    item: MCQItem;
+    correct: boolean;
+    unsure: boolean;
+}
+
+interface Props {
+    questions: MCQItem[];
+    chapter: Chapter;
+    subject: Subject;
+    mastery?: ChapterMastery; // The chapter's, updated by onComplete
+    onComplete: (answers: AdaptiveAnswer[], ability: number, timeTaken: number) => void;
+    onBack: () => void;
+}
+
+// One question at a time, each pick matched to the running ability estimate
+export const AdaptivePractice: React.FC<Props> = ({ questions, chapter, subject, mastery, onComplete, onBack }) => {
+    const [previous] = useState(mastery);
+    const [ratings, setRatings] = useState<number[] | null>(null);
+    const [ability, setAbility] = useState(() => getStartingAbility(mastery));
+    const [used, setUsed] = useState<Set<number>>(new Set());
+    const [current, setCurrent] = useState(-1);
+    const [selected, setSelected] = useState<number | null>(null);
+    const [unsure, setUnsure] = useState(false);
+    const [answers, setAnswers] = useState<AdaptiveAnswer[]>([]);
+    const [finished, setFinished] = useState(false);
+    const startedAt = useRef(Date.now());
+
+    const sessionLength = Math.min(ADAPTIVE_SESSION_LENGTH, questions.length);
+
+    useEffect(() => {
+        getChapterQuestionStats(chapter.id).then(stats => {
+            const r = questions.map(q => getQuestionRating(q, stats[getQuestionKey(chapter.id, q.question)]));
+            setRatings(r);
+            setCurrent(pickNextQuestion(r, new Set(), getStartingAbility(previous)));
+        });
+    }, [questions, chapter.id]);
+
+    const item = current >= 0 ? questions[current] : null;
+
+    const handleSelect = (oIdx: number) => {
+        if (selected !== null || !item || !ratings) return;
+        setSelected(oIdx);
+        const correct = oIdx === item.correctAnswer;
+        setAbility(a => updateAbility(a, ratings[current], correct));
+        setAnswers(prev => [...prev, { item, correct, unsure }]);
+    };
+
+    const handleNext = () => {
+        if (!ratings) return;
+        const nextUsed = new Set(used).add(current);
+        setUsed(nextUsed);
+        setSelected(null);
+        setUnsure(false);
+        const next = nextUsed.size < sessionLength ? pickNextQuestion(ratings, nextUsed, ability) : -1;
+        if (next === -1) {
+            setFinished(true);
+            onComplete(answers, ability, Math.round((Date.now() - startedAt.current) / 1000));
+        } else {
+            setCurrent(next);
+        }
+    };
+
+    const masteryPct = mastery ? getMasteryScore(mastery) : 0;
+    const level = MASTERY_LEVEL_LABELS[getMasteryLevel(masteryPct)];
+    const correctCount = answers.filter(a => a.correct).length;
+
+    return (
+        <div className="bg-slate-50 min-h-screen pb-20 animate-in fade-in">
+            {/* HEADER */}
+            <div className="sticky top-0 z-20 bg-white border-b border-slate-100 shadow-sm p-4 flex items-center gap-3">
+                <button onClick={onBack} className="p-2 hover:bg-slate-100 rounded-full text-slate-600"><ArrowLeft size={20} /></button>
+                <div className="flex-1">
+                    <h3 className="font-bold text-slate-800 leading-tight line-clamp-1">{chapter.title}</h3>
+                    <p className="text-xs text-slate-500">{subject.name} • Adaptive Practice{!finished && ratings ? ` • ${used.size + 1}/${sessionLength}` : ''}</p>
+                </div>
+                <div className="flex items-center gap-1 bg-emerald-50 px-3 py-1 rounded-full border border-emerald-100">
+                    <TrendingUp size={14} className="text-emerald-600" />
+                    <span className="font-black text-emerald-800 text-xs">{level}</span>
+                </div>
+            </div>
+
+            <div className="p-4 max-w-2xl mx-auto">
+                {!ratings && <p className="text-center py-8 text-slate-500 font-bold animate-pulse">Preparing questions...</p>}
+
+                {/* QUESTION */}
+                {ratings && item && !finished && (
+                    <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
+                        <span className="text-[10px] font-bold uppercase text-slate-400">{QUESTION_DIFFICULTY_LABELS[ratingToDifficulty(ratings[current])]}</span>
+                        <h4 className="font-bold text-slate-800 mt-1 mb-4 leading-relaxed">{item.question}</h4>
+                        <div className="space-y-2">
+                            {item.options.map((opt, oIdx) => {
+                                let cls = 'bg-white border-slate-200 text-slate-700 hover:bg-slate-50';
+                                if (selected !== null) {
+                                    if (oIdx === item.correctAnswer) cls = 'bg-green-50 border-green-500 text-green-700';
+                                    else if (oIdx === selected) cls = 'bg-red-50 border-red-500 text-red-700';
+                                    else cls = 'bg-slate-50 border-slate-100 opacity-50';
+                                }
+                                return (
+                                    <button key={oIdx} disabled={selected !== null} onClick={() => handleSelect(oIdx)} className={`w-full text-left p-3 rounded-xl border-2 text-sm font-bold transition-all flex justify-between items-center ${cls}`}>
+                                        {opt}
+                                        {selected !== null && oIdx === item.correctAnswer && <CheckCircle size={16} className="text-green-600" />}
+                                        {selected === oIdx && oIdx !== item.correctAnswer && <XCircle size={16} className="text-red-500" />}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                        {selected === null ? (
+                            <button onClick={() => setUnsure(!unsure)} className={`mt-3 text-[10px] font-bold px-3 py-1 rounded-full border ${unsure ? 'bg-amber-100 text-amber-700 border-amber-200' : 'bg-white text-slate-400 border-slate-200'}`}>
+                                {unsure ? '🤔 Marked Not Sure' : 'Not Sure?'}
+                            </button>
+                        ) : (
+                            <>
+                                {item.explanation && item.explanation !== "Answer Key Provided" && (
+                                    <div className="mt-4 text-sm text-slate-600 bg-slate-50 p-4 rounded-xl border border-slate-100">{item.explanation}</div>
+                                )}
+                                <button onClick={handleNext} className="mt-4 w-full bg-slate-900 text-white font-bold py-3 rounded-xl active:scale-95">
+                                    {used.size + 1 < sessionLength ? 'Next' : 'Finish'}
+                                </button>
+                            </>
+                        )}
+                    </div>
+                )}
+
+                {/* MASTERY SUMMARY */}
+                {finished && (
+                    <div className="bg-white p-8 rounded-2xl border border-slate-200 text-center">
+                        <TrendingUp size={40} className="mx-auto text-emerald-500 mb-3" />
+                        <p className="text-xs font-bold text-slate-400 uppercase">Chapter Mastery</p>
+                        <h4 className="text-3xl font-black text-slate-800">{masteryPct}%</h4>
+                        <p className="font-bold text-emerald-600 mb-2">{level}</p>
+                        <p className="text-sm text-slate-500 mb-4">{correctCount}/{answers.length} correct{previous && hasEnoughData(previous) ? ` • was ${getMasteryScore(previous)}% before` : ''}</p>
+                        <button onClick={onBack} className="bg-emerald-600 text-white font-bold px-6 py-3 rounded-xl">Done</button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
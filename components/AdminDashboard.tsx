@@ -1,17 +1,32 @@
 
 import React, { useEffect, useState, useRef } from 'react';
-import { User, ViewState, SystemSettings, Subject, Chapter, MCQItem, RecoveryRequest, ActivityLogEntry, LeaderboardEntry, RecycleBinItem, Stream, Board, ClassLevel, GiftCode, SubscriptionPlan, CreditPackage, WatermarkConfig, SpinReward, HtmlModule, PremiumNoteSlot, ContentInfoConfig, ContentInfoItem } from '../types';
-import { Users, Search, Trash2, Save, X, Eye, Shield, Megaphone, CheckCircle, ListChecks, Database, FileText, Monitor, Sparkles, Banknote, BrainCircuit, AlertOctagon, ArrowLeft, Key, Bell, ShieldCheck, Lock, Globe, Layers, Zap, PenTool, RefreshCw, RotateCcw, Plus, LogOut, Download, Upload, CreditCard, Ticket, Video, Image as ImageIcon, Type, Link, FileJson, Activity, AlertTriangle, Gift, Book, Mail, Edit3, MessageSquare, ShoppingBag, Cloud, Rocket, Code2, Layers as LayersIcon, Wifi, WifiOff, Copy, Crown, Gamepad2, Calendar, BookOpen, Image, HelpCircle, Youtube } from 'lucide-react';
+import { User, ViewState, SystemSettings, Subject, Chapter, MCQItem, RecoveryRequest, ActivityLogEntry, LeaderboardEntry, RecycleBinItem, Stream, Board, ClassLevel, GiftCode, InboxMessage, SubscriptionPlan, CreditPackage, WatermarkConfig, SpinReward, HtmlModule, PremiumNoteSlot, ContentInfoConfig, ContentInfoItem, CreditTransaction, CreditTxnType, GiftCampaign, GiftReward, SpinAuditEntry, SpinBudgetUsage, AccessLevel, WeeklyTest, PublicWeeklyTest, MarkingScheme, WeeklyTestSection, QuestionPoolRule, BankQuestion, TestSubmission } from '../types';
+import { Users, Search, Trash2, Save, X, Eye, Shield, Megaphone, CheckCircle, ListChecks, Database, FileText, Monitor, Sparkles, Banknote, BrainCircuit, AlertOctagon, ArrowLeft, Key, Bell, ShieldCheck, Lock, Globe, Layers, Zap, PenTool, RefreshCw, RotateCcw, Plus, LogOut, Download, Upload, CreditCard, Ticket, Video, Image as ImageIcon, Type, Link, FileJson, Activity, AlertTriangle, Gift, Book, Mail, Edit3, MessageSquare, ShoppingBag, Cloud, Rocket, Code2, Layers as LayersIcon, Wifi, WifiOff, Copy, Crown, Gamepad2, Calendar, BookOpen, Image, HelpCircle, Youtube, Receipt } from 'lucide-react';
 import { getSubjectsList, DEFAULT_SUBJECTS, DEFAULT_APP_FEATURES, DEFAULT_CONTENT_INFO_CONFIG } from '../constants';
 import { fetchChapters, fetchLessonContent } from '../services/gemini';
-import { saveChapterData, bulkSaveLinks, checkFirebaseConnection, saveSystemSettings, subscribeToUsers, rtdb, saveUserToLive, db, getChapterData } from '../firebase'; // IMPORT FIREBASE
-import { ref, set, onValue, update, push } from "firebase/database";
-import { doc, deleteDoc } from "firebase/firestore";
+import { saveChapterData, bulkSaveLinks, checkConnection, saveSystemSettings, subscribeToUsers, updateUserFields, saveUserChanges, deleteUser as deleteUserRecord, getChapterData, saveUserEntitlement, removeUserEntitlement, getCreditLedger, saveGiftCampaign, getGiftCampaigns, getCampaignCodes, getSpinAudit, getSpinBudgetUsage, sendPasswordReset, saveWeeklyTest, deleteWeeklyTest, subscribeToWeeklyTests, runLocalEvaluator, saveBankQuestion, getQuestionBank, getTestSubmissions, postUniversalUpdate, subscribeToRecoveryRequests, resolveRecoveryRequest } from '../storage'; // IMPORT FIREBASE
+import { createEntitlement, withEntitlement, withoutEntitlement, listEntitlements } from '../utils/entitlements';
+import { buildAccessMatrix } from '../utils/accessPolicy';
+import { normalizeSpinRewards, getSpinOdds, getSpinWeightWarnings, getBudgetCounts, isSpinRewardCapped } from '../utils/spinWheel';
+import { buildCampaignCodes, getCampaignStats, campaignCodesToCsv, describeGiftReward } from '../utils/giftCodes';
+import { downloadCsv, safeFileName } from '../utils/csv';
+import { canPublishResults, getTestPhase, WEEKLY_TEST_PHASE_LABELS } from '../utils/testSchedule';
+import { validateSections } from '../utils/testSections';
+import { getPoolQuestionCount, snapshotPool } from '../utils/questionBank';
+import { createAttemptSeed } from '../utils/testShuffle';
+import { getIntegrityScore, getIntegrityTone, describeIntegrityLog } from '../utils/proctoring';
+import { applyCreditChange, reverseCreditTransaction, deriveBalance, isReversed, sortLedger, CREDIT_TXN_LABELS } from '../utils/creditLedger';
 import { SimpleRichTextEditor } from './SimpleRichTextEditor';
 import { ImageCropper } from './ImageCropper';
 import { DEFAULT_SYLLABUS, MonthlySyllabus } from '../syllabus_data';
 import { CustomAlert } from './CustomDialogs';
 import { AdminDevAssistant } from './AdminDevAssistant';
+import { MarkingSchemeEditor } from './MarkingSchemeEditor';
+import { TestSectionsEditor } from './TestSectionsEditor';
+import { PoolRulesEditor } from './PoolRulesEditor';
+import { QuestionBankManager } from './QuestionBankManager';
+import { PrizeRulesManager } from './PrizeRulesManager';
+import { TestResultsConsole } from './TestResultsConsole';
 import { UniversalChat } from './UniversalChat';
 // @ts-ignore
 import JSZip from 'jszip';
@@ -67,7 +82,9 @@ type AdminTab =
   | 'CONFIG_CHAT'
   | 'CONFIG_FEATURES'
   | 'CONFIG_INFO' // NEW: Info Popups
-  | 'UNIVERSAL_PLAYLIST';
+  | 'UNIVERSAL_PLAYLIST'
+  | 'QUESTION_BANK'
+  | 'PRIZE_RULES';
 
 interface ContentConfig {
     freeLink?: string;
@@ -99,6 +116,8 @@ interface ContentConfig {
     premiumNoteSlots?: PremiumNoteSlot[]; // NEW: 20 Slots for Premium Notes
     manualMcqData?: MCQItem[];
     weeklyTestMcqData?: MCQItem[];
+    markingScheme?: MarkingScheme; // Chapter test marking
+    poolRules?: QuestionPoolRule[]; // Chapter test drawn from the Question Bank
 }
 
 export const AdminDashboard: React.FC<Props> = ({ onNavigate, settings, onUpdateSettings, onImpersonate, logActivity }) => {
@@ -106,6 +125,22 @@ export const AdminDashboard: React.FC<Props> = ({ onNavigate, settings, onUpdate
   const [activeTab, setActiveTab] = useState<AdminTab>('DASHBOARD');
   const [universalVideos, setUniversalVideos] = useState<any[]>([]);
 
+  // GIFT CAMPAIGNS LOADER
+  useEffect(() => {
+      if (activeTab === 'CODES') {
+          getGiftCampaigns().then(list => setGiftCampaigns(list.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())));
+      }
+  }, [activeTab]);
+
+  // SPIN AUDIT LOADER
+  useEffect(() => {
+      if (activeTab === 'CONFIG_GAME') {
+          setSpinAudit(null);
+          getSpinAudit().then(setSpinAudit);
+          getSpinBudgetUsage().then(setSpinBudget);
+      }
+  }, [activeTab]);
+
   // UNIVERSAL PLAYLIST LOADER
   useEffect(() => {
       if (activeTab === 'UNIVERSAL_PLAYLIST') {
@@ -286,7 +321,7 @@ export const AdminDashboard: React.FC<Props> = ({ onNavigate, settings, onUpdate
   // --- USER EDIT MODAL STATE ---
   const [editingUser, setEditingUser] = useState<User | null>(null);
   const [editUserCredits, setEditUserCredits] = useState(0);
-  const [editUserPass, setEditUserPass] = useState('');
+  const [resetLinkStatus, setResetLinkStatus] = useState<'IDLE' | 'SENDING' | 'SENT' | 'FAILED'>('IDLE');
   const [dmText, setDmText] = useState('');
   const [dmUser, setDmUser] = useState<User | null>(null);
   const [giftType, setGiftType] = useState<'NONE' | 'CREDITS' | 'SUBSCRIPTION' | 'ANIMATION'>('NONE');
@@ -298,6 +333,19 @@ export const AdminDashboard: React.FC<Props> = ({ onNavigate, settings, onUpdate
   const [editSubscriptionHours, setEditSubscriptionHours] = useState(0);
   const [editSubscriptionMinutes, setEditSubscriptionMinutes] = useState(0);
   const [editSubscriptionPrice, setEditSubscriptionPrice] = useState(999);
+
+  // --- USER PURCHASES (ENTITLEMENTS) MODAL STATE ---
+  const [purchasesUser, setPurchasesUser] = useState<User | null>(null);
+  const [grantContentKey, setGrantContentKey] = useState('');
+  const [grantSlotKind, setGrantSlotKind] = useState<'PDF_PREMIUM_SCHOOL' | 'PDF_PREMIUM_COMPETITION' | 'PDF_ULTRA' | 'MODULE' | 'VIDEO_SCHOOL' | 'VIDEO_COMPETITION'>('PDF_PREMIUM_SCHOOL');
+  const [grantSlotIndex, setGrantSlotIndex] = useState(0);
+  const [grantTitle, setGrantTitle] = useState('');
+
+  // --- USER CREDIT LEDGER (AUDIT) MODAL STATE ---
+  const [ledgerUser, setLedgerUser] = useState<User | null>(null);
+  const [ledgerTxns, setLedgerTxns] = useState<CreditTransaction[]>([]);
+  const [ledgerFilter, setLedgerFilter] = useState<CreditTxnType | 'ALL'>('ALL');
+  const [ledgerLoading, setLedgerLoading] = useState(false);
   
   // SUBSCRIPTION PRICES (ADMIN CUSTOMIZABLE)
   const [subPrices, setSubPrices] = useState<{WEEKLY: number, MONTHLY: number, YEARLY: number, LIFETIME: number}>({
@@ -382,8 +430,23 @@ export const AdminDashboard: React.FC<Props> = ({ onNavigate, settings, onUpdate
   const [newCodeCount, setNewCodeCount] = useState(1);
   const [newCodeMaxUses, setNewCodeMaxUses] = useState(1); // Default 1 (Single Use)
 
+  // --- GIFT CAMPAIGN STATE ---
+  const [giftCampaigns, setGiftCampaigns] = useState<GiftCampaign[]>([]);
+  const [campaignName, setCampaignName] = useState('');
+  const [campaignReward, setCampaignReward] = useState<GiftReward>({ type: 'CREDITS', tier: 'WEEKLY', level: 'BASIC', durationHours: 24 });
+  const [campaignExpiry, setCampaignExpiry] = useState(''); // YYYY-MM-DD
+  const [campaignClasses, setCampaignClasses] = useState<ClassLevel[]>([]);
+  const [campaignBoards, setCampaignBoards] = useState<Board[]>([]);
+  const [campaignNewUsersOnly, setCampaignNewUsersOnly] = useState(false);
+  const [campaignNewUserDays, setCampaignNewUserDays] = useState(7);
+  const [statsCampaign, setStatsCampaign] = useState<GiftCampaign | null>(null);
+  const [statsCodes, setStatsCodes] = useState<GiftCode[]>([]);
+
   // --- SPIN GAME CONFIG STATE ---
   const [newReward, setNewReward] = useState<SpinReward>({ id: '', type: 'COINS', value: 10, label: '10 Coins', color: '#3b82f6' });
+  const [spinAudit, setSpinAudit] = useState<SpinAuditEntry[] | null>(null);
+  const [spinBudget, setSpinBudget] = useState<Record<string, SpinBudgetUsage>>({});
+  const [wheelTable, setWheelTable] = useState<'DEFAULT' | AccessLevel>('DEFAULT');
 
   // --- CHAT MANAGER STATE ---
   const [newRoomName, setNewRoomName] = useState('');
@@ -403,35 +466,114 @@ export const AdminDashboard: React.FC<Props> = ({ onNavigate, settings, onUpdate
   const [testSelectedSubjects, setTestSelectedSubjects] = useState<string[]>([]);
   const [testSelectedChapters, setTestSelectedChapters] = useState<string[]>([]);
   const [testClassLevel, setTestClassLevel] = useState<ClassLevel>('10');
+  const [testOpensAt, setTestOpensAt] = useState(''); // datetime-local, empty = open now
+  const [testClosesAt, setTestClosesAt] = useState('');
+  const [testFixedStartAt, setTestFixedStartAt] = useState('');
+  const [testLateEntryMinutes, setTestLateEntryMinutes] = useState('');
+  const [testMarkingScheme, setTestMarkingScheme] = useState<MarkingScheme | undefined>(undefined);
+  const [testSections, setTestSections] = useState<WeeklyTestSection[]>([]);
+  const [testShuffleQuestions, setTestShuffleQuestions] = useState(true);
+  const [testShuffleOptions, setTestShuffleOptions] = useState(true);
+  const [testPoolRules, setTestPoolRules] = useState<QuestionPoolRule[]>([]);
+  const [testMaxViolations, setTestMaxViolations] = useState(''); // Empty = never auto-submit
+  const [testIdleMinutes, setTestIdleMinutes] = useState('');
+  const [testRequireFullscreen, setTestRequireFullscreen] = useState(false);
+  const [submissionsTest, setSubmissionsTest] = useState<PublicWeeklyTest | null>(null);
+  const [testSubmissions, setTestSubmissions] = useState<TestSubmission[]>([]);
+  const [resultsTest, setResultsTest] = useState<PublicWeeklyTest | null>(null);
+  const [weeklyTests, setWeeklyTests] = useState<PublicWeeklyTest[]>([]);
+  const [evaluatingTestId, setEvaluatingTestId] = useState<string | null>(null);
+
+  useEffect(() => {
+      const unsub = subscribeToWeeklyTests(setWeeklyTests);
+      return () => unsub();
+  }, []);
+
+  // Legacy tests (answer key inside settings) move to weekly_tests + weekly_test_keys
+  useEffect(() => {
+      const legacy = localSettings.weeklyTests;
+      if (!legacy || legacy.length === 0) return;
+      Promise.all(legacy.map(t => saveWeeklyTest(t))).then(() => {
+          const { weeklyTests: _legacy, ...rest } = localSettings;
+          setLocalSettings(rest);
+          localStorage.setItem('nst_system_settings', JSON.stringify(rest));
+          saveSystemSettings(rest);
+      }).catch(() => {});
+  }, [localSettings.weeklyTests]);
 
   // --- WEEKLY TEST SAVE HANDLER (NEW) ---
-  const handleSaveWeeklyTest = () => {
-      if (!testName || editingTestMcqs.length === 0) {
-          alert("Please provide a Test Name and add at least one question.");
+  const handleSaveWeeklyTest = async () => {
+      // Pool tests draw their questions per attempt, the editor list is ignored
+      const isPoolTest = testPoolRules.length > 0;
+      const questionCount = isPoolTest ? getPoolQuestionCount(testPoolRules) : editingTestMcqs.length;
+      if (!testName || questionCount === 0) {
+          alert("Please provide a Test Name and add at least one question (or a draw rule).");
+          return;
+      }
+
+      const toIso = (local: string) => local ? new Date(local).toISOString() : undefined;
+      const opensAt = toIso(testOpensAt);
+      const closesAt = toIso(testClosesAt);
+      const fixedStartAt = toIso(testFixedStartAt);
+      if (opensAt && closesAt && closesAt <= opensAt) {
+          alert("Closing time must be after the opening time.");
+          return;
+      }
+      if (fixedStartAt && ((opensAt && fixedStartAt < opensAt) || (closesAt && fixedStartAt >= closesAt))) {
+          alert("Common start must be inside the test window.");
+          return;
+      }
+      const sectionError = testSections.length ? validateSections(testSections, questionCount) : null;
+      if (sectionError) {
+          alert(sectionError);
+          return;
+      }
+      // Every draw for this test replays from the pool as it is now (see snapshotPool)
+      const poolQuestions = isPoolTest ? snapshotPool(testPoolRules, await getQuestionBank()) : undefined;
+      if (poolQuestions && Object.keys(poolQuestions).length === 0) {
+          alert("No reserved questions in the Question Bank match these draw rules.");
           return;
       }
 
-      const newTest = {
+      const newTest: WeeklyTest = {
           id: `test-${Date.now()}`,
           name: testName,
           description: testDesc,
           isActive: true,
           classLevel: testClassLevel,
-          questions: editingTestMcqs,
-          totalQuestions: editingTestMcqs.length,
+          questions: isPoolTest ? [] : editingTestMcqs,
+          totalQuestions: questionCount,
           passingScore: testPassScore,
           createdAt: new Date().toISOString(),
           durationMinutes: testDuration,
           selectedSubjects: testSelectedSubjects,
           selectedChapters: testSelectedChapters,
-          autoSubmitEnabled: true
+          autoSubmitEnabled: true,
+          opensAt,
+          closesAt,
+          fixedStartAt,
+          lateEntryMinutes: testLateEntryMinutes !== '' ? Number(testLateEntryMinutes) : undefined,
+          markingScheme: testMarkingScheme,
+          sections: testSections.length ? [...testSections].sort((a, b) => a.fromQuestion - b.fromQuestion) : undefined,
+          shuffleQuestions: testShuffleQuestions,
+          shuffleOptions: testShuffleOptions,
+          poolRules: isPoolTest ? testPoolRules : undefined,
+          poolSeed: isPoolTest ? createAttemptSeed() : undefined,
+          poolQuestions,
+          proctoring: {
+              maxViolations: testMaxViolations !== '' ? Number(testMaxViolations) : undefined,
+              idleMinutes: testIdleMinutes !== '' ? Number(testIdleMinutes) : undefined,
+              requireFullscreen: testRequireFullscreen
+          }
       };
 
-      const updatedTests = [...(localSettings.weeklyTests || []), newTest];
-      setLocalSettings({...localSettings, weeklyTests: updatedTests});
-      
-      // Save immediately
-      localStorage.setItem('nst_system_settings', JSON.stringify({...localSettings, weeklyTests: updatedTests}));
+      // Saved outside settings so students never download the answer key
+      try {
+          await saveWeeklyTest(newTest);
+      } catch (e) {
+          alert("❌ Could not save the test. Check your connection.");
+          return;
+      }
       
       // Reset Form
       setTestName('');
@@ -439,20 +581,78 @@ export const AdminDashboard: React.FC<Props> = ({ onNavigate, settings, onUpdate
       setEditingTestMcqs([]);
       setTestSelectedSubjects([]);
       setTestSelectedChapters([]);
+      setTestOpensAt('');
+      setTestClosesAt('');
+      setTestFixedStartAt('');
+      setTestLateEntryMinutes('');
+      setTestMarkingScheme(undefined);
+      setTestSections([]);
+      setTestShuffleQuestions(true);
+      setTestShuffleOptions(true);
+      setTestPoolRules([]);
+      setTestMaxViolations('');
+      setTestIdleMinutes('');
+      setTestRequireFullscreen(false);
       alert("✅ Weekly Test Created Successfully!");
   };
 
+  // Migration path: chapter MCQs become bank questions tagged with this chapter
+  const addChapterMcqsToBank = async () => {
+      if (!selSubject || !editingChapterId || editingMcqs.length === 0) return;
+      const difficulty = (window.prompt("Difficulty for questions without one set (EASY / MEDIUM / HARD):", "MEDIUM") || '').trim().toUpperCase();
+      if (!['EASY', 'MEDIUM', 'HARD'].includes(difficulty)) return;
+      const now = new Date().toISOString();
+      const chapterTitle = selChapters.find(c => c.id === editingChapterId)?.title || editingChapterId;
+      try {
+          await Promise.all(editingMcqs.map((q, i) => saveBankQuestion({
+              ...q,
+              id: `q-${Date.now()}-${i}`,
+              subjectId: selSubject.id,
+              chapterId: editingChapterId,
+              chapterTitle,
+              difficulty: q.difficulty || difficulty as BankQuestion['difficulty'],
+              tags: [],
+              createdAt: now,
+              updatedAt: now
+          })));
+          alert(`✅ Added ${editingMcqs.length} questions to the Question Bank.`);
+      } catch (e) {
+          alert("❌ Could not add the questions. Check your connection.");
+      }
+  };
+
+  const openSubmissions = async (test: PublicWeeklyTest) => {
+      setSubmissionsTest(test);
+      setTestSubmissions([]);
+      const subs = await getTestSubmissions(test.id);
+      setTestSubmissions(subs.sort((a, b) => getIntegrityScore(a.integrityLog) - getIntegrityScore(b.integrityLog)));
+  };
+
+  // The only way results get made: runs the evaluator in this browser (Admin can read the key)
+  const handleEvaluateTest = async (test: PublicWeeklyTest) => {
+      if (!canPublishResults(test)) {
+          alert(test.closesAt
+              ? `Results can be published after the test closes (${new Date(test.closesAt).toLocaleString()}).`
+              : "This test has no closing time. Deactivate it first, so no one is still answering, then publish results.");
+          return;
+      }
+      setEvaluatingTestId(test.id);
+      const ranked = await runLocalEvaluator(test.id);
+      setEvaluatingTestId(null);
+      alert(ranked.length ? `✅ Evaluated ${ranked.length} submission(s). Results, ranks and the answer key are now visible to students. Active prize rules have been applied.` : "No submissions to evaluate yet.");
+  };
+
   // --- INITIAL LOAD & AUTO REFRESH ---
   useEffect(() => {
       loadData();
       
       // Initial Check
-      setIsFirebaseConnected(checkFirebaseConnection());
+      setIsFirebaseConnected(checkConnection());
       
       const interval = setInterval(() => {
           loadData();
           // Poll Connection Status
-          setIsFirebaseConnected(checkFirebaseConnection());
+          setIsFirebaseConnected(checkConnection());
       }, 5000); 
 
       // SUBSCRIBE TO USERS (Live Sync)
@@ -486,15 +686,8 @@ export const AdminDashboard: React.FC<Props> = ({ onNavigate, settings, onUpdate
       });
 
       // SUBSCRIBE TO RECOVERY REQUESTS (Live Sync)
-      const reqRef = ref(rtdb, 'recovery_requests');
-      const unsubReqs = onValue(reqRef, (snapshot) => {
-          const data = snapshot.val();
-          if (data) {
-              const reqList: RecoveryRequest[] = Object.values(data);
-              setRecoveryRequests(reqList.sort((a,b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()));
-          } else {
-              setRecoveryRequests([]);
-          }
+      const unsubReqs = subscribeToRecoveryRequests((reqList) => {
+          setRecoveryRequests(reqList.sort((a,b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()));
       });
 
       return () => {
@@ -900,9 +1093,7 @@ export default {
           
           // Cloud Update
           if (isFirebaseConnected) {
-              try {
-                  await deleteDoc(doc(db, "users", userId));
-              } catch(e) { console.error("Cloud Delete Error:", e); }
+              await deleteUserRecord(userId);
           }
 
           logActivity("USER_DELETE", `Moved user ${userId} to Recycle Bin`);
@@ -912,7 +1103,7 @@ export default {
   const openEditUser = (user: User) => {
       setEditingUser(user);
       setEditUserCredits(user.credits);
-      setEditUserPass(user.password);
+      setResetLinkStatus('IDLE');
       setEditSubscriptionTier(user.subscriptionTier || 'FREE');
       setEditSubscriptionLevel(user.subscriptionLevel || 'BASIC');
       setEditSubscriptionDays(30);
@@ -932,10 +1123,12 @@ export default {
           endDate = new Date(Date.now() + totalMs).toISOString();
       }
 
+      // Credit edits go through the ledger so the audit trail matches the balance
+      const creditDiff = editUserCredits - (editingUser.credits || 0);
+      const { user: creditedUser, txn } = applyCreditChange(editingUser, creditDiff, 'ADMIN_ADJUST', { note: 'Edited by Admin', actor: 'ADMIN' });
+
       const updatedUser = { 
-          ...editingUser, 
-          credits: editUserCredits, 
-          password: editUserPass,
+          ...creditedUser, 
           subscriptionTier: editSubscriptionTier,
           subscriptionLevel: editSubscriptionLevel,
           subscriptionEndDate: endDate,
@@ -947,15 +1140,105 @@ export default {
       setUsers(updatedList);
       localStorage.setItem('nst_users', JSON.stringify(updatedList));
 
-      // Cloud Sync
-      if (isFirebaseConnected) {
-          await saveUserToLive(updatedUser);
-      }
+      // Cloud Sync (always: coin changes must reach the ledger, offline writes are queued)
+      await saveUserChanges(editingUser, updatedUser, creditDiff !== 0 ? [txn] : undefined);
 
       setEditingUser(null);
       alert(`✅ ${editingUser.name} now has ${editSubscriptionTier} subscription until ${endDate ? new Date(endDate).toLocaleDateString() : 'N/A'}`);
   };
 
+  // Passwords are owned by Firebase Auth: admin can only trigger a reset email
+  const sendUserPasswordReset = async () => {
+      if (!editingUser?.email) return;
+      setResetLinkStatus('SENDING');
+      const ok = await sendPasswordReset(editingUser.email);
+      setResetLinkStatus(ok ? 'SENT' : 'FAILED');
+      if (ok) logActivity("PASSWORD_RESET", `Reset link sent to ${editingUser.id}`);
+  };
+
+  // --- USER PURCHASES (Grant / Revoke) ---
+  const applyEntitlementChange = (updatedUser: User) => {
+      const updatedList = users.map(u => u.id === updatedUser.id ? updatedUser : u);
+      setUsers(updatedList);
+      localStorage.setItem('nst_users', JSON.stringify(updatedList));
+      setPurchasesUser(updatedUser);
+  };
+
+  const grantUserEntitlement = async () => {
+      if (!purchasesUser || !grantContentKey.trim()) return;
+
+      let slot: string = grantSlotKind;
+      if (grantSlotKind === 'MODULE') slot = `MODULE_html-${grantSlotIndex}`;
+      else if (grantSlotKind === 'VIDEO_SCHOOL' || grantSlotKind === 'VIDEO_COMPETITION') slot = `${grantSlotKind}_${grantSlotIndex}`;
+      const type = slot.startsWith('VIDEO_') ? 'VIDEO' : slot.startsWith('MODULE_') ? 'MODULE' : 'PDF';
+
+      const entitlement = createEntitlement(grantContentKey.trim(), slot, type, grantTitle.trim() || slot, 0, 'ADMIN_GRANT');
+      applyEntitlementChange(withEntitlement(purchasesUser, entitlement));
+
+      // Cloud Sync (Field level, doesn't overwrite the student's live data)
+      if (isFirebaseConnected) {
+          await saveUserEntitlement(purchasesUser.id, entitlement);
+      }
+      logActivity("ENTITLEMENT_GRANT", `Granted ${entitlement.id} to ${purchasesUser.id}`);
+      setGrantTitle('');
+  };
+
+  const revokeUserEntitlement = async (entitlementId: string) => {
+      if (!purchasesUser) return;
+      if (!window.confirm("Revoke this purchase? The student will have to pay again to open it.")) return;
+
+      applyEntitlementChange(withoutEntitlement(purchasesUser, entitlementId));
+
+      if (isFirebaseConnected) {
+          await removeUserEntitlement(purchasesUser.id, entitlementId);
+      }
+      logActivity("ENTITLEMENT_REVOKE", `Revoked ${entitlementId} from ${purchasesUser.id}`);
+  };
+
+  // --- USER CREDIT LEDGER (Audit / Refund) ---
+  const openUserLedger = async (u: User) => {
+      setLedgerUser(u);
+      setLedgerFilter('ALL');
+      setLedgerTxns([]);
+      setLedgerLoading(true);
+      const txns = await getCreditLedger(u.id);
+      setLedgerTxns(sortLedger(txns));
+      setLedgerLoading(false);
+  };
+
+  const commitLedgerEntry = async (updatedUser: User, txn: CreditTransaction) => {
+      const updatedList = users.map(u => u.id === updatedUser.id ? updatedUser : u);
+      setUsers(updatedList);
+      localStorage.setItem('nst_users', JSON.stringify(updatedList));
+      setLedgerUser(updatedUser);
+      setLedgerTxns(prev => sortLedger([...prev, txn]));
+
+      // Balance and entry together, connected or not (offline writes are queued)
+      await saveUserChanges(ledgerUser!, updatedUser, [txn]);
+  };
+
+  const reverseLedgerEntry = async (original: CreditTransaction) => {
+      if (!ledgerUser) return;
+      const action = original.amount < 0 ? 'Refund' : 'Reverse';
+      if (!window.confirm(`${action} ${Math.abs(original.amount)} coins (${CREDIT_TXN_LABELS[original.type]})?`)) return;
+
+      const { user: updatedUser, txn } = reverseCreditTransaction(ledgerUser, original);
+      await commitLedgerEntry(updatedUser, txn);
+      logActivity("CREDIT_REVERSAL", `${action} ${original.id} for ${ledgerUser.id}`);
+  };
+
+  // Records the gap between the live balance and the ledger (balances from before the ledger existed)
+  const reconcileLedger = async () => {
+      if (!ledgerUser) return;
+      const diff = (ledgerUser.credits || 0) - deriveBalance(ledgerTxns);
+      if (diff === 0) return;
+      if (!window.confirm(`Record an opening balance entry of ${diff > 0 ? '+' : ''}${diff} coins?`)) return;
+
+      const { txn } = applyCreditChange({ ...ledgerUser, credits: deriveBalance(ledgerTxns) }, diff, 'OPENING_BALANCE', { note: 'Reconciled by Admin', actor: 'ADMIN' });
+      await commitLedgerEntry(ledgerUser, txn);
+      logActivity("CREDIT_RECONCILE", `Opening balance ${diff} for ${ledgerUser.id}`);
+  };
+
   const sendDirectMessage = async () => {
       if (!dmUser || !dmText) return;
       
@@ -968,7 +1251,7 @@ export default {
           };
       }
 
-      const newMsg = { 
+      const newMsg: InboxMessage = { 
           id: `msg-${Date.now()}`, 
           text: dmText, 
           date: new Date().toISOString(), 
@@ -985,7 +1268,7 @@ export default {
       
       // Cloud Sync
       if (isFirebaseConnected) {
-          await saveUserToLive(updatedUser);
+          await updateUserFields(dmUser.id, { arrayUnion: { inbox: [newMsg] } });
       }
 
       setDmUser(null);
@@ -994,36 +1277,80 @@ export default {
       alert("Message & Gift Sent!");
   };
 
-  // --- GIFT CODE MANAGER (New) ---
-  const generateCodes = () => {
-      const newCodes: GiftCode[] = [];
-      const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-      
-      for (let i = 0; i < newCodeCount; i++) {
-          // Generate 20-char random mixed case string
-          let code = '';
-          for (let j = 0; j < 20; j++) {
-              code += chars.charAt(Math.floor(Math.random() * chars.length));
-          }
+  // --- GIFT CODE MANAGER (Campaigns) ---
+  const generateCodes = async () => {
+      if (newCodeCount < 1) return;
+      if (campaignReward.type === 'CONTENT' && (!campaignReward.contentKey?.trim() || !campaignReward.slot?.trim())) {
+          alert("Content Key and Slot are required for content rewards.");
+          return;
+      }
 
-          const newGiftCode: GiftCode = {
-              id: Date.now().toString() + i,
-              code,
-              amount: newCodeAmount,
-              createdAt: new Date().toISOString(),
-              isRedeemed: false,
-              generatedBy: 'ADMIN',
-              maxUses: newCodeMaxUses,
-              usedCount: 0,
-              redeemedBy: []
-          };
-          newCodes.push(newGiftCode);
-          set(ref(rtdb, `redeem_codes/${code}`), newGiftCode); // कोड क्लाउड पर बनेगा
+      const reward: GiftReward = campaignReward.type === 'CREDITS'
+          ? { type: 'CREDITS', amount: newCodeAmount }
+          : campaignReward.type === 'SUBSCRIPTION'
+              ? { type: 'SUBSCRIPTION', tier: campaignReward.tier, level: campaignReward.level, durationHours: campaignReward.durationHours }
+              : { type: 'CONTENT', contentKey: campaignReward.contentKey?.trim(), slot: campaignReward.slot?.trim(), title: campaignReward.title?.trim() || campaignReward.slot?.trim() };
+
+      const campaign: GiftCampaign = {
+          id: `camp-${Date.now()}`,
+          name: campaignName.trim() || `Campaign ${new Date().toLocaleDateString()}`,
+          createdAt: new Date().toISOString(),
+          createdBy: 'ADMIN',
+          reward,
+          codeCount: newCodeCount,
+          maxUsesPerCode: Math.max(1, newCodeMaxUses),
+          expiresAt: campaignExpiry ? new Date(`${campaignExpiry}T23:59:59`).toISOString() : undefined,
+          targetClasses: campaignClasses.length ? campaignClasses : undefined,
+          targetBoards: campaignBoards.length ? campaignBoards : undefined,
+          newUsersOnly: campaignNewUsersOnly || undefined,
+          newUserDays: campaignNewUsersOnly ? campaignNewUserDays : undefined
+      };
+      const newCodes = buildCampaignCodes(campaign);
+
+      try {
+          await saveGiftCampaign(campaign, newCodes); // कोड क्लाउड पर बनेगा
+      } catch (e) {
+          alert("❌ Failed to save campaign. Check connection.");
+          return;
       }
+
+      setGiftCampaigns(prev => [campaign, ...prev]);
       const updated = [...newCodes, ...giftCodes];
       setGiftCodes(updated);
       localStorage.setItem('nst_admin_codes', JSON.stringify(updated));
-      alert(`${newCodeCount} Codes Generated! (Max Uses: ${newCodeMaxUses})`);
+      setCampaignName('');
+      logActivity("GIFT_CAMPAIGN", `Created ${campaign.name} (${newCodeCount} codes, ${describeGiftReward(reward)})`);
+      alert(`${newCodeCount} Codes Generated for "${campaign.name}"! (Max Uses: ${campaign.maxUsesPerCode})`);
+  };
+
+  // --- SPIN WHEEL TABLES (Default + per-tier overrides) ---
+  const getWheelTable = (): any[] => {
+      if (wheelTable === 'DEFAULT') return localSettings.wheelRewards || [];
+      return localSettings.wheelRewardsByTier?.[wheelTable] || [];
+  };
+
+  const updateWheelTable = (list: any[]) => {
+      if (wheelTable === 'DEFAULT') setLocalSettings({...localSettings, wheelRewards: list});
+      else setLocalSettings({...localSettings, wheelRewardsByTier: {...(localSettings.wheelRewardsByTier || {}), [wheelTable]: list}});
+  };
+
+  const toggleCampaignClass = (cls: ClassLevel) => {
+      setCampaignClasses(prev => prev.includes(cls) ? prev.filter(c => c !== cls) : [...prev, cls]);
+  };
+
+  const toggleCampaignBoard = (board: Board) => {
+      setCampaignBoards(prev => prev.includes(board) ? prev.filter(b => b !== board) : [...prev, board]);
+  };
+
+  const openCampaignStats = async (campaign: GiftCampaign) => {
+      setStatsCampaign(campaign);
+      setStatsCodes([]);
+      setStatsCodes(await getCampaignCodes(campaign.id));
+  };
+
+  const exportCampaignCsv = async (campaign: GiftCampaign) => {
+      const codes = await getCampaignCodes(campaign.id);
+      downloadCsv(campaignCodesToCsv(campaign, codes), `${safeFileName(campaign.name)}_codes.csv`);
   };
 
   const deleteCode = (id: string) => {
@@ -1183,7 +1510,7 @@ export default {
               type: 'CONTENT',
               timestamp: new Date().toISOString()
           };
-          push(ref(rtdb, 'universal_updates'), updateMsg);
+          postUniversalUpdate(updateMsg);
 
           alert("✅ Content Saved to Firebase Database!");
       } else {
@@ -1391,9 +1718,8 @@ export default {
 
   // --- ACCESS REQUEST HANDLERS ---
   const handleApproveRequest = async (req: RecoveryRequest) => {
-      // 1. Update Request Status in RTDB
-      const reqRef = ref(rtdb, `recovery_requests/${req.id}`);
-      await update(reqRef, { status: 'RESOLVED' });
+      // 1. Update Request Status
+      await resolveRecoveryRequest(req.id);
 
       // 2. Enable Passwordless Login for User
       const userToUpdate = users.find(u => u.id === req.id);
@@ -1401,7 +1727,7 @@ export default {
           const updatedUser = { ...userToUpdate, isPasswordless: true };
           // Save to Local & Cloud
           if (isFirebaseConnected) {
-              await saveUserToLive(updatedUser);
+              await updateUserFields(updatedUser.id, { set: { isPasswordless: true } });
           }
       }
       
@@ -1621,6 +1947,8 @@ export default {
                   </div>
 
                   <DashboardCard icon={ListChecks} label="Chapters List" onClick={() => setActiveTab('SYLLABUS_MANAGER')} color="indigo" />
+                  <DashboardCard icon={Database} label="Question Bank" onClick={() => setActiveTab('QUESTION_BANK')} color="blue" />
+                  <DashboardCard icon={Crown} label="Prize Rules" onClick={() => setActiveTab('PRIZE_RULES')} color="purple" />
                   <DashboardCard icon={MessageSquare} label="Universal Chat" onClick={() => setShowChat(true)} color="emerald" />
                   
                   <div className="col-span-2 sm:col-span-3 md:col-span-4 lg:col-span-6 h-px bg-slate-100 my-2"></div>
@@ -1652,6 +1980,10 @@ export default {
 
 
       {/* --- FEATURED CONTENT SHORTCUTS --- */}
+      {/* --- QUESTION BANK TAB --- */}
+      {activeTab === 'QUESTION_BANK' && <QuestionBankManager onBack={() => setActiveTab('DASHBOARD')} />}
+      {activeTab === 'PRIZE_RULES' && <PrizeRulesManager onBack={() => setActiveTab('DASHBOARD')} />}
+
       {activeTab === 'FEATURED_CONTENT' && (
           <div className="bg-white p-6 rounded-3xl shadow-sm border border-slate-200 animate-in slide-in-from-right">
               <div className="flex items-center gap-4 mb-6 border-b pb-4">
@@ -1944,6 +2276,62 @@ export default {
                                   <input type="number" value={testPassScore} onChange={e => setTestPassScore(Number(e.target.value))} className="w-full p-2 border border-orange-200 rounded-lg font-bold" min="0" max="100" />
                               </div>
                           </div>
+
+                          {/* Schedule */}
+                          <div className="grid grid-cols-2 gap-3">
+                              <div>
+                                  <label className="text-xs font-bold text-orange-600 uppercase block mb-1">Opens At</label>
+                                  <input type="datetime-local" value={testOpensAt} onChange={e => setTestOpensAt(e.target.value)} className="w-full p-2 border border-orange-200 rounded-lg font-bold text-sm" />
+                              </div>
+                              <div>
+                                  <label className="text-xs font-bold text-orange-600 uppercase block mb-1">Closes At</label>
+                                  <input type="datetime-local" value={testClosesAt} onChange={e => setTestClosesAt(e.target.value)} className="w-full p-2 border border-orange-200 rounded-lg font-bold text-sm" />
+                              </div>
+                              <div>
+                                  <label className="text-xs font-bold text-orange-600 uppercase block mb-1">Common Start (Optional)</label>
+                                  <input type="datetime-local" value={testFixedStartAt} onChange={e => setTestFixedStartAt(e.target.value)} className="w-full p-2 border border-orange-200 rounded-lg font-bold text-sm" />
+                              </div>
+                              <div>
+                                  <label className="text-xs font-bold text-orange-600 uppercase block mb-1">Late Entry (mins)</label>
+                                  <input type="number" value={testLateEntryMinutes} onChange={e => setTestLateEntryMinutes(e.target.value)} placeholder="No limit" className="w-full p-2 border border-orange-200 rounded-lg font-bold" min="0" />
+                              </div>
+                          </div>
+                          <p className="text-[10px] text-orange-700">Leave the window empty for an always-open test. With a common start everyone's timer runs from that time; late entry is counted from it (or from opening). Results and the answer key publish after closing.</p>
+                          <MarkingSchemeEditor value={testMarkingScheme} onChange={setTestMarkingScheme} totalQuestions={editingTestMcqs.length} />
+                          <PoolRulesEditor value={testPoolRules} onChange={setTestPoolRules} reserved />
+                          {testPoolRules.length ? <p className="text-[10px] text-orange-700 font-bold">Each student gets a fixed draw of reserved questions already in the bank when the test is created.</p> : null}
+                          <TestSectionsEditor value={testSections} onChange={setTestSections} totalQuestions={testPoolRules.length ? getPoolQuestionCount(testPoolRules) : editingTestMcqs.length} />
+                          <div className="flex flex-wrap gap-4 bg-white p-3 rounded-xl border border-slate-200">
+                              <label className="flex items-center gap-2 text-xs font-bold text-slate-700">
+                                  <input type="checkbox" checked={testShuffleQuestions} onChange={e => setTestShuffleQuestions(e.target.checked)} className="w-4 h-4 accent-orange-600" />
+                                  Shuffle Question Order (within sections)
+                              </label>
+                              <label className="flex items-center gap-2 text-xs font-bold text-slate-700">
+                                  <input type="checkbox" checked={testShuffleOptions} onChange={e => setTestShuffleOptions(e.target.checked)} className="w-4 h-4 accent-orange-600" />
+                                  Shuffle Options
+                              </label>
+                              <p className="w-full text-[10px] text-slate-400">Each student gets their own order. Results and the OMR sheet always use the order above.</p>
+                          </div>
+
+                          {/* Proctoring */}
+                          <div className="bg-white p-3 rounded-xl border border-slate-200 space-y-2">
+                              <p className="text-xs font-bold text-slate-700 uppercase">Proctoring</p>
+                              <div className="grid grid-cols-2 gap-2">
+                                  <div>
+                                      <label className="text-[10px] font-bold text-slate-500 uppercase block mb-1">Auto-Submit After (violations)</label>
+                                      <input type="number" min="1" value={testMaxViolations} onChange={e => setTestMaxViolations(e.target.value)} placeholder="Never" className="w-full p-2 border border-slate-200 rounded-lg font-bold text-sm" />
+                                  </div>
+                                  <div>
+                                      <label className="text-[10px] font-bold text-slate-500 uppercase block mb-1">Idle After (mins)</label>
+                                      <input type="number" min="1" value={testIdleMinutes} onChange={e => setTestIdleMinutes(e.target.value)} placeholder="3" className="w-full p-2 border border-slate-200 rounded-lg font-bold text-sm" />
+                                  </div>
+                              </div>
+                              <label className="flex items-center gap-2 text-xs font-bold text-slate-700">
+                                  <input type="checkbox" checked={testRequireFullscreen} onChange={e => setTestRequireFullscreen(e.target.checked)} className="w-4 h-4 accent-orange-600" />
+                                  Require Fullscreen
+                              </label>
+                              <p className="text-[10px] text-slate-400">Tab switches, fullscreen exits, copy/paste and idle periods are always logged with the submission.</p>
+                          </div>
                       </div>
 
                       {/* Subject & Chapter Selection (Enhanced) */}
@@ -2055,26 +2443,72 @@ Capital of India?       Mumbai  Delhi   Kolkata Chennai 2       Delhi is the cap
 
                       {/* Save Button */}
                       <button onClick={handleSaveWeeklyTest} className="w-full bg-gradient-to-r from-orange-500 to-red-600 text-white font-black py-4 rounded-xl shadow-lg hover:shadow-xl text-lg">
-                          ✅ Create Weekly Test ({editingTestMcqs.length} Questions)
+                          ✅ Create Weekly Test ({testPoolRules.length ? `${getPoolQuestionCount(testPoolRules)} Drawn` : editingTestMcqs.length} Questions)
                       </button>
 
                       {/* Existing Tests */}
-                      {localSettings.weeklyTests && localSettings.weeklyTests.length > 0 && (
+                      {weeklyTests.length > 0 && (
                           <div className="border-t border-orange-200 pt-4">
                               <p className="font-bold text-orange-700 mb-3">✅ Active Tests</p>
                               <div className="space-y-2 max-h-[30vh] overflow-y-auto">
-                                  {localSettings.weeklyTests.map(t => (
+                                  {weeklyTests.map(t => (
                                       <div key={t.id} className="bg-white p-3 rounded-lg border border-green-200 flex justify-between items-center">
                                           <div>
                                               <p className="font-bold text-slate-800">{t.name}</p>
-                                              <p className="text-xs text-slate-500">Class {t.classLevel} • {t.totalQuestions} Qs • {t.durationMinutes}min</p>
+                                              <p className="text-xs text-slate-500">Class {t.classLevel} • {t.totalQuestions} Qs • {t.durationMinutes}min{t.sections?.length ? ` • ${t.sections.length} Sections` : ''} • {WEEKLY_TEST_PHASE_LABELS[getTestPhase(t)]}{t.resultsPublishedAt ? ' • Results Published' : ''}</p>
+                                              {t.closesAt && <p className="text-[10px] text-slate-400">{t.opensAt ? new Date(t.opensAt).toLocaleString() : 'Now'} → {new Date(t.closesAt).toLocaleString()}</p>}
+                                          </div>
+                                          <div className="flex items-center gap-3">
+                                              <button onClick={() => openSubmissions(t)} className="text-xs font-bold bg-slate-100 text-slate-700 px-3 py-1.5 rounded-lg hover:bg-slate-200">Submissions</button>
+                                              {t.resultsPublishedAt && <button onClick={() => setResultsTest(t)} className="text-xs font-bold bg-green-100 text-green-700 px-3 py-1.5 rounded-lg hover:bg-green-200">Results</button>}
+                                              <button onClick={() => handleEvaluateTest(t)} disabled={evaluatingTestId === t.id} className="text-xs font-bold bg-blue-100 text-blue-700 px-3 py-1.5 rounded-lg hover:bg-blue-200 disabled:opacity-50">
+                                                  {evaluatingTestId === t.id ? 'Evaluating...' : (t.resultsPublishedAt ? 'Re-Publish Results' : 'Publish Results')}
+                                              </button>
+                                              <button onClick={() => { if (window.confirm(`Delete "${t.name}" and its answer key?`)) deleteWeeklyTest(t.id); }} className="text-red-500 hover:text-red-700"><Trash2 size={16} /></button>
                                           </div>
-                                          <button onClick={() => {const updated = localSettings.weeklyTests!.filter(x => x.id !== t.id); setLocalSettings({...localSettings, weeklyTests: updated});}} className="text-red-500 hover:text-red-700"><Trash2 size={16} /></button>
                                       </div>
                                   ))}
                               </div>
                           </div>
                       )}
+
+                      {resultsTest && (
+                          <TestResultsConsole
+                              test={resultsTest}
+                              onClose={() => setResultsTest(null)}
+                          />
+                      )}
+
+                      {/* Submissions + integrity (lowest score first) */}
+                      {submissionsTest && (
+                          <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-in fade-in">
+                              <div className="bg-white rounded-2xl w-full max-w-lg shadow-xl max-h-[85vh] flex flex-col overflow-hidden">
+                                  <div className="p-4 border-b border-slate-100 flex justify-between items-center">
+                                      <div>
+                                          <h3 className="font-black text-slate-800">{submissionsTest.name}</h3>
+                                          <p className="text-xs text-slate-500">{testSubmissions.length} submission(s)</p>
+                                      </div>
+                                      <button onClick={() => setSubmissionsTest(null)} className="p-1.5 bg-slate-100 rounded-full text-slate-500"><X size={16} /></button>
+                                  </div>
+                                  <div className="flex-1 overflow-y-auto p-4 space-y-2">
+                                      {testSubmissions.length === 0 && <p className="text-sm text-slate-400 text-center py-6">No submissions yet.</p>}
+                                      {testSubmissions.map(sub => {
+                                          const integrity = getIntegrityScore(sub.integrityLog);
+                                          return (
+                                              <div key={sub.userId} className="p-3 border border-slate-200 rounded-xl flex justify-between items-start gap-3">
+                                                  <div className="min-w-0">
+                                                      <p className="font-bold text-slate-800 text-sm">{sub.userName}</p>
+                                                      <p className="text-[10px] text-slate-500">{new Date(sub.submittedAt).toLocaleString()} • {Object.keys(sub.answers || {}).length} answered{sub.autoSubmitReason === 'VIOLATIONS' ? ' • Auto-submitted (violations)' : sub.autoSubmitReason === 'TIME' ? ' • Auto-submitted (time)' : ''}</p>
+                                                      <p className="text-[10px] text-slate-400">{describeIntegrityLog(sub.integrityLog)}</p>
+                                                  </div>
+                                                  <span className={`shrink-0 px-2 py-1 rounded-lg text-xs font-black ${getIntegrityTone(integrity)}`}>{integrity}</span>
+                                              </div>
+                                          );
+                                      })}
+                                  </div>
+                              </div>
+                          </div>
+                      )}
                   </div>
               )}
 
@@ -2689,6 +3123,17 @@ Capital of India?       Mumbai  Delhi   Kolkata Chennai 2       Delhi is the cap
                               </div>
 
 
+                              {activeTab === 'CONTENT_MCQ' && (
+                                  <MarkingSchemeEditor value={editConfig.markingScheme} onChange={(scheme) => setEditConfig({...editConfig, markingScheme: scheme})} totalQuestions={editingMcqs.length} />
+                              )}
+                              {activeTab === 'CONTENT_MCQ' && (
+                                  <div className="space-y-2 mb-4">
+                                      <PoolRulesEditor value={editConfig.poolRules || []} onChange={(rules) => setEditConfig({...editConfig, poolRules: rules.length ? rules : undefined})} reserved={false} />
+                                      {editConfig.poolRules?.length ? <p className="text-[10px] text-blue-700 font-bold">Students get a fresh draw from the bank each attempt; the questions below are not used.</p> : null}
+                                      <button onClick={addChapterMcqsToBank} disabled={editingMcqs.length === 0} className="text-xs font-bold text-blue-600 hover:underline disabled:opacity-40">Copy these {editingMcqs.length} questions into the Question Bank</button>
+                                  </div>
+                              )}
+
                               <div className="flex justify-between items-center mb-2">
                                   <span className="font-bold text-slate-700">Total Questions: {(activeTab === 'CONTENT_TEST' ? editingTestMcqs : editingMcqs).length}</span>
                                   <div className="flex gap-2">
@@ -2750,14 +3195,27 @@ Capital of India?       Mumbai  Delhi   Kolkata Chennai 2       Delhi is the cap
                                                   </div>
                                               ))}
                                           </div>
-                                          <div className="ml-8 mt-2">
+                                          <div className="ml-8 mt-2 flex gap-2">
                                               <input 
                                                   type="text" 
                                                   value={q.explanation} 
                                                   onChange={e => updateMcq(activeTab === 'CONTENT_TEST', idx, 'explanation', e.target.value)}
-                                                  className="w-full p-2 border border-dashed border-slate-300 rounded text-xs text-slate-600 bg-slate-50"
+                                                  className="flex-1 p-2 border border-dashed border-slate-300 rounded text-xs text-slate-600 bg-slate-50"
                                                   placeholder="Explanation (Optional)"
                                               />
+                                              {activeTab === 'CONTENT_MCQ' && (
+                                                  <select
+                                                      value={q.difficulty || ''}
+                                                      onChange={e => updateMcq(false, idx, 'difficulty', e.target.value || undefined)}
+                                                      className="p-2 border border-slate-200 rounded text-xs font-bold text-slate-600"
+                                                      title="Used by Adaptive Practice. Auto = learned from students' answers."
+                                                  >
+                                                      <option value="">Auto</option>
+                                                      <option value="EASY">Easy</option>
+                                                      <option value="MEDIUM">Medium</option>
+                                                      <option value="HARD">Hard</option>
+                                                  </select>
+                                              )}
                                           </div>
                                       </div>
                                   ))}
@@ -3187,27 +3645,86 @@ Capital of India?       Mumbai  Delhi   Kolkata Chennai 2       Delhi is the cap
                                    <Gift size={16} /> Prize Wheel Items
                                </h5>
                                
+                               {/* Reward table per tier (same prize id = same budget across tables) */}
+                               <div className="flex gap-1 mb-3">
+                                   {(['DEFAULT', 'FREE', 'BASIC', 'ULTRA'] as const).map(t => (
+                                       <button key={t} onClick={() => setWheelTable(t)} className={`flex-1 py-1 rounded text-[10px] font-bold border ${wheelTable === t ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-500 border-slate-200'}`}>
+                                           {t === 'DEFAULT' ? 'Default' : `${t} Users`}
+                                       </button>
+                                   ))}
+                               </div>
+                               {wheelTable !== 'DEFAULT' && getWheelTable().length === 0 && (
+                                   <div className="text-[10px] text-slate-500 bg-white border border-dashed border-slate-300 rounded p-2 mb-3 flex items-center justify-between">
+                                       <span>{wheelTable} users spin the Default table.</span>
+                                       <button onClick={() => updateWheelTable(normalizeSpinRewards(localSettings.wheelRewards))} className="font-bold text-indigo-600">Copy Default</button>
+                                   </div>
+                               )}
+
                                {/* List of current prizes */}
-                               <div className="space-y-2 mb-4 max-h-40 overflow-y-auto">
-                                   {(localSettings.wheelRewards || []).map((reward: any, idx: number) => {
+                               <p className="text-[10px] text-slate-400 mb-2">Weight = chance of landing (e.g. 50, 30, 20). Leave all empty for equal odds.</p>
+                               <div className="space-y-2 mb-4 max-h-60 overflow-y-auto">
+                                   {(() => {
+                                       const wheelOdds = getSpinOdds(normalizeSpinRewards(getWheelTable()));
+                                       return getWheelTable().map((reward: any, idx: number) => {
                                        // Normalize for display
                                        const r = typeof reward === 'number' ? { id: idx, type: 'COINS', value: reward, label: `${reward} CR` } : reward;
                                        return (
-                                           <div key={r.id || idx} className="flex justify-between items-center bg-white p-2 rounded-lg border border-slate-200 shadow-sm">
+                                           <div key={r.id || idx} className="bg-white p-2 rounded-lg border border-slate-200 shadow-sm">
+                                           <div className="flex justify-between items-center">
                                                <div className="flex items-center gap-2">
                                                    <div className="w-4 h-4 rounded-full" style={{backgroundColor: r.color || '#ccc'}}></div>
                                                    <span className="text-xs font-bold text-slate-700">{r.label}</span>
                                                    <span className="text-[10px] bg-slate-100 px-1 rounded text-slate-500 font-mono">{r.type}</span>
                                                </div>
-                                               <button onClick={() => {
-                                                   const updated = [...(localSettings.wheelRewards || [])];
-                                                   updated.splice(idx, 1);
-                                                   setLocalSettings({...localSettings, wheelRewards: updated});
-                                               }} className="text-red-400 hover:text-red-600"><Trash2 size={14} /></button>
+                                               <div className="flex items-center gap-2">
+                                                   <input 
+                                                       type="number" 
+                                                       min="0"
+                                                       placeholder="Weight"
+                                                       value={r.probability ?? ''} 
+                                                       disabled={typeof reward === 'number'}
+                                                       onChange={e => {
+                                                           const updated = [...getWheelTable()];
+                                                           updated[idx] = { ...r, probability: e.target.value === '' ? undefined : Number(e.target.value) };
+                                                           updateWheelTable(updated);
+                                                       }} 
+                                                       className="w-16 p-1 border rounded text-xs text-center" 
+                                                   />
+                                                   <span className="w-12 text-right text-[10px] font-bold text-indigo-600">{((wheelOdds[idx]?.odds || 0) * 100).toFixed(1)}%</span>
+                                                   <button onClick={() => {
+                                                       const updated = [...getWheelTable()];
+                                                       updated.splice(idx, 1);
+                                                       updateWheelTable(updated);
+                                                   }} className="text-red-400 hover:text-red-600"><Trash2 size={14} /></button>
+                                               </div>
+                                           </div>
+                                           {typeof reward !== 'number' && (
+                                               <div className="flex items-center gap-2 mt-2 text-[10px] text-slate-500">
+                                                   <span className="font-bold uppercase">Budget</span>
+                                                   <input type="number" min="0" placeholder="Per day" value={r.dailyCap ?? ''} onChange={e => {
+                                                       const updated = [...getWheelTable()];
+                                                       updated[idx] = { ...r, dailyCap: e.target.value === '' ? undefined : Number(e.target.value) };
+                                                       updateWheelTable(updated);
+                                                   }} className="w-16 p-1 border rounded text-center" />
+                                                   <input type="number" min="0" placeholder="Per week" value={r.weeklyCap ?? ''} onChange={e => {
+                                                       const updated = [...getWheelTable()];
+                                                       updated[idx] = { ...r, weeklyCap: e.target.value === '' ? undefined : Number(e.target.value) };
+                                                       updateWheelTable(updated);
+                                                   }} className="w-16 p-1 border rounded text-center" />
+                                                   {isSpinRewardCapped(r) && (() => {
+                                                       const used = getBudgetCounts(spinBudget[r.id]);
+                                                       return <span className="ml-auto font-bold text-orange-600">Today {used.day}{r.dailyCap ? `/${r.dailyCap}` : ''} • Week {used.week}{r.weeklyCap ? `/${r.weeklyCap}` : ''}</span>;
+                                                   })()}
+                                               </div>
+                                           )}
                                            </div>
                                        );
-                                   })}
+                                       });
+                                   })()}
                                </div>
+                               {getSpinWeightWarnings(normalizeSpinRewards(getWheelTable())).map((w, i) => (
+                                   <p key={i} className="text-[10px] font-bold text-orange-600 bg-orange-50 border border-orange-200 rounded p-2 mb-2 flex items-center gap-1"><AlertTriangle size={12} /> {w}</p>
+                               ))}
 
                                {/* Add New Prize Form */}
                                <div className="bg-white p-3 rounded-lg border border-slate-200">
@@ -3247,7 +3764,7 @@ Capital of India?       Mumbai  Delhi   Kolkata Chennai 2       Delhi is the cap
                                        onClick={() => {
                                            const item = { ...newReward, id: `rew-${Date.now()}` };
                                            // Cast to any to avoid type conflict with number[] legacy
-                                           setLocalSettings({ ...localSettings, wheelRewards: [...(localSettings.wheelRewards || []), item] });
+                                           updateWheelTable([...getWheelTable(), item]);
                                        }}
                                        className="w-full py-2 bg-indigo-600 text-white font-bold rounded-lg text-xs hover:bg-indigo-700"
                                    >
@@ -3255,6 +3772,38 @@ Capital of India?       Mumbai  Delhi   Kolkata Chennai 2       Delhi is the cap
                                    </button>
                                </div>
                            </div>
+
+                           {/* SPIN AUDIT */}
+                           <div className="border-t border-slate-200 pt-4">
+                               <h5 className="font-bold text-slate-800 mb-3 flex items-center gap-2"><Activity size={16} /> Spin Audit (Last 500)</h5>
+                               {spinAudit === null ? (
+                                   <p className="text-xs text-slate-400">Loading...</p>
+                               ) : (
+                                   <>
+                                       <div className="grid grid-cols-3 gap-2 mb-3">
+                                           <div className="bg-white p-2 rounded-lg border text-center"><p className="text-[10px] font-bold text-slate-400 uppercase">Spins</p><p className="font-black text-slate-800">{spinAudit.length}</p></div>
+                                           <div className="bg-white p-2 rounded-lg border text-center"><p className="text-[10px] font-bold text-slate-400 uppercase">Coins Given</p><p className="font-black text-blue-600">{spinAudit.filter(e => e.rewardType === 'COINS').reduce((sum, e) => sum + (Number(e.rewardValue) || 0), 0)}</p></div>
+                                           <div className="bg-white p-2 rounded-lg border text-center"><p className="text-[10px] font-bold text-slate-400 uppercase">Subs Given</p><p className="font-black text-purple-600">{spinAudit.filter(e => e.rewardType === 'SUBSCRIPTION').length}</p></div>
+                                       </div>
+                                       {Object.entries(spinAudit.filter(e => e.rewardType === 'SUBSCRIPTION').reduce((acc, e) => {
+                                           acc[String(e.rewardValue)] = (acc[String(e.rewardValue)] || 0) + 1;
+                                           return acc;
+                                       }, {} as Record<string, number>)).map(([sub, count]) => (
+                                           <p key={sub} className="text-[10px] text-purple-700 font-bold">{sub.replace('_', ' ')}: {count}</p>
+                                       ))}
+                                       <div className="space-y-1 max-h-48 overflow-y-auto mt-2">
+                                           {[...spinAudit].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()).map(e => (
+                                               <div key={e.id} className="flex justify-between items-center text-[10px] bg-white p-2 rounded border border-slate-100">
+                                                   <span className="font-bold text-slate-700 truncate">{e.userName}</span>
+                                                   <span className={e.rewardType === 'SUBSCRIPTION' ? 'font-bold text-purple-600' : 'text-slate-600'}>{e.rewardLabel} ({(e.odds * 100).toFixed(1)}%)</span>
+                                                   <span className="font-mono text-slate-400" title="Seed">#{e.seed}</span>
+                                                   <span className="text-slate-400">{new Date(e.timestamp).toLocaleString()}</span>
+                                               </div>
+                                           ))}
+                                       </div>
+                                   </>
+                               )}
+                           </div>
                        </div>
                   )}
                   {activeTab === 'CONFIG_EXTERNAL_APPS' && (
@@ -3869,12 +4418,70 @@ Capital of India?       Mumbai  Delhi   Kolkata Chennai 2       Delhi is the cap
                   <h3 className="text-xl font-black text-slate-800">Gift Code Generator</h3>
               </div>
               
-              <div className="bg-pink-50 p-6 rounded-2xl border border-pink-100 mb-8">
+              <div className="bg-pink-50 p-6 rounded-2xl border border-pink-100 mb-8 space-y-4">
                   <div className="flex flex-wrap gap-4 items-end">
+                      <div className="flex-1 min-w-[180px]">
+                          <label className="text-xs font-bold text-pink-700 uppercase block mb-1">Campaign Name</label>
+                          <input type="text" value={campaignName} onChange={e => setCampaignName(e.target.value)} placeholder="e.g. Diwali Offer" className="p-3 rounded-xl border border-pink-200 w-full font-bold" />
+                      </div>
                       <div>
-                          <label className="text-xs font-bold text-pink-700 uppercase block mb-1">Credits Amount</label>
-                          <input type="number" value={newCodeAmount} onChange={e => setNewCodeAmount(Number(e.target.value))} className="p-3 rounded-xl border border-pink-200 w-32 font-bold" />
+                          <label className="text-xs font-bold text-pink-700 uppercase block mb-1">Reward Type</label>
+                          <select value={campaignReward.type} onChange={e => setCampaignReward({...campaignReward, type: e.target.value as GiftReward['type']})} className="p-3 rounded-xl border border-pink-200 w-40 font-bold bg-white">
+                              <option value="CREDITS">Credits</option>
+                              <option value="SUBSCRIPTION">Subscription</option>
+                              <option value="CONTENT">Content Unlock</option>
+                          </select>
                       </div>
+                  </div>
+
+                  {/* REWARD DETAILS */}
+                  <div className="flex flex-wrap gap-4 items-end">
+                      {campaignReward.type === 'CREDITS' && (
+                          <div>
+                              <label className="text-xs font-bold text-pink-700 uppercase block mb-1">Credits Amount</label>
+                              <input type="number" value={newCodeAmount} onChange={e => setNewCodeAmount(Number(e.target.value))} className="p-3 rounded-xl border border-pink-200 w-32 font-bold" />
+                          </div>
+                      )}
+                      {campaignReward.type === 'SUBSCRIPTION' && (
+                          <>
+                              <div>
+                                  <label className="text-xs font-bold text-pink-700 uppercase block mb-1">Tier</label>
+                                  <select value={campaignReward.tier} onChange={e => setCampaignReward({...campaignReward, tier: e.target.value as GiftReward['tier']})} className="p-3 rounded-xl border border-pink-200 w-32 font-bold bg-white">
+                                      <option value="WEEKLY">Weekly</option>
+                                      <option value="MONTHLY">Monthly</option>
+                                      <option value="YEARLY">Yearly</option>
+                                      <option value="LIFETIME">Lifetime</option>
+                                  </select>
+                              </div>
+                              <div>
+                                  <label className="text-xs font-bold text-pink-700 uppercase block mb-1">Level</label>
+                                  <select value={campaignReward.level} onChange={e => setCampaignReward({...campaignReward, level: e.target.value as GiftReward['level']})} className="p-3 rounded-xl border border-pink-200 w-32 font-bold bg-white">
+                                      <option value="BASIC">Basic</option>
+                                      <option value="ULTRA">Ultra</option>
+                                  </select>
+                              </div>
+                              <div>
+                                  <label className="text-xs font-bold text-pink-700 uppercase block mb-1">Duration (Hours)</label>
+                                  <input type="number" value={campaignReward.durationHours} onChange={e => setCampaignReward({...campaignReward, durationHours: Number(e.target.value)})} className="p-3 rounded-xl border border-pink-200 w-32 font-bold" min="1" />
+                              </div>
+                          </>
+                      )}
+                      {campaignReward.type === 'CONTENT' && (
+                          <>
+                              <div className="flex-1 min-w-[200px]">
+                                  <label className="text-xs font-bold text-pink-700 uppercase block mb-1">Content Key</label>
+                                  <input type="text" value={campaignReward.contentKey || ''} onChange={e => setCampaignReward({...campaignReward, contentKey: e.target.value})} placeholder="nst_content_CBSE_10_Science_ch1" className="p-3 rounded-xl border border-pink-200 w-full font-mono text-xs" />
+                              </div>
+                              <div>
+                                  <label className="text-xs font-bold text-pink-700 uppercase block mb-1">Slot</label>
+                                  <input type="text" value={campaignReward.slot || ''} onChange={e => setCampaignReward({...campaignReward, slot: e.target.value})} placeholder="PDF_ULTRA" className="p-3 rounded-xl border border-pink-200 w-40 font-mono text-xs" />
+                              </div>
+                              <div>
+                                  <label className="text-xs font-bold text-pink-700 uppercase block mb-1">Title</label>
+                                  <input type="text" value={campaignReward.title || ''} onChange={e => setCampaignReward({...campaignReward, title: e.target.value})} placeholder="Shown to student" className="p-3 rounded-xl border border-pink-200 w-48" />
+                              </div>
+                          </>
+                      )}
                       <div>
                           <label className="text-xs font-bold text-pink-700 uppercase block mb-1">Quantity</label>
                           <input type="number" value={newCodeCount} onChange={e => setNewCodeCount(Number(e.target.value))} className="p-3 rounded-xl border border-pink-200 w-32 font-bold" />
@@ -3883,9 +4490,78 @@ Capital of India?       Mumbai  Delhi   Kolkata Chennai 2       Delhi is the cap
                           <label className="text-xs font-bold text-pink-700 uppercase block mb-1">Max Uses (Users)</label>
                           <input type="number" value={newCodeMaxUses} onChange={e => setNewCodeMaxUses(Number(e.target.value))} className="p-3 rounded-xl border border-pink-200 w-32 font-bold" min="1" />
                       </div>
-                      <button onClick={generateCodes} className="bg-pink-600 text-white px-6 py-3 rounded-xl font-bold shadow-lg hover:bg-pink-700 flex items-center gap-2">
-                          <Gift size={20} /> Generate Codes
-                      </button>
+                      <div>
+                          <label className="text-xs font-bold text-pink-700 uppercase block mb-1">Expires On</label>
+                          <input type="date" value={campaignExpiry} onChange={e => setCampaignExpiry(e.target.value)} className="p-3 rounded-xl border border-pink-200 w-44 font-bold" />
+                      </div>
+                  </div>
+
+                  {/* TARGETING */}
+                  <div className="bg-white/60 p-3 rounded-xl border border-pink-100 space-y-2">
+                      <p className="text-xs font-bold text-pink-700 uppercase">Targeting (Leave empty for everyone)</p>
+                      <div className="flex flex-wrap gap-1">
+                          {(['6','7','8','9','10','11','12','COMPETITION'] as ClassLevel[]).map(cls => (
+                              <button key={cls} onClick={() => toggleCampaignClass(cls)} className={`px-2 py-1 rounded text-xs font-bold border ${campaignClasses.includes(cls) ? 'bg-pink-600 text-white border-pink-600' : 'bg-white text-slate-500 border-slate-200'}`}>
+                                  {cls === 'COMPETITION' ? 'Comp.' : `Class ${cls}`}
+                              </button>
+                          ))}
+                      </div>
+                      <div className="flex flex-wrap gap-1">
+                          {(['CBSE','BSEB','COMPETITION'] as Board[]).map(board => (
+                              <button key={board} onClick={() => toggleCampaignBoard(board)} className={`px-2 py-1 rounded text-xs font-bold border ${campaignBoards.includes(board) ? 'bg-pink-600 text-white border-pink-600' : 'bg-white text-slate-500 border-slate-200'}`}>
+                                  {board}
+                              </button>
+                          ))}
+                      </div>
+                      <label className="flex items-center gap-2 text-xs font-bold text-slate-600">
+                          <input type="checkbox" checked={campaignNewUsersOnly} onChange={e => setCampaignNewUsersOnly(e.target.checked)} />
+                          New users only (joined in last
+                          <input type="number" value={campaignNewUserDays} onChange={e => setCampaignNewUserDays(Number(e.target.value))} disabled={!campaignNewUsersOnly} className="w-14 p-1 border rounded text-center" min="1" />
+                          days)
+                      </label>
+                  </div>
+
+                  <button onClick={generateCodes} className="bg-pink-600 text-white px-6 py-3 rounded-xl font-bold shadow-lg hover:bg-pink-700 flex items-center gap-2">
+                      <Gift size={20} /> Generate Campaign Codes
+                  </button>
+              </div>
+
+              {/* CAMPAIGNS */}
+              <div className="mb-8">
+                  <h4 className="font-bold text-slate-800 mb-3">Campaigns</h4>
+                  {giftCampaigns.length === 0 && <p className="text-xs text-slate-400">No campaigns yet.</p>}
+                  <div className="space-y-2">
+                      {giftCampaigns.map(camp => (
+                          <div key={camp.id} className="p-3 bg-slate-50 rounded-xl border border-slate-200">
+                              <div className="flex items-center justify-between gap-2">
+                                  <div className="min-w-0">
+                                      <p className="font-bold text-slate-800 truncate">{camp.name}</p>
+                                      <p className="text-[10px] text-slate-500">
+                                          {describeGiftReward(camp.reward)} • {camp.codeCount} codes × {camp.maxUsesPerCode} uses
+                                          {camp.expiresAt && ` • Expires ${new Date(camp.expiresAt).toLocaleDateString()}`}
+                                          {camp.targetClasses?.length ? ` • Class ${camp.targetClasses.join(', ')}` : ''}
+                                          {camp.targetBoards?.length ? ` • ${camp.targetBoards.join(', ')}` : ''}
+                                          {camp.newUsersOnly && ` • New users (${camp.newUserDays || 7}d)`}
+                                      </p>
+                                  </div>
+                                  <div className="flex gap-2 shrink-0">
+                                      <button onClick={() => statsCampaign?.id === camp.id ? setStatsCampaign(null) : openCampaignStats(camp)} className="px-3 py-1 text-xs font-bold bg-white border border-slate-200 rounded-lg hover:bg-slate-100">Stats</button>
+                                      <button onClick={() => exportCampaignCsv(camp)} className="px-3 py-1 text-xs font-bold bg-white border border-slate-200 rounded-lg hover:bg-slate-100 flex items-center gap-1"><Download size={12} /> CSV</button>
+                                  </div>
+                              </div>
+                              {statsCampaign?.id === camp.id && (() => {
+                                  const stats = getCampaignStats(camp, statsCodes);
+                                  return (
+                                      <div className="grid grid-cols-4 gap-2 mt-3">
+                                          <div className="bg-white p-2 rounded-lg border text-center"><p className="text-[10px] font-bold text-slate-400 uppercase">Redeemed</p><p className="font-black text-pink-600">{stats.redemptions}/{stats.capacity}</p></div>
+                                          <div className="bg-white p-2 rounded-lg border text-center"><p className="text-[10px] font-bold text-slate-400 uppercase">Rate</p><p className="font-black text-slate-800">{stats.redemptionRate}%</p></div>
+                                          <div className="bg-white p-2 rounded-lg border text-center"><p className="text-[10px] font-bold text-slate-400 uppercase">Unused Codes</p><p className="font-black text-slate-800">{stats.unused}</p></div>
+                                          <div className="bg-white p-2 rounded-lg border text-center"><p className="text-[10px] font-bold text-slate-400 uppercase">Status</p><p className={`font-black ${stats.isExpired ? 'text-red-600' : 'text-green-600'}`}>{stats.isExpired ? 'Expired' : 'Live'}</p></div>
+                                      </div>
+                                  );
+                              })()}
+                          </div>
+                      ))}
                   </div>
               </div>
 
@@ -3902,7 +4578,7 @@ Capital of India?       Mumbai  Delhi   Kolkata Chennai 2       Delhi is the cap
                                           <Copy size={14} />
                                       </button>
                                   </td>
-                                  <td className="p-3 font-bold text-pink-600">{code.amount} CR</td>
+                                  <td className="p-3 font-bold text-pink-600">{code.reward ? describeGiftReward(code.reward) : `${code.amount} CR`}</td>
                                   <td className="p-3">
                                       {code.isRedeemed ? (
                                           <span className="bg-red-100 text-red-600 px-2 py-1 rounded text-xs font-bold">Fully Redeemed</span>
@@ -4167,6 +4843,8 @@ Capital of India?       Mumbai  Delhi   Kolkata Chennai 2       Delhi is the cap
                                           <>
                                               <button onClick={() => setDmUser(u)} className="p-2 text-slate-400 hover:text-blue-600 bg-slate-50 rounded-lg" title="Message"><MessageSquare size={16} /></button>
                                               <button onClick={() => openEditUser(u)} className="p-2 text-slate-400 hover:text-orange-600 bg-slate-50 rounded-lg" title="Edit"><Edit3 size={16} /></button>
+                                              <button onClick={() => setPurchasesUser(u)} className="p-2 text-slate-400 hover:text-emerald-600 bg-slate-50 rounded-lg" title="Purchases"><ShoppingBag size={16} /></button>
+                                              <button onClick={() => openUserLedger(u)} className="p-2 text-slate-400 hover:text-amber-600 bg-slate-50 rounded-lg" title="Coin Ledger"><Receipt size={16} /></button>
                                               <button onClick={() => onImpersonate && onImpersonate(u)} className="p-2 text-slate-400 hover:text-green-600 bg-slate-50 rounded-lg" title="Login as User"><Eye size={16} /></button>
                                               <button onClick={() => deleteUser(u.id)} className="p-2 text-slate-400 hover:text-red-600 bg-slate-50 rounded-lg" title="Delete"><Trash2 size={16} /></button>
                                           </>
@@ -4195,7 +4873,16 @@ Capital of India?       Mumbai  Delhi   Kolkata Chennai 2       Delhi is the cap
                       {/* PASSWORD */}
                       <div>
                           <label className="text-xs font-bold text-slate-500 uppercase">🔐 Password</label>
-                          <input type="text" value={editUserPass} onChange={e => setEditUserPass(e.target.value)} className="w-full p-2 border rounded-lg" />
+                          <button 
+                              onClick={sendUserPasswordReset} 
+                              disabled={!editingUser.email || resetLinkStatus === 'SENDING'} 
+                              className="w-full p-2 border rounded-lg text-xs font-bold text-blue-600 bg-blue-50 border-blue-200 hover:bg-blue-100 disabled:opacity-50"
+                          >
+                              {resetLinkStatus === 'SENDING' ? 'Sending...' : resetLinkStatus === 'SENT' ? '✅ Reset Link Sent' : 'Send Password Reset Email'}
+                          </button>
+                          <p className="text-[9px] text-slate-400 mt-1">
+                              {!editingUser.email ? 'No email on file. User must log in once to migrate.' : resetLinkStatus === 'FAILED' ? '❌ Could not send. Check the email address.' : `Link goes to ${editingUser.email}`}
+                          </p>
                       </div>
 
                       {/* SUBSCRIPTION TIER */}
@@ -4264,6 +4951,106 @@ Capital of India?       Mumbai  Delhi   Kolkata Chennai 2       Delhi is the cap
           </div>
       )}
 
+      {/* --- USER PURCHASES MODAL --- */}
+      {purchasesUser && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm">
+              <div className="bg-white p-6 rounded-2xl w-full max-w-md shadow-2xl max-h-[90vh] overflow-y-auto">
+                  <h3 className="text-lg font-bold mb-1 flex items-center gap-2"><ShoppingBag className="text-emerald-600" /> Purchases</h3>
+                  <p className="text-xs text-slate-500 mb-4">User: <span className="font-bold text-slate-800">{purchasesUser.name}</span></p>
+
+                  <div className="space-y-2 mb-4">
+                      {listEntitlements(purchasesUser).length === 0 && <p className="text-xs text-slate-400 text-center py-4">No purchased content.</p>}
+                      {listEntitlements(purchasesUser).map(ent => (
+                          <div key={ent.id} className="flex items-center justify-between gap-2 p-2 bg-slate-50 rounded-lg border border-slate-100">
+                              <div className="min-w-0">
+                                  <p className="text-xs font-bold text-slate-700 truncate">{ent.title}</p>
+                                  <p className="text-[10px] text-slate-400 font-mono truncate">{ent.contentKey} • {ent.slot}</p>
+                                  <p className="text-[10px] text-slate-400">{ent.source === 'ADMIN_GRANT' ? 'Granted' : `${ent.price} CR`} • {new Date(ent.purchasedAt).toLocaleString()}</p>
+                              </div>
+                              <button onClick={() => revokeUserEntitlement(ent.id)} className="p-2 text-slate-400 hover:text-red-600 bg-white rounded-lg border border-slate-200" title="Revoke"><Trash2 size={14} /></button>
+                          </div>
+                      ))}
+                  </div>
+
+                  <div className="bg-emerald-50 p-4 rounded-xl border border-emerald-100 space-y-2">
+                      <label className="text-xs font-bold text-emerald-700 uppercase block">Grant Content</label>
+                      <input type="text" value={grantContentKey} onChange={e => setGrantContentKey(e.target.value)} placeholder="nst_content_CBSE_10_Science_ch-1" className="w-full p-2 border rounded-lg text-xs font-mono" />
+                      <div className="flex gap-2">
+                          <select value={grantSlotKind} onChange={e => setGrantSlotKind(e.target.value as any)} className="flex-1 p-2 border rounded-lg text-xs">
+                              <option value="PDF_PREMIUM_SCHOOL">Premium PDF (School)</option>
+                              <option value="PDF_PREMIUM_COMPETITION">Premium PDF (Competition)</option>
+                              <option value="PDF_ULTRA">Ultra PDF</option>
+                              <option value="MODULE">HTML Module #</option>
+                              <option value="VIDEO_SCHOOL">Video # (School)</option>
+                              <option value="VIDEO_COMPETITION">Video # (Competition)</option>
+                          </select>
+                          {(grantSlotKind === 'MODULE' || grantSlotKind === 'VIDEO_SCHOOL' || grantSlotKind === 'VIDEO_COMPETITION') && (
+                              <input type="number" min="0" value={grantSlotIndex} onChange={e => setGrantSlotIndex(Number(e.target.value))} className="w-16 p-2 border rounded-lg text-xs" title="Slot index (starts at 0)" />
+                          )}
+                      </div>
+                      <input type="text" value={grantTitle} onChange={e => setGrantTitle(e.target.value)} placeholder="Title shown to student (optional)" className="w-full p-2 border rounded-lg text-xs" />
+                      <button onClick={grantUserEntitlement} className="w-full py-2 bg-emerald-600 text-white rounded-lg font-bold text-xs hover:bg-emerald-700">+ Grant Free Access</button>
+                  </div>
+
+                  <button onClick={() => setPurchasesUser(null)} className="w-full mt-4 py-2 text-slate-500 font-bold bg-slate-100 rounded-xl">Close</button>
+              </div>
+          </div>
+      )}
+
+      {/* --- USER CREDIT LEDGER MODAL --- */}
+      {ledgerUser && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm">
+              <div className="bg-white p-6 rounded-2xl w-full max-w-lg shadow-2xl max-h-[90vh] overflow-y-auto">
+                  <h3 className="text-lg font-bold mb-1 flex items-center gap-2"><Receipt className="text-amber-600" /> Coin Ledger</h3>
+                  <p className="text-xs text-slate-500 mb-4">User: <span className="font-bold text-slate-800">{ledgerUser.name}</span></p>
+
+                  {/* BALANCE CHECK */}
+                  <div className="grid grid-cols-2 gap-2 mb-4">
+                      <div className="bg-blue-50 p-3 rounded-xl border border-blue-100">
+                          <p className="text-[10px] font-bold text-blue-500 uppercase">Live Balance</p>
+                          <p className="text-xl font-black text-blue-700">{ledgerUser.credits}</p>
+                      </div>
+                      <div className={`p-3 rounded-xl border ${deriveBalance(ledgerTxns) === ledgerUser.credits ? 'bg-green-50 border-green-100' : 'bg-red-50 border-red-100'}`}>
+                          <p className="text-[10px] font-bold text-slate-500 uppercase">Ledger Total</p>
+                          <p className={`text-xl font-black ${deriveBalance(ledgerTxns) === ledgerUser.credits ? 'text-green-700' : 'text-red-600'}`}>{deriveBalance(ledgerTxns)}</p>
+                      </div>
+                  </div>
+                  {!ledgerLoading && deriveBalance(ledgerTxns) !== ledgerUser.credits && (
+                      <button onClick={reconcileLedger} className="w-full mb-4 py-2 bg-red-50 text-red-600 border border-red-200 rounded-lg font-bold text-xs hover:bg-red-100">Reconcile (Record Opening Balance)</button>
+                  )}
+
+                  <select value={ledgerFilter} onChange={e => setLedgerFilter(e.target.value as CreditTxnType | 'ALL')} className="w-full p-2 border rounded-lg text-xs mb-3">
+                      <option value="ALL">All Transactions</option>
+                      {(Object.keys(CREDIT_TXN_LABELS) as CreditTxnType[]).map(t => <option key={t} value={t}>{CREDIT_TXN_LABELS[t]}</option>)}
+                  </select>
+
+                  <div className="space-y-2 mb-4">
+                      {ledgerLoading && <p className="text-xs text-slate-400 italic">Loading...</p>}
+                      {!ledgerLoading && ledgerTxns.length === 0 && <p className="text-xs text-slate-400 italic">No transactions recorded yet.</p>}
+                      {ledgerTxns.filter(t => ledgerFilter === 'ALL' || t.type === ledgerFilter).map(t => (
+                          <div key={t.id} className="flex items-center justify-between p-3 bg-slate-50 rounded-lg border border-slate-100">
+                              <div className="min-w-0">
+                                  <p className="text-xs font-bold text-slate-800">{CREDIT_TXN_LABELS[t.type] || t.type} <span className="text-[9px] font-bold text-slate-400">• {t.actor}</span></p>
+                                  {t.note && <p className="text-[10px] text-slate-500 truncate">{t.note}</p>}
+                                  <p className="text-[10px] text-slate-400">{new Date(t.timestamp).toLocaleString()} • Bal {t.balanceAfter}</p>
+                              </div>
+                              <div className="flex items-center gap-2 shrink-0">
+                                  <span className={`text-sm font-black ${t.amount < 0 ? 'text-red-600' : 'text-green-600'}`}>{t.amount > 0 ? '+' : ''}{t.amount}</span>
+                                  {!t.reversalOf && t.type !== 'OPENING_BALANCE' && (
+                                      isReversed(ledgerTxns, t.id)
+                                          ? <span className="text-[9px] font-bold text-slate-400 uppercase">Reversed</span>
+                                          : <button onClick={() => reverseLedgerEntry(t)} className="px-2 py-1 text-[10px] font-bold text-amber-700 bg-amber-50 rounded hover:bg-amber-100">{t.amount < 0 ? 'Refund' : 'Reverse'}</button>
+                                  )}
+                              </div>
+                          </div>
+                      ))}
+                  </div>
+
+                  <button onClick={() => setLedgerUser(null)} className="w-full py-2 text-slate-500 font-bold bg-slate-100 rounded-xl">Close</button>
+              </div>
+          </div>
+      )}
+
       {/* --- DM USER MODAL WITH GIFT --- */}
       {dmUser && (
           <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm">
@@ -4475,6 +5262,34 @@ Capital of India?       Mumbai  Delhi   Kolkata Chennai 2       Delhi is the cap
                   </div>
               </div>
 
+              {/* ACCESS MATRIX PREVIEW (Access Policy) */}
+              <div className="mb-8 p-4 bg-slate-50 rounded-xl border border-slate-200">
+                  <h4 className="font-bold text-lg mb-1 text-slate-800 flex items-center gap-2">Access Matrix <span className="text-[10px] bg-slate-200 text-slate-700 px-2 py-0.5 rounded-full uppercase">Preview</span></h4>
+                  <p className="text-[10px] text-slate-500 mb-3">Which subscription unlocks which content, using the current default prices. Per-item access/price set in Content tabs overrides these defaults.</p>
+                  <div className="overflow-x-auto">
+                      <table className="w-full text-left text-xs bg-white rounded-lg overflow-hidden">
+                          <thead className="bg-slate-100 text-slate-500 uppercase"><tr><th className="p-2">Content</th><th className="p-2 text-center">Free User</th><th className="p-2 text-center">Basic</th><th className="p-2 text-center">Ultra</th></tr></thead>
+                          <tbody className="divide-y divide-slate-100">
+                              {buildAccessMatrix(localSettings).map(row => (
+                                  <tr key={row.label}>
+                                      <td className="p-2 font-bold text-slate-700">{row.label}</td>
+                                      {(['FREE', 'BASIC', 'ULTRA'] as const).map(level => {
+                                          const d = row.cells[level];
+                                          return (
+                                              <td key={level} className="p-2 text-center" title={d.message}>
+                                                  <span className={`px-2 py-0.5 rounded-full font-bold text-[10px] ${d.result === 'ALLOW' ? 'bg-green-100 text-green-700' : d.result === 'PAY' ? 'bg-yellow-100 text-yellow-800' : 'bg-red-100 text-red-700'}`}>
+                                                      {d.result === 'ALLOW' ? '✓ Open' : d.result === 'PAY' ? `${d.cost} CR` : `🔒 ${d.requiredLevel}`}
+                                                  </span>
+                                              </td>
+                                          );
+                                      })}
+                                  </tr>
+                              ))}
+                          </tbody>
+                      </table>
+                  </div>
+              </div>
+
               {/* MCQ PRICING CONFIG */}
               <div className="mb-8 p-4 bg-purple-50 rounded-xl border border-purple-100">
                   <h4 className="font-bold text-lg mb-4 text-slate-800 flex items-center gap-2">MCQ Settings <span className="text-[10px] bg-purple-200 text-purple-800 px-2 py-0.5 rounded-full uppercase">Restrictions & Costs</span></h4>
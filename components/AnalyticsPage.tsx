@@ -1,30 +1,76 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { User, MCQResult, PerformanceTag, SystemSettings } from '../types';
-import { BarChart, Clock, Calendar, BookOpen, TrendingUp, AlertTriangle, CheckCircle, XCircle, FileText } from 'lucide-react';
+import { BarChart, Clock, Calendar, BookOpen, TrendingUp, AlertTriangle, CheckCircle, XCircle, FileText, Target, Sun, Zap, ArrowUpRight, ArrowDownRight } from 'lucide-react';
 import { MarksheetCard } from './MarksheetCard';
+import { getMcqResultsPage } from '../storage';
+import { ANALYTICS_PAGE_SIZE, buildMcqSummary, mergeResultPages } from '../utils/mcqResults';
+import { LineChart, ScatterChart, BarChart as BarGraph } from './Charts';
+import { getScoreTrend, getAccuracySpeedPoints, getStudyTimeByDay, getTimeOfDayPerformance, getBestTimeOfDay, getWeekComparison, PeriodSummary, MIN_BUCKET_QUESTIONS } from '../utils/analytics';
+import { rebuildChapterMastery, getMasteryScore, getAccuracy, getAvgSeconds, getWeakestChapters, getWeakTags, groupBySubject, getMasteryTone, hasEnoughData, MIN_MASTERY_QUESTIONS } from '../utils/chapterMastery';
 
 interface Props {
   user: User;
   onBack: () => void;
   settings?: SystemSettings;
+  dailyStudySeconds?: number; // Today's live timer value (earlier days come from the saved activity log)
 }
 
-export const AnalyticsPage: React.FC<Props> = ({ user, onBack, settings }) => {
+const formatMinutes = (seconds: number) => seconds >= 3600 ? `${(seconds / 3600).toFixed(1)}h` : `${Math.round(seconds / 60)}m`;
+
+export const AnalyticsPage: React.FC<Props> = ({ user, onBack, settings, dailyStudySeconds }) => {
   const [selectedResult, setSelectedResult] = useState<MCQResult | null>(null);
-  const history = user.mcqHistory || [];
+  const [history, setHistory] = useState<MCQResult[]>(user.mcqHistory || []);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingResults, setLoadingResults] = useState(true);
+
+  // Results are paged from their own collection (plus any not yet migrated off the user)
+  const loadResults = async (reset: boolean) => {
+      setLoadingResults(true);
+      const before = reset ? undefined : history[history.length - 1]?.date;
+      const page = await getMcqResultsPage(user.id, ANALYTICS_PAGE_SIZE, before);
+      setHistory(prev => mergeResultPages(reset ? (user.mcqHistory || []) : prev, page.results));
+      setHasMore(page.hasMore);
+      setLoadingResults(false);
+  };
+
+  useEffect(() => { loadResults(true); }, [user.id]);
   
-  // Calculate Totals
-  const totalTests = history.length;
-  const totalQuestions = history.reduce((acc, curr) => acc + curr.totalQuestions, 0);
-  const totalCorrect = history.reduce((acc, curr) => acc + curr.correctCount, 0);
+  // Calculate Totals (kept on the user, so they cover results not loaded yet)
+  const summary = user.mcqSummary || buildMcqSummary(history);
+  const totalQuestions = summary.questions;
+  const totalCorrect = summary.correct;
   const accuracy = totalQuestions > 0 ? Math.round((totalCorrect / totalQuestions) * 100) : 0;
   
-  const totalTime = history.reduce((acc, curr) => acc + curr.totalTimeSeconds, 0);
+  const totalTime = summary.timeSeconds;
   const avgTimePerQ = totalQuestions > 0 ? (totalTime / totalQuestions).toFixed(1) : '0';
 
-  // Topic Analysis
-  const topicStats = user.topicStrength || {};
+  // Chapter Mastery (rebuilt from results for accounts from before it was tracked)
+  const mastery = user.chapterMastery || rebuildChapterMastery(history);
+  const subjects = groupBySubject(mastery);
+  const weakest = getWeakestChapters(mastery);
+
+  // Charts
+  const trend = useMemo(() => getScoreTrend(history), [history]);
+  const speedPoints = useMemo(() => getAccuracySpeedPoints(history), [history]);
+  const studyByDay = useMemo(() => {
+      const today = new Date().toDateString();
+      return getStudyTimeByDay(d => d === today && dailyStudySeconds !== undefined
+          ? dailyStudySeconds
+          : parseInt(localStorage.getItem(`activity_${user.id}_${d}`) || '0'));
+  }, [user.id, dailyStudySeconds]);
+  const timeOfDay = useMemo(() => getTimeOfDayPerformance(history), [history]);
+  const bestTime = getBestTimeOfDay(timeOfDay);
+  const { thisWeek, lastWeek } = useMemo(() => getWeekComparison(history, studyByDay), [history, studyByDay]);
+
+  // Rates are only compared when both weeks have questions; lower is better for seconds per question
+  const weekRows: { label: string; key: keyof PeriodSummary; format: (v: number) => string; rate?: boolean; lowerIsBetter?: boolean }[] = [
+      { label: 'Study Time', key: 'studySeconds', format: formatMinutes },
+      { label: 'Tests', key: 'tests', format: v => `${v}` },
+      { label: 'Questions', key: 'questions', format: v => `${v}` },
+      { label: 'Accuracy', key: 'accuracy', format: v => `${v}%`, rate: true },
+      { label: 'Time / Question', key: 'avgSeconds', format: v => `${v}s`, rate: true, lowerIsBetter: true }
+  ];
   
   const getTagColor = (tag: PerformanceTag) => {
       switch(tag) {
@@ -77,31 +123,131 @@ export const AnalyticsPage: React.FC<Props> = ({ user, onBack, settings }) => {
                 </div>
             </div>
 
-            {/* TOPIC STRENGTH */}
+            {/* WEEK OVER WEEK */}
             <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
                 <h3 className="font-bold text-slate-800 mb-4 flex items-center gap-2">
-                    <BookOpen size={18} className="text-indigo-500" /> Topic Strength
+                    <Calendar size={18} className="text-blue-500" /> This Week vs Last Week
                 </h3>
-                {Object.keys(topicStats).length === 0 && <p className="text-slate-400 text-sm text-center py-4">No data yet.</p>}
-                <div className="space-y-4">
-                    {Object.entries(topicStats).map(([topic, stats]) => {
-                        const pct = stats.total > 0 ? Math.round((stats.correct / stats.total) * 100) : 0;
-                        let barColor = 'bg-red-500';
-                        if (pct >= 80) barColor = 'bg-green-500';
-                        else if (pct >= 50) barColor = 'bg-yellow-500';
-
-                        return (
-                            <div key={topic}>
-                                <div className="flex justify-between text-xs font-bold mb-1">
-                                    <span className="text-slate-700">{topic}</span>
-                                    <span className={pct >= 80 ? 'text-green-600' : pct >= 50 ? 'text-yellow-600' : 'text-red-600'}>{pct}%</span>
-                                </div>
-                                <div className="h-2 w-full bg-slate-100 rounded-full overflow-hidden">
-                                    <div className={`h-full ${barColor} transition-all duration-1000`} style={{ width: `${pct}%` }}></div>
+                <div className="grid grid-cols-4 gap-2 text-[10px] font-bold text-slate-400 uppercase pb-2 border-b border-slate-100">
+                    <span className="col-span-2"></span>
+                    <span className="text-right">Last 7d</span>
+                    <span className="text-right">Prev 7d</span>
+                </div>
+                {weekRows.map(row => {
+                    const now = thisWeek[row.key];
+                    const before = lastWeek[row.key];
+                    const better = row.lowerIsBetter ? now < before : now > before;
+                    const changed = now !== before && (!row.rate || (thisWeek.questions > 0 && lastWeek.questions > 0));
+                    return (
+                        <div key={row.key} className="grid grid-cols-4 gap-2 items-center py-2 border-b border-slate-50 text-sm">
+                            <span className="col-span-2 font-bold text-slate-600 text-xs">{row.label}</span>
+                            <span className="text-right font-black text-slate-800 flex items-center justify-end gap-1">
+                                {changed && (better ? <ArrowUpRight size={14} className="text-green-600" /> : <ArrowDownRight size={14} className="text-red-500" />)}
+                                {row.format(now)}
+                            </span>
+                            <span className="text-right font-bold text-slate-400">{row.format(before)}</span>
+                        </div>
+                    );
+                })}
+            </div>
+
+            {/* SCORE TREND (Per subject) */}
+            <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
+                <h3 className="font-bold text-slate-800 mb-4 flex items-center gap-2">
+                    <TrendingUp size={18} className="text-blue-500" /> Score Trend
+                </h3>
+                <LineChart series={trend} yMax={100} formatY={v => `${Math.round(v)}%`} emptyMessage="Take a test to see your trend." />
+            </div>
+
+            {/* ACCURACY VS SPEED (One dot per test) */}
+            <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
+                <h3 className="font-bold text-slate-800 mb-1 flex items-center gap-2">
+                    <Zap size={18} className="text-purple-500" /> Accuracy vs Speed
+                </h3>
+                <p className="text-[10px] text-slate-400 mb-4">Each dot is one test. Top-left = fast and accurate.</p>
+                <ScatterChart points={speedPoints} yMax={100} formatY={v => `${Math.round(v)}%`} formatX={v => `${Math.round(v)}s`} xLabel="seconds per question" emptyMessage="No tests taken yet." />
+            </div>
+
+            {/* STUDY TIME (Last 14 days from the study timer) */}
+            <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
+                <h3 className="font-bold text-slate-800 mb-4 flex items-center gap-2">
+                    <Clock size={18} className="text-green-500" /> Study Time
+                </h3>
+                <BarGraph
+                    bars={studyByDay.map((d, i) => ({ label: d.label, value: d.value, highlight: i === studyByDay.length - 1 }))}
+                    formatY={formatMinutes}
+                    emptyMessage="No study time recorded in the last 14 days."
+                />
+            </div>
+
+            {/* BEST TIME OF DAY */}
+            <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
+                <h3 className="font-bold text-slate-800 mb-1 flex items-center gap-2">
+                    <Sun size={18} className="text-amber-500" /> Best Time of Day
+                </h3>
+                <p className="text-[10px] text-slate-400 mb-4">
+                    {bestTime ? `You score best in the ${bestTime.label.toLowerCase()} (${bestTime.hours}).` : `Answer at least ${MIN_BUCKET_QUESTIONS} questions in a time slot to compare.`}
+                </p>
+                <div className="grid grid-cols-4 gap-2">
+                    {timeOfDay.map(b => (
+                        <div key={b.id} className={`p-2 rounded-xl border text-center ${bestTime?.id === b.id ? 'bg-amber-50 border-amber-300' : 'bg-slate-50 border-slate-100'}`}>
+                            <p className="text-[10px] font-bold text-slate-500 uppercase">{b.label}</p>
+                            <p className="text-lg font-black text-slate-800">{b.questions > 0 ? `${b.accuracy}%` : '—'}</p>
+                            <p className="text-[9px] text-slate-400">{b.tests} test(s)</p>
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            {/* PRACTISE NEXT (Three weakest chapters) */}
+            {weakest.length > 0 && (
+                <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
+                    <h3 className="font-bold text-slate-800 mb-4 flex items-center gap-2">
+                        <Target size={18} className="text-red-500" /> Practise Next
+                    </h3>
+                    <div className="space-y-3">
+                        {weakest.map((c, i) => {
+                            const weakTags = getWeakTags(c);
+                            return (
+                                <div key={c.chapterId} className="flex items-center gap-3 p-3 bg-slate-50 rounded-xl border border-slate-100">
+                                    <span className="w-7 h-7 rounded-lg bg-red-100 text-red-600 font-black text-xs flex items-center justify-center shrink-0">{i + 1}</span>
+                                    <div className="flex-1 min-w-0">
+                                        <p className="font-bold text-slate-800 text-sm truncate">{c.chapterTitle}</p>
+                                        <p className="text-[10px] text-slate-500">{c.subjectName} • {getAccuracy(c)}% accuracy • {getAvgSeconds(c)}s/question{weakTags.length ? ` • focus: ${weakTags.join(', ')}` : ''}</p>
+                                    </div>
+                                    <span className="text-sm font-black text-red-600">{getMasteryScore(c)}</span>
                                 </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            )}
+
+            {/* CHAPTER HEATMAP (Per subject) */}
+            <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
+                <h3 className="font-bold text-slate-800 mb-1 flex items-center gap-2">
+                    <BookOpen size={18} className="text-indigo-500" /> Chapter Mastery
+                </h3>
+                <p className="text-[10px] text-slate-400 mb-4">Accuracy and speed, fading when a chapter isn't practised. Grey = fewer than {MIN_MASTERY_QUESTIONS} questions.</p>
+                {subjects.length === 0 && <p className="text-slate-400 text-sm text-center py-4">No data yet.</p>}
+                <div className="space-y-5">
+                    {subjects.map(sub => (
+                        <div key={sub.subjectId}>
+                            <p className="text-xs font-black text-slate-600 uppercase mb-2">{sub.subjectName}</p>
+                            <div className="grid grid-cols-3 gap-2">
+                                {sub.chapters.map(c => {
+                                    const score = getMasteryScore(c);
+                                    const enough = hasEnoughData(c);
+                                    return (
+                                        <div key={c.chapterId} title={`${getAccuracy(c)}% accuracy • ${getAvgSeconds(c)}s/question • ${c.attempts} session(s) • last ${new Date(c.lastPracticedAt).toLocaleDateString()}`} className={`p-2 rounded-lg border ${getMasteryTone(score, enough)}`}>
+                                            <p className="text-[10px] font-bold leading-tight line-clamp-2">{c.chapterTitle}</p>
+                                            <p className="text-sm font-black mt-1">{enough ? score : '—'}</p>
+                                        </div>
+                                    );
+                                })}
                             </div>
-                        );
-                    })}
+                        </div>
+                    ))}
                 </div>
             </div>
 
@@ -111,7 +257,7 @@ export const AnalyticsPage: React.FC<Props> = ({ user, onBack, settings }) => {
                     <Calendar size={18} className="text-slate-400" /> Recent Tests
                 </h3>
                 <div className="space-y-3">
-                    {history.length === 0 && <p className="text-slate-400 text-sm text-center py-8 bg-white rounded-xl border border-dashed">No tests taken yet.</p>}
+                    {history.length === 0 && !loadingResults && <p className="text-slate-400 text-sm text-center py-8 bg-white rounded-xl border border-dashed">No tests taken yet.</p>}
                     {history.map((item) => (
                         <div key={item.id} className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm flex flex-col gap-3">
                             <div className="flex justify-between items-start">
@@ -147,6 +293,13 @@ export const AnalyticsPage: React.FC<Props> = ({ user, onBack, settings }) => {
                             </button>
                         </div>
                     ))}
+                    {loadingResults && <p className="text-center py-4 text-slate-400 text-sm font-bold animate-pulse">Loading tests...</p>}
+                    {hasMore && !loadingResults && (
+                        <button onClick={() => loadResults(false)} className="w-full py-3 bg-white border border-slate-200 rounded-xl text-sm font-bold text-slate-600 hover:bg-slate-50">
+                            Load Older Tests
+                        </button>
+                    )}
+                    {hasMore && <p className="text-[10px] text-slate-400 text-center">Charts above use the {history.length} most recent tests.</p>}
                 </div>
             </div>
         </div>
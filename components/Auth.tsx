@@ -1,10 +1,10 @@
 
 import React, { useState, useEffect } from 'react';
-import { User, Board, ClassLevel, Stream, SystemSettings, RecoveryRequest } from '../types';
+import { User, Board, ClassLevel, Stream, SystemSettings, RecoveryRequest, LegacyUserRecord, UserUpdate } from '../types';
 import { ADMIN_EMAIL } from '../constants';
-import { saveUserToLive, auth, getUserByEmail, rtdb } from '../firebase';
-import { createUserWithEmailAndPassword, signInWithEmailAndPassword, setPersistence, browserLocalPersistence, signInAnonymously } from 'firebase/auth';
-import { ref, set } from 'firebase/database';
+import { saveUserToLive, updateUserFields, getUserData, getUserByEmail, deleteUser, appendCreditTransaction, sendPasswordReset, signInWithEmail, createAccount, signInAnonymous, saveRecoveryRequest } from '../storage';
+import { buildOpeningTransaction } from '../utils/creditLedger';
+import { stripCredentials } from '../utils/userUpdates';
 import { UserPlus, LogIn, Lock, User as UserIcon, Phone, Mail, ShieldCheck, ArrowRight, School, GraduationCap, Layers, KeyRound, Copy, Check, AlertTriangle, XCircle, MessageCircle, Send, RefreshCcw, ShieldAlert, HelpCircle } from 'lucide-react';
 import { LoginGuide } from './LoginGuide';
 import { CustomAlert } from './CustomDialogs';
@@ -22,6 +22,52 @@ const BLOCKED_DOMAINS = [
     'dispostable.com', 'grr.la', 'mailnesia.com', 'temp-mail.org', 'fake-email.com'
 ];
 
+// Sign-in identity for legacy accounts that never had an email. Stored as authEmail only: it can't receive mail,
+// so it must never become the contact email that password resets go to.
+const getLegacyAuthEmail = (user: User) => `${user.id.toLowerCase().replace(/[^a-z0-9-]/g, '')}@legacy.nst.app`;
+
+// Email to sign in with for a cached record
+const getSignInEmail = (user: User) => user.authEmail || user.email;
+
+// One-time move of a plaintext (legacy) account onto email sign-in, on the user's next successful login.
+// The record is re-keyed under the sign-in uid (every `$uid === auth.uid` rule checks it); the old id stays as the
+// visible ID. The returned record has no password, and no cached user on this device keeps one.
+const migrateLegacyUser = async (legacyUser: LegacyUserRecord, pass: string): Promise<User> => {
+    const email = legacyUser.email || getLegacyAuthEmail(legacyUser);
+    let account;
+    try {
+        account = await signInWithEmail(email, pass);
+    } catch (e: any) {
+        if (e.code !== 'auth/user-not-found' && e.code !== 'auth/invalid-credential') throw e;
+        try {
+            account = await createAccount(email, pass);
+        } catch (createErr: any) {
+            if (createErr.code === 'auth/email-already-in-use') throw new Error("Account needs a password reset. Use 'Forgot Password' or contact Admin.");
+            if (createErr.code === 'auth/weak-password') throw new Error("Your old password is too short. Please ask Admin for a password reset.");
+            throw createErr;
+        }
+    }
+
+    const migration = {
+        displayId: legacyUser.displayId || legacyUser.id,
+        ...(legacyUser.email ? {} : { authEmail: email }),
+        authMigratedAt: new Date().toISOString()
+    };
+    const migrated: User = { ...stripCredentials(legacyUser), id: account.uid, ...migration };
+    if (legacyUser.id === account.uid) {
+        await updateUserFields(account.uid, { set: migration, remove: ['password'] });
+    } else {
+        await saveUserToLive(migrated);
+        // Old record: plaintext dropped, then off the admin list. Only the old open rules (or Admin) allow this, so it is best effort.
+        await updateUserFields(legacyUser.id, { remove: ['password'] });
+        await deleteUser(legacyUser.id);
+    }
+
+    const cached: LegacyUserRecord[] = JSON.parse(localStorage.getItem('nst_users') || '[]');
+    localStorage.setItem('nst_users', JSON.stringify(cached.map(u => u.id === legacyUser.id ? migrated : stripCredentials(u))));
+    return migrated;
+};
+
 export const Auth: React.FC<Props> = ({ onLogin, logActivity }) => {
   const [view, setView] = useState<AuthView>('LOGIN');
   const [generatedId, setGeneratedId] = useState<string>('');
@@ -106,9 +152,7 @@ export const Auth: React.FC<Props> = ({ onLogin, logActivity }) => {
       };
 
       try {
-          // Save to Firebase Realtime DB
-          const reqRef = ref(rtdb, `recovery_requests/${user.id}`);
-          await set(reqRef, newReq);
+          await saveRecoveryRequest(newReq);
           
           setRequestSent(true);
           setError(null);
@@ -153,12 +197,31 @@ export const Auth: React.FC<Props> = ({ onLogin, logActivity }) => {
       }, 800);
   };
 
+  const handleForgotPassword = async () => {
+      const input = formData.id.trim();
+      const cached: User[] = JSON.parse(localStorage.getItem('nst_users') || '[]');
+      const known = cached.find(u => u.id === input || u.displayId === input || u.mobile === input || u.authEmail === input);
+      if (known?.authEmail && !known.email) {
+          // Migrated legacy account: its sign-in email can't receive mail
+          setError("This account has no email for a reset link. Please contact Admin.");
+          return;
+      }
+      const email = input.includes('@') ? input : known?.email;
+      if (!email) {
+          setError("Enter your registered Email above to get a reset link.");
+          return;
+      }
+      const ok = await sendPasswordReset(email);
+      if (ok) setAlertConfig({isOpen: true, message: `Password reset link sent to ${email}. Check your inbox.`});
+      else setError("Could not send reset link. Check the email or contact Admin.");
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
 
     const storedUsersStr = localStorage.getItem('nst_users');
-    const users: User[] = storedUsersStr ? JSON.parse(storedUsersStr) : [];
+    const users: LegacyUserRecord[] = storedUsersStr ? JSON.parse(storedUsersStr) : [];
 
 
     // --- STUDENT LOGIN ---
@@ -166,6 +229,21 @@ export const Auth: React.FC<Props> = ({ onLogin, logActivity }) => {
       const input = formData.id.trim();
       const pass = formData.password.trim();
 
+      // Cached record that still has a plaintext password (not yet migrated to Firebase Auth)
+      const legacyUser = users.find(u => 
+         (u.id === input || u.displayId === input || u.mobile === input || u.email === input) && 
+         !!u.password && u.password === pass &&
+         u.role !== 'ADMIN'
+      );
+
+      const loginLegacy = async () => {
+          if (!legacyUser) { setError("Invalid Email/ID or Password."); return; }
+          if (legacyUser.isArchived) { setError('Account Deleted.'); return; }
+          const migratedUser = await migrateLegacyUser(legacyUser, pass);
+          logActivity("LOGIN", "Student Logged In (Legacy, migrated to Firebase Auth)", migratedUser);
+          onLogin(migratedUser);
+      };
+
       try {
           // 1. Determine Email
           let loginEmail = input;
@@ -173,60 +251,44 @@ export const Auth: React.FC<Props> = ({ onLogin, logActivity }) => {
           // If input is NOT email (looks like ID or Mobile), try to find email from local cache (which is synced from cloud)
           if (!input.includes('@')) {
               const mappedUser = users.find(u => u.id === input || u.displayId === input || u.mobile === input);
-              if (mappedUser && mappedUser.email) {
-                  loginEmail = mappedUser.email;
+              if (mappedUser && getSignInEmail(mappedUser)) {
+                  loginEmail = getSignInEmail(mappedUser);
+              } else if (legacyUser) {
+                  // Old account without email
+                  await loginLegacy();
+                  return;
               } else {
-                  // Fallback to legacy local check if not found (for old users or sync delay)
-                  const legacyUser = users.find(u => 
-                     (u.id === input || u.displayId === input || u.mobile === input) && 
-                     u.password === pass &&
-                     u.role !== 'ADMIN'
-                  );
-                  if (legacyUser) {
-                      if (legacyUser.isArchived) { setError('Account Deleted.'); return; }
-                      
-                      // Ensure Firebase Auth for Chat/Database access (Fix Permission Denied)
-                      try {
-                          await setPersistence(auth, browserLocalPersistence);
-                          if (legacyUser.email && legacyUser.password) {
-                              await signInWithEmailAndPassword(auth, legacyUser.email, legacyUser.password);
-                          } else {
-                              await signInAnonymously(auth);
-                          }
-                      } catch (e) {
-                          console.warn("Legacy Auth Failed, trying anonymous:", e);
-                          try { await signInAnonymously(auth); } catch(e2) { console.error("Anon Auth Failed", e2); }
-                      }
-
-                      logActivity("LOGIN", "Student Logged In (Legacy)", legacyUser);
-                      onLogin(legacyUser);
-                      return;
-                  }
                   throw new Error("User not found. Please use Email to Login if you just signed up.");
               }
           }
 
-          // 2. Firebase Auth Login
-          await setPersistence(auth, browserLocalPersistence);
-          const userCredential = await signInWithEmailAndPassword(auth, loginEmail, pass);
-          const firebaseUser = userCredential.user;
+          // 2. Email Sign-In (Legacy accounts without a sign-in account are migrated here)
+          let account;
+          try {
+              account = await signInWithEmail(loginEmail, pass);
+          } catch (authErr: any) {
+              if (legacyUser && (authErr.code === 'auth/invalid-credential' || authErr.code === 'auth/user-not-found')) {
+                  await loginLegacy();
+                  return;
+              }
+              throw authErr;
+          }
 
-          // 3. Get User Profile (Cloud First)
-          let appUser: any = await getUserByEmail(loginEmail);
+          // 3. Get User Profile (Cloud First: keyed by the sign-in uid, older records by email)
+          let appUser: any = await getUserData(account.uid) || await getUserByEmail(loginEmail);
           
           if (!appUser) {
               // Fallback to local
-              appUser = users.find(u => u.email === loginEmail);
+              appUser = users.find(u => getSignInEmail(u) === loginEmail);
           }
 
           if (!appUser) {
               // Fallback for fresh devices where 'users' list isn't synced yet
               appUser = {
-                  id: firebaseUser.uid,
-                  displayId: 'IIC-' + firebaseUser.uid.substring(0, 5).toUpperCase(),
-                  name: firebaseUser.displayName || 'Student',
+                  id: account.uid,
+                  displayId: 'IIC-' + account.uid.substring(0, 5).toUpperCase(),
+                  name: account.displayName || 'Student',
                   email: loginEmail,
-                  password: '', // Don't store
                   mobile: '',
                   role: 'STUDENT',
                   createdAt: new Date().toISOString(),
@@ -244,6 +306,12 @@ export const Auth: React.FC<Props> = ({ onLogin, logActivity }) => {
 
           if (appUser.isArchived) { setError('Account Deleted.'); return; }
 
+          // Cloud copy from before migration still holds a plaintext password: drop it now
+          if ('password' in appUser) {
+              appUser = stripCredentials(appUser);
+              await updateUserFields(appUser.id, { remove: ['password'] });
+          }
+
           logActivity("LOGIN", "Student Logged In (Firebase)", appUser);
           onLogin(appUser);
 
@@ -286,9 +354,7 @@ export const Auth: React.FC<Props> = ({ onLogin, logActivity }) => {
 
       try {
           // 1. Create in Firebase Auth
-          await setPersistence(auth, browserLocalPersistence);
-          const userCredential = await createUserWithEmailAndPassword(auth, formData.email, formData.password);
-          const uid = userCredential.user.uid;
+          const { uid } = await createAccount(formData.email, formData.password);
 
           const newId = generateUserId();
           const isSenior = formData.classLevel === '11' || formData.classLevel === '12';
@@ -296,9 +362,6 @@ export const Auth: React.FC<Props> = ({ onLogin, logActivity }) => {
           const newUser: User = {
             id: uid,
             displayId: newId,
-            // We store password locally/db for legacy support/viewing (optional, but requested often by admins)
-            // Ideally we shouldn't, but for this specific "Admin Control" requirement, we keep it.
-            password: formData.password, 
             name: formData.name,
             mobile: formData.mobile,
             email: formData.email,
@@ -315,16 +378,16 @@ export const Auth: React.FC<Props> = ({ onLogin, logActivity }) => {
             // FIRST DAY BONUS: 1 Hour Basic Subscription
             subscriptionTier: 'WEEKLY',
             subscriptionEndDate: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
-            isPremium: true
+            isPremium: true,
+            ledgerOpenedAt: new Date().toISOString() // The signup bonus entry below opens the ledger
           };
 
           const updatedUsers = [...users, newUser];
           localStorage.setItem('nst_users', JSON.stringify(updatedUsers));
           
-          // Sync to Firestore (WITHOUT PASSWORD)
-          const firestoreUser = { ...newUser };
-          delete firestoreUser.password; // Remove password before syncing to cloud
-          await saveUserToLive(firestoreUser);
+          // Sync to Cloud (Password stays in Firebase Auth only)
+          await saveUserToLive(newUser);
+          await appendCreditTransaction(buildOpeningTransaction(newUser, 'SIGNUP_BONUS', 'Signup Bonus'));
 
           logActivity("SIGNUP", `New Student Registered: ${newUser.classLevel} - ${newUser.board}`, newUser);
           
@@ -353,32 +416,35 @@ export const Auth: React.FC<Props> = ({ onLogin, logActivity }) => {
             // Step 2: Verify Code & Login
             if (adminAuthCode === settings?.adminCode) {
                 try {
-                    await setPersistence(auth, browserLocalPersistence);
                     // Try Anonymous Auth to satisfy security rules (or real auth if you want)
-                    const cred = await signInAnonymously(auth);
+                    const account = await signInAnonymous();
                     
                     // 1. Try to fetch EXISTING Admin Profile to preserve Credits
                     let adminUser: any = await getUserByEmail(formData.email);
                     
                     if (adminUser && adminUser.role === 'ADMIN') {
                         // Update critical fields but KEEP credits
-                        adminUser = {
-                            ...adminUser,
-                            id: cred.user.uid, // Update UID if anonymous changes
+                        const loginFields: UserUpdate['set'] = {
                             lastLoginDate: new Date().toISOString(),
                             isPremium: true,
                             subscriptionTier: 'LIFETIME',
-                            subscriptionLevel: 'ULTRA',
-                            // Do NOT reset credits here
+                            subscriptionLevel: 'ULTRA'
                         };
+                        const sameRecord = adminUser.id === account.uid;
+                        adminUser = { ...adminUser, ...loginFields, id: account.uid }; // Update UID if anonymous changes
+                        if (sameRecord) {
+                            await updateUserFields(account.uid, { set: loginFields });
+                        } else {
+                            // IMPORTANT: Save Admin Role to Cloud so Security Rules allow reads
+                            await saveUserToLive(adminUser);
+                        }
                     } else {
                         // Create NEW Default Admin if not found
                         adminUser = {
-                            id: cred.user.uid,
+                            id: account.uid,
                             displayId: 'IIC-ADMIN',
                             name: 'Administrator',
                             email: formData.email,
-                            password: '',
                             mobile: 'ADMIN',
                             role: 'ADMIN',
                             createdAt: new Date().toISOString(),
@@ -393,11 +459,10 @@ export const Auth: React.FC<Props> = ({ onLogin, logActivity }) => {
                             subscriptionTier: 'LIFETIME',
                             subscriptionLevel: 'ULTRA'
                         };
+                        // IMPORTANT: Save Admin Role to Cloud so Security Rules allow reads
+                        await saveUserToLive(adminUser);
                     }
                     
-                    // IMPORTANT: Save Admin Role to Cloud so Security Rules allow reads
-                    await saveUserToLive(adminUser);
-                    
                     logActivity("ADMIN_LOGIN", "Admin Access Granted", adminUser);
                     onLogin(adminUser);
                 } catch (e: any) {
@@ -588,6 +653,9 @@ export const Auth: React.FC<Props> = ({ onLogin, logActivity }) => {
                  <div className="space-y-1.5">
                     <label className="text-xs font-bold text-slate-500 uppercase">Password</label>
                     <input name="password" type="password" placeholder="Enter Password" value={formData.password} onChange={handleChange} className="w-full px-4 py-3 border border-slate-200 rounded-xl" />
+                    <div className="text-right">
+                        <button type="button" onClick={handleForgotPassword} className="text-xs text-blue-600 font-bold hover:underline">Forgot Password?</button>
+                    </div>
                  </div>
                  <button type="submit" className="w-full bg-blue-600 text-white font-bold py-3.5 rounded-xl mt-4">Login</button>
               </>
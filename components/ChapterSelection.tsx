@@ -1,7 +1,7 @@
 import React from 'react';
 import { Chapter, Subject, ClassLevel, User, SystemSettings } from '../types';
 import { BookOpen, ChevronRight, Lock, CheckCircle, PlayCircle, Clock, AlertCircle } from 'lucide-react';
-import { getChapterData } from '../firebase';
+import { getChapterData } from '../storage';
 
 interface Props {
   chapters: Chapter[];
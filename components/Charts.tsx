@@ -0,0 +1,182 @@
+import React from 'react';
+import { ChartPoint, ChartSeries } from '../utils/analytics';
+
+// Plain SVG charts (no chart library, work offline). Drawn in a fixed viewBox and scaled to the card width.
+const WIDTH = 320;
+const PAD = { top: 10, right: 10, bottom: 22, left: 30 };
+
+export const CHART_COLORS = ['#2563eb', '#16a34a', '#f59e0b', '#dc2626', '#7c3aed', '#0891b2', '#db2777', '#65a30d'];
+
+const getTicks = (max: number, count: number = 4) => Array.from({ length: count + 1 }, (_, i) => (max / count) * i);
+
+const niceMax = (value: number) => {
+    if (value <= 0) return 1;
+    const step = Math.pow(10, Math.floor(Math.log10(value)));
+    return Math.ceil(value / step) * step;
+};
+
+interface AxesProps {
+    height: number;
+    yMax: number;
+    formatY: (v: number) => string;
+}
+
+const YAxis: React.FC<AxesProps> = ({ height, yMax, formatY }) => {
+    const plotH = height - PAD.top - PAD.bottom;
+    return (
+        <g>
+            {getTicks(yMax).map(t => {
+                const y = PAD.top + plotH - (t / yMax) * plotH;
+                return (
+                    <g key={t}>
+                        <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y} y2={y} stroke="#e2e8f0" strokeWidth={0.5} />
+                        <text x={PAD.left - 4} y={y + 3} textAnchor="end" fontSize={8} fill="#94a3b8">{formatY(t)}</text>
+                    </g>
+                );
+            })}
+        </g>
+    );
+};
+
+const EmptyChart: React.FC<{ height: number; message: string }> = ({ height, message }) => (
+    <div className="flex items-center justify-center text-slate-400 text-sm bg-slate-50 rounded-xl border border-dashed border-slate-200" style={{ height }}>
+        {message}
+    </div>
+);
+
+const Legend: React.FC<{ items: { name: string; color: string }[] }> = ({ items }) => (
+    <div className="flex flex-wrap gap-x-3 gap-y-1 mt-2">
+        {items.map(i => (
+            <span key={i.name} className="flex items-center gap-1 text-[10px] font-bold text-slate-500">
+                <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: i.color }} /> {i.name}
+            </span>
+        ))}
+    </div>
+);
+
+// --- LINE CHART (x = timestamps) ---
+interface LineChartProps {
+    series: ChartSeries[];
+    height?: number;
+    yMax?: number;
+    formatY?: (v: number) => string;
+    formatX?: (v: number) => string;
+    emptyMessage?: string;
+}
+
+export const LineChart: React.FC<LineChartProps> = ({ series, height = 180, yMax, formatY = v => `${Math.round(v)}`, formatX = v => new Date(v).toLocaleDateString(undefined, { day: 'numeric', month: 'short' }), emptyMessage = 'No data yet.' }) => {
+    const all = series.flatMap(s => s.points);
+    if (all.length === 0) return <EmptyChart height={height} message={emptyMessage} />;
+
+    const maxY = yMax || niceMax(Math.max(...all.map(p => p.y)));
+    const minX = Math.min(...all.map(p => p.x));
+    const maxX = Math.max(...all.map(p => p.x));
+    const plotW = WIDTH - PAD.left - PAD.right;
+    const plotH = height - PAD.top - PAD.bottom;
+    const sx = (x: number) => PAD.left + (maxX === minX ? plotW / 2 : ((x - minX) / (maxX - minX)) * plotW);
+    const sy = (y: number) => PAD.top + plotH - (Math.min(y, maxY) / maxY) * plotH;
+
+    return (
+        <div>
+            <svg viewBox={`0 0 ${WIDTH} ${height}`} width="100%" role="img">
+                <YAxis height={height} yMax={maxY} formatY={formatY} />
+                <text x={PAD.left} y={height - 6} fontSize={8} fill="#94a3b8">{formatX(minX)}</text>
+                {maxX !== minX && <text x={WIDTH - PAD.right} y={height - 6} textAnchor="end" fontSize={8} fill="#94a3b8">{formatX(maxX)}</text>}
+                {series.map((s, i) => {
+                    const color = CHART_COLORS[i % CHART_COLORS.length];
+                    return (
+                        <g key={s.id}>
+                            {s.points.length > 1 && (
+                                <polyline fill="none" stroke={color} strokeWidth={1.5} strokeLinejoin="round" points={s.points.map(p => `${sx(p.x)},${sy(p.y)}`).join(' ')} />
+                            )}
+                            {s.points.map((p, j) => (
+                                <circle key={j} cx={sx(p.x)} cy={sy(p.y)} r={2.5} fill={color}>
+                                    <title>{`${s.name}${p.label ? ` • ${p.label}` : ''}: ${formatY(p.y)} (${formatX(p.x)})`}</title>
+                                </circle>
+                            ))}
+                        </g>
+                    );
+                })}
+            </svg>
+            {series.length > 1 && <Legend items={series.map((s, i) => ({ name: s.name, color: CHART_COLORS[i % CHART_COLORS.length] }))} />}
+        </div>
+    );
+};
+
+// --- SCATTER CHART ---
+interface ScatterChartProps {
+    points: ChartPoint[];
+    height?: number;
+    yMax?: number;
+    formatY?: (v: number) => string;
+    formatX?: (v: number) => string;
+    xLabel?: string;
+    emptyMessage?: string;
+}
+
+export const ScatterChart: React.FC<ScatterChartProps> = ({ points, height = 180, yMax, formatY = v => `${Math.round(v)}`, formatX = v => `${Math.round(v)}`, xLabel, emptyMessage = 'No data yet.' }) => {
+    if (points.length === 0) return <EmptyChart height={height} message={emptyMessage} />;
+
+    const maxY = yMax || niceMax(Math.max(...points.map(p => p.y)));
+    const maxX = niceMax(Math.max(...points.map(p => p.x)));
+    const plotW = WIDTH - PAD.left - PAD.right;
+    const plotH = height - PAD.top - PAD.bottom;
+    const sx = (x: number) => PAD.left + (x / maxX) * plotW;
+    const sy = (y: number) => PAD.top + plotH - (Math.min(y, maxY) / maxY) * plotH;
+
+    return (
+        <svg viewBox={`0 0 ${WIDTH} ${height}`} width="100%" role="img">
+            <YAxis height={height} yMax={maxY} formatY={formatY} />
+            {getTicks(maxX).map(t => (
+                <text key={t} x={sx(t)} y={height - 10} textAnchor="middle" fontSize={8} fill="#94a3b8">{formatX(t)}</text>
+            ))}
+            {xLabel && <text x={WIDTH - PAD.right} y={height - 1} textAnchor="end" fontSize={7} fill="#94a3b8">{xLabel}</text>}
+            {points.map((p, i) => (
+                <circle key={i} cx={sx(p.x)} cy={sy(p.y)} r={3} fill={CHART_COLORS[0]} fillOpacity={0.6} stroke={CHART_COLORS[0]} strokeWidth={0.5}>
+                    <title>{`${p.label ? `${p.label}: ` : ''}${formatY(p.y)} at ${formatX(p.x)}`}</title>
+                </circle>
+            ))}
+        </svg>
+    );
+};
+
+// --- BAR CHART ---
+interface BarChartProps {
+    bars: { label: string; value: number; highlight?: boolean }[];
+    height?: number;
+    yMax?: number;
+    formatY?: (v: number) => string;
+    emptyMessage?: string;
+}
+
+export const BarChart: React.FC<BarChartProps> = ({ bars, height = 160, yMax, formatY = v => `${Math.round(v)}`, emptyMessage = 'No data yet.' }) => {
+    if (bars.length === 0 || bars.every(b => b.value <= 0)) return <EmptyChart height={height} message={emptyMessage} />;
+
+    const maxY = yMax || niceMax(Math.max(...bars.map(b => b.value)));
+    const plotW = WIDTH - PAD.left - PAD.right;
+    const plotH = height - PAD.top - PAD.bottom;
+    const slot = plotW / bars.length;
+    const barW = Math.max(2, slot * 0.7);
+    // Skip labels when they would overlap
+    const labelEvery = Math.ceil(bars.length / 7);
+
+    return (
+        <svg viewBox={`0 0 ${WIDTH} ${height}`} width="100%" role="img">
+            <YAxis height={height} yMax={maxY} formatY={formatY} />
+            {bars.map((b, i) => {
+                const h = (Math.min(b.value, maxY) / maxY) * plotH;
+                const x = PAD.left + slot * i + (slot - barW) / 2;
+                return (
+                    <g key={i}>
+                        <rect x={x} y={PAD.top + plotH - h} width={barW} height={h} rx={1.5} fill={b.highlight ? CHART_COLORS[1] : CHART_COLORS[0]}>
+                            <title>{`${b.label}: ${formatY(b.value)}`}</title>
+                        </rect>
+                        {i % labelEvery === 0 && (
+                            <text x={x + barW / 2} y={height - 8} textAnchor="middle" fontSize={7} fill="#94a3b8">{b.label}</text>
+                        )}
+                    </g>
+                );
+            })}
+        </svg>
+    );
+};
@@ -0,0 +1,63 @@
+import React, { useEffect, useState } from 'react';
+import { CreditTransaction } from '../types';
+import { Receipt, X, ArrowDownLeft, ArrowUpRight } from 'lucide-react';
+import { subscribeToCreditLedger } from '../storage';
+import { CREDIT_TXN_LABELS, sortLedger } from '../utils/creditLedger';
+
+interface Props {
+    userId: string;
+    balance: number;
+    onClose: () => void;
+}
+
+export const CoinHistory: React.FC<Props> = ({ userId, balance, onClose }) => {
+    const [txns, setTxns] = useState<CreditTransaction[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        const unsub = subscribeToCreditLedger(userId, (data) => {
+            setTxns(sortLedger(data as CreditTransaction[]));
+            setLoading(false);
+        });
+        return () => unsub();
+    }, [userId]);
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-in fade-in">
+            <div className="bg-white rounded-2xl w-full max-w-sm shadow-xl max-h-[85vh] flex flex-col overflow-hidden">
+                <div className="p-4 border-b border-slate-100 flex items-center justify-between">
+                    <div>
+                        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2"><Receipt size={18} className="text-blue-600" /> Coin History</h3>
+                        <p className="text-xs text-slate-500">Current Balance: <span className="font-bold text-blue-600">{balance} Coins</span></p>
+                    </div>
+                    <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 bg-slate-50 rounded-full"><X size={18} /></button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4 space-y-2">
+                    {loading && <p className="text-xs text-slate-400 text-center py-6">Loading...</p>}
+                    {!loading && txns.length === 0 && (
+                        <p className="text-xs text-slate-400 text-center py-6">No coin activity yet. Coins you earn and spend will show up here.</p>
+                    )}
+                    {txns.map(t => (
+                        <div key={t.id} className="flex items-center justify-between gap-2 p-3 bg-slate-50 rounded-xl border border-slate-100">
+                            <div className="flex items-center gap-2 min-w-0">
+                                <div className={`w-8 h-8 rounded-full flex items-center justify-center shrink-0 ${t.amount < 0 ? 'bg-red-100 text-red-600' : 'bg-green-100 text-green-600'}`}>
+                                    {t.amount < 0 ? <ArrowUpRight size={14} /> : <ArrowDownLeft size={14} />}
+                                </div>
+                                <div className="min-w-0">
+                                    <p className="text-xs font-bold text-slate-700 truncate">{CREDIT_TXN_LABELS[t.type] || t.type}</p>
+                                    {t.note && <p className="text-[10px] text-slate-500 truncate">{t.note}</p>}
+                                    <p className="text-[10px] text-slate-400">{new Date(t.timestamp).toLocaleString()}</p>
+                                </div>
+                            </div>
+                            <div className="text-right shrink-0">
+                                <p className={`text-sm font-black ${t.amount < 0 ? 'text-red-600' : 'text-green-600'}`}>{t.amount > 0 ? '+' : ''}{t.amount}</p>
+                                <p className="text-[9px] text-slate-400">Bal {t.balanceAfter}</p>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
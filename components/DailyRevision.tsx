@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+import { MCQItem, ReviewCard, User } from '../types';
+import { loadReviewQuestions } from '../storage';
+import { buildRevisionSession, gradeAnswer, reviewCard, getDueCards } from '../utils/spacedRepetition';
+import { ArrowLeft, Brain, CheckCircle, XCircle, RotateCcw } from 'lucide-react';
+
+interface Props {
+    user: User;
+    onUpdateUser: (user: User) => void;
+    onBack: () => void;
+}
+
+// One revision session: due cards from every subject, each answer reschedules its card
+export const DailyRevision: React.FC<Props> = ({ user, onUpdateUser, onBack }) => {
+    const [dueCards] = useState<ReviewCard[]>(() => buildRevisionSession(user.reviewQueue));
+    const [questions, setQuestions] = useState<Record<string, MCQItem> | null>(null);
+    const [queue, setQueue] = useState<ReviewCard[]>(user.reviewQueue || []);
+    const [index, setIndex] = useState(0);
+    const [selected, setSelected] = useState<number | null>(null);
+    const [unsure, setUnsure] = useState(false);
+    const [correctCount, setCorrectCount] = useState(0);
+    const [saved, setSaved] = useState(false);
+
+    // Cards keep only the question key: fetch this session's questions (removed ones are skipped)
+    useEffect(() => {
+        loadReviewQuestions(dueCards).then(setQuestions);
+    }, []);
+
+    const session = questions ? dueCards.filter(c => questions[c.id]) : [];
+    const card = session[index];
+    const item = card && questions?.[card.id];
+    const finished = index >= session.length;
+
+    const save = (nextQueue: ReviewCard[]) => {
+        if (saved) return;
+        setSaved(true);
+        onUpdateUser({ ...user, reviewQueue: nextQueue });
+    };
+
+    const handleNext = () => {
+        if (!card || !item || selected === null) return;
+        const nextQueue = reviewCard(queue, card.id, gradeAnswer(selected === item.correctAnswer, unsure));
+        setQueue(nextQueue);
+        setSelected(null);
+        setUnsure(false);
+        setIndex(index + 1);
+        if (index + 1 >= session.length) save(nextQueue);
+    };
+
+    const handleSelect = (oIdx: number) => {
+        if (selected !== null || !item) return;
+        setSelected(oIdx);
+        if (oIdx === item.correctAnswer) setCorrectCount(c => c + 1);
+    };
+
+    // Leaving mid-session keeps the cards already answered
+    const handleExit = () => {
+        if (index > 0 && !finished) save(queue);
+        onBack();
+    };
+
+    return (
+        <div className="animate-in fade-in slide-in-from-bottom-4 space-y-4">
+            <div className="flex items-center justify-between">
+                <button onClick={handleExit} className="flex items-center gap-2 text-slate-600 font-bold text-sm bg-slate-100 px-4 py-2 rounded-xl hover:bg-slate-200"><ArrowLeft size={16} /> Back</button>
+                <div className="text-right">
+                    <h3 className="font-black text-slate-800 flex items-center gap-2 justify-end"><Brain size={18} className="text-indigo-600" /> Daily Revision</h3>
+                    {!finished && <p className="text-[10px] font-bold text-slate-400 uppercase">Card {index + 1} of {session.length}</p>}
+                </div>
+            </div>
+
+            {questions === null && (
+                <div className="bg-white p-8 rounded-2xl border border-slate-200 text-center text-sm text-slate-400">Loading questions...</div>
+            )}
+
+            {/* NOTHING DUE */}
+            {questions !== null && session.length === 0 && (
+                <div className="bg-white p-8 rounded-2xl border border-slate-200 text-center">
+                    <CheckCircle size={40} className="mx-auto text-green-500 mb-3" />
+                    <h4 className="font-black text-slate-800 mb-1">All caught up!</h4>
+                    <p className="text-sm text-slate-500">{(user.reviewQueue || []).length ? `${(user.reviewQueue || []).length} question(s) are scheduled for later days.` : 'Questions you get wrong or mark "Not Sure" in practice will come back here.'}</p>
+                </div>
+            )}
+
+            {/* QUESTION CARD */}
+            {card && item && (
+                <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
+                    <p className="text-[10px] font-bold text-indigo-600 uppercase mb-2">{card.subjectName} • {card.chapterTitle}</p>
+                    <h4 className="font-bold text-slate-800 mb-4 leading-relaxed">{item.question}</h4>
+                    <div className="space-y-2">
+                        {item.options.map((opt, oIdx) => {
+                            let cls = 'bg-white border-slate-200 text-slate-700 hover:bg-slate-50';
+                            if (selected !== null) {
+                                if (oIdx === item.correctAnswer) cls = 'bg-green-50 border-green-500 text-green-700';
+                                else if (oIdx === selected) cls = 'bg-red-50 border-red-500 text-red-700';
+                                else cls = 'bg-slate-50 border-slate-100 opacity-50';
+                            }
+                            return (
+                                <button key={oIdx} disabled={selected !== null} onClick={() => handleSelect(oIdx)} className={`w-full text-left p-3 rounded-xl border-2 text-sm font-bold transition-all flex justify-between items-center ${cls}`}>
+                                    {opt}
+                                    {selected !== null && oIdx === item.correctAnswer && <CheckCircle size={16} className="text-green-600" />}
+                                    {selected === oIdx && oIdx !== item.correctAnswer && <XCircle size={16} className="text-red-500" />}
+                                </button>
+                            );
+                        })}
+                    </div>
+                    {selected === null ? (
+                        <button onClick={() => setUnsure(!unsure)} className={`mt-3 text-[10px] font-bold px-3 py-1 rounded-full border ${unsure ? 'bg-amber-100 text-amber-700 border-amber-200' : 'bg-white text-slate-400 border-slate-200'}`}>
+                            {unsure ? '🤔 Marked Not Sure' : 'Not Sure?'}
+                        </button>
+                    ) : (
+                        <>
+                            {item.explanation && item.explanation !== "Answer Key Provided" && (
+                                <div className="mt-4 text-sm text-slate-600 bg-slate-50 p-4 rounded-xl border border-slate-100">{item.explanation}</div>
+                            )}
+                            <button onClick={handleNext} className="mt-4 w-full bg-slate-900 text-white font-bold py-3 rounded-xl active:scale-95">
+                                {index + 1 < session.length ? 'Next' : 'Finish'}
+                            </button>
+                        </>
+                    )}
+                </div>
+            )}
+
+            {/* SESSION SUMMARY */}
+            {finished && session.length > 0 && (
+                <div className="bg-white p-8 rounded-2xl border border-slate-200 text-center">
+                    <RotateCcw size={40} className="mx-auto text-indigo-500 mb-3" />
+                    <h4 className="font-black text-slate-800 mb-1">Revision done: {correctCount}/{session.length} correct</h4>
+                    <p className="text-sm text-slate-500 mb-4">Missed questions come back tomorrow, the rest after longer gaps. {getDueCards(queue).length > 0 ? `${getDueCards(queue).length} more due now.` : ''}</p>
+                    <button onClick={onBack} className="bg-indigo-600 text-white font-bold px-6 py-3 rounded-xl">Back to Home</button>
+                </div>
+            )}
+        </div>
+    );
+};
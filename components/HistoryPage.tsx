@@ -1,13 +1,16 @@
 import React, { useState, useEffect } from 'react';
-import { LessonContent, User, SystemSettings } from '../types';
+import { LessonContent, User, SystemSettings, MCQResult, UserUpdate } from '../types';
 import { BookOpen, Calendar, ChevronDown, ChevronUp, Trash2, Search, FileText, CheckCircle2, Lock } from 'lucide-react';
 import { LessonView } from './LessonView';
-import { saveUserToLive } from '../firebase';
+import { MarksheetCard } from './MarksheetCard';
+import { getMcqResultsPage } from '../storage';
+import { applyCreditChange } from '../utils/creditLedger';
+import { MCQ_RESULTS_PAGE_SIZE, mergeResultPages } from '../utils/mcqResults';
 import { CustomAlert, CustomConfirm } from './CustomDialogs';
 
 interface Props {
     user: User;
-    onUpdateUser: (u: User) => void;
+    onUpdateUser: (u: User, change?: UserUpdate) => void;
     settings?: SystemSettings;
 }
 
@@ -16,6 +19,14 @@ export const HistoryPage: React.FC<Props> = ({ user, onUpdateUser, settings }) =
   const [expandedId, setExpandedId] = useState<string | null>(null);
   const [search, setSearch] = useState('');
   const [selectedLesson, setSelectedLesson] = useState<LessonContent | null>(null);
+  const [view, setView] = useState<'NOTES' | 'RESULTS'>('NOTES');
+
+  // Test results (paged from the mcq_results collection)
+  const [results, setResults] = useState<MCQResult[]>([]);
+  const [resultsLoaded, setResultsLoaded] = useState(false);
+  const [hasMoreResults, setHasMoreResults] = useState(false);
+  const [loadingResults, setLoadingResults] = useState(false);
+  const [selectedResult, setSelectedResult] = useState<MCQResult | null>(null);
   
   const [alertConfig, setAlertConfig] = useState<{isOpen: boolean, message: string}>({isOpen: false, message: ''});
   const [confirmConfig, setConfirmConfig] = useState<{isOpen: boolean, message: string, onConfirm: () => void}>({
@@ -34,6 +45,20 @@ export const HistoryPage: React.FC<Props> = ({ user, onUpdateUser, settings }) =
     }
   }, []);
 
+  const loadResults = async (reset: boolean) => {
+      setLoadingResults(true);
+      const before = reset ? undefined : results[results.length - 1]?.date;
+      const page = await getMcqResultsPage(user.id, MCQ_RESULTS_PAGE_SIZE, before);
+      setResults(prev => mergeResultPages(reset ? (user.mcqHistory || []) : prev, page.results));
+      setHasMoreResults(page.hasMore);
+      setResultsLoaded(true);
+      setLoadingResults(false);
+  };
+
+  useEffect(() => {
+      if (view === 'RESULTS' && !resultsLoaded) loadResults(true);
+  }, [view]);
+
   const handleDelete = (e: React.MouseEvent, id: string) => {
     e.stopPropagation();
     setConfirmConfig({
@@ -50,10 +75,9 @@ export const HistoryPage: React.FC<Props> = ({ user, onUpdateUser, settings }) =
 
   const executeOpenItem = (item: LessonContent, cost: number) => {
       if (cost > 0) {
-          const updatedUser = { ...user, credits: user.credits - cost };
-          onUpdateUser(updatedUser);
+          const { user: updatedUser, change } = applyCreditChange(user, -cost, 'MCQ_UNLOCK', { refId: item.id, note: `History • ${item.title}` });
+          onUpdateUser(updatedUser, change);
           localStorage.setItem('nst_current_user', JSON.stringify(updatedUser));
-          saveUserToLive(updatedUser);
       }
       setSelectedLesson(item);
   };
@@ -131,12 +155,63 @@ export const HistoryPage: React.FC<Props> = ({ user, onUpdateUser, settings }) =
             }}
             onCancel={() => setConfirmConfig({...confirmConfig, isOpen: false})}
         />
+        {selectedResult && (
+            <MarksheetCard
+                result={selectedResult}
+                user={user}
+                settings={settings}
+                onClose={() => setSelectedResult(null)}
+            />
+        )}
         <div className="flex justify-between items-center mb-6">
             <h3 className="text-2xl font-bold text-slate-800 flex items-center gap-2">
-                 <FileText className="text-blue-600" /> Saved Notes (365 Days)
+                 <FileText className="text-blue-600" /> {view === 'NOTES' ? 'Saved Notes (365 Days)' : 'Test Results'}
             </h3>
         </div>
 
+        {/* VIEW SWITCH */}
+        <div className="flex bg-slate-100 p-1 rounded-xl mb-6">
+            {(['NOTES', 'RESULTS'] as const).map(v => (
+                <button key={v} onClick={() => setView(v)} className={`flex-1 py-2 rounded-lg text-sm font-bold transition-all ${view === v ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500'}`}>
+                    {v === 'NOTES' ? 'Notes' : 'Test Results'}
+                </button>
+            ))}
+        </div>
+
+        {view === 'RESULTS' ? (
+            <div className="space-y-3">
+                {results.length === 0 && !loadingResults && (
+                    <div className="text-center py-12 text-slate-400 bg-slate-50 rounded-xl border border-slate-200">
+                        <CheckCircle2 size={48} className="mx-auto mb-3 opacity-30" />
+                        <p>No test results yet. Finish an MCQ test to see it here.</p>
+                    </div>
+                )}
+                {results.map(r => (
+                    <div key={r.id} onClick={() => setSelectedResult(r)} className="bg-white border border-slate-200 rounded-xl p-4 hover:shadow-md transition-all cursor-pointer flex justify-between items-center">
+                        <div>
+                            <span className="text-[10px] font-bold uppercase tracking-wider bg-slate-100 text-slate-600 px-2 py-0.5 rounded">{r.subjectName}</span>
+                            <h4 className="font-bold text-slate-800 mt-1">{r.chapterTitle}</h4>
+                            <div className="flex items-center gap-2 text-xs text-slate-400 mt-1">
+                                <Calendar size={12} />
+                                {new Date(r.date).toLocaleDateString()}
+                            </div>
+                        </div>
+                        <div className="text-right">
+                            <p className="text-lg font-black text-slate-800">{r.correctCount}/{r.totalQuestions}</p>
+                            <p className="text-[10px] font-bold text-blue-600">View Marksheet</p>
+                        </div>
+                    </div>
+                ))}
+                {loadingResults && <p className="text-center py-4 text-slate-400 text-sm font-bold animate-pulse">Loading results...</p>}
+                {hasMoreResults && !loadingResults && (
+                    <button onClick={() => loadResults(false)} className="w-full py-3 bg-white border border-slate-200 rounded-xl text-sm font-bold text-slate-600 hover:bg-slate-50">
+                        Load More
+                    </button>
+                )}
+            </div>
+        ) : (
+        <>
+
         <div className="relative mb-6">
             <Search className="absolute left-3 top-3 text-slate-400" size={18} />
             <input 
@@ -202,6 +277,8 @@ export const HistoryPage: React.FC<Props> = ({ user, onUpdateUser, settings }) =
                 ))}
             </div>
         )}
+        </>
+        )}
     </div>
   );
 };
\ No newline at end of file
@@ -1,35 +1,101 @@
 
 import React, { useState, useEffect } from 'react';
-import { LeaderboardEntry } from '../types';
-import { Trophy, Medal, User } from 'lucide-react';
+import { Board, ClassLevel, LeaderboardFilters, LeaderboardRow, LeaderboardWindow, RankedLeaderboardRow, User } from '../types';
+import { getLeaderboardRank, subscribeToLeaderboard } from '../storage';
+import { LEADERBOARD_WINDOW_LABELS, LEADERBOARD_TOP_N, rankLeaderboard } from '../utils/leaderboard';
+import { formatTestDuration } from '../utils/testResults';
+import { DEFAULT_SUBJECTS } from '../constants';
+import { Trophy, Medal } from 'lucide-react';
 
-export const Leaderboard: React.FC = () => {
-    const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+interface Props {
+    user: User;
+}
 
+const CLASS_OPTIONS: ClassLevel[] = ['6', '7', '8', '9', '10', '11', '12', 'COMPETITION'];
+const BOARD_OPTIONS: Board[] = ['CBSE', 'BSEB', 'COMPETITION'];
+
+export const Leaderboard: React.FC<Props> = ({ user }) => {
+    const [timeWindow, setTimeWindow] = useState<LeaderboardWindow>('WEEKLY');
+    const [rows, setRows] = useState<LeaderboardRow[]>([]);
+    const [myRow, setMyRow] = useState<RankedLeaderboardRow | null>(null); // Only when below the rows read
+    const [loading, setLoading] = useState(true);
+    const [classFilter, setClassFilter] = useState<string>(user.classLevel || '');
+    const [boardFilter, setBoardFilter] = useState<string>('');
+    const [subjectFilter, setSubjectFilter] = useState<string>('');
+
+    // Each filter combination is its own bucket, read straight from the database
     useEffect(() => {
-        const stored = localStorage.getItem('nst_leaderboard');
-        if (stored) {
-            try {
-                const data: LeaderboardEntry[] = JSON.parse(stored);
-                if (Array.isArray(data)) {
-                    // Sort by Score DESC, then Date DESC
-                    const sorted = data.sort((a, b) => b.score - a.score || new Date(b.date).getTime() - new Date(a.date).getTime());
-                    setEntries(sorted);
-                }
-            } catch (e) {
-                console.error("Failed to load leaderboard", e);
-                // Reset if corrupt
-                localStorage.removeItem('nst_leaderboard');
-            }
-        }
-    }, []);
+        const filters: LeaderboardFilters = {
+            classLevel: (classFilter || undefined) as ClassLevel | undefined,
+            board: (boardFilter || undefined) as Board | undefined,
+            subjectId: subjectFilter || undefined
+        };
+        let active = true; // A rank read for the previous filters can land after they change
+        setLoading(true);
+        const unsub = subscribeToLeaderboard(timeWindow, filters, (data) => {
+            setRows(data);
+            setLoading(false);
+            if (data.some(r => r.userId === user.id)) setMyRow(null);
+            else getLeaderboardRank(timeWindow, filters, user.id).then(row => { if (active) setMyRow(row); });
+        });
+        return () => { active = false; unsub(); };
+    }, [timeWindow, classFilter, boardFilter, subjectFilter]);
+
+    const top = rankLeaderboard(rows);
+    const showMine = myRow && !top.some(r => r.userId === user.id);
+
+    const renderRow = (entry: RankedLeaderboardRow, pinned = false) => (
+        <tr key={pinned ? 'me' : entry.userId} className={entry.userId === user.id ? 'bg-blue-50' : entry.rank <= 3 ? 'bg-yellow-50/30' : ''}>
+            <td className="p-4 font-bold text-slate-600">
+                {entry.rank === 1 && <Medal size={20} className="text-yellow-500" />}
+                {entry.rank === 2 && <Medal size={20} className="text-gray-400" />}
+                {entry.rank === 3 && <Medal size={20} className="text-orange-600" />}
+                {entry.rank > 3 && `#${entry.rank}`}
+            </td>
+            <td className="p-4 font-medium text-slate-800 flex items-center gap-2">
+                <div className="w-8 h-8 rounded-full bg-slate-100 flex items-center justify-center text-xs font-bold text-slate-500">
+                    {entry.userName.charAt(0)}
+                </div>
+                <div>
+                    <p>{entry.userName}{entry.userId === user.id && <span className="text-[10px] font-bold text-blue-600 ml-1">(You)</span>}</p>
+                    <p className="text-[10px] text-slate-400">{entry.classLevel ? `Class ${entry.classLevel}` : ''}{entry.board ? ` • ${entry.board}` : ''}</p>
+                </div>
+            </td>
+            <td className="p-4 text-sm text-slate-500 text-center">{entry.attempts}</td>
+            <td className="p-4 text-sm text-slate-500 text-center font-mono">{formatTestDuration(entry.timeTakenSeconds)}</td>
+            <td className="p-4 text-right font-black text-blue-600">{entry.score} pts</td>
+        </tr>
+    );
 
     return (
         <div className="animate-in fade-in slide-in-from-bottom-4">
             <h3 className="text-2xl font-black text-slate-800 mb-6 flex items-center gap-3">
                 <Trophy className="text-yellow-500" /> Challenge Leaderboard
             </h3>
-            
+
+            {/* TIME WINDOW */}
+            <div className="flex gap-2 mb-3 overflow-x-auto">
+                {(Object.keys(LEADERBOARD_WINDOW_LABELS) as LeaderboardWindow[]).map(w => (
+                    <button key={w} onClick={() => setTimeWindow(w)} className={`px-3 py-1.5 rounded-lg text-xs font-bold whitespace-nowrap ${timeWindow === w ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-600'}`}>{LEADERBOARD_WINDOW_LABELS[w]}</button>
+                ))}
+            </div>
+
+            {/* FILTERS */}
+            <div className="grid grid-cols-3 gap-2 mb-4">
+                <select value={classFilter} onChange={e => setClassFilter(e.target.value)} className="p-2 border border-slate-200 rounded-xl text-xs font-bold">
+                    <option value="">All Classes</option>
+                    {CLASS_OPTIONS.map(c => <option key={c} value={c}>{c === 'COMPETITION' ? 'Competition' : `Class ${c}`}</option>)}
+                </select>
+                <select value={boardFilter} onChange={e => setBoardFilter(e.target.value)} className="p-2 border border-slate-200 rounded-xl text-xs font-bold">
+                    <option value="">All Boards</option>
+                    {BOARD_OPTIONS.map(b => <option key={b} value={b}>{b}</option>)}
+                </select>
+                <select value={subjectFilter} onChange={e => setSubjectFilter(e.target.value)} className="p-2 border border-slate-200 rounded-xl text-xs font-bold">
+                    <option value="">All Subjects</option>
+                    {Object.values(DEFAULT_SUBJECTS).map((s: any) => <option key={s.id} value={s.id}>{s.name}</option>)}
+                </select>
+            </div>
+
             <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
                 <div className="overflow-x-auto">
                     <table className="w-full text-left">
@@ -37,36 +103,30 @@ export const Leaderboard: React.FC = () => {
                             <tr>
                                 <th className="p-4">Rank</th>
                                 <th className="p-4">Student</th>
-                                <th className="p-4">Topic</th>
+                                <th className="p-4 text-center">Tests</th>
+                                <th className="p-4 text-center">Time</th>
                                 <th className="p-4 text-right">Score</th>
                             </tr>
                         </thead>
                         <tbody className="divide-y divide-slate-100">
-                            {entries.length === 0 && (
-                                <tr><td colSpan={4} className="p-8 text-center text-slate-400">No records yet. Be the first!</td></tr>
+                            {loading && (
+                                <tr><td colSpan={5} className="p-8 text-center text-slate-400">Loading...</td></tr>
+                            )}
+                            {!loading && top.length === 0 && (
+                                <tr><td colSpan={5} className="p-8 text-center text-slate-400">No records yet. Be the first!</td></tr>
                             )}
-                            {entries.map((entry, idx) => (
-                                <tr key={entry.id} className={idx < 3 ? 'bg-yellow-50/30' : ''}>
-                                    <td className="p-4 font-bold text-slate-600">
-                                        {idx === 0 && <Medal size={20} className="text-yellow-500" />}
-                                        {idx === 1 && <Medal size={20} className="text-gray-400" />}
-                                        {idx === 2 && <Medal size={20} className="text-orange-600" />}
-                                        {idx > 2 && `#${idx + 1}`}
-                                    </td>
-                                    <td className="p-4 font-medium text-slate-800 flex items-center gap-2">
-                                        <div className="w-8 h-8 rounded-full bg-slate-100 flex items-center justify-center text-xs font-bold text-slate-500">
-                                            {entry.userName.charAt(0)}
-                                        </div>
-                                        {entry.userName}
-                                    </td>
-                                    <td className="p-4 text-sm text-slate-500">{entry.topic}</td>
-                                    <td className="p-4 text-right font-black text-blue-600">{entry.score} pts</td>
-                                </tr>
-                            ))}
+                            {top.map(entry => renderRow(entry))}
                         </tbody>
+                        {/* YOUR RANK (outside the top list) */}
+                        {showMine && (
+                            <tbody className="border-t-2 border-dashed border-slate-200">
+                                {renderRow(myRow!, true)}
+                            </tbody>
+                        )}
                     </table>
                 </div>
             </div>
+            <p className="text-[10px] text-slate-400 mt-2 text-center">Top {LEADERBOARD_TOP_N} by correct answers in published weekly tests • equal scores are ranked by less time taken</p>
         </div>
     );
 };
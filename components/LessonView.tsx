@@ -2,7 +2,7 @@ import React, { useState, useEffect, useRef } from 'react';
 import ReactMarkdown from 'react-markdown';
 import { 
   LessonContent, Subject, ClassLevel, Chapter, 
-  MCQItem, ContentType, User, SystemSettings 
+  MCQItem, ContentType, User, SystemSettings, IntegrityEvent 
 } from '../types';
 import { 
   ArrowLeft, Clock, AlertTriangle, ExternalLink, CheckCircle, 
@@ -13,6 +13,7 @@ import { CustomConfirm, CustomAlert } from './CustomDialogs';
 import remarkMath from 'remark-math';
 import rehypeKatex from 'rehype-katex';
 import { decodeHtml } from '../utils/htmlDecoder';
+import { startIntegrityMonitor } from '../utils/proctoring';
 
 interface Props {
   content: LessonContent | null;
@@ -21,7 +22,7 @@ interface Props {
   chapter: Chapter;
   loading: boolean;
   onBack: () => void;
-  onMCQComplete?: (count: number, answers: Record<number, number>, usedData: MCQItem[], timeTaken: number) => void; 
+  onMCQComplete?: (count: number, answers: Record<number, number>, usedData: MCQItem[], timeTaken: number, integrityLog?: IntegrityEvent[], unsure?: Record<number, boolean>) => void; 
   user?: User;
   onUpdateUser?: (user: User) => void;
   settings?: SystemSettings;
@@ -44,6 +45,7 @@ export const LessonView: React.FC<Props> = ({
   // ==========================================
   // MCQ State Management
   const [mcqState, setMcqState] = useState<Record<number, number | null>>({});
+  const [unsureState, setUnsureState] = useState<Record<number, boolean>>({}); // "Not sure" marks, fed to the revision queue
   const [showResults, setShowResults] = useState(false); // Used to trigger Analysis Mode
   const [localMcqData, setLocalMcqData] = useState<MCQItem[]>([]);
   const [showResumePrompt, setShowResumePrompt] = useState(false);
@@ -53,6 +55,7 @@ export const LessonView: React.FC<Props> = ({
   // Timer & UI State
   const [sessionTime, setSessionTime] = useState(0); // Total seconds
   const [batchIndex, setBatchIndex] = useState(0);
+  const [integrityLog, setIntegrityLog] = useState<IntegrityEvent[]>([]); // Test mode proctoring
   const BATCH_SIZE = 50; // Pagination for large question sets
 
   // Refs for UI interactions
@@ -238,17 +241,24 @@ export const LessonView: React.FC<Props> = ({
           }
       }, [content.mcqData, chapter.id, content.userAnswers]);
 
+      // --- Proctoring (test mode only, logged with the result) ---
+      useEffect(() => {
+          if (content.type !== 'MCQ_ANALYSIS' || showResults || content.userAnswers) return;
+          return startIntegrityMonitor({}, (event) => setIntegrityLog(prev => [...prev, event]));
+      }, [content.type, showResults, content.userAnswers]);
+
       // --- Auto-Save Progress ---
       useEffect(() => {
           if (!showResults && Object.keys(mcqState).length > 0) {
               const key = `nst_mcq_progress_${chapter.id}`;
               localStorage.setItem(key, JSON.stringify({
                   mcqState,
+                  unsureState,
                   batchIndex,
                   localMcqData
               }));
           }
-      }, [mcqState, batchIndex, chapter.id, localMcqData, showResults]);
+      }, [mcqState, unsureState, batchIndex, chapter.id, localMcqData, showResults]);
 
       // Handlers
       const handleResume = () => {
@@ -257,6 +267,7 @@ export const LessonView: React.FC<Props> = ({
           if (saved) {
               const parsed = JSON.parse(saved);
               setMcqState(parsed.mcqState || {});
+              setUnsureState(parsed.unsureState || {});
               setBatchIndex(parsed.batchIndex || 0);
               if (parsed.localMcqData) setLocalMcqData(parsed.localMcqData);
           }
@@ -267,7 +278,9 @@ export const LessonView: React.FC<Props> = ({
           const key = `nst_mcq_progress_${chapter.id}`;
           localStorage.removeItem(key);
           setMcqState({});
+          setUnsureState({});
           setBatchIndex(0);
+          setIntegrityLog([]);
           setLocalMcqData([...(content.mcqData || [])].sort(() => Math.random() - 0.5));
           setShowResumePrompt(false);
           setAnalysisUnlocked(false);
@@ -283,6 +296,7 @@ export const LessonView: React.FC<Props> = ({
                   const shuffled = [...(content.mcqData || [])].sort(() => Math.random() - 0.5);
                   setLocalMcqData(shuffled);
                   setMcqState({});
+                  setUnsureState({});
                   setBatchIndex(0);
                   setShowResults(false);
                   setAnalysisUnlocked(false);
@@ -310,7 +324,7 @@ export const LessonView: React.FC<Props> = ({
           setShowSubmitModal(false);
           const key = `nst_mcq_progress_${chapter.id}`;
           localStorage.removeItem(key);
-          if (onMCQComplete) onMCQComplete(score, mcqState as any, localMcqData, sessionTime);
+          if (onMCQComplete) onMCQComplete(score, mcqState as any, localMcqData, sessionTime, integrityLog, unsureState);
       };
 
       return (
@@ -398,6 +412,14 @@ export const LessonView: React.FC<Props> = ({
                                    <span className="bg-slate-900 text-white w-8 h-8 rounded-xl flex items-center justify-center text-sm shrink-0 font-black mt-0.5 shadow-md">{idx + 1}</span>
                                    {q.question}
                                </h4>
+                               {!showResults && (
+                                   <button
+                                       onClick={() => setUnsureState(prev => ({ ...prev, [idx]: !prev[idx] }))}
+                                       className={`-mt-3 mb-4 text-[10px] font-bold px-3 py-1 rounded-full border transition-colors ${unsureState[idx] ? 'bg-amber-100 text-amber-700 border-amber-200' : 'bg-white text-slate-400 border-slate-200 hover:bg-slate-50'}`}
+                                   >
+                                       {unsureState[idx] ? '🤔 Marked Not Sure' : 'Not Sure?'}
+                                   </button>
+                               )}
                                <div className="space-y-3">
                                    {q.options.map((opt, oIdx) => {
                                        let btnClass = "w-full text-left p-4 rounded-2xl border-2 transition-all text-sm font-bold relative overflow-hidden ";
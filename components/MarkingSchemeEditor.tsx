@@ -0,0 +1,76 @@
+import React from 'react';
+import { MarkingScheme, MarkingSectionRule } from '../types';
+import { DEFAULT_MARKING_SCHEME, MARKING_PRESETS, describeMarkingScheme } from '../utils/marking';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface Props {
+    value?: MarkingScheme;
+    onChange: (scheme: MarkingScheme) => void;
+    totalQuestions: number;
+}
+
+// Admin editor for test-wide marks + per-section overrides
+export const MarkingSchemeEditor: React.FC<Props> = ({ value, onChange, totalQuestions }) => {
+    const scheme = value || DEFAULT_MARKING_SCHEME;
+    const sections = scheme.sections || [];
+
+    const setField = (field: 'correct' | 'wrong' | 'unattempted', v: string) => {
+        onChange({ ...scheme, preset: undefined, [field]: Number(v) || 0 });
+    };
+
+    const updateSection = (idx: number, patch: Partial<MarkingSectionRule>) => {
+        onChange({ ...scheme, sections: sections.map((s, i) => i === idx ? { ...s, ...patch } : s) });
+    };
+
+    const addSection = () => {
+        const from = sections.length ? Math.min(totalQuestions, sections[sections.length - 1].toQuestion + 1) : 1;
+        onChange({ ...scheme, sections: [...sections, { name: `Section ${sections.length + 1}`, fromQuestion: from, toQuestion: Math.max(from, totalQuestions) }] });
+    };
+
+    // Blank input = use the test-wide value
+    const optionalNumber = (v: string) => v === '' ? undefined : Number(v);
+
+    return (
+        <div className="bg-white p-4 rounded-xl border border-slate-200 space-y-3">
+            <div className="flex items-center justify-between gap-2">
+                <p className="text-xs font-bold text-slate-700 uppercase">Marking Scheme <span className="text-slate-400 normal-case font-medium">({describeMarkingScheme(scheme)})</span></p>
+                <select
+                    value={scheme.preset || ''}
+                    onChange={e => e.target.value && onChange({ ...MARKING_PRESETS[e.target.value].scheme, sections: scheme.sections })}
+                    className="p-1.5 border border-slate-200 rounded-lg text-xs font-bold"
+                >
+                    <option value="">Custom</option>
+                    {Object.entries(MARKING_PRESETS).map(([key, p]) => <option key={key} value={key}>{p.label}</option>)}
+                </select>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+                <div>
+                    <label className="text-[10px] font-bold text-green-600 uppercase block mb-1">Correct (+)</label>
+                    <input type="number" step="0.25" value={scheme.correct} onChange={e => setField('correct', e.target.value)} className="w-full p-2 border border-slate-200 rounded-lg font-bold text-sm" />
+                </div>
+                <div>
+                    <label className="text-[10px] font-bold text-red-600 uppercase block mb-1">Wrong (−)</label>
+                    <input type="number" step="0.25" min="0" value={scheme.wrong} onChange={e => setField('wrong', e.target.value)} className="w-full p-2 border border-slate-200 rounded-lg font-bold text-sm" />
+                </div>
+                <div>
+                    <label className="text-[10px] font-bold text-slate-500 uppercase block mb-1">Unattempted</label>
+                    <input type="number" step="0.25" value={scheme.unattempted ?? 0} onChange={e => setField('unattempted', e.target.value)} className="w-full p-2 border border-slate-200 rounded-lg font-bold text-sm" />
+                </div>
+            </div>
+
+            {sections.map((sec, idx) => (
+                <div key={idx} className="grid grid-cols-[1fr_50px_50px_50px_50px_auto] gap-1 items-center">
+                    <input type="text" value={sec.name} onChange={e => updateSection(idx, { name: e.target.value })} className="p-1.5 border border-slate-200 rounded text-xs font-bold" />
+                    <input type="number" title="From Q" value={sec.fromQuestion} onChange={e => updateSection(idx, { fromQuestion: Number(e.target.value) })} className="p-1.5 border border-slate-200 rounded text-xs" />
+                    <input type="number" title="To Q" value={sec.toQuestion} onChange={e => updateSection(idx, { toQuestion: Number(e.target.value) })} className="p-1.5 border border-slate-200 rounded text-xs" />
+                    <input type="number" title="Correct" placeholder="+" value={sec.correct ?? ''} onChange={e => updateSection(idx, { correct: optionalNumber(e.target.value) })} className="p-1.5 border border-green-200 rounded text-xs" />
+                    <input type="number" title="Wrong" placeholder="−" value={sec.wrong ?? ''} onChange={e => updateSection(idx, { wrong: optionalNumber(e.target.value) })} className="p-1.5 border border-red-200 rounded text-xs" />
+                    <button onClick={() => onChange({ ...scheme, sections: sections.filter((_, i) => i !== idx) })} className="text-red-400 hover:text-red-600 p-1"><Trash2 size={14} /></button>
+                </div>
+            ))}
+            <button onClick={addSection} className="text-xs font-bold text-blue-600 flex items-center gap-1 hover:underline">
+                <Plus size={12} /> Section Override (Q from–to, blank = test-wide marks)
+            </button>
+        </div>
+    );
+};
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { MCQResult, User, SystemSettings } from '../types';
 import { X, Share2, ChevronLeft, ChevronRight } from 'lucide-react';
+import { describeMarkingScheme, formatMarks, roundMarks } from '../utils/marking';
 
 interface Props {
   result: MCQResult;
@@ -14,7 +15,11 @@ export const MarksheetCard: React.FC<Props> = ({ result, user, settings, onClose
   const [page, setPage] = useState(1);
   const ITEMS_PER_PAGE = 50;
 
-  const percentage = Math.round((result.score / result.totalQuestions) * 100);
+  // Negative marking: percentage of max marks (never below 0), otherwise of questions
+  const hasMarking = result.netScore !== undefined && !!result.maxScore;
+  const percentage = hasMarking
+      ? Math.round((Math.max(0, result.netScore!) / result.maxScore!) * 100)
+      : Math.round((result.score / result.totalQuestions) * 100);
   const attempted = (result.correctCount + result.wrongCount);
   
   const omrData = result.omrData || [];
@@ -23,7 +28,7 @@ export const MarksheetCard: React.FC<Props> = ({ result, user, settings, onClose
   const currentData = omrData.slice((page - 1) * ITEMS_PER_PAGE, page * ITEMS_PER_PAGE);
 
   // OMR Rendering Logic
-  const renderOMRRow = (qIndex: number, selected: number, correct: number) => {
+  const renderOMRRow = (qIndex: number, selected: number, correct: number, marks?: number) => {
       const options = [0, 1, 2, 3]; // A, B, C, D
       return (
           <div key={qIndex} className="flex items-center gap-3 mb-2">
@@ -52,12 +57,15 @@ export const MarksheetCard: React.FC<Props> = ({ result, user, settings, onClose
                       );
                   })}
               </div>
+              {hasMarking && marks !== undefined && (
+                  <span className={`w-8 text-[9px] font-black ${marks > 0 ? 'text-green-600' : marks < 0 ? 'text-red-500' : 'text-slate-300'}`}>{formatMarks(marks)}</span>
+              )}
           </div>
       );
   };
 
   const handleShare = async () => {
-      const text = `*NSTA RESULT*\n\nName: ${user.name}\nScore: ${percentage}%\nCorrect: ${result.correctCount}/${result.totalQuestions}\nDate: ${new Date(result.date).toLocaleDateString()}\n\nCheck out my progress on IIC App!`;
+      const text = `*NSTA RESULT*\n\nName: ${user.name}\nScore: ${percentage}%${hasMarking ? ` (${result.netScore}/${result.maxScore} marks)` : ''}${result.rank !== undefined ? `\nRank: #${result.rank}` : ''}\nCorrect: ${result.correctCount}/${result.totalQuestions}\nDate: ${new Date(result.date).toLocaleDateString()}\n\nCheck out my progress on IIC App!`;
       if (navigator.share) {
           try { await navigator.share({ title: 'NSTA Result', text }); } catch(e) {}
       } else {
@@ -98,6 +106,12 @@ export const MarksheetCard: React.FC<Props> = ({ result, user, settings, onClose
                             <span className="font-bold text-slate-400 uppercase text-[10px] pt-1">Class</span>
                             <span className="font-bold text-slate-700 border-b border-slate-200 pb-1">{result.classLevel || user.classLevel || 'N/A'}</span>
                         </div>
+                        {result.rank !== undefined && (
+                            <div className="grid grid-cols-[60px_1fr] gap-2 text-sm mt-1">
+                                <span className="font-bold text-slate-400 uppercase text-[10px] pt-1">Rank</span>
+                                <span className="font-black text-blue-700 border-b border-slate-200 pb-1">#{result.rank}{result.totalParticipants ? ` of ${result.totalParticipants}` : ''}</span>
+                            </div>
+                        )}
                     </div>
                     
                     <div className="text-right">
@@ -129,6 +143,54 @@ export const MarksheetCard: React.FC<Props> = ({ result, user, settings, onClose
                 </div>
             </div>
 
+            {/* 3b. MARKS BREAKDOWN (negative marking) */}
+            {hasMarking && (
+                <div className="grid grid-cols-3 divide-x divide-slate-100 border-b border-slate-200 bg-white">
+                    <div className="p-3 text-center">
+                        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Raw Marks</p>
+                        <p className="font-black text-lg text-slate-800">{result.rawScore} <span className="text-xs text-slate-400">/ {result.maxScore}</span></p>
+                    </div>
+                    <div className="p-3 text-center">
+                        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Penalty</p>
+                        <p className="font-black text-lg text-red-600">{formatMarks(roundMarks((result.netScore || 0) - (result.rawScore || 0)))}</p>
+                    </div>
+                    <div className="p-3 text-center">
+                        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Net Marks</p>
+                        <p className="font-black text-lg text-blue-700">{result.netScore} <span className="text-xs text-slate-400">/ {result.maxScore}</span></p>
+                    </div>
+                    <p className="col-span-3 text-[9px] text-slate-400 text-center py-1 border-t border-slate-100">Marking: {describeMarkingScheme(result.markingScheme)}</p>
+                </div>
+            )}
+
+            {/* 3c. SECTION-WISE SCORES */}
+            {result.sectionScores && result.sectionScores.length > 1 && (
+                <div className="border-b border-slate-200 bg-white px-6 py-3">
+                    <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2">Section-wise Score</p>
+                    <table className="w-full text-xs">
+                        <thead>
+                            <tr className="text-[10px] text-slate-400 uppercase">
+                                <th className="text-left font-bold py-1">Section</th>
+                                <th className="font-bold py-1 text-green-600">Correct</th>
+                                <th className="font-bold py-1 text-red-600">Wrong</th>
+                                <th className="font-bold py-1">Skipped</th>
+                                <th className="text-right font-bold py-1">Marks</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100">
+                            {result.sectionScores.map(s => (
+                                <tr key={s.sectionId} className="text-center text-slate-700">
+                                    <td className="text-left font-bold py-1.5">{s.name}</td>
+                                    <td className="py-1.5">{s.correctCount}</td>
+                                    <td className="py-1.5">{s.wrongCount}</td>
+                                    <td className="py-1.5">{s.skippedCount}</td>
+                                    <td className="text-right font-black py-1.5">{s.netScore} <span className="text-slate-400 font-medium">/ {s.maxScore}</span></td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
             {/* 4. OMR SHEET GRID */}
             <div className="p-8 bg-white max-h-[50vh] overflow-y-auto custom-scrollbar">
                 <div className="flex justify-between items-center mb-6">
@@ -142,7 +204,7 @@ export const MarksheetCard: React.FC<Props> = ({ result, user, settings, onClose
                     </div>
                 ) : (
                     <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-x-12 gap-y-2">
-                        {currentData.map((data) => renderOMRRow(data.qIndex, data.selected, data.correct))}
+                        {currentData.map((data) => renderOMRRow(data.qIndex, data.selected, data.correct, data.marks))}
                     </div>
                 )}
 
@@ -1,12 +1,21 @@
 
 import React, { useState, useEffect } from 'react';
-import { Chapter, User, Subject, SystemSettings, MCQResult, PerformanceTag } from '../types';
-import { CheckCircle, Lock, ArrowLeft, Crown, PlayCircle, HelpCircle } from 'lucide-react';
+import { Chapter, User, Subject, SystemSettings, MCQResult, PerformanceTag, MarkingScheme, IntegrityEvent, UserUpdate, MCQItem } from '../types';
+import { CheckCircle, Lock, ArrowLeft, Crown, PlayCircle, HelpCircle, TrendingUp } from 'lucide-react';
 import { CustomAlert, CustomConfirm } from './CustomDialogs';
-import { getChapterData, saveUserToLive, saveUserHistory } from '../firebase';
+import { getChapterData, saveMcqResult, getQuestionBank, getBankQuestionKeys, recordQuestionsServed, recordQuestionAnswers } from '../storage';
+import { applyCreditChange } from '../utils/creditLedger';
+import { scoreAnswers } from '../utils/marking';
+import { drawPoolQuestions, getPoolCandidates, toMcqItems, getQuestionKey } from '../utils/questionBank';
+import { createAttemptSeed } from '../utils/testShuffle';
+import { getIntegrityScore } from '../utils/proctoring';
+import { addAttemptToQueue, gradeAnswer } from '../utils/spacedRepetition';
+import { recordChapterAttempt, rebuildChapterMastery, MASTERY_LEVEL_LABELS, getMasteryLevel, getMasteryScore, hasEnoughData } from '../utils/chapterMastery';
+import { addToMcqSummary } from '../utils/mcqResults';
 import { LessonView } from './LessonView'; 
 import { MarksheetCard } from './MarksheetCard';
 import { AiInterstitial } from './AiInterstitial';
+import { AdaptivePractice, AdaptiveAnswer } from './AdaptivePractice';
 
 // we might need to invoke that or replicate the logic.
 // The user wants "Free Practice" and "Premium Test".
@@ -19,7 +28,7 @@ interface Props {
   classLevel: string;
   stream: string | null;
   onBack: () => void;
-  onUpdateUser: (user: User) => void;
+  onUpdateUser: (user: User, change?: UserUpdate) => void;
   settings?: SystemSettings; // New Prop
 }
 
@@ -27,10 +36,11 @@ export const McqView: React.FC<Props> = ({
   chapter, subject, user, board, classLevel, stream, onBack, onUpdateUser, settings
 }) => {
   const [loading, setLoading] = useState(false);
-  const [viewMode, setViewMode] = useState<'SELECTION' | 'PRACTICE' | 'TEST'>('SELECTION');
+  const [viewMode, setViewMode] = useState<'SELECTION' | 'PRACTICE' | 'TEST' | 'ADAPTIVE'>('SELECTION');
   const [lessonContent, setLessonContent] = useState<any>(null); // To pass to LessonView
   const [resultData, setResultData] = useState<MCQResult | null>(null);
   const [completedMcqData, setCompletedMcqData] = useState<any[]>([]); // Store used data for analysis
+  const [adaptiveQuestions, setAdaptiveQuestions] = useState<any[] | null>(null);
   
   // Custom Dialog State
   const [alertConfig, setAlertConfig] = useState<{isOpen: boolean, message: string, title?: string}>({isOpen: false, message: ''});
@@ -38,15 +48,17 @@ export const McqView: React.FC<Props> = ({
   
   // Interstitial State
   const [showInterstitial, setShowInterstitial] = useState(false);
-  const [pendingStart, setPendingStart] = useState<{mode: 'PRACTICE' | 'TEST', data: any} | null>(null);
+  const [pendingStart, setPendingStart] = useState<{mode: 'PRACTICE' | 'TEST' | 'ADAPTIVE', data: any} | null>(null);
 
-  const handleStart = async (mode: 'PRACTICE' | 'TEST') => {
+  // STRICT KEY MATCHING WITH ADMIN
+  const streamKey = (classLevel === '11' || classLevel === '12') && stream ? `-${stream}` : '';
+  const contentKey = `nst_content_${board}_${classLevel}${streamKey}_${subject.name}_${chapter.id}`;
+  const reviewSource = { contentKey, subjectId: subject.id, subjectName: subject.name, chapterId: chapter.id, chapterTitle: chapter.title };
+
+  const handleStart = async (mode: 'PRACTICE' | 'TEST' | 'ADAPTIVE') => {
       // 1. Fetch Data First (To avoid charging for empty chapters)
       setLoading(true);
-      
-      // STRICT KEY MATCHING WITH ADMIN
-      const streamKey = (classLevel === '11' || classLevel === '12') && stream ? `-${stream}` : '';
-      const key = `nst_content_${board}_${classLevel}${streamKey}_${subject.name}_${chapter.id}`;
+      setAdaptiveQuestions(null);
       
       let data = null;
       try {
@@ -57,16 +69,24 @@ export const McqView: React.FC<Props> = ({
                   new Promise((_, reject) => setTimeout(() => reject("timeout"), ms))
               ]);
           
-          data = await fetchWithTimeout(getChapterData(key), 2500);
+          data = await fetchWithTimeout(getChapterData(contentKey), 2500);
       } catch (e) {
           console.warn("Firebase fetch timed out or failed, falling back to local storage.");
       }
 
       if (!data) {
-          const stored = localStorage.getItem(key);
+          const stored = localStorage.getItem(contentKey);
           if (stored) data = JSON.parse(stored);
       }
 
+      // Pool chapter test: fresh draw from the bank on every attempt (reserved exam questions excluded)
+      if (data?.poolRules?.length) {
+          const bank = await getQuestionBank();
+          const { questionIds } = drawPoolQuestions(data.poolRules, getPoolCandidates(bank, false), createAttemptSeed());
+          const keys = await getBankQuestionKeys(questionIds);
+          data = { ...data, manualMcqData: toMcqItems(questionIds, Object.fromEntries(bank.map(q => [q.id, q])), keys), questionIds };
+      }
+
       // Handle Empty Content
       if (!data || !data.manualMcqData || data.manualMcqData.length === 0) {
           // Show "Coming Soon" screen instead of alert
@@ -108,10 +128,9 @@ export const McqView: React.FC<Props> = ({
                   title: "Start Premium Test",
                   message: `Start Premium Test for ${cost} Coins?`,
                   onConfirm: () => {
-                      const updatedUser = { ...user, credits: user.credits - cost };
+                      const { user: updatedUser, change } = applyCreditChange(user, -cost, 'MCQ_UNLOCK', { refId: chapter.id, note: `Premium Test • ${chapter.title}` });
                       localStorage.setItem('nst_current_user', JSON.stringify(updatedUser));
-                      saveUserToLive(updatedUser);
-                      onUpdateUser(updatedUser);
+                      onUpdateUser(updatedUser, change);
                       setConfirmConfig(prev => ({...prev, isOpen: false}));
                       
                       // Continue logic - we need to refactor to allow continuation after confirm
@@ -130,7 +149,7 @@ export const McqView: React.FC<Props> = ({
       triggerMcqStart(mode, data);
   };
 
-  const triggerMcqStart = (mode: 'PRACTICE' | 'TEST', data: any) => {
+  const triggerMcqStart = (mode: 'PRACTICE' | 'TEST' | 'ADAPTIVE', data: any) => {
     setPendingStart({mode, data});
     setShowInterstitial(true);
   };
@@ -143,7 +162,16 @@ export const McqView: React.FC<Props> = ({
     }
   };
 
-  const proceedWithStart = (mode: 'PRACTICE' | 'TEST', data: any) => {
+  const proceedWithStart = (mode: 'PRACTICE' | 'TEST' | 'ADAPTIVE', data: any) => {
+      if (data.questionIds) recordQuestionsServed(data.questionIds);
+
+      // Adaptive: AdaptivePractice picks from the whole set, one question at a time
+      if (mode === 'ADAPTIVE') {
+          setAdaptiveQuestions(data.manualMcqData);
+          setViewMode('ADAPTIVE');
+          setLoading(false);
+          return;
+      }
 
       // Prepare LessonContent object for the existing LessonView component
       const content = {
@@ -154,7 +182,8 @@ export const McqView: React.FC<Props> = ({
           type: mode === 'TEST' ? 'MCQ_ANALYSIS' : 'MCQ_SIMPLE',
           dateCreated: new Date().toISOString(),
           subjectName: subject.name,
-          mcqData: data.manualMcqData
+          mcqData: (data.manualMcqData as MCQItem[]).map((q, i) => q.id ? q : { ...q, id: `q${i + 1}` }),
+          markingScheme: data.markingScheme
       };
       
       setLessonContent(content);
@@ -162,7 +191,7 @@ export const McqView: React.FC<Props> = ({
       setLoading(false);
   };
 
-  const handleMCQComplete = (score: number, answers: Record<number, number>, usedData: any[], timeTaken: number) => {
+  const handleMCQComplete = (score: number, answers: Record<number, number>, usedData: any[], timeTaken: number, integrityLog?: IntegrityEvent[], unsure?: Record<number, boolean>) => {
       // 1. FILTER & REMAP DATA (Strict Requirement: Only show attempted questions)
       const answeredIndices = Object.keys(answers).map(Number).sort((a,b) => a - b);
       
@@ -183,11 +212,22 @@ export const McqView: React.FC<Props> = ({
       else if (averageTime <= 30) performanceTag = 'GOOD';
       else if (averageTime <= 45) performanceTag = 'BAD';
 
+      // Marking: section rules refer to the Admin's question order, not the shuffled one
+      const scheme: MarkingScheme | undefined = lessonContent?.markingScheme;
+      const sourceQuestions: MCQItem[] = lessonContent?.mcqData || [];
+      const adminIndex = new Map(sourceQuestions.map((q, i) => [q.id, i]));
+      const scored = scoreAnswers(scheme, submittedQuestions.map((q, idx) => ({
+          qIndex: adminIndex.get(q.id) ?? answeredIndices[idx],
+          selected: remappedAnswers[idx],
+          correct: q.correctAnswer
+      })));
+
       // Build OMR Data (Using remapped indices and submittedQuestions)
       const omrData = submittedQuestions.map((q, idx) => ({
           qIndex: idx,
           selected: remappedAnswers[idx] !== undefined ? remappedAnswers[idx] : -1,
-          correct: q.correctAnswer
+          correct: q.correctAnswer,
+          marks: scored.marks[idx]
       }));
 
       // 3. Prepare Result Object
@@ -203,6 +243,11 @@ export const McqView: React.FC<Props> = ({
           correctCount: score,
           wrongCount: attemptsCount - score,
           score: score,
+          rawScore: scored.rawScore,
+          netScore: scored.netScore,
+          maxScore: scored.maxScore,
+          markingScheme: scheme,
+          ...(viewMode === 'TEST' ? { integrityLog: integrityLog || [], integrityScore: getIntegrityScore(integrityLog) } : {}),
           totalTimeSeconds: timeTaken,
           averageTimePerQuestion: averageTime,
           performanceTag: performanceTag,
@@ -213,22 +258,30 @@ export const McqView: React.FC<Props> = ({
       // 4. Update User Data
       let updatedUser = { ...user };
       
-      // 4.1 Topic Strength Tracking
-      if (!updatedUser.topicStrength) updatedUser.topicStrength = {};
-      const currentStrength = updatedUser.topicStrength[subject.name] || { correct: 0, total: 0 };
-      updatedUser.topicStrength[subject.name] = {
-          correct: currentStrength.correct + score,
-          total: currentStrength.total + attemptsCount
-      };
+      // 4.1 Chapter Mastery (accounts without it start from their past results)
+      updatedUser.chapterMastery = recordChapterAttempt(
+          updatedUser.chapterMastery || rebuildChapterMastery(updatedUser.mcqHistory),
+          { chapterId: chapter.id, chapterTitle: chapter.title, subjectId: subject.id, subjectName: subject.name },
+          { correct: score, total: attemptsCount, timeSeconds: timeTaken, answers: answeredIndices.map(idx => ({ item: usedData[idx], correct: answers[idx] === usedData[idx].correctAnswer })) }
+      );
+
+      // 4.2 Result goes to its own collection, the user keeps only the totals
+      updatedUser.mcqSummary = addToMcqSummary(updatedUser.mcqSummary, result);
+      saveMcqResult(result);
+
+      recordQuestionAnswers(chapter.id, answeredIndices.map(idx => ({ key: getQuestionKey(chapter.id, usedData[idx].question), correct: answers[idx] === usedData[idx].correctAnswer })));
 
-      // 4.2 Add to History
-      const newHistory = [result, ...(updatedUser.mcqHistory || [])];
-      updatedUser.mcqHistory = newHistory;
+      // 4.3 Revision Queue (wrong and "not sure" answers come back on a spaced schedule)
+      updatedUser.reviewQueue = addAttemptToQueue(
+          updatedUser.reviewQueue || [],
+          answeredIndices.map(idx => ({ item: usedData[idx], grade: gradeAnswer(answers[idx] === usedData[idx].correctAnswer, !!unsure?.[idx]) })),
+          reviewSource
+      );
 
-      // 4.3 Progress Logic
-      if (!updatedUser.progress) updatedUser.progress = {};
+      // 4.4 Progress Logic (copies, so the saved change can be told apart from `user`)
+      updatedUser.progress = { ...(updatedUser.progress || {}) };
       const subjectId = subject.id;
-      let progress = updatedUser.progress[subjectId] || { currentChapterIndex: 0, totalMCQsSolved: 0 };
+      let progress = { ...(updatedUser.progress[subjectId] || { currentChapterIndex: 0, totalMCQsSolved: 0 }) };
       progress.totalMCQsSolved += attemptsCount;
       let leveledUp = false;
       if (progress.totalMCQsSolved >= 100) {
@@ -238,12 +291,11 @@ export const McqView: React.FC<Props> = ({
       }
       updatedUser.progress[subjectId] = progress;
 
-      // 5. Save & Sync
+      // 5. Save & Sync (parent writes only the fields that changed)
       onUpdateUser(updatedUser); 
       localStorage.setItem('nst_current_user', JSON.stringify(updatedUser));
-      saveUserToLive(updatedUser);
       
-      // 6. Save detailed attempt to Legacy Local History & Firebase (Only attempted questions)
+      // 6. Save detailed attempt to Legacy Local History (Only attempted questions)
       const newHistoryItem = {
           ...lessonContent,
           mcqData: submittedQuestions, // Save only subset
@@ -260,9 +312,6 @@ export const McqView: React.FC<Props> = ({
       history.push(newHistoryItem);
       localStorage.setItem('nst_user_history', JSON.stringify(history));
 
-      // Sync to Firebase
-      saveUserHistory(user.id, newHistoryItem);
-
       if (leveledUp) {
           setAlertConfig({isOpen: true, title: "Level Up!", message: `🎉 Congratulations! You cleared 100 MCQs.\n\n🔓 Next Chapter Unlocked!`});
       }
@@ -275,6 +324,25 @@ export const McqView: React.FC<Props> = ({
       setViewMode('SELECTION');
   };
 
+  // Adaptive sessions store a chapter mastery estimate instead of a scored result
+  const handleAdaptiveComplete = (answered: AdaptiveAnswer[], ability: number, timeTaken: number) => {
+      const updatedUser = { ...user };
+      updatedUser.reviewQueue = addAttemptToQueue(
+          user.reviewQueue || [],
+          answered.map(a => ({ item: a.item, grade: gradeAnswer(a.correct, a.unsure) })),
+          reviewSource
+      );
+      updatedUser.chapterMastery = recordChapterAttempt(
+          user.chapterMastery || rebuildChapterMastery(user.mcqHistory),
+          { chapterId: chapter.id, chapterTitle: chapter.title, subjectId: subject.id, subjectName: subject.name },
+          { correct: answered.filter(a => a.correct).length, total: answered.length, timeSeconds: timeTaken, answers: answered, ability }
+      );
+      recordQuestionAnswers(chapter.id, answered.map(a => ({ key: getQuestionKey(chapter.id, a.item.question), correct: a.correct })));
+
+      onUpdateUser(updatedUser);
+      localStorage.setItem('nst_current_user', JSON.stringify(updatedUser));
+  };
+
   const handleViewAnalysis = (cost: number) => {
       // 1. Check Credits
       if (user.credits < cost) {
@@ -288,10 +356,9 @@ export const McqView: React.FC<Props> = ({
           message: `Pay ${cost} Coins to view detailed solutions?`,
           onConfirm: () => {
               // 2. Deduct Credits
-              const updatedUser = { ...user, credits: user.credits - cost };
+              const { user: updatedUser, change } = applyCreditChange(user, -cost, 'MCQ_UNLOCK', { refId: chapter.id, note: `Analysis • ${chapter.title}` });
               localStorage.setItem('nst_current_user', JSON.stringify(updatedUser));
-              saveUserToLive(updatedUser);
-              onUpdateUser(updatedUser);
+              onUpdateUser(updatedUser, change);
               setConfirmConfig(prev => ({...prev, isOpen: false}));
 
               // 3. Open Analysis
@@ -314,6 +381,21 @@ export const McqView: React.FC<Props> = ({
       });
   };
 
+  const chapterMastery = user.chapterMastery?.[chapter.id];
+
+  if (viewMode === 'ADAPTIVE' && adaptiveQuestions) {
+      return (
+          <AdaptivePractice
+              questions={adaptiveQuestions}
+              chapter={chapter}
+              subject={subject}
+              mastery={chapterMastery}
+              onComplete={handleAdaptiveComplete}
+              onBack={() => setViewMode('SELECTION')}
+          />
+      );
+  }
+
   if (viewMode !== 'SELECTION' && lessonContent) {
       return (
           <LessonView 
@@ -393,6 +475,32 @@ export const McqView: React.FC<Props> = ({
                </div>
            </button>
 
+           {/* ADAPTIVE PRACTICE */}
+           <button 
+               onClick={() => handleStart('ADAPTIVE')}
+               disabled={loading}
+               className="w-full p-6 rounded-3xl border-2 border-slate-200 bg-white hover:border-emerald-300 hover:bg-emerald-50 transition-all group text-left relative overflow-hidden"
+           >
+               <div className="absolute right-0 top-0 p-4 opacity-10 group-hover:opacity-20 transition-opacity">
+                   <TrendingUp size={80} className="text-emerald-600" />
+               </div>
+               <div className="relative z-10">
+                   <div className="w-12 h-12 rounded-2xl bg-emerald-100 text-emerald-600 flex items-center justify-center mb-4">
+                       <TrendingUp size={24} />
+                   </div>
+                   <h4 className="text-xl font-black text-slate-800 mb-1">Adaptive Practice</h4>
+                   <p className="text-sm text-slate-500 mb-4">Questions get harder or easier as you answer. Ends with your mastery level for this chapter.</p>
+                   <div className="flex items-center gap-2">
+                       <span className="bg-emerald-600 text-white px-4 py-2 rounded-lg text-xs font-bold shadow-lg shadow-emerald-200">START NOW</span>
+                       {chapterMastery && hasEnoughData(chapterMastery) && (
+                           <span className="text-xs font-bold text-emerald-700 bg-emerald-50 border border-emerald-100 px-3 py-1.5 rounded-lg">
+                               {MASTERY_LEVEL_LABELS[getMasteryLevel(getMasteryScore(chapterMastery))]} • {getMasteryScore(chapterMastery)}%
+                           </span>
+                       )}
+                   </div>
+               </div>
+           </button>
+
            {/* PREMIUM TEST - REMOVED AS REQUESTED */}
            
            {loading && <div className="text-center py-4 text-slate-500 font-bold animate-pulse">Loading Questions...</div>}
@@ -1,9 +1,13 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Chapter, User, Subject, SystemSettings, HtmlModule, PremiumNoteSlot } from '../types';
+import { Chapter, User, Subject, SystemSettings, HtmlModule, PremiumNoteSlot, AccessContentDescriptor, UserUpdate } from '../types';
 import { FileText, Lock, ArrowLeft, Crown, Star, CheckCircle, AlertCircle, Globe, Maximize, Layers, HelpCircle, Minus, Plus } from 'lucide-react';
 import { CustomAlert } from './CustomDialogs';
-import { getChapterData, saveUserToLive } from '../firebase';
+import { getChapterData } from '../storage';
+import { applyCreditChange } from '../utils/creditLedger';
+import { getContentKey, getContentSlot, getEntitlementType, hasEntitlement, createEntitlement } from '../utils/entitlements';
+import { applyUserUpdate } from '../utils/userUpdates';
+import { evaluateAccess } from '../utils/accessPolicy';
 import { CreditConfirmationModal } from './CreditConfirmationModal';
 import { AiInterstitial } from './AiInterstitial';
 import { InfoPopup } from './InfoPopup';
@@ -17,7 +21,7 @@ interface Props {
   classLevel: string;
   stream: string | null;
   onBack: () => void;
-  onUpdateUser: (user: User) => void;
+  onUpdateUser: (user: User, change?: UserUpdate) => void;
   settings?: SystemSettings;
   initialSyllabusMode?: 'SCHOOL' | 'COMPETITION';
 }
@@ -29,7 +33,8 @@ export const PdfView: React.FC<Props> = ({
   const [loading, setLoading] = useState(true);
   const [syllabusMode, setSyllabusMode] = useState<'SCHOOL' | 'COMPETITION'>(initialSyllabusMode || 'SCHOOL');
   const [activePdf, setActivePdf] = useState<string | null>(null);
-  const [pendingPdf, setPendingPdf] = useState<{type: string, price: number, link: string} | null>(null);
+  const [pendingPdf, setPendingPdf] = useState<{type: string, price: number, link: string, content: AccessContentDescriptor, title: string} | null>(null);
+  const contentKey = getContentKey(board, classLevel, stream, subject.name, chapter.id);
   
   // ZOOM STATE
   const [zoom, setZoom] = useState(1);
@@ -64,12 +69,9 @@ export const PdfView: React.FC<Props> = ({
       try {
         setLoading(true);
         // STRICT KEY MATCHING WITH ADMIN
-        const streamKey = (classLevel === '11' || classLevel === '12') && stream ? `-${stream}` : '';
-        const key = `nst_content_${board}_${classLevel}${streamKey}_${subject.name}_${chapter.id}`;
-        
-        let data = await getChapterData(key);
+        let data = await getChapterData(contentKey);
         if (!data) {
-            const stored = localStorage.getItem(key);
+            const stored = localStorage.getItem(contentKey);
             if (stored) data = JSON.parse(stored);
         }
         setContentData(data || {});
@@ -85,7 +87,7 @@ export const PdfView: React.FC<Props> = ({
 
   const handlePdfClick = (type: 'FREE' | 'PREMIUM' | 'ULTRA') => {
       let link = '';
-      let price = 0;
+      let price: number | undefined = 0;
 
       if (type === 'FREE') {
           // STRICT MODE SEPARATION
@@ -104,10 +106,9 @@ export const PdfView: React.FC<Props> = ({
              link = contentData?.competitionPdfLink; // NO Fallback for Competition
              price = contentData?.competitionPdfPrice; // Separate Price
           }
-          if (price === undefined) price = (settings?.defaultPdfCost ?? 5);
       } else if (type === 'ULTRA') {
           link = contentData?.ultraPdfLink;
-          price = contentData?.ultraPdfPrice !== undefined ? contentData.ultraPdfPrice : 10;
+          price = contentData?.ultraPdfPrice;
       }
 
       if (!link) {
@@ -115,107 +116,61 @@ export const PdfView: React.FC<Props> = ({
           return;
       }
 
-      // Access Check
-      if (user.role === 'ADMIN') {
-          setActivePdf(link);
-          return;
-      }
-
-      if (price === 0) {
-          setActivePdf(link);
-          return;
-      }
+      const content: AccessContentDescriptor = { kind: `PDF_${type}`, price, syllabusMode, contentKey };
+      const title = `${chapter.title} - ${type === 'ULTRA' ? 'Ultra' : type === 'PREMIUM' ? 'Premium' : 'Free'} Notes`;
+      openWithPolicy(content, link, title, type);
+  };
 
-      // Subscription Check
-      const isSubscribed = user.isPremium && user.subscriptionEndDate && new Date(user.subscriptionEndDate) > new Date();
-      if (isSubscribed) {
-          // ULTRA unlocks EVERYTHING
-          if (user.subscriptionLevel === 'ULTRA') {
-              setActivePdf(link);
-              return;
-          }
-          // BASIC unlocks ONLY FREE/NORMAL (which usually have price 0 anyway, but just in case)
-          // BASIC does NOT unlock PREMIUM/EXCLUSIVE PDFs
-          if (type === 'FREE') { 
-             // Free is free
-          } else {
-             // Premium needs Ultra or payment
-          }
-      }
+  const handleModuleClick = (mod: HtmlModule) => {
+      const content: AccessContentDescriptor = { kind: 'HTML_MODULE', access: mod.access, price: mod.price, contentKey, itemId: mod.id };
+      openWithPolicy(content, mod.url, `${chapter.title} - ${mod.title || 'Interactive Module'}`, 'MODULE'); // Reusing activePdf state for iframe URL
+  };
 
-      // Coin Deduction
-      if (user.isAutoDeductEnabled) {
-          processPaymentAndOpen(link, price);
-      } else {
-          setPendingPdf({ type, price, link });
-      }
+  const handlePremiumSlotClick = (slot: PremiumNoteSlot) => {
+      const content: AccessContentDescriptor = { kind: 'PREMIUM_SLOT', access: slot.access, contentKey };
+      openWithPolicy(content, slot.url, slot.title, 'SLOT');
   };
 
-  const handleModuleClick = (mod: HtmlModule) => {
-      // Check Access
-      let hasAccess = false;
-      if (user.role === 'ADMIN') hasAccess = true;
-      else if (mod.access === 'FREE') hasAccess = true;
-      else if (user.isPremium) {
-          // If User is ULTRA, they get everything
-          if (user.subscriptionLevel === 'ULTRA') hasAccess = true;
-          // If User is BASIC, they get BASIC and FREE
-          else if (user.subscriptionLevel === 'BASIC' && (mod.access === 'BASIC' || mod.access === 'FREE')) hasAccess = true;
-      }
-      
-      if (mod.price === 0) hasAccess = true;
+  // Single entry point: Access Policy decides Open / Pay / Upgrade
+  const openWithPolicy = (content: AccessContentDescriptor, link: string, title: string, type: string) => {
+      const decision = evaluateAccess(user, content, settings);
 
-      if (hasAccess) {
-          setActivePdf(mod.url); // Reusing activePdf state for iframe URL
+      if (decision.result === 'ALLOW') {
+          setActivePdf(link);
           return;
       }
 
-      // Check Credits
-      if (user.credits < mod.price) {
-          setAlertConfig({isOpen: true, message: `Insufficient Credits! You need ${mod.price} coins.`});
+      if (decision.result === 'UPGRADE' || !decision.canAfford) {
+          setAlertConfig({isOpen: true, message: decision.message});
           return;
       }
 
+      // Coin Deduction
       if (user.isAutoDeductEnabled) {
-          processPaymentAndOpen(mod.url, mod.price);
+          processPaymentAndOpen(link, decision.cost, content, title);
       } else {
-          setPendingPdf({ type: 'MODULE', price: mod.price, link: mod.url });
-      }
-  };
-
-  const handlePremiumSlotClick = (slot: PremiumNoteSlot) => {
-      // Check Access
-      let hasAccess = false;
-      if (user.role === 'ADMIN') hasAccess = true;
-      else if (user.isPremium) {
-          if (user.subscriptionLevel === 'ULTRA') hasAccess = true;
-          else if (user.subscriptionLevel === 'BASIC' && slot.access === 'BASIC') hasAccess = true;
+          setPendingPdf({ type, price: decision.cost, link, content, title });
       }
-
-      if (hasAccess) {
-          setActivePdf(slot.url);
-          return;
-      }
-
-      // No Access
-      setAlertConfig({isOpen: true, message: `🔒 Locked! You need ${slot.access} Subscription to access this note.`});
   };
 
-  const processPaymentAndOpen = (link: string, price: number, enableAuto: boolean = false) => {
+  const processPaymentAndOpen = (link: string, price: number, content: AccessContentDescriptor, title: string, enableAuto: boolean = false) => {
       if (user.credits < price) {
           setAlertConfig({isOpen: true, message: `Insufficient Credits! You need ${price} coins.`});
           return;
       }
 
-      let updatedUser = { ...user, credits: user.credits - price };
-      
-      if (enableAuto) {
-          updatedUser.isAutoDeductEnabled = true;
-      }
+      // Record the purchase so re-opening is free
+      const entitlement = createEntitlement(contentKey, getContentSlot(content)!, getEntitlementType(content), title, price);
+      const credit = applyCreditChange(user, -price, 'CONTENT_PURCHASE', { refId: entitlement.id, note: entitlement.title });
+      const change: UserUpdate = {
+          ...credit.change,
+          merge: { entitlements: { [entitlement.id]: entitlement } },
+          ...(enableAuto ? { set: { isAutoDeductEnabled: true } } : {})
+      };
+      const updatedUser = applyUserUpdate(user, change);
 
       localStorage.setItem('nst_current_user', JSON.stringify(updatedUser));
-      saveUserToLive(updatedUser);
-      onUpdateUser(updatedUser);
+      onUpdateUser(updatedUser, change);
       
       triggerInterstitial(link);
       setPendingPdf(null);
@@ -523,12 +478,19 @@ export const PdfView: React.FC<Props> = ({
                            </div>
                            
                            {/* PRICE or LOCK */}
+                           {hasEntitlement(user, contentKey, `PDF_PREMIUM_${syllabusMode}`) ? (
+                               <div className="flex flex-col items-end">
+                                   <span className="text-xs font-black text-green-600">PURCHASED</span>
+                                   <span className="text-[10px] text-slate-400">Open</span>
+                               </div>
+                           ) : (
                            <div className="flex flex-col items-end">
                                <span className="text-xs font-black text-yellow-700">
                                    {contentData?.price !== undefined ? contentData.price : (settings?.defaultPdfCost ?? 5)} CR
                                </span>
                                <span className="text-[10px] text-slate-400">Unlock</span>
                            </div>
+                           )}
                        </button>
                        {/* INFO BUTTON - PREMIUM */}
                        {(settings?.contentInfo?.premiumNotes?.enabled ?? DEFAULT_CONTENT_INFO_CONFIG.premiumNotes.enabled) && (
@@ -569,10 +531,17 @@ export const PdfView: React.FC<Props> = ({
                                    <h4 className="font-bold text-slate-800">{mod.title || `Module ${idx+1}`}</h4>
                                    <p className="text-xs text-slate-500">Interactive Module</p>
                                </div>
+                               {hasEntitlement(user, contentKey, `MODULE_${mod.id}`) ? (
+                                   <div className="flex flex-col items-end">
+                                       <span className="text-xs font-black text-green-600">PURCHASED</span>
+                                       <span className="text-[10px] text-slate-400">Open</span>
+                                   </div>
+                               ) : (
                                <div className="flex flex-col items-end">
                                    <span className="text-xs font-black text-indigo-700">{mod.price} CR</span>
                                    <span className="text-[10px] text-slate-400">Unlock</span>
                                </div>
+                               )}
                            </button>
                         );
                    })}
@@ -648,12 +617,12 @@ export const PdfView: React.FC<Props> = ({
        {/* NEW CONFIRMATION MODAL */}
        {pendingPdf && (
            <CreditConfirmationModal 
-               title={`Unlock ${pendingPdf.type === 'PREMIUM' ? 'Premium' : 'Free'} Notes`}
+               title={pendingPdf.type === 'MODULE' ? 'Unlock Module' : `Unlock ${pendingPdf.type === 'ULTRA' ? 'Ultra' : 'Premium'} Notes`}
                cost={pendingPdf.price}
                userCredits={user.credits}
                isAutoEnabledInitial={!!user.isAutoDeductEnabled}
                onCancel={() => setPendingPdf(null)}
-               onConfirm={(auto) => processPaymentAndOpen(pendingPdf.link, pendingPdf.price, auto)}
+               onConfirm={(auto) => processPaymentAndOpen(pendingPdf.link, pendingPdf.price, pendingPdf.content, pendingPdf.title, auto)}
            />
        )}
 
@@ -0,0 +1,77 @@
+import React, { useEffect, useState } from 'react';
+import { PublicBankQuestion, QuestionDifficulty, QuestionPoolRule } from '../types';
+import { subscribeToQuestionBank } from '../storage';
+import { QUESTION_DIFFICULTY_LABELS, getPoolCandidates, getPoolQuestionCount, matchesPoolRule, parseTags } from '../utils/questionBank';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface Props {
+    value: QuestionPoolRule[];
+    onChange: (rules: QuestionPoolRule[]) => void;
+    reserved: boolean; // Weekly tests draw only reserved questions, chapter tests only the others
+}
+
+// Admin builder for "draw N questions of difficulty X from chapters Y" rules
+export const PoolRulesEditor: React.FC<Props> = ({ value, onChange, reserved }) => {
+    const [bank, setBank] = useState<PublicBankQuestion[]>([]);
+
+    useEffect(() => {
+        const unsub = subscribeToQuestionBank(setBank);
+        return () => unsub();
+    }, []);
+
+    const usable = getPoolCandidates(bank, reserved);
+    const subjects = Array.from(new Set(usable.map(q => q.subjectId))).sort();
+
+    const update = (idx: number, patch: Partial<QuestionPoolRule>) => {
+        onChange(value.map((r, i) => i === idx ? { ...r, ...patch } : r));
+    };
+
+    return (
+        <div className="bg-white p-4 rounded-xl border border-slate-200 space-y-3">
+            <p className="text-xs font-bold text-slate-700 uppercase">Question Pool <span className="text-slate-400 normal-case font-medium">({value.length ? `${getPoolQuestionCount(value)} drawn per attempt` : 'fixed questions'})</span></p>
+            {value.map((rule, idx) => {
+                const chapters = Array.from(new Map(usable.filter(q => !rule.subjectIds?.length || rule.subjectIds.includes(q.subjectId)).map(q => [q.chapterId, q.chapterTitle || q.chapterId])).entries());
+                const available = usable.filter(q => matchesPoolRule(q, rule)).length;
+                return (
+                    <div key={rule.id} className="p-3 rounded-lg border border-slate-100 bg-slate-50 space-y-2">
+                        <div className="grid grid-cols-[60px_1fr_1fr_auto] gap-1 items-center">
+                            <input type="number" min="1" value={rule.count} onChange={e => update(idx, { count: Number(e.target.value) })} className="p-1.5 border border-slate-200 rounded text-xs font-bold" />
+                            <select value={rule.difficulty || ''} onChange={e => update(idx, { difficulty: (e.target.value || undefined) as QuestionDifficulty | undefined })} className="p-1.5 border border-slate-200 rounded text-xs font-bold">
+                                <option value="">Any difficulty</option>
+                                {(Object.keys(QUESTION_DIFFICULTY_LABELS) as QuestionDifficulty[]).map(d => <option key={d} value={d}>{QUESTION_DIFFICULTY_LABELS[d]}</option>)}
+                            </select>
+                            <select value={rule.subjectIds?.[0] || ''} onChange={e => update(idx, { subjectIds: e.target.value ? [e.target.value] : undefined, chapterIds: undefined })} className="p-1.5 border border-slate-200 rounded text-xs font-bold">
+                                <option value="">Any subject</option>
+                                {subjects.map(s => <option key={s} value={s}>{s}</option>)}
+                            </select>
+                            <button onClick={() => onChange(value.filter((_, i) => i !== idx))} className="text-red-400 hover:text-red-600 p-1"><Trash2 size={14} /></button>
+                        </div>
+                        {chapters.length > 0 && (
+                            <div className="flex flex-wrap gap-1">
+                                {chapters.map(([id, title]) => {
+                                    const on = !!rule.chapterIds?.includes(id);
+                                    return (
+                                        <button
+                                            key={id}
+                                            onClick={() => update(idx, { chapterIds: on ? rule.chapterIds!.filter(c => c !== id) : [...(rule.chapterIds || []), id] })}
+                                            className={`px-2 py-0.5 rounded-full text-[10px] font-bold border ${on ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-500 border-slate-200'}`}
+                                        >
+                                            {title}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        )}
+                        <div className="flex items-center gap-2">
+                            <input type="text" placeholder="Tags (comma separated, any match)" defaultValue={(rule.tags || []).join(', ')} onBlur={e => update(idx, { tags: parseTags(e.target.value) })} className="flex-1 p-1.5 border border-slate-200 rounded text-xs" />
+                            <span className={`text-[10px] font-bold ${available < rule.count ? 'text-red-600' : 'text-green-600'}`}>{available} available</span>
+                        </div>
+                    </div>
+                );
+            })}
+            <button onClick={() => onChange([...value, { id: `rule-${Date.now()}`, count: 10 }])} className="text-xs font-bold text-blue-600 flex items-center gap-1 hover:underline">
+                <Plus size={12} /> Add Draw Rule (questions come from the Question Bank)
+            </button>
+        </div>
+    );
+};
@@ -1,20 +1,26 @@
 
 import React, { useEffect, useState } from 'react';
 import { PrizeEntry } from '../types';
+import { subscribeToPrizes } from '../storage';
 import { Trophy, Gift, Calendar } from 'lucide-react';
 
 export const PrizeList: React.FC = () => {
     const [prizes, setPrizes] = useState<PrizeEntry[]>([]);
 
     useEffect(() => {
+        // Legacy hand-made entries + cloud entries from prize rules
         const stored = localStorage.getItem('nst_prizes');
-        if (stored) {
-            setPrizes(JSON.parse(stored));
-        }
+        const local: PrizeEntry[] = stored ? JSON.parse(stored) : [];
+        setPrizes(local);
+        const unsub = subscribeToPrizes((cloud) => {
+            const ids = new Set(cloud.map(p => p.id));
+            setPrizes([...cloud, ...local.filter(p => !ids.has(p.id))]);
+        });
+        return () => unsub();
     }, []);
 
-    // Filter > 60%
-    const visiblePrizes = prizes.filter(p => p.scorePercentage > 60).sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+    // Filter > 60% (rule prizes are ranked winners, always shown)
+    const visiblePrizes = prizes.filter(p => p.ruleId || p.scorePercentage > 60).sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime());
 
     return (
         <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden animate-in fade-in">
@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from 'react';
+import { ClassLevel, PrizeEntry, PrizeRule } from '../types';
+import { subscribeToPrizeRules, subscribeToPrizes, savePrizeRule, deletePrizeRule } from '../storage';
+import { describePrizeRule } from '../utils/prizeRules';
+import { ArrowLeft, Plus, Trash2, X, Gift } from 'lucide-react';
+
+interface Props {
+    onBack: () => void;
+}
+
+const CLASS_OPTIONS: ClassLevel[] = ['6', '7', '8', '9', '10', '11', '12', 'COMPETITION'];
+
+const emptyRule = (): PrizeRule => ({
+    id: `rule-${Date.now()}`,
+    name: '',
+    enabled: true,
+    topN: 3,
+    classLevels: [],
+    reward: { tier: 'MONTHLY', level: 'BASIC', durationHours: 720 },
+    createdAt: new Date().toISOString()
+});
+
+// Prize rules run each time weekly test results are published (runLocalEvaluator)
+export const PrizeRulesManager: React.FC<Props> = ({ onBack }) => {
+    const [rules, setRules] = useState<PrizeRule[]>([]);
+    const [prizes, setPrizes] = useState<PrizeEntry[]>([]);
+    const [editing, setEditing] = useState<PrizeRule | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        const unsubRules = subscribeToPrizeRules(setRules);
+        const unsubPrizes = subscribeToPrizes(setPrizes);
+        return () => { unsubRules(); unsubPrizes(); };
+    }, []);
+
+    const handleSave = async () => {
+        if (!editing) return;
+        if (!editing.name.trim() || editing.topN < 1 || editing.reward.durationHours < 1) {
+            alert("Name, Top N and reward hours are required.");
+            return;
+        }
+        setSaving(true);
+        try {
+            await savePrizeRule({ ...editing, name: editing.name.trim() });
+            setEditing(null);
+        } catch (e) {
+            alert("❌ Could not save the rule. Check your connection.");
+        }
+        setSaving(false);
+    };
+
+    const toggleEnabled = async (rule: PrizeRule) => {
+        try { await savePrizeRule({ ...rule, enabled: !rule.enabled }); } catch (e) { alert("❌ Could not update the rule."); }
+    };
+
+    const handleDelete = async (rule: PrizeRule) => {
+        if (!window.confirm(`Delete prize rule "${rule.name}"? Prizes already given are kept.`)) return;
+        await deletePrizeRule(rule.id);
+    };
+
+    const toggleClass = (c: ClassLevel) => {
+        if (!editing) return;
+        const current = editing.classLevels || [];
+        setEditing({ ...editing, classLevels: current.includes(c) ? current.filter(x => x !== c) : [...current, c] });
+    };
+
+    const recentPrizes = [...prizes].filter(p => p.ruleId).sort((a, b) => b.date.localeCompare(a.date)).slice(0, 50);
+
+    return (
+        <div className="bg-white p-6 rounded-3xl shadow-sm border border-slate-200 animate-in slide-in-from-right">
+            <div className="flex items-center justify-between gap-4 mb-6 border-b pb-4">
+                <div className="flex items-center gap-4">
+                    <button onClick={onBack} className="bg-slate-100 p-2 rounded-full hover:bg-slate-200"><ArrowLeft size={20} /></button>
+                    <div>
+                        <h3 className="text-xl font-black text-slate-800">Prize Rules</h3>
+                        <p className="text-xs text-slate-500">Applied only when an Admin clicks Publish Results on a weekly test, not on their own schedule • winners get a claimable inbox reward</p>
+                        <p className="text-[10px] text-slate-400">A rule added after a test was published applies when that test is published again.</p>
+                    </div>
+                </div>
+                <button onClick={() => setEditing(emptyRule())} className="bg-purple-600 text-white px-4 py-2 rounded-xl font-bold text-sm flex items-center gap-1 hover:bg-purple-700"><Plus size={16} /> New Rule</button>
+            </div>
+
+            {/* RULES */}
+            <div className="space-y-2 mb-8">
+                {rules.length === 0 && <p className="text-slate-400 text-sm text-center py-8">No rules yet. Prizes can still be sent by hand from a test's Results.</p>}
+                {rules.map(rule => (
+                    <div key={rule.id} className={`p-3 border rounded-xl flex items-center justify-between gap-3 ${rule.enabled ? 'border-slate-200' : 'border-slate-100 opacity-60'}`}>
+                        <div className="min-w-0">
+                            <p className="font-bold text-slate-800 text-sm">{rule.name}</p>
+                            <p className="text-[10px] text-slate-500">{describePrizeRule(rule)}</p>
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                            <button onClick={() => toggleEnabled(rule)} className={`px-2 py-1 rounded-lg text-[10px] font-bold ${rule.enabled ? 'bg-green-100 text-green-700' : 'bg-slate-100 text-slate-500'}`}>{rule.enabled ? 'ACTIVE' : 'PAUSED'}</button>
+                            <button onClick={() => setEditing(rule)} className="text-xs font-bold text-blue-600 hover:bg-blue-50 px-2 py-1 rounded-lg">Edit</button>
+                            <button onClick={() => handleDelete(rule)} className="p-2 text-red-500 hover:bg-red-50 rounded-lg"><Trash2 size={16} /></button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            {/* RECENT PRIZES */}
+            <h4 className="font-black text-slate-700 text-sm mb-2 flex items-center gap-2"><Gift size={16} className="text-purple-600" /> Recently Awarded</h4>
+            <div className="border border-slate-200 rounded-xl overflow-hidden">
+                {recentPrizes.length === 0 ? (
+                    <p className="text-slate-400 text-xs text-center py-6">Nothing awarded by rules yet.</p>
+                ) : (
+                    <table className="w-full text-xs">
+                        <tbody className="divide-y divide-slate-100">
+                            {recentPrizes.map(p => (
+                                <tr key={p.id}>
+                                    <td className="p-2 font-bold text-slate-700">{p.userName}</td>
+                                    <td className="p-2 text-slate-500">{p.reason}</td>
+                                    <td className="p-2 font-bold text-purple-700">{p.prize}</td>
+                                    <td className="p-2 text-[10px] text-slate-400 text-right">{new Date(p.date).toLocaleDateString()}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+
+            {/* EDITOR MODAL */}
+            {editing && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-in fade-in">
+                    <div className="bg-white rounded-2xl w-full max-w-md shadow-xl max-h-[90vh] overflow-y-auto p-5 space-y-3">
+                        <div className="flex justify-between items-center">
+                            <h3 className="font-black text-slate-800">{rules.some(r => r.id === editing.id) ? 'Edit Rule' : 'New Rule'}</h3>
+                            <button onClick={() => setEditing(null)} className="p-1.5 bg-slate-100 rounded-full text-slate-500"><X size={16} /></button>
+                        </div>
+                        <input type="text" value={editing.name} onChange={e => setEditing({ ...editing, name: e.target.value })} placeholder="Rule name (e.g. Weekly Top 3)" className="w-full p-2 border border-slate-200 rounded-lg text-sm" />
+                        <div className="grid grid-cols-2 gap-2">
+                            <div>
+                                <label className="text-[10px] font-bold text-slate-500 uppercase block mb-1">Top N per test</label>
+                                <input type="number" min="1" value={editing.topN} onChange={e => setEditing({ ...editing, topN: Number(e.target.value) })} className="w-full p-2 border border-slate-200 rounded-lg text-sm font-bold" />
+                            </div>
+                            <div>
+                                <label className="text-[10px] font-bold text-slate-500 uppercase block mb-1">Min % (optional)</label>
+                                <input type="number" min="0" max="100" value={editing.minPercentage ?? ''} onChange={e => setEditing({ ...editing, minPercentage: e.target.value === '' ? undefined : Number(e.target.value) })} className="w-full p-2 border border-slate-200 rounded-lg text-sm font-bold" />
+                            </div>
+                        </div>
+                        <div>
+                            <label className="text-[10px] font-bold text-slate-500 uppercase block mb-1">Classes (none selected = all)</label>
+                            <div className="flex flex-wrap gap-1">
+                                {CLASS_OPTIONS.map(c => (
+                                    <button key={c} onClick={() => toggleClass(c)} className={`px-2 py-1 rounded-lg text-xs font-bold border ${(editing.classLevels || []).includes(c) ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-600 border-slate-200'}`}>{c === 'COMPETITION' ? 'Competition' : c}</button>
+                                ))}
+                            </div>
+                        </div>
+                        <div className="grid grid-cols-3 gap-2">
+                            <div>
+                                <label className="text-[10px] font-bold text-slate-500 uppercase block mb-1">Plan</label>
+                                <select value={editing.reward.tier} onChange={e => setEditing({ ...editing, reward: { ...editing.reward, tier: e.target.value as PrizeRule['reward']['tier'] } })} className="w-full p-2 border border-slate-200 rounded-lg text-sm font-bold">
+                                    {['WEEKLY', 'MONTHLY', 'YEARLY', 'LIFETIME'].map(t => <option key={t} value={t}>{t}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="text-[10px] font-bold text-slate-500 uppercase block mb-1">Level</label>
+                                <select value={editing.reward.level} onChange={e => setEditing({ ...editing, reward: { ...editing.reward, level: e.target.value as PrizeRule['reward']['level'] } })} className="w-full p-2 border border-slate-200 rounded-lg text-sm font-bold">
+                                    <option value="BASIC">BASIC</option>
+                                    <option value="ULTRA">ULTRA</option>
+                                </select>
+                            </div>
+                            <div>
+                                <label className="text-[10px] font-bold text-slate-500 uppercase block mb-1">Hours</label>
+                                <input type="number" min="1" value={editing.reward.durationHours} onChange={e => setEditing({ ...editing, reward: { ...editing.reward, durationHours: Number(e.target.value) } })} className="w-full p-2 border border-slate-200 rounded-lg text-sm font-bold" />
+                            </div>
+                        </div>
+                        <p className="text-[10px] text-slate-500 bg-slate-50 p-2 rounded-lg">{describePrizeRule(editing)}</p>
+                        <button onClick={handleSave} disabled={saving} className="w-full bg-purple-600 text-white font-bold py-3 rounded-xl hover:bg-purple-700 disabled:opacity-50">{saving ? 'Saving...' : 'Save Rule'}</button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
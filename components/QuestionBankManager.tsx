@@ -0,0 +1,185 @@
+import React, { useEffect, useState } from 'react';
+import { BankQuestion, PublicBankQuestion, QuestionDifficulty, QuestionServeStats } from '../types';
+import { subscribeToQuestionBank, subscribeToQuestionStats, saveBankQuestion, deleteBankQuestion, getBankQuestionKeys } from '../storage';
+import { QUESTION_DIFFICULTY_LABELS, parseTags } from '../utils/questionBank';
+import { DEFAULT_SUBJECTS } from '../constants';
+import { ArrowLeft, Search, Trash2, Edit3, Lock, Plus, X } from 'lucide-react';
+
+interface Props {
+    onBack: () => void;
+}
+
+const DIFFICULTY_STYLES: Record<QuestionDifficulty, string> = {
+    EASY: 'bg-green-100 text-green-700',
+    MEDIUM: 'bg-amber-100 text-amber-700',
+    HARD: 'bg-red-100 text-red-700'
+};
+
+const emptyQuestion = (): BankQuestion => ({
+    id: `q-${Date.now()}`,
+    question: '',
+    options: ['', '', '', ''],
+    correctAnswer: 0,
+    explanation: '',
+    subjectId: '',
+    chapterId: '',
+    chapterTitle: '',
+    difficulty: 'MEDIUM',
+    tags: [],
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString()
+});
+
+// Central question bank: one copy per question, every pool test draws from here
+export const QuestionBankManager: React.FC<Props> = ({ onBack }) => {
+    const [bank, setBank] = useState<PublicBankQuestion[]>([]);
+    const [stats, setStats] = useState<Record<string, QuestionServeStats>>({});
+    const [search, setSearch] = useState('');
+    const [subjectFilter, setSubjectFilter] = useState('');
+    const [difficultyFilter, setDifficultyFilter] = useState('');
+    const [sortByServed, setSortByServed] = useState(false);
+    const [editing, setEditing] = useState<BankQuestion | null>(null);
+    const [tagsText, setTagsText] = useState('');
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        const unsubBank = subscribeToQuestionBank(setBank);
+        const unsubStats = subscribeToQuestionStats(setStats);
+        return () => { unsubBank(); unsubStats(); };
+    }, []);
+
+    const openEditor = async (q?: PublicBankQuestion) => {
+        if (!q) {
+            setEditing(emptyQuestion());
+            setTagsText('');
+            return;
+        }
+        const keys = await getBankQuestionKeys([q.id]);
+        const key = keys[q.id] || { correctAnswer: 0, explanation: '' };
+        setEditing({ ...q, ...key, tags: q.tags || [] });
+        setTagsText((q.tags || []).join(', '));
+    };
+
+    const handleSave = async () => {
+        if (!editing) return;
+        if (!editing.question.trim() || editing.options.some(o => !o.trim()) || !editing.subjectId || !editing.chapterId.trim()) {
+            alert("Question, all options, subject and chapter are required.");
+            return;
+        }
+        setSaving(true);
+        try {
+            await saveBankQuestion({ ...editing, chapterId: editing.chapterId.trim(), tags: parseTags(tagsText), updatedAt: new Date().toISOString() });
+            setEditing(null);
+        } catch (e) {
+            alert("❌ Could not save the question. Check your connection.");
+        }
+        setSaving(false);
+    };
+
+    const handleDelete = async (q: PublicBankQuestion) => {
+        if (!window.confirm(`Delete this question from the bank? Tests that draw from the bank will stop serving it.\n\n${q.question}`)) return;
+        await deleteBankQuestion(q.id);
+    };
+
+    const term = search.trim().toLowerCase();
+    const visible = bank
+        .filter(q => !subjectFilter || q.subjectId === subjectFilter)
+        .filter(q => !difficultyFilter || q.difficulty === difficultyFilter)
+        .filter(q => !term || q.question.toLowerCase().includes(term) || (q.tags || []).some(t => t.includes(term)) || (q.chapterTitle || q.chapterId).toLowerCase().includes(term))
+        .sort((a, b) => sortByServed ? (stats[b.id]?.served || 0) - (stats[a.id]?.served || 0) : b.updatedAt.localeCompare(a.updatedAt));
+
+    return (
+        <div className="bg-white p-6 rounded-3xl shadow-sm border border-slate-200 animate-in slide-in-from-right">
+            <div className="flex items-center justify-between gap-4 mb-6 border-b pb-4">
+                <div className="flex items-center gap-4">
+                    <button onClick={onBack} className="bg-slate-100 p-2 rounded-full hover:bg-slate-200"><ArrowLeft size={20} /></button>
+                    <div>
+                        <h3 className="text-xl font-black text-slate-800">Question Bank</h3>
+                        <p className="text-xs text-slate-500">{bank.length} questions • edits apply to every test that draws them</p>
+                    </div>
+                </div>
+                <button onClick={() => openEditor()} className="bg-blue-600 text-white px-4 py-2 rounded-xl font-bold text-sm flex items-center gap-1 hover:bg-blue-700"><Plus size={16} /> New Question</button>
+            </div>
+
+            {/* FILTERS */}
+            <div className="flex flex-wrap gap-2 mb-4">
+                <div className="flex-1 min-w-[180px] flex items-center gap-2 border border-slate-200 rounded-xl px-3">
+                    <Search size={14} className="text-slate-400" />
+                    <input type="text" value={search} onChange={e => setSearch(e.target.value)} placeholder="Search question, chapter or tag" className="flex-1 py-2 text-sm outline-none" />
+                </div>
+                <select value={subjectFilter} onChange={e => setSubjectFilter(e.target.value)} className="p-2 border border-slate-200 rounded-xl text-sm font-bold">
+                    <option value="">All Subjects</option>
+                    {Object.values(DEFAULT_SUBJECTS).map((s: any) => <option key={s.id} value={s.id}>{s.name}</option>)}
+                </select>
+                <select value={difficultyFilter} onChange={e => setDifficultyFilter(e.target.value)} className="p-2 border border-slate-200 rounded-xl text-sm font-bold">
+                    <option value="">All Levels</option>
+                    {(Object.keys(QUESTION_DIFFICULTY_LABELS) as QuestionDifficulty[]).map(d => <option key={d} value={d}>{QUESTION_DIFFICULTY_LABELS[d]}</option>)}
+                </select>
+                <button onClick={() => setSortByServed(!sortByServed)} className={`px-3 py-2 rounded-xl text-xs font-bold border ${sortByServed ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-600 border-slate-200'}`}>Most Served</button>
+            </div>
+
+            {/* LIST */}
+            <div className="space-y-2">
+                {visible.length === 0 && <p className="text-slate-400 text-sm text-center py-8">No questions match.</p>}
+                {visible.map(q => (
+                    <div key={q.id} className="p-3 border border-slate-200 rounded-xl flex items-start justify-between gap-3 hover:bg-slate-50">
+                        <div className="min-w-0">
+                            <p className="font-bold text-slate-800 text-sm line-clamp-2">{q.question}</p>
+                            <div className="flex flex-wrap items-center gap-1 mt-1">
+                                <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold ${DIFFICULTY_STYLES[q.difficulty]}`}>{QUESTION_DIFFICULTY_LABELS[q.difficulty]}</span>
+                                <span className="text-[10px] text-slate-500">{q.subjectId} • {q.chapterTitle || q.chapterId}</span>
+                                {q.reserved && <span className="px-2 py-0.5 rounded-full text-[10px] font-bold bg-slate-800 text-white flex items-center gap-0.5"><Lock size={10} /> Exam Only</span>}
+                                {(q.tags || []).map(t => <span key={t} className="px-2 py-0.5 rounded-full text-[10px] font-bold bg-blue-50 text-blue-600">#{t}</span>)}
+                            </div>
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                            <div className="text-right">
+                                <p className="text-sm font-black text-slate-800">{stats[q.id]?.served || 0}×</p>
+                                <p className="text-[9px] text-slate-400">{stats[q.id]?.lastServedAt ? `last ${new Date(stats[q.id].lastServedAt!).toLocaleDateString()}` : 'never served'}</p>
+                            </div>
+                            <button onClick={() => openEditor(q)} className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg"><Edit3 size={16} /></button>
+                            <button onClick={() => handleDelete(q)} className="p-2 text-red-500 hover:bg-red-50 rounded-lg"><Trash2 size={16} /></button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            {/* EDITOR MODAL */}
+            {editing && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-in fade-in">
+                    <div className="bg-white rounded-2xl w-full max-w-lg shadow-xl max-h-[90vh] overflow-y-auto p-5 space-y-3">
+                        <div className="flex justify-between items-center">
+                            <h3 className="font-black text-slate-800">{bank.some(q => q.id === editing.id) ? 'Edit Question' : 'New Question'}</h3>
+                            <button onClick={() => setEditing(null)} className="p-1.5 bg-slate-100 rounded-full text-slate-500"><X size={16} /></button>
+                        </div>
+                        <textarea value={editing.question} onChange={e => setEditing({ ...editing, question: e.target.value })} placeholder="Question" className="w-full p-3 border border-slate-200 rounded-xl text-sm h-20" />
+                        {editing.options.map((opt, oIdx) => (
+                            <div key={oIdx} className="flex items-center gap-2">
+                                <input type="radio" checked={editing.correctAnswer === oIdx} onChange={() => setEditing({ ...editing, correctAnswer: oIdx })} className="w-4 h-4 accent-green-600" />
+                                <input type="text" value={opt} onChange={e => setEditing({ ...editing, options: editing.options.map((o, i) => i === oIdx ? e.target.value : o) })} placeholder={`Option ${String.fromCharCode(65 + oIdx)}`} className="flex-1 p-2 border border-slate-200 rounded-lg text-sm" />
+                            </div>
+                        ))}
+                        <textarea value={editing.explanation} onChange={e => setEditing({ ...editing, explanation: e.target.value })} placeholder="Explanation" className="w-full p-3 border border-slate-200 rounded-xl text-sm h-16" />
+                        <div className="grid grid-cols-2 gap-2">
+                            <select value={editing.subjectId} onChange={e => setEditing({ ...editing, subjectId: e.target.value })} className="p-2 border border-slate-200 rounded-lg text-sm font-bold">
+                                <option value="">Subject</option>
+                                {Object.values(DEFAULT_SUBJECTS).map((s: any) => <option key={s.id} value={s.id}>{s.name}</option>)}
+                            </select>
+                            <select value={editing.difficulty} onChange={e => setEditing({ ...editing, difficulty: e.target.value as QuestionDifficulty })} className="p-2 border border-slate-200 rounded-lg text-sm font-bold">
+                                {(Object.keys(QUESTION_DIFFICULTY_LABELS) as QuestionDifficulty[]).map(d => <option key={d} value={d}>{QUESTION_DIFFICULTY_LABELS[d]}</option>)}
+                            </select>
+                            <input type="text" value={editing.chapterId} onChange={e => setEditing({ ...editing, chapterId: e.target.value })} placeholder="Chapter ID" className="p-2 border border-slate-200 rounded-lg text-sm" />
+                            <input type="text" value={editing.chapterTitle || ''} onChange={e => setEditing({ ...editing, chapterTitle: e.target.value })} placeholder="Chapter Title" className="p-2 border border-slate-200 rounded-lg text-sm" />
+                        </div>
+                        <input type="text" value={tagsText} onChange={e => setTagsText(e.target.value)} placeholder="Tags (comma separated)" className="w-full p-2 border border-slate-200 rounded-lg text-sm" />
+                        <label className="flex items-center gap-2 text-xs font-bold text-slate-700">
+                            <input type="checkbox" checked={!!editing.reserved} onChange={e => setEditing({ ...editing, reserved: e.target.checked })} className="w-4 h-4 accent-slate-800" />
+                            Exam Only (weekly tests only, answer hidden from practice)
+                        </label>
+                        <button onClick={handleSave} disabled={saving} className="w-full bg-blue-600 text-white font-bold py-3 rounded-xl hover:bg-blue-700 disabled:opacity-50">{saving ? 'Saving...' : 'Save to Bank'}</button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,9 +1,8 @@
 import React, { useState } from 'react';
 import { Gift, ArrowRight, AlertCircle, CheckCircle } from 'lucide-react';
 import { User, SystemSettings } from '../types';
-import { ref, get, update } from "firebase/database";
-import { doc, getDoc, updateDoc } from "firebase/firestore";
-import { rtdb, db, saveUserToLive } from "../firebase";
+import { claimGiftCode } from "../storage";
+import { REDEEM_FAILURE_MESSAGES, describeGiftReward, getGiftReward } from "../utils/giftCodes";
 
 interface Props {
   user: User;
@@ -21,114 +20,39 @@ export const RedeemSection: React.FC<Props> = ({ user, onSuccess }) => {
     if (!cleanCode) return;
     setStatus('LOADING');
     
-    try {
-        let targetCode: any = null;
-        let source = 'NONE';
+    // Redeems and gives the reward (re-entering a code whose reward never arrived finishes the grant)
+    const result = await claimGiftCode(cleanCode, user);
 
-        // 1. Check RTDB
-        const codeRef = ref(rtdb, `redeem_codes/${cleanCode}`);
-        const snapshot = await get(codeRef);
-        
-        if (snapshot.exists()) {
-            targetCode = snapshot.val();
-            source = 'RTDB';
-        } else {
-            // 2. Check Firestore
-            try {
-                const docRef = doc(db, "redeem_codes", cleanCode);
-                const docSnap = await getDoc(docRef);
-                if (docSnap.exists()) {
-                    targetCode = docSnap.data();
-                    source = 'FIRESTORE';
-                }
-            } catch(e) { console.error("Firestore Code Check Error", e); }
-        }
-
-        if (!targetCode) {
-            setStatus('ERROR');
-            setMsg('Invalid Code. Please check and try again.');
-            return;
-        }
-        
-        // CHECK IF REDEEMED
-        if (targetCode.isRedeemed) {
-            setStatus('ERROR');
-            setMsg('This code has already been redeemed.');
-            return;
-        }
-
-        // CHECK IF ALREADY USED BY THIS USER (For Multi-Use Codes)
-        const redeemedList = Array.isArray(targetCode.redeemedBy) ? targetCode.redeemedBy : (targetCode.redeemedBy ? [targetCode.redeemedBy] : []);
-        if (redeemedList.includes(user.id)) {
-            setStatus('ERROR');
-            setMsg('You have already used this code.');
-            return;
-        }
-
-        // CHECK MAX USES
-        const maxUses = targetCode.maxUses || 1;
-        const currentUses = targetCode.usedCount || 0;
-        
-        if (currentUses >= maxUses) {
-            setStatus('ERROR');
-            setMsg('This code has reached its maximum usage limit.');
-            return;
-        }
-
-        // Success Logic - Update Count & Add User
-        const newUsedCount = currentUses + 1;
-        const isFullyRedeemed = newUsedCount >= maxUses;
-        const newRedeemedBy = [...redeemedList, user.id];
-
-        const updatePayload = { 
-            isRedeemed: isFullyRedeemed, 
-            usedCount: newUsedCount,
-            redeemedBy: newRedeemedBy 
-        };
-
-        if (source === 'RTDB') {
-            await update(codeRef, updatePayload);
-            try { await updateDoc(doc(db, "redeem_codes", cleanCode), updatePayload); } catch(e){}
-        } else {
-            await updateDoc(doc(db, "redeem_codes", cleanCode), updatePayload);
-            try { await update(codeRef, updatePayload); } catch(e){}
-        }
+    if (!result.ok) {
+        setStatus('ERROR');
+        setMsg(REDEEM_FAILURE_MESSAGES[result.reason]);
+        return;
+    }
 
-        // 3. Update User Credits
-        const newCredits = (user.credits || 0) + targetCode.amount;
-        const updatedUser = { 
-            ...user, 
-            credits: newCredits, 
-            redeemedCodes: [...(user.redeemedCodes || []), targetCode.code] 
-        };
-        
-        // Save User immediately to global storage & Cloud
-        const allUsersStr = localStorage.getItem('nst_users');
-        if (allUsersStr) {
-            const allUsers: User[] = JSON.parse(allUsersStr);
-            const userIdx = allUsers.findIndex(u => u.id === user.id);
-            if (userIdx !== -1) {
-                allUsers[userIdx] = updatedUser;
-                localStorage.setItem('nst_users', JSON.stringify(allUsers));
-            }
+    const targetCode = result.code;
+    const updatedUser = result.user;
+    
+    // Save User immediately to global storage
+    const allUsersStr = localStorage.getItem('nst_users');
+    if (allUsersStr) {
+        const allUsers: User[] = JSON.parse(allUsersStr);
+        const userIdx = allUsers.findIndex(u => u.id === user.id);
+        if (userIdx !== -1) {
+            allUsers[userIdx] = updatedUser;
+            localStorage.setItem('nst_users', JSON.stringify(allUsers));
         }
-        localStorage.setItem('nst_current_user', JSON.stringify(updatedUser));
-        await saveUserToLive(updatedUser); // छात्र को क्रेडिट दें
-
-        setStatus('SUCCESS');
-        setMsg(`Success! Added ${targetCode.amount} Premium Notes.`);
-        setCode('');
-        onSuccess(updatedUser);
-        
-        setTimeout(() => {
-            setStatus('IDLE');
-            setMsg('');
-        }, 3000);
-
-    } catch (e) {
-        setStatus('ERROR');
-        setMsg('Connection Error. Please try again.');
     }
+    localStorage.setItem('nst_current_user', JSON.stringify(updatedUser));
+
+    setStatus('SUCCESS');
+    setMsg(`Success! You received ${describeGiftReward(getGiftReward(targetCode))}.`);
+    setCode('');
+    onSuccess(updatedUser);
+    
+    setTimeout(() => {
+        setStatus('IDLE');
+        setMsg('');
+    }, 3000);
   };
 
   return (
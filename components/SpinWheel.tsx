@@ -1,11 +1,16 @@
-import React, { useState, useMemo } from 'react';
-import { User, SystemSettings, SpinReward } from '../types';
+import React, { useState, useMemo, useEffect } from 'react';
+import { User, SystemSettings, SpinReward, CreditTransaction, SpinBudgetUsage, UserUpdate } from '../types';
 import { Trophy, Zap, Star, Lock } from 'lucide-react';
 import { CustomAlert } from './CustomDialogs';
+import { logSpinOutcome, getSpinBudgetUsage, claimSpinBudget, countDailySpin } from '../storage';
+import { grantSubscription } from '../utils/accessPolicy';
+import { applyCreditChange } from '../utils/creditLedger';
+import { applyUserUpdate } from '../utils/userUpdates';
+import { createSpinSeed, pickWeightedReward, getSpinOdds, getSpinTier, getTierSpinRewards, filterAvailableSpinRewards, isSpinRewardCapped, getSpinPeriodKeys } from '../utils/spinWheel';
 
 interface Props {
   user: User;
-  onUpdateUser: (user: User) => void;
+  onUpdateUser: (user: User, change?: UserUpdate) => void;
   settings?: SystemSettings;
 }
 
@@ -15,34 +20,21 @@ export const SpinWheel: React.FC<Props> = ({ user, onUpdateUser, settings }) =>
   const [resultMessage, setResultMessage] = useState<React.ReactNode | null>(null);
   const [alertConfig, setAlertConfig] = useState<{isOpen: boolean, message: string}>({isOpen: false, message: ''});
 
-  // --- CONFIG & NORMALIZATION ---
-  const rewards: SpinReward[] = useMemo(() => {
-      const raw = settings?.wheelRewards || [];
-      if (raw.length === 0) {
-          // Default Rewards
-          return [
-              {id: '1', type: 'COINS', value: 0, label: '0', color: '#ef4444'},
-              {id: '2', type: 'COINS', value: 1, label: '1 CR', color: '#3b82f6'},
-              {id: '3', type: 'COINS', value: 2, label: '2 CR', color: '#22c55e'},
-              {id: '4', type: 'COINS', value: 5, label: '5 CR', color: '#a855f7'},
-              {id: '5', type: 'COINS', value: 10, label: '10 CR', color: '#f97316'},
-              {id: '6', type: 'COINS', value: 0, label: 'Try Again', color: '#fbbf24'}
-          ];
-      }
-      // Handle Legacy number[] if present (Backwards Compatibility)
-      return raw.map((r: any, idx: number) => {
-          if (typeof r === 'number') {
-              const colors = ['#ef4444', '#3b82f6', '#22c55e', '#a855f7', '#f97316', '#fbbf24'];
-              return { id: `legacy-${idx}`, type: 'COINS', value: r, label: r === 0 ? '0' : `${r} CR`, color: colors[idx % colors.length] };
-          }
-          return r;
-      });
-  }, [settings?.wheelRewards]);
+  // --- CONFIG & NORMALIZATION (Per-tier table, capped prizes drop out once their budget is used) ---
+  const spinTier = getSpinTier(user);
+  const tierRewards: SpinReward[] = useMemo(() => getTierSpinRewards(settings, spinTier), [settings?.wheelRewards, settings?.wheelRewardsByTier, spinTier]);
+  const [budgetUsage, setBudgetUsage] = useState<Record<string, SpinBudgetUsage>>({});
+
+  useEffect(() => {
+      if (tierRewards.some(isSpinRewardCapped)) getSpinBudgetUsage().then(setBudgetUsage);
+  }, [tierRewards]);
+
+  const rewards: SpinReward[] = useMemo(() => filterAvailableSpinRewards(tierRewards, budgetUsage), [tierRewards, budgetUsage]);
   
   const cost = settings?.gameCost || 0;
 
-  // --- DAILY LIMIT LOGIC ---
-  const todayStr = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
+  // --- DAILY LIMIT LOGIC (same day boundary as the prize budgets) ---
+  const todayStr = getSpinPeriodKeys().day;
   
   const dailyLimit = useMemo(() => {
       // 1. If not premium, use Free limit
@@ -58,13 +50,13 @@ export const SpinWheel: React.FC<Props> = ({ user, onUpdateUser, settings }) =>
 
   const spinsUsed = user.dailySpinDate === todayStr ? (user.dailySpinCount || 0) : 0;
   const remainingSpins = Math.max(0, dailyLimit - spinsUsed);
-  const canSpin = remainingSpins > 0;
+  const canSpin = remainingSpins > 0 && rewards.length > 0;
 
   // --- SEGMENTS ---
   const SEGMENT_COUNT = rewards.length;
   const SEGMENT_ANGLE = 360 / SEGMENT_COUNT;
 
-  const handleSpin = () => {
+  const handleSpin = async () => {
     if (!canSpin || isSpinning) return;
     if (cost > 0 && user.credits < cost) {
         setAlertConfig({isOpen: true, message: `Insufficient Credits! You need ${cost} Credits to spin.`});
@@ -74,16 +66,89 @@ export const SpinWheel: React.FC<Props> = ({ user, onUpdateUser, settings }) =>
     setIsSpinning(true);
     setResultMessage(null);
 
-    // 1. Pick Winner (Uniform or Weighted)
-    // If we want weights, we can add 'weight' prop to SpinReward. For now, uniform.
-    // Wait, requirement: "prize jayada do jayada inam milega" (More prizes, bigger rewards mode).
-    // The Admin configures the list. If Admin adds more items, prob changes.
-    
-    // Simple Random Implementation
-    const winningIndex = Math.floor(Math.random() * rewards.length);
-    const wonReward = rewards[winningIndex];
+    // 1. Pick Winner (Weighted by SpinReward.probability, seeded for audit)
+    // A capped prize must be claimed from the global budget; if someone else just took the last one, pick again without it
+    const seed = createSpinSeed();
+    let candidates = rewards;
+    let pick = pickWeightedReward(candidates, seed);
+    while (isSpinRewardCapped(pick.reward) && !(await claimSpinBudget(pick.reward))) {
+        const soldOut = pick.reward.id;
+        candidates = candidates.filter(r => r.id !== soldOut);
+        if (candidates.length === 0) {
+            setIsSpinning(false);
+            setAlertConfig({isOpen: true, message: 'All prizes are sold out for now. Try again later!'});
+            getSpinBudgetUsage().then(setBudgetUsage);
+            return;
+        }
+        pick = pickWeightedReward(candidates, seed);
+    }
+    const { reward: wonReward, roll } = pick;
+    const winningIndex = rewards.findIndex(r => r.id === wonReward.id);
+    const odds = getSpinOdds(candidates)[candidates.indexOf(wonReward)].odds;
+
+    // Counted before the prize is given, so a failed count doesn't hand out a free spin
+    const counted = await countDailySpin(user, todayStr);
+    if (!counted) {
+        setIsSpinning(false);
+        setAlertConfig({isOpen: true, message: 'Could not save the spin. Check your connection and try again.'});
+        return;
+    }
+
+    // 2. Grant in the same step as the budget claim, so leaving during the animation can't lose the prize
+    const txns: CreditTransaction[] = [];
+    const costChange = applyCreditChange(user, -cost, 'SPIN_COST', { refId: wonReward.id });
+    if (cost > 0) txns.push(costChange.txn);
+
+    // Credits move by the net amount, so spends in another tab or an admin top-up aren't lost
+    const change: UserUpdate = {
+        increment: { credits: -cost },
+        set: { lastSpinTime: new Date().toISOString() }
+    };
 
-    // 2. Rotate
+    if (wonReward.type === 'COINS') {
+        const winChange = applyCreditChange(costChange.user, Number(wonReward.value), 'SPIN_WIN', { refId: wonReward.id, note: wonReward.label, actor: 'SYSTEM' });
+        change.increment = { credits: Number(wonReward.value) - cost };
+        if (Number(wonReward.value) !== 0) txns.push(winChange.txn);
+    } else if (wonReward.type === 'SUBSCRIPTION') {
+        // Format: "WEEKLY_BASIC", "MONTHLY_ULTRA"
+        const parts = String(wonReward.value).split('_');
+        const tier = parts[0] as NonNullable<User['subscriptionTier']>;
+        const level = (parts[1] || 'BASIC') as 'BASIC' | 'ULTRA';
+        
+        let days = 7;
+        if (tier === 'MONTHLY') days = 30;
+        if (tier === 'YEARLY') days = 365;
+        if (tier === 'LIFETIME') days = 36500;
+
+        change.set = {
+            ...change.set,
+            // Stacks on an active subscription and keeps a higher tier or level
+            ...grantSubscription(user, tier, level, days * 24),
+            grantedByAdmin: true // Won in game
+        };
+    }
+
+    change.ledger = txns;
+    onUpdateUser(applyUserUpdate({ ...user, ...counted }, change), change);
+    // The prize actually given; sold-out prizes it was re-picked without are listed so the seed replays to it
+    const soldOut = rewards.filter(r => !candidates.includes(r)).map(r => r.id);
+    logSpinOutcome({
+        id: `spin-${Date.now()}-${user.id}`,
+        userId: user.id,
+        userName: user.name,
+        seed,
+        roll,
+        rewardId: wonReward.id,
+        rewardType: wonReward.type,
+        rewardValue: wonReward.value,
+        rewardLabel: wonReward.label,
+        odds,
+        cost,
+        ...(soldOut.length ? { excludedRewardIds: soldOut } : {}),
+        timestamp: new Date().toISOString()
+    });
+
+    // 3. Rotate
     const extraSpins = 360 * 6; 
     // Center alignment correction
     const segmentOffset = Math.floor(Math.random() * (SEGMENT_ANGLE - 4)) + 2; 
@@ -115,37 +180,8 @@ export const SpinWheel: React.FC<Props> = ({ user, onUpdateUser, settings }) =>
         );
       }
       setResultMessage(msg);
-      
-      // Update User
-      const updatedUser = { 
-          ...user, 
-          credits: user.credits - cost, // Deduct cost first
-          dailySpinDate: todayStr,
-          dailySpinCount: spinsUsed + 1,
-          lastSpinTime: new Date().toISOString() 
-      };
-
-      if (wonReward.type === 'COINS') {
-          updatedUser.credits += Number(wonReward.value);
-      } else if (wonReward.type === 'SUBSCRIPTION') {
-          // Format: "WEEKLY_BASIC", "MONTHLY_ULTRA"
-          const parts = String(wonReward.value).split('_');
-          const tier = parts[0] as any;
-          const level = parts[1] as any || 'BASIC';
-          
-          let days = 7;
-          if (tier === 'MONTHLY') days = 30;
-          if (tier === 'YEARLY') days = 365;
-          if (tier === 'LIFETIME') days = 36500;
-
-          updatedUser.subscriptionTier = tier;
-          updatedUser.subscriptionLevel = level;
-          updatedUser.subscriptionEndDate = new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
-          updatedUser.isPremium = true;
-          updatedUser.grantedByAdmin = true; // Won in game
-      }
-
-      onUpdateUser(updatedUser);
+      // After the animation, so the segments don't move under the pointer
+      if (isSpinRewardCapped(wonReward) || soldOut.length) getSpinBudgetUsage().then(setBudgetUsage);
 
     }, 5000); 
   };
@@ -251,7 +287,7 @@ export const SpinWheel: React.FC<Props> = ({ user, onUpdateUser, settings }) =>
       ) : (
         <div className="bg-slate-900 text-white px-8 py-4 rounded-2xl shadow-lg flex flex-col items-center border border-slate-700 w-full max-w-xs">
              <div className="text-[10px] font-bold text-slate-400 uppercase mb-2 flex items-center gap-1 tracking-widest">
-                 <Lock size={12} /> Daily Limit Reached
+                 <Lock size={12} /> {rewards.length === 0 ? 'All Prizes Claimed' : 'Daily Limit Reached'}
              </div>
              <div className="text-xl font-bold text-yellow-400 tracking-wider">
                  {spinsUsed}/{dailyLimit} Used
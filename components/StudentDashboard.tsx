@@ -1,14 +1,14 @@
 
 import React, { useState, useEffect } from 'react';
-import { User, Subject, StudentTab, SystemSettings, CreditPackage, WeeklyTest, Chapter } from '../types';
-import { updateUserStatus, db, saveUserToLive, getChapterData, rtdb } from '../firebase';
-import { doc, onSnapshot } from 'firebase/firestore';
-import { ref, query, limitToLast, onValue } from 'firebase/database';
+import { User, Subject, StudentTab, SystemSettings, CreditPackage, PublicWeeklyTest, Chapter, UserUpdate, InboxMessage } from '../types';
+import { updateUserStatus, saveUserToLive, updateUserFields, saveUserChanges, getUserData, getChapterData, sendPasswordReset, subscribeToUser, subscribeToUniversalUpdates } from '../storage';
 import { getSubjectsList, DEFAULT_APP_FEATURES } from '../constants';
 import { RedeemSection } from './RedeemSection';
+import { CoinHistory } from './CoinHistory';
 import { PrizeList } from './PrizeList';
+import { WeeklyTestList } from './WeeklyTestList';
 import { Store } from './Store';
-import { Zap, Crown, Calendar, Clock, History, Layout, Gift, Sparkles, Megaphone, Lock, BookOpen, AlertCircle, Edit, Settings, Play, Pause, RotateCcw, MessageCircle, Gamepad2, Timer, CreditCard, Send, CheckCircle, Mail, X, Ban, Smartphone, Trophy, ShoppingBag, ArrowRight, Video, Youtube, Home, User as UserIcon, Book, BookOpenText, List, BarChart3, Award, Bell, Headphones, LifeBuoy } from 'lucide-react';
+import { Zap, Crown, Calendar, Clock, History, Layout, Gift, Sparkles, Megaphone, Lock, BookOpen, AlertCircle, Edit, Settings, Play, Pause, RotateCcw, MessageCircle, Gamepad2, Timer, CreditCard, Send, CheckCircle, Mail, X, Ban, Smartphone, Trophy, ShoppingBag, ArrowRight, Video, Youtube, Home, User as UserIcon, Book, BookOpenText, List, BarChart3, Award, Bell, Headphones, LifeBuoy, Brain } from 'lucide-react';
 import { SubjectSelection } from './SubjectSelection';
 import { ChapterSelection } from './ChapterSelection'; // Imported for Video Flow
 import { VideoPlaylistView } from './VideoPlaylistView'; // Imported for Video Flow
@@ -26,6 +26,12 @@ import { CustomAlert } from './CustomDialogs';
 import { AnalyticsPage } from './AnalyticsPage';
 import { ChatHub } from './ChatHub';
 import { UniversalInfoPage } from './UniversalInfoPage';
+import { DailyRevision } from './DailyRevision';
+import { listEntitlements } from '../utils/entitlements';
+import { evaluateAccess, grantSubscription } from '../utils/accessPolicy';
+import { applyCreditChange } from '../utils/creditLedger';
+import { getDueCards } from '../utils/spacedRepetition';
+import { applyUserUpdate } from '../utils/userUpdates';
 
 interface Props {
   user: User;
@@ -33,7 +39,8 @@ interface Props {
   onSubjectSelect: (subject: Subject) => void;
   onRedeemSuccess: (user: User) => void;
   settings?: SystemSettings; // New prop
-  onStartWeeklyTest?: (test: WeeklyTest) => void;
+  onStartWeeklyTest?: (test: PublicWeeklyTest) => void;
+  onViewWeeklyTestResult?: (testId: string) => void;
   activeTab: StudentTab;
   onTabChange: (tab: StudentTab) => void;
   setFullScreen: (full: boolean) => void; // Passed from App
@@ -50,16 +57,14 @@ const DEFAULT_PACKAGES: CreditPackage[] = [
     { id: 'pkg-7', name: 'Ultimate Pack', price: 5000, credits: 20000 }
 ];
 
-export const StudentDashboard: React.FC<Props> = ({ user, dailyStudySeconds, onSubjectSelect, onRedeemSuccess, settings, onStartWeeklyTest, activeTab, onTabChange, setFullScreen, onNavigate }) => {
+export const StudentDashboard: React.FC<Props> = ({ user, dailyStudySeconds, onSubjectSelect, onRedeemSuccess, settings, onStartWeeklyTest, onViewWeeklyTestResult, activeTab, onTabChange, setFullScreen, onNavigate }) => {
   
   // NEW NOTIFICATION LOGIC
   const [hasNewUpdate, setHasNewUpdate] = useState(false);
   useEffect(() => {
-      const q = query(ref(rtdb, 'universal_updates'), limitToLast(1));
-      const unsub = onValue(q, snap => {
-          const data = snap.val();
-          if (data) {
-              const latest = Object.values(data)[0] as any;
+      const unsub = subscribeToUniversalUpdates(1, updates => {
+          if (updates.length > 0) {
+              const latest = updates[0];
               const lastRead = localStorage.getItem('nst_last_read_update') || '0';
               if (new Date(latest.timestamp).getTime() > Number(lastRead)) {
                   setHasNewUpdate(true);
@@ -102,7 +107,6 @@ export const StudentDashboard: React.FC<Props> = ({ user, dailyStudySeconds, onS
       classLevel: user.classLevel || '10',
       board: user.board || 'CBSE',
       stream: user.stream || 'Science',
-      newPassword: '',
       dailyGoalHours: 3 // Default
   });
 
@@ -111,6 +115,7 @@ export const StudentDashboard: React.FC<Props> = ({ user, dailyStudySeconds, onS
   const [showUserGuide, setShowUserGuide] = useState(false);
   const [showFeaturesModal, setShowFeaturesModal] = useState(false);
   const [showNameChangeModal, setShowNameChangeModal] = useState(false);
+  const [showCoinHistory, setShowCoinHistory] = useState(false);
   const [newNameInput, setNewNameInput] = useState('');
   
   // REPLACED CHAT WITH SUPPORT MODAL
@@ -145,9 +150,10 @@ export const StudentDashboard: React.FC<Props> = ({ user, dailyStudySeconds, onS
   }
 
   // --- SELF-REPAIR SYNC (Fix for "New User Not Showing") ---
+  // Only recreates a missing cloud record; a full write here would undo changes made elsewhere
   useEffect(() => {
       if (user && user.id) {
-          saveUserToLive(user);
+          getUserData(user.id).then(cloudUser => { if (!cloudUser) saveUserToLive(user); });
       }
   }, [user.id]);
 
@@ -200,19 +206,19 @@ export const StudentDashboard: React.FC<Props> = ({ user, dailyStudySeconds, onS
       const yClaimed = localStorage.getItem(`reward_claimed_${user.id}_${yDateStr}`);
       
       if (!yClaimed && (!user.subscriptionTier || user.subscriptionTier === 'FREE')) {
-          let reward = null;
+          let reward: { tier: 'MONTHLY' | 'WEEKLY'; level: 'ULTRA' | 'BASIC'; hours: number } | null = null;
           if (yActivity >= 10800) reward = { tier: 'MONTHLY', level: 'ULTRA', hours: 4 }; // 3 Hrs -> Ultra
           else if (yActivity >= 3600) reward = { tier: 'WEEKLY', level: 'BASIC', hours: 4 }; // 1 Hr -> Basic
 
           if (reward) {
               const expiresAt = new Date(new Date().setHours(new Date().getHours() + 24)).toISOString();
-              const newMsg = {
+              const newMsg: InboxMessage = {
                   id: `reward-${Date.now()}`,
                   text: `🎁 Daily Reward! You studied enough yesterday. Claim your ${reward.hours} hours of ${reward.level} access now!`,
                   date: new Date().toISOString(),
                   read: false,
                   type: 'REWARD',
-                  reward: { tier: reward.tier as any, level: reward.level as any, durationHours: reward.hours },
+                  reward: { tier: reward.tier, level: reward.level, durationHours: reward.hours },
                   expiresAt: expiresAt,
                   isClaimed: false
               };
@@ -229,50 +235,43 @@ export const StudentDashboard: React.FC<Props> = ({ user, dailyStudySeconds, onS
   }, [user.id]);
 
   const claimRewardMessage = (msgId: string, reward: any, gift?: any) => {
-      const updatedInbox = user.inbox?.map(m => m.id === msgId ? { ...m, isClaimed: true, read: true } : m);
-      let updatedUser: User = { ...user, inbox: updatedInbox };
+      // Only this message and the reward fields are written, so messages the admin sends meanwhile stay
+      const msg = user.inbox?.find(m => m.id === msgId);
+      const change: UserUpdate = msg ? { arrayRemove: { inbox: [msg] }, arrayUnion: { inbox: [{ ...msg, isClaimed: true, read: true }] } } : {};
       let successMsg = '';
 
       if (gift) {
           // HANDLE ADMIN GIFT
           if (gift.type === 'CREDITS') {
-              updatedUser.credits = (user.credits || 0) + Number(gift.value);
+              const credit = applyCreditChange(user, Number(gift.value), 'INBOX_GIFT', { refId: msgId, actor: 'ADMIN' });
+              change.increment = credit.change.increment;
+              change.ledger = credit.change.ledger;
               successMsg = `🎁 Gift Claimed! Added ${gift.value} Credits.`;
           } else if (gift.type === 'SUBSCRIPTION') {
-              const [tier, level] = (gift.value as string).split('_');
+              const [tier, level] = (gift.value as string).split('_') as [NonNullable<User['subscriptionTier']>, User['subscriptionLevel']];
               const duration = gift.durationHours || 24;
-              const endDate = new Date(Date.now() + duration * 60 * 60 * 1000).toISOString();
-              
-              updatedUser.subscriptionTier = tier as any;
-              updatedUser.subscriptionLevel = level as any;
-              updatedUser.subscriptionEndDate = endDate;
-              updatedUser.isPremium = true;
+              // Stacks on an active subscription and keeps a higher tier or level
+              change.set = grantSubscription(user, tier, level || 'BASIC', duration);
               
               successMsg = `🎁 Gift Claimed! ${tier} ${level} unlocked for ${duration} hours.`;
           }
       } else if (reward) {
           // HANDLE AUTO REWARD
           const duration = reward.durationHours || 4;
-          const endDate = new Date(Date.now() + duration * 60 * 60 * 1000).toISOString();
-          
-          updatedUser.subscriptionTier = reward.tier;
-          updatedUser.subscriptionLevel = reward.level;
-          updatedUser.subscriptionEndDate = endDate;
-          updatedUser.isPremium = true;
+          change.set = grantSubscription(user, reward.tier, reward.level, duration);
           
           successMsg = `✅ Reward Claimed! Enjoy ${duration} hours of ${reward.level} access.`;
       }
       
-      handleUserUpdate(updatedUser);
+      handleUserUpdate(applyUserUpdate(user, change), change);
       showAlert(successMsg, 'SUCCESS', 'Rewards Claimed');
   };
 
   // --- TRACK TODAY'S ACTIVITY & FIRST DAY BONUSES ---
   useEffect(() => {
     if (!user.id) return;
-    const unsub = onSnapshot(doc(db, "users", user.id), (doc) => {
-        if (doc.exists()) {
-            const cloudData = doc.data() as User;
+    const unsub = subscribeToUser(user.id, (cloudData) => {
+        if (cloudData) {
             if (cloudData.credits !== user.credits || 
                 cloudData.subscriptionTier !== user.subscriptionTier ||
                 cloudData.isPremium !== user.isPremium ||
@@ -295,22 +294,10 @@ export const StudentDashboard: React.FC<Props> = ({ user, dailyStudySeconds, onS
           const firstDayBonusClaimed = localStorage.getItem(`first_day_ultra_${user.id}`);
           
           if (accountAgeHours < 24 && dailyStudySeconds >= 3600 && !firstDayBonusClaimed) {
-              const endDate = new Date(Date.now() + 60 * 60 * 1000).toISOString(); // 1 Hour
-              const updatedUser = { 
-                  ...user, 
-                  subscriptionTier: 'MONTHLY', // Ultra
-                  subscriptionEndDate: endDate,
-                  isPremium: true
-              };
-              const storedUsers = JSON.parse(localStorage.getItem('nst_users') || '[]');
-              const idx = storedUsers.findIndex((u:User) => u.id === user.id);
-              if (idx !== -1) storedUsers[idx] = updatedUser;
-              
-              localStorage.setItem('nst_users', JSON.stringify(storedUsers));
-              localStorage.setItem('nst_current_user', JSON.stringify(updatedUser));
+              const change: UserUpdate = { set: grantSubscription(user, 'MONTHLY', 'ULTRA', 1) }; // 1 Hour
               localStorage.setItem(`first_day_ultra_${user.id}`, 'true');
               
-              onRedeemSuccess(updatedUser);
+              handleUserUpdate(applyUserUpdate(user, change), change);
               showAlert("🎉 FIRST DAY BONUS: You unlocked 1 Hour Free ULTRA Subscription!", 'SUCCESS');
           }
           
@@ -321,6 +308,7 @@ export const StudentDashboard: React.FC<Props> = ({ user, dailyStudySeconds, onS
   // Inbox
   const [showInbox, setShowInbox] = useState(false);
   const unreadCount = user.inbox?.filter(m => !m.read).length || 0;
+  const dueRevisionCount = getDueCards(user.reviewQueue).length;
 
   useEffect(() => {
     const today = new Date().toDateString();
@@ -330,31 +318,29 @@ export const StudentDashboard: React.FC<Props> = ({ user, dailyStudySeconds, onS
 
   const claimDailyReward = () => {
       if (!canClaimReward) return;
-      const updatedUser = {
-          ...user,
-          credits: (user.credits || 0) + REWARD_AMOUNT,
-          lastRewardClaimDate: new Date().toISOString()
-      };
-      handleUserUpdate(updatedUser);
+      const credit = applyCreditChange(user, REWARD_AMOUNT, 'DAILY_GOAL', { actor: 'SYSTEM' });
+      const change: UserUpdate = { ...credit.change, set: { lastRewardClaimDate: new Date().toISOString() } };
+      handleUserUpdate(applyUserUpdate(user, change), change);
       setCanClaimReward(false);
       showAlert(`Received: ${REWARD_AMOUNT} Free Credits!`, 'SUCCESS', 'Daily Goal Met');
   };
 
   const handleExternalAppClick = (app: any) => {
       if (app.isLocked) { showAlert("This app is currently locked by Admin.", 'ERROR'); return; }
-      if (app.creditCost > 0) {
-          if (user.credits < app.creditCost) { showAlert(`Insufficient Credits! You need ${app.creditCost} credits.`, 'ERROR'); return; }
-          if (user.isAutoDeductEnabled) processAppAccess(app, app.creditCost);
-          else setPendingApp({ app, cost: app.creditCost });
+      const decision = evaluateAccess(user, { kind: 'EXTERNAL_APP', price: app.creditCost }, settings);
+      if (decision.result !== 'ALLOW') {
+          if (!decision.canAfford) { showAlert(decision.message, 'ERROR'); return; }
+          if (user.isAutoDeductEnabled) processAppAccess(app, decision.cost);
+          else setPendingApp({ app, cost: decision.cost });
           return;
       }
       setActiveExternalApp(app.url);
   };
 
   const processAppAccess = (app: any, cost: number, enableAuto: boolean = false) => {
-      let updatedUser = { ...user, credits: user.credits - cost };
-      if (enableAuto) updatedUser.isAutoDeductEnabled = true;
-      handleUserUpdate(updatedUser);
+      const credit = applyCreditChange(user, -cost, 'APP_ACCESS', { refId: app.id, note: app.name });
+      const change: UserUpdate = { ...credit.change, ...(enableAuto ? { set: { isAutoDeductEnabled: true } } : {}) };
+      handleUserUpdate(applyUserUpdate(user, change), change);
       setActiveExternalApp(app.url);
       setPendingApp(null);
   };
@@ -373,7 +359,7 @@ export const StudentDashboard: React.FC<Props> = ({ user, dailyStudySeconds, onS
     return `${h > 0 ? h + ':' : ''}${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
   };
 
-  const saveProfile = () => {
+  const saveProfile = async () => {
       // Cost Check
       const isPremium = user.isPremium && user.subscriptionEndDate && new Date(user.subscriptionEndDate) > new Date();
       const cost = settings?.profileEditCost ?? 10;
@@ -383,31 +369,31 @@ export const StudentDashboard: React.FC<Props> = ({ user, dailyStudySeconds, onS
           return;
       }
       
-      const updatedUser = { 
-          ...user, 
-          board: profileData.board,
-          classLevel: profileData.classLevel,
-          stream: profileData.stream,
-          password: profileData.newPassword.trim() ? profileData.newPassword : user.password,
-          credits: isPremium ? user.credits : user.credits - cost
+      const credit = applyCreditChange(user, isPremium ? 0 : -cost, 'PROFILE_EDIT');
+      const change: UserUpdate = {
+          ...(isPremium ? {} : credit.change),
+          set: { board: profileData.board, classLevel: profileData.classLevel, stream: profileData.stream }
       };
       localStorage.setItem(`nst_goal_${user.id}`, profileData.dailyGoalHours.toString());
       setDailyTargetSeconds(profileData.dailyGoalHours * 3600);
-      handleUserUpdate(updatedUser);
+      await handleUserUpdate(applyUserUpdate(user, change), change);
       window.location.reload(); 
       setEditMode(false);
   };
   
-  const handleUserUpdate = (updatedUser: User) => {
+  // `change` is the field-level write; without one, only what differs from the current user is sent
+  // Child views no longer write the user themselves, so this is the one place their changes are saved
+  const handleUserUpdate = (updatedUser: User, change?: UserUpdate) => {
       const storedUsers = JSON.parse(localStorage.getItem('nst_users') || '[]');
       const userIdx = storedUsers.findIndex((u:User) => u.id === updatedUser.id);
       if (userIdx !== -1) {
           storedUsers[userIdx] = updatedUser;
           localStorage.setItem('nst_users', JSON.stringify(storedUsers));
-          localStorage.setItem('nst_current_user', JSON.stringify(updatedUser));
-          saveUserToLive(updatedUser); 
-          onRedeemSuccess(updatedUser); 
       }
+      localStorage.setItem('nst_current_user', JSON.stringify(updatedUser));
+      const saved = change ? updateUserFields(updatedUser.id, change) : saveUserChanges(user, updatedUser);
+      onRedeemSuccess(updatedUser); 
+      return saved;
   };
 
   const markInboxRead = () => {
@@ -651,6 +637,20 @@ export const StudentDashboard: React.FC<Props> = ({ user, dailyStudySeconds, onS
                       </div>
                   </div>
 
+                  {/* DAILY REVISION (Spaced repetition of missed questions) */}
+                  {(user.reviewQueue || []).length > 0 && (
+                      <div onClick={() => onTabChange('REVISION')} className="bg-gradient-to-r from-indigo-50 to-violet-50 p-4 rounded-2xl border border-indigo-100 shadow-sm flex items-center justify-between cursor-pointer hover:shadow-md transition-all">
+                          <div className="flex items-center gap-3">
+                              <div className="bg-indigo-100 p-2 rounded-full text-indigo-600"><Brain size={20} /></div>
+                              <div>
+                                  <h3 className="font-bold text-indigo-900 text-sm">Daily Revision</h3>
+                                  <p className="text-[10px] text-slate-500">{dueRevisionCount > 0 ? `${dueRevisionCount} question(s) due today` : 'All caught up for today'}</p>
+                              </div>
+                          </div>
+                          <span className={`text-xs font-bold px-3 py-1.5 rounded-full ${dueRevisionCount > 0 ? 'bg-indigo-600 text-white' : 'bg-white text-indigo-400 border border-indigo-100'}`}>{dueRevisionCount > 0 ? 'Start' : 'Done'}</span>
+                      </div>
+                  )}
+
                   {/* STATS HEADER (Compact) */}
                   <div className="bg-slate-900 rounded-xl p-3 text-white shadow-lg relative overflow-hidden">
                       <div className="flex items-center justify-between relative z-10">
@@ -716,6 +716,12 @@ export const StudentDashboard: React.FC<Props> = ({ user, dailyStudySeconds, onS
                                   <span className="text-[10px] font-bold text-slate-600">Game</span>
                               </button>
                           )}
+                          {onStartWeeklyTest && (
+                              <button onClick={() => onTabChange('WEEKLY_TEST')} className="aspect-square bg-white rounded-xl border border-slate-200 shadow-sm flex flex-col items-center justify-center gap-1 hover:bg-slate-50 transition-all group">
+                                  <div className="bg-red-50 p-2 rounded-full group-hover:bg-red-100 transition-colors"><Trophy size={20} className="text-red-500" /></div>
+                                  <span className="text-[10px] font-bold text-slate-600">Tests</span>
+                              </button>
+                          )}
                           <button onClick={() => onTabChange('REDEEM')} className="aspect-square bg-white rounded-xl border border-slate-200 shadow-sm flex flex-col items-center justify-center gap-1 hover:bg-slate-50 transition-all group">
                               <div className="bg-purple-50 p-2 rounded-full group-hover:bg-purple-100 transition-colors"><Gift size={20} className="text-purple-500" /></div>
                               <span className="text-[10px] font-bold text-slate-600">Redeem</span>
@@ -860,15 +866,17 @@ export const StudentDashboard: React.FC<Props> = ({ user, dailyStudySeconds, onS
       }
 
       // 4. LEGACY TABS (Mapped to new structure or kept as sub-views)
+      if (activeTab === 'REVISION') return <DailyRevision user={user} onUpdateUser={handleUserUpdate} onBack={() => onTabChange('HOME')} />;
       if (activeTab === 'UPDATES') return <UniversalInfoPage onBack={() => onTabChange('HOME')} />;
-      if (activeTab === 'ANALYTICS') return <AnalyticsPage user={user} onBack={() => onTabChange('HOME')} />;
+      if (activeTab === 'ANALYTICS') return <AnalyticsPage user={user} onBack={() => onTabChange('HOME')} settings={settings} dailyStudySeconds={dailyStudySeconds} />;
       if (activeTab === 'HISTORY') return <HistoryPage user={user} onUpdateUser={handleUserUpdate} settings={settings} />;
-      if (activeTab === 'LEADERBOARD') return <Leaderboard />;
+      if (activeTab === 'LEADERBOARD') return <Leaderboard user={user} />;
       if (activeTab === 'ANALYTICS') return <AnalyticsPage user={user} onBack={() => onTabChange('HOME')} settings={settings} />;
       if (activeTab === 'HISTORY') return <HistoryPage user={user} onUpdateUser={handleUserUpdate} settings={settings} />;
-      if (activeTab === 'LEADERBOARD') return <Leaderboard />;
+      if (activeTab === 'LEADERBOARD') return <Leaderboard user={user} />;
       if (activeTab === 'GAME') return isGameEnabled ? (user.isGameBanned ? <div className="text-center py-20 bg-red-50 rounded-2xl border border-red-100"><Ban size={48} className="mx-auto text-red-500 mb-4" /><h3 className="text-lg font-bold text-red-700">Access Denied</h3><p className="text-sm text-red-600">Admin has disabled the game for your account.</p></div> : <SpinWheel user={user} onUpdateUser={handleUserUpdate} settings={settings} />) : null;
       if (activeTab === 'REDEEM') return <div className="animate-in fade-in slide-in-from-bottom-2 duration-300"><RedeemSection user={user} onSuccess={onRedeemSuccess} /></div>;
+      if (activeTab === 'WEEKLY_TEST' && onStartWeeklyTest) return <WeeklyTestList user={user} onStart={onStartWeeklyTest} onViewResult={(id) => onViewWeeklyTestResult?.(id)} />;
       if (activeTab === 'PRIZES') return <div className="animate-in fade-in slide-in-from-bottom-2 duration-300"><PrizeList /></div>;
       if (activeTab === 'REWARDS') return (
           <div className="space-y-3 animate-in fade-in slide-in-from-bottom-2 duration-300">
@@ -992,15 +1000,41 @@ export const StudentDashboard: React.FC<Props> = ({ user, dailyStudySeconds, onS
                         </div>
                         
                         <div className="grid grid-cols-2 gap-3">
-                            <div className="bg-blue-50 rounded-xl p-4 border border-blue-200">
+                            <button onClick={() => setShowCoinHistory(true)} className="bg-blue-50 rounded-xl p-4 border border-blue-200 text-left">
                                 <p className="text-xs font-bold text-blue-600 uppercase">Credits</p>
                                 <p className="text-2xl font-black text-blue-600">{user.credits}</p>
-                            </div>
+                                <p className="text-[10px] font-bold text-blue-400 mt-1">View History →</p>
+                            </button>
                             <div className="bg-orange-50 rounded-xl p-4 border border-orange-200">
                                 <p className="text-xs font-bold text-orange-600 uppercase">Streak</p>
                                 <p className="text-2xl font-black text-orange-600">{user.streak} Days</p>
                             </div>
                         </div>
+
+                        {/* MY PURCHASES */}
+                        <div className="bg-white rounded-xl p-4 border border-slate-200">
+                            <p className="text-xs font-bold text-slate-500 uppercase mb-2 flex items-center gap-1"><ShoppingBag size={12} /> My Purchases</p>
+                            {listEntitlements(user).length === 0 ? (
+                                <p className="text-xs text-slate-400">No purchased content yet. Notes & videos you unlock with coins will appear here and open free next time.</p>
+                            ) : (
+                                <div className="space-y-2 max-h-64 overflow-y-auto">
+                                    {listEntitlements(user).map(ent => (
+                                        <div key={ent.id} className="flex items-center justify-between gap-2 p-2 bg-slate-50 rounded-lg border border-slate-100">
+                                            <div className="flex items-center gap-2 min-w-0">
+                                                {ent.type === 'VIDEO' ? <Video size={14} className="text-red-500 shrink-0" /> : <FileText size={14} className="text-blue-500 shrink-0" />}
+                                                <div className="min-w-0">
+                                                    <p className="text-xs font-bold text-slate-700 truncate">{ent.title}</p>
+                                                    <p className="text-[10px] text-slate-400">{new Date(ent.purchasedAt).toLocaleDateString()}</p>
+                                                </div>
+                                            </div>
+                                            <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full shrink-0 ${ent.source === 'ADMIN_GRANT' ? 'bg-purple-100 text-purple-700' : 'bg-green-100 text-green-700'}`}>
+                                                {ent.source === 'ADMIN_GRANT' ? 'GIFTED' : `${ent.price} CR`}
+                                            </span>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
                         
                         <button onClick={() => setEditMode(true)} className="w-full bg-slate-800 text-white py-3 rounded-xl font-bold hover:bg-slate-900">✏️ Edit Profile</button>
                         <button onClick={() => {localStorage.removeItem(`nst_user_${user.id}`); window.location.reload();}} className="w-full bg-red-500 text-white py-3 rounded-xl font-bold hover:bg-red-600">🚪 Logout</button>
@@ -1118,6 +1152,11 @@ export const StudentDashboard: React.FC<Props> = ({ user, dailyStudySeconds, onS
             </div>
         )}
 
+        {/* COIN HISTORY MODAL */}
+        {showCoinHistory && (
+            <CoinHistory userId={user.id} balance={user.credits} onClose={() => setShowCoinHistory(false)} />
+        )}
+
         {/* NAME CHANGE MODAL */}
         {showNameChangeModal && (
             <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-in fade-in">
@@ -1138,8 +1177,9 @@ export const StudentDashboard: React.FC<Props> = ({ user, dailyStudySeconds, onS
                                 const cost = settings?.nameChangeCost || 10;
                                 if (newNameInput && newNameInput !== user.name) {
                                     if (user.credits < cost) { showAlert(`Insufficient Coins! Need ${cost}.`, 'ERROR'); return; }
-                                    const u = { ...user, name: newNameInput, credits: user.credits - cost };
-                                    handleUserUpdate(u);
+                                    const credit = applyCreditChange(user, -cost, 'PROFILE_EDIT', { note: 'Name Change' });
+                                    const change: UserUpdate = { ...credit.change, set: { name: newNameInput } };
+                                    handleUserUpdate(applyUserUpdate(user, change), change);
                                     setShowNameChangeModal(false);
                                     showAlert("Name Updated Successfully!", 'SUCCESS');
                                 }
@@ -1261,7 +1301,20 @@ export const StudentDashboard: React.FC<Props> = ({ user, dailyStudySeconds, onS
                     <div className="space-y-3 mb-6">
                         <div><label className="text-xs font-bold text-slate-500 uppercase">Daily Study Goal (Hours)</label><input type="number" value={profileData.dailyGoalHours} onChange={e => setProfileData({...profileData, dailyGoalHours: Number(e.target.value)})} className="w-full p-2 border rounded-lg" min={1} max={12}/></div>
                         <div className="h-px bg-slate-100 my-2"></div>
-                        <div><label className="text-xs font-bold text-slate-500 uppercase">New Password</label><input type="text" placeholder="Set new password (optional)" value={profileData.newPassword} onChange={e => setProfileData({...profileData, newPassword: e.target.value})} className="w-full p-2 border rounded-lg bg-yellow-50 border-yellow-200"/><p className="text-[9px] text-slate-400 mt-1">Leave blank to keep current password.</p></div>
+                        <div>
+                            <label className="text-xs font-bold text-slate-500 uppercase">Password</label>
+                            <button 
+                                onClick={async () => {
+                                    const ok = user.email ? await sendPasswordReset(user.email) : false;
+                                    if (ok) showAlert(`Password reset link sent to ${user.email}`, 'SUCCESS');
+                                    else showAlert('Could not send reset link. Please contact Admin.', 'ERROR');
+                                }} 
+                                className="w-full p-2 border rounded-lg bg-yellow-50 border-yellow-200 text-xs font-bold text-yellow-800"
+                            >
+                                Send Password Reset Link
+                            </button>
+                            <p className="text-[9px] text-slate-400 mt-1">We'll email you a secure link to set a new password.</p>
+                        </div>
                         <div className="h-px bg-slate-100 my-2"></div>
                         <div><label className="text-xs font-bold text-slate-500 uppercase">Board</label><select value={profileData.board} onChange={e => setProfileData({...profileData, board: e.target.value as any})} className="w-full p-2 border rounded-lg"><option value="CBSE">CBSE</option><option value="BSEB">BSEB</option></select></div>
                         <div><label className="text-xs font-bold text-slate-500 uppercase">Class</label><select value={profileData.classLevel} onChange={e => setProfileData({...profileData, classLevel: e.target.value as any})} className="w-full p-2 border rounded-lg">{['6','7','8','9','10','11','12'].map(c => <option key={c} value={c}>{c}</option>)}</select></div>
@@ -1303,7 +1356,7 @@ export const StudentDashboard: React.FC<Props> = ({ user, dailyStudySeconds, onS
                     </div>
                     <div className="max-h-80 overflow-y-auto p-4 space-y-3">
                         {(!user.inbox || user.inbox.length === 0) && <p className="text-slate-400 text-sm text-center py-8">No messages.</p>}
-                        {user.inbox?.map(msg => (
+                        {[...(user.inbox || [])].sort((a, b) => (b.date || '').localeCompare(a.date || '')).map(msg => (
                             <div key={msg.id} className={`p-3 rounded-xl border text-sm ${msg.read ? 'bg-white border-slate-100' : 'bg-blue-50 border-blue-100'} transition-all`}>
                                 <div className="flex justify-between items-start mb-2">
                                     <div className="flex items-center gap-2">
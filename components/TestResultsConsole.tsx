@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from 'react';
+import { PrizeEntry, PrizeRule, PublicWeeklyTest, PublicBankQuestion, TestSubmission, WeeklyTestResult } from '../types';
+import { getTestResults, getBankQuestions, getTestSubmissions, getQuestionBank, subscribeToPrizes, awardPrizes } from '../storage';
+import { getQuestionStats, testResultsToCsv, formatTestDuration, sortByRank } from '../utils/testResults';
+import { getConsolePrizeEntries } from '../utils/prizeRules';
+import { getIntegrityTone } from '../utils/proctoring';
+import { getSubmissionProblem } from '../utils/testScoring';
+import { downloadCsv, safeFileName } from '../utils/csv';
+import { X, Download, Gift, Trophy, BarChart2 } from 'lucide-react';
+
+interface Props {
+    test: PublicWeeklyTest;
+    onClose: () => void;
+}
+
+// Admin view of one test's official results (written by the evaluator)
+export const TestResultsConsole: React.FC<Props> = ({ test, onClose }) => {
+    const [results, setResults] = useState<WeeklyTestResult[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [view, setView] = useState<'RANKS' | 'QUESTIONS'>('RANKS');
+    const [bankQuestions, setBankQuestions] = useState<Record<string, PublicBankQuestion>>({});
+    const [prizeTopN, setPrizeTopN] = useState(3);
+    const [prizeReward, setPrizeReward] = useState<PrizeRule['reward']>({ tier: 'WEEKLY', level: 'ULTRA', durationHours: 168 });
+    const [sendingPrizes, setSendingPrizes] = useState(false);
+    const [prizes, setPrizes] = useState<PrizeEntry[]>([]);
+    const [rejected, setRejected] = useState<{ submission: TestSubmission; problem: string }[]>([]);
+
+    useEffect(() => {
+        setLoading(true);
+        getTestResults(test.id).then(async (list) => {
+            setResults(sortByRank(list));
+            // Pool tests: question text lives in the bank
+            const ids = Array.from(new Set(list.flatMap(r => r.questionIds || [])));
+            if (ids.length) setBankQuestions(await getBankQuestions(ids));
+            setLoading(false);
+        });
+        // Submissions the evaluator leaves out, with the reason
+        Promise.all([getTestSubmissions(test.id), test.poolRules?.length ? getQuestionBank() : Promise.resolve([])]).then(([submissions, bank]) => {
+            setRejected(submissions.flatMap(submission => {
+                const problem = getSubmissionProblem(test, submission, bank);
+                return problem ? [{ submission, problem }] : [];
+            }));
+        });
+    }, [test.id]);
+
+    useEffect(() => subscribeToPrizes(setPrizes), []);
+
+    const stats = getQuestionStats(results);
+    const getQuestion = (s: { qIndex: number; questionId?: string }) =>
+        s.questionId ? bankQuestions[s.questionId] : test.questions[s.qIndex];
+
+    const handleExport = () => {
+        downloadCsv(testResultsToCsv(test, results), `${safeFileName(test.name)}_results.csv`);
+    };
+
+    const handleSendPrizes = async () => {
+        const winners = results.filter(r => r.rank <= prizeTopN);
+        if (winners.length === 0) return;
+        if (!window.confirm(`Send a ${prizeReward.tier} ${prizeReward.level} (${prizeReward.durationHours}h) prize to ${winners.length} student(s) ranked 1-${prizeTopN}?`)) return;
+        setSendingPrizes(true);
+        const sent = await awardPrizes(getConsolePrizeEntries(test, results, prizeTopN, prizeReward, prizes));
+        setSendingPrizes(false);
+        const skipped = winners.length - sent;
+        alert(`✅ Prizes sent to ${sent} student(s).${skipped ? ` ${skipped} skipped (already given a prize for this test, or user not found).` : ''}`);
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-in fade-in">
+            <div className="bg-white rounded-2xl w-full max-w-4xl shadow-xl max-h-[90vh] flex flex-col overflow-hidden">
+                <div className="p-4 border-b border-slate-100 flex justify-between items-center gap-3">
+                    <div>
+                        <h3 className="font-black text-slate-800">{test.name} • Results</h3>
+                        <p className="text-xs text-slate-500">{results.length} ranked{rejected.length ? ` • ${rejected.length} not marked` : ''}{test.resultsPublishedAt ? ` • published ${new Date(test.resultsPublishedAt).toLocaleString()}` : ' • not published yet'}</p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <button onClick={handleExport} disabled={results.length === 0} className="text-xs font-bold bg-green-600 text-white px-3 py-1.5 rounded-lg hover:bg-green-700 flex items-center gap-1 disabled:opacity-40"><Download size={14} /> CSV</button>
+                        <button onClick={onClose} className="p-1.5 bg-slate-100 rounded-full text-slate-500"><X size={16} /></button>
+                    </div>
+                </div>
+
+                <div className="flex gap-2 px-4 pt-3">
+                    <button onClick={() => setView('RANKS')} className={`px-3 py-1.5 rounded-lg text-xs font-bold flex items-center gap-1 ${view === 'RANKS' ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-600'}`}><Trophy size={14} /> Rank List</button>
+                    <button onClick={() => setView('QUESTIONS')} className={`px-3 py-1.5 rounded-lg text-xs font-bold flex items-center gap-1 ${view === 'QUESTIONS' ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-600'}`}><BarChart2 size={14} /> Question Stats</button>
+                </div>
+
+                <div className="flex-1 overflow-auto p-4">
+                    {loading && <p className="text-sm text-slate-400 text-center py-8">Loading results...</p>}
+                    {!loading && results.length === 0 && <p className="text-sm text-slate-400 text-center py-8">No results yet. Publish results after the test closes.</p>}
+
+                    {/* RANK LIST */}
+                    {!loading && results.length > 0 && view === 'RANKS' && (
+                        <table className="w-full text-xs">
+                            <thead>
+                                <tr className="text-[10px] text-slate-400 uppercase border-b border-slate-100">
+                                    <th className="text-left py-2">Rank</th>
+                                    <th className="text-left py-2">Student</th>
+                                    <th className="py-2">Marks</th>
+                                    <th className="py-2">%</th>
+                                    <th className="py-2">C / W / S</th>
+                                    <th className="py-2">Time</th>
+                                    <th className="py-2">Submitted</th>
+                                    <th className="py-2">Integrity</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-100">
+                                {results.map(r => (
+                                    <tr key={r.userId} className="text-center text-slate-700">
+                                        <td className="text-left py-2 font-black">#{r.rank}</td>
+                                        <td className="text-left py-2"><p className="font-bold">{r.userName}</p><p className="text-[10px] text-slate-400">{r.userId}</p></td>
+                                        <td className="py-2 font-bold">{r.score} <span className="text-slate-400 font-medium">/ {r.maxScore}</span></td>
+                                        <td className="py-2">{r.percentage}%</td>
+                                        <td className="py-2"><span className="text-green-600">{r.correctCount}</span> / <span className="text-red-600">{r.wrongCount}</span> / {r.skippedCount}</td>
+                                        <td className="py-2 font-mono">{formatTestDuration(r.timeTakenSeconds)}</td>
+                                        <td className="py-2 text-[10px]">{new Date(r.submittedAt).toLocaleString()}</td>
+                                        <td className="py-2">{r.integrityScore !== undefined && <span className={`px-2 py-0.5 rounded font-black ${getIntegrityTone(r.integrityScore)}`}>{r.integrityScore}</span>}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+
+                    {/* NOT MARKED */}
+                    {!loading && rejected.length > 0 && view === 'RANKS' && (
+                        <div className="mt-4 p-3 border border-red-200 bg-red-50 rounded-xl">
+                            <p className="text-[10px] font-black text-red-700 uppercase mb-2">Not marked ({rejected.length})</p>
+                            {rejected.map(({ submission: s, problem }) => (
+                                <div key={s.userId} className="flex justify-between gap-3 py-1 text-xs">
+                                    <div><p className="font-bold text-slate-700">{s.userName}</p><p className="text-[10px] text-slate-400">{s.userId} • {new Date(s.submittedAt).toLocaleString()}</p></div>
+                                    <span className="text-red-700 font-bold text-right">{problem}</span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {/* QUESTION STATS (hardest first) */}
+                    {!loading && results.length > 0 && view === 'QUESTIONS' && (
+                        <div className="space-y-2">
+                            {[...stats].sort((a, b) => a.correctPct - b.correctPct).map(s => {
+                                const q = getQuestion(s);
+                                return (
+                                    <div key={s.key} className="p-3 border border-slate-200 rounded-xl">
+                                        <div className="flex justify-between gap-3">
+                                            <p className="text-sm font-bold text-slate-800">{s.questionId ? '' : `Q${s.qIndex + 1}. `}{q?.question || '(question removed)'}</p>
+                                            <span className={`shrink-0 text-sm font-black ${s.correctPct >= 60 ? 'text-green-600' : s.correctPct >= 30 ? 'text-amber-600' : 'text-red-600'}`}>{s.correctPct}%</span>
+                                        </div>
+                                        <div className="h-1.5 bg-slate-100 rounded-full mt-2 overflow-hidden"><div className="h-full bg-green-500" style={{ width: `${s.correctPct}%` }}></div></div>
+                                        <p className="text-[10px] text-slate-500 mt-1">
+                                            {s.attempts} served • {s.skippedPct}% skipped
+                                            {s.mostChosenWrong && ` • Most chosen wrong: ${String.fromCharCode(65 + s.mostChosenWrong.option)}${q?.options?.[s.mostChosenWrong.option] ? ` (${q.options[s.mostChosenWrong.option]})` : ''} × ${s.mostChosenWrong.count}`}
+                                        </p>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+                </div>
+
+                {/* PRIZES */}
+                {results.length > 0 && (
+                    <div className="p-4 border-t border-slate-100 bg-slate-50 flex flex-wrap items-end gap-2">
+                        <div>
+                            <label className="text-[10px] font-bold text-slate-500 uppercase block mb-1">Top N</label>
+                            <input type="number" min="1" value={prizeTopN} onChange={e => setPrizeTopN(Number(e.target.value))} className="w-16 p-2 border border-slate-200 rounded-lg text-sm font-bold" />
+                        </div>
+                        <div>
+                            <label className="text-[10px] font-bold text-slate-500 uppercase block mb-1">Plan</label>
+                            <select value={prizeReward.tier} onChange={e => setPrizeReward({ ...prizeReward, tier: e.target.value as PrizeRule['reward']['tier'] })} className="p-2 border border-slate-200 rounded-lg text-sm font-bold">
+                                {['WEEKLY', 'MONTHLY', 'YEARLY', 'LIFETIME'].map(t => <option key={t} value={t}>{t}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="text-[10px] font-bold text-slate-500 uppercase block mb-1">Level</label>
+                            <select value={prizeReward.level} onChange={e => setPrizeReward({ ...prizeReward, level: e.target.value as PrizeRule['reward']['level'] })} className="p-2 border border-slate-200 rounded-lg text-sm font-bold">
+                                <option value="BASIC">BASIC</option>
+                                <option value="ULTRA">ULTRA</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label className="text-[10px] font-bold text-slate-500 uppercase block mb-1">Hours</label>
+                            <input type="number" min="1" value={prizeReward.durationHours} onChange={e => setPrizeReward({ ...prizeReward, durationHours: Number(e.target.value) })} className="w-20 p-2 border border-slate-200 rounded-lg text-sm font-bold" />
+                        </div>
+                        <button onClick={handleSendPrizes} disabled={sendingPrizes} className="ml-auto bg-purple-600 text-white text-xs font-bold px-4 py-2.5 rounded-lg hover:bg-purple-700 flex items-center gap-1 disabled:opacity-50">
+                            <Gift size={14} /> {sendingPrizes ? 'Sending...' : 'Send Prize to Inbox'}
+                        </button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,44 @@
+import React from 'react';
+import { WeeklyTestSection } from '../types';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface Props {
+    value: WeeklyTestSection[];
+    onChange: (sections: WeeklyTestSection[]) => void;
+    totalQuestions: number;
+}
+
+// Admin builder for named question ranges with optional section timers
+export const TestSectionsEditor: React.FC<Props> = ({ value, onChange, totalQuestions }) => {
+    const update = (idx: number, patch: Partial<WeeklyTestSection>) => {
+        onChange(value.map((s, i) => i === idx ? { ...s, ...patch } : s));
+    };
+
+    const addSection = () => {
+        const from = value.length ? Math.min(totalQuestions, value[value.length - 1].toQuestion + 1) : 1;
+        onChange([...value, { id: `sec-${Date.now()}`, name: `Section ${value.length + 1}`, fromQuestion: from, toQuestion: Math.max(from, totalQuestions) }]);
+    };
+
+    return (
+        <div className="bg-white p-4 rounded-xl border border-slate-200 space-y-3">
+            <p className="text-xs font-bold text-slate-700 uppercase">Sections <span className="text-slate-400 normal-case font-medium">({value.length ? `${value.length} section${value.length > 1 ? 's' : ''}` : 'single section'})</span></p>
+            {value.length > 0 && (
+                <div className="grid grid-cols-[1fr_50px_50px_70px_auto] gap-1 text-[9px] font-bold text-slate-400 uppercase">
+                    <span>Name</span><span>From Q</span><span>To Q</span><span>Time (mins)</span><span></span>
+                </div>
+            )}
+            {value.map((sec, idx) => (
+                <div key={sec.id} className="grid grid-cols-[1fr_50px_50px_70px_auto] gap-1 items-center">
+                    <input type="text" value={sec.name} onChange={e => update(idx, { name: e.target.value })} className="p-1.5 border border-slate-200 rounded text-xs font-bold" />
+                    <input type="number" value={sec.fromQuestion} onChange={e => update(idx, { fromQuestion: Number(e.target.value) })} className="p-1.5 border border-slate-200 rounded text-xs" />
+                    <input type="number" value={sec.toQuestion} onChange={e => update(idx, { toQuestion: Number(e.target.value) })} className="p-1.5 border border-slate-200 rounded text-xs" />
+                    <input type="number" min="0" placeholder="None" value={sec.timeLimitMinutes ?? ''} onChange={e => update(idx, { timeLimitMinutes: e.target.value ? Number(e.target.value) : undefined })} className="p-1.5 border border-slate-200 rounded text-xs" />
+                    <button onClick={() => onChange(value.filter((_, i) => i !== idx))} className="text-red-400 hover:text-red-600 p-1"><Trash2 size={14} /></button>
+                </div>
+            ))}
+            <button onClick={addSection} disabled={totalQuestions === 0} className="text-xs font-bold text-blue-600 flex items-center gap-1 hover:underline disabled:opacity-40">
+                <Plus size={12} /> Add Section (blank time = shares the test timer)
+            </button>
+        </div>
+    );
+};
@@ -2,8 +2,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { User } from '../types';
 import { Send, MessageSquare, Shield, Users, X, Lock } from 'lucide-react';
-import { ref, push, onValue, query, limitToLast } from 'firebase/database';
-import { rtdb } from '../firebase';
+import { subscribeToChat, sendChatMessage } from '../storage';
 
 interface Props {
     user: User;
@@ -22,31 +21,19 @@ export const UniversalChat: React.FC<Props> = ({ user, onClose, isAdmin, targetU
 
     // If Admin is chatting with specific user, lock to Support
     // If roomId is provided, use it directly (bypass tabs)
-    const chatPath = roomId 
-        ? `chat/rooms/${roomId}`
+    const chatChannel = roomId 
+        ? `rooms/${roomId}`
         : activeTab === 'GLOBAL' 
-            ? 'chat/universal' 
-            : `chat/dm/${isAdmin ? targetUser?.id : user.id}`;
+            ? 'universal' 
+            : `dm/${isAdmin ? targetUser?.id : user.id}`;
 
     useEffect(() => {
         if (activeTab === 'SUPPORT' && isAdmin && !targetUser && !roomId) return;
 
-        const q = query(ref(rtdb, chatPath), limitToLast(50));
-        const unsubscribe = onValue(q, (snapshot) => {
-            const data = snapshot.val();
-            if (data) {
-                const list = Object.entries(data).map(([k, v]: any) => ({
-                    id: k,
-                    ...v
-                }));
-                setMessages(list);
-            } else {
-                setMessages([]);
-            }
-        });
+        const unsubscribe = subscribeToChat(chatChannel, 50, setMessages);
 
         return () => unsubscribe();
-    }, [chatPath, activeTab, isAdmin, targetUser]);
+    }, [chatChannel, activeTab, isAdmin, targetUser]);
 
     useEffect(() => {
         dummyRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -64,7 +51,7 @@ export const UniversalChat: React.FC<Props> = ({ user, onClose, isAdmin, targetU
                 timestamp: new Date().toISOString()
             };
 
-            await push(ref(rtdb, chatPath), msg);
+            await sendChatMessage(chatChannel, msg);
             setInput('');
         } catch (e: any) {
             console.error("Chat Error:", e);
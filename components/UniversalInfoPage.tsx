@@ -1,7 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { ArrowLeft, Bell } from 'lucide-react';
-import { ref, query, limitToLast, onValue } from 'firebase/database';
-import { rtdb } from '../firebase';
+import { subscribeToUniversalUpdates } from '../storage';
 
 interface Props {
     onBack: () => void;
@@ -14,18 +13,8 @@ export const UniversalInfoPage: React.FC<Props> = ({ onBack }) => {
         // Mark as read
         localStorage.setItem('nst_last_read_update', Date.now().toString());
 
-        const q = query(ref(rtdb, 'universal_updates'), limitToLast(50));
-        const unsubscribe = onValue(q, (snapshot) => {
-            const data = snapshot.val();
-            if (data) {
-                const list = Object.entries(data).map(([k, v]: any) => ({
-                    id: k,
-                    ...v
-                })).reverse(); // Newest first
-                setUpdates(list);
-            } else {
-                setUpdates([]);
-            }
+        const unsubscribe = subscribeToUniversalUpdates(50, (list) => {
+            setUpdates([...list].reverse()); // Newest first
         });
         return () => unsubscribe();
     }, []);
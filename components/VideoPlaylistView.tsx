@@ -1,8 +1,12 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Chapter, User, Subject, SystemSettings } from '../types';
+import { Chapter, User, Subject, SystemSettings, AccessContentDescriptor, AccessLevel, UserUpdate } from '../types';
 import { PlayCircle, Lock, ArrowLeft, Crown, AlertCircle, CheckCircle, Wifi, Youtube, Maximize } from 'lucide-react';
-import { getChapterData, saveUserToLive } from '../firebase';
+import { getChapterData } from '../storage';
+import { applyCreditChange } from '../utils/creditLedger';
+import { getContentKey, getContentSlot, createEntitlement } from '../utils/entitlements';
+import { applyUserUpdate } from '../utils/userUpdates';
+import { evaluateAccess } from '../utils/accessPolicy';
 import { CreditConfirmationModal } from './CreditConfirmationModal';
 import { CustomAlert } from './CustomDialogs';
 import { AiInterstitial } from './AiInterstitial';
@@ -16,7 +20,7 @@ interface Props {
   classLevel: string;
   stream: string | null;
   onBack: () => void;
-  onUpdateUser: (user: User) => void;
+  onUpdateUser: (user: User, change?: UserUpdate) => void;
   settings?: SystemSettings;
   customPlaylist?: any[]; // For Universal Playlist
   initialSyllabusMode?: 'SCHOOL' | 'COMPETITION';
@@ -41,6 +45,9 @@ export const VideoPlaylistView: React.FC<Props> = ({
   // Chapter Content (for AI Image)
   const [contentData, setContentData] = useState<any>(null);
 
+  // Purchases are keyed per chapter + syllabus mode + video index
+  const contentKey = getContentKey(board, classLevel, stream, subject.name, chapter.id);
+
   useEffect(() => {
     // If Custom Playlist is provided (Universal), use it
     if (customPlaylist) {
@@ -52,14 +59,8 @@ export const VideoPlaylistView: React.FC<Props> = ({
     const fetchVideos = async () => {
       setLoading(true);
       
-      let key = '';
-      if (chapter.id === 'UNIVERSAL') {
-          key = 'nst_universal_playlist';
-      } else {
-          // STRICT KEY MATCHING WITH ADMIN
-          const streamKey = (classLevel === '11' || classLevel === '12') && stream ? `-${stream}` : '';
-          key = `nst_content_${board}_${classLevel}${streamKey}_${subject.name}_${chapter.id}`;
-      }
+      // STRICT KEY MATCHING WITH ADMIN (Universal uses nst_universal_playlist)
+      const key = contentKey;
       
       let data = await getChapterData(key);
       if (!data) {
@@ -95,68 +96,49 @@ export const VideoPlaylistView: React.FC<Props> = ({
     fetchVideos();
   }, [chapter.id, board, classLevel, stream, subject.name, customPlaylist]);
 
+  const getVideoDescriptor = (index: number): AccessContentDescriptor => {
+      const video = playlist[index];
+      return { kind: 'VIDEO', access: video.access as AccessLevel | undefined, price: video.price, syllabusMode, contentKey, itemId: index };
+  };
+
   const handleVideoClick = (index: number) => {
       const video = playlist[index];
       if (!video.url) return;
 
-      const price = video.price !== undefined ? video.price : (settings?.defaultVideoCost ?? 5); 
-      
-      // 1. Check if Admin
-      if (user.role === 'ADMIN') {
-          triggerVideoPlay(video);
-          return;
-      }
-
-      // 2. Check Access (Granular & Subscription)
-      let hasAccess = false;
-      
-      // Check Subscription Validity
-      const isSubscribed = user.isPremium && user.subscriptionEndDate && new Date(user.subscriptionEndDate) > new Date();
-
-      if (video.access === 'FREE') {
-          hasAccess = true;
-      } else if (video.access === 'BASIC') {
-          if (isSubscribed && (user.subscriptionLevel === 'BASIC' || user.subscriptionLevel === 'ULTRA')) {
-              hasAccess = true;
-          }
-      } else { 
-           // ULTRA (Default if undefined or explicit)
-           if (isSubscribed && user.subscriptionLevel === 'ULTRA') {
-               hasAccess = true;
-           }
-      }
-
-      // Fallback: If price is 0, it's free (Legacy)
-      if (price === 0) hasAccess = true;
+      // Access Policy: Admin / Purchased / Free / Subscription / Pay
+      const decision = evaluateAccess(user, getVideoDescriptor(index), settings);
 
-      if (hasAccess) {
+      if (decision.result === 'ALLOW') {
           triggerVideoPlay(video);
           return;
       }
 
-      // 4. Pay & Play (Check Auto-Pay)
-      if (user.credits < price) {
-          setAlertConfig({isOpen: true, message: `Insufficient Credits! You need ${price} coins to watch this video.`});
+      // Pay & Play (Check Auto-Pay)
+      if (!decision.canAfford) {
+          setAlertConfig({isOpen: true, message: decision.message});
           return;
       }
 
       if (user.isAutoDeductEnabled) {
-          processPaymentAndPlay(video, price);
+          processPaymentAndPlay(video, index, decision.cost);
       } else {
-          setPendingVideo({ index, price });
+          setPendingVideo({ index, price: decision.cost });
       }
   };
 
-  const processPaymentAndPlay = (video: any, price: number, enableAuto: boolean = false) => {
-      let updatedUser = { ...user, credits: user.credits - price };
-      
-      if (enableAuto) {
-          updatedUser.isAutoDeductEnabled = true;
-      }
+  const processPaymentAndPlay = (video: any, index: number, price: number, enableAuto: boolean = false) => {
+      // Record the purchase so re-watching is free
+      const entitlement = createEntitlement(contentKey, getContentSlot(getVideoDescriptor(index))!, 'VIDEO', `${chapter.title} - ${video.title || `Video Lecture ${index + 1}`}`, price);
+      const credit = applyCreditChange(user, -price, 'CONTENT_PURCHASE', { refId: entitlement.id, note: entitlement.title });
+      const change: UserUpdate = {
+          ...credit.change,
+          merge: { entitlements: { [entitlement.id]: entitlement } },
+          ...(enableAuto ? { set: { isAutoDeductEnabled: true } } : {})
+      };
+      const updatedUser = applyUserUpdate(user, change);
 
       localStorage.setItem('nst_current_user', JSON.stringify(updatedUser));
-      saveUserToLive(updatedUser); // Cloud Sync
-      onUpdateUser(updatedUser); // Update Parent State
+      onUpdateUser(updatedUser, change); // Update Parent State
       
       triggerVideoPlay(video);
       setPendingVideo(null);
@@ -262,33 +244,10 @@ export const VideoPlaylistView: React.FC<Props> = ({
            ) : (
                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                    {playlist.map((vid, idx) => {
-                       // Price Logic
-                       const price = vid.price !== undefined ? vid.price : (settings?.defaultVideoCost ?? 5);
-                       // const isFree = price === 0 || user.role === 'ADMIN' || (user.isPremium && user.subscriptionLevel === 'ULTRA');
-                       
-                       // NEW: Granular Access Logic
-                       let isFree = user.role === 'ADMIN';
-
-                       // 1. Check Explicit Access Level
-                       if (!isFree) {
-                           if (vid.access === 'FREE') {
-                               isFree = true;
-                           } else if (vid.access === 'BASIC') {
-                               // Free if user is any premium (Basic or Ultra)
-                               if (user.isPremium && (user.subscriptionLevel === 'BASIC' || user.subscriptionLevel === 'ULTRA')) {
-                                   isFree = true;
-                               }
-                           } else {
-                               // ULTRA (Default)
-                               if (user.isPremium && user.subscriptionLevel === 'ULTRA') {
-                                   isFree = true;
-                               }
-                           }
-                       }
-                       
-                       // 2. Fallback to Price 0 (Legacy)
-                       if (!isFree && price === 0) isFree = true;
-
+                       // Access Policy (same rules as handleVideoClick)
+                       const decision = evaluateAccess(user, getVideoDescriptor(idx), settings);
+                       const isFree = decision.result === 'ALLOW';
+                       const price = decision.cost;
 
                        const isActive = activeVideo?.url === vid.url;
 
@@ -337,10 +296,10 @@ export const VideoPlaylistView: React.FC<Props> = ({
                                                Play ({price} CR)
                                            </button>
                                            <button 
-                                               onClick={() => setAlertConfig({isOpen: true, message: "Go to Store to buy Ultra Subscription!"})}
+                                               onClick={() => setAlertConfig({isOpen: true, message: `Go to Store to buy ${decision.requiredLevel} Subscription!`})}
                                                className="flex-1 py-2 bg-slate-900 hover:bg-slate-800 text-white font-bold rounded-lg text-[10px] flex items-center justify-center gap-1"
                                            >
-                                               <span>👑</span> Unlock Ultra
+                                               <span>👑</span> Unlock {decision.requiredLevel === 'BASIC' ? 'Basic' : 'Ultra'}
                                            </button>
                                        </div>
                                    )}
@@ -362,7 +321,7 @@ export const VideoPlaylistView: React.FC<Props> = ({
                onCancel={() => setPendingVideo(null)}
                onConfirm={(auto) => {
                    const video = playlist[pendingVideo.index];
-                   processPaymentAndPlay(video, pendingVideo.price, auto);
+                   processPaymentAndPlay(video, pendingVideo.index, pendingVideo.price, auto);
                }}
            />
        )}
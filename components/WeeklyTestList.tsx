@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from 'react';
+import { PublicWeeklyTest, User, WeeklyTestKey, WeeklyTestResult } from '../types';
+import { subscribeToWeeklyTests, subscribeToTestResult, getPublishedTestKey } from '../storage';
+import { canStartTest, formatCountdown, getNextTestEvent, getTestPhase, WeeklyTestPhase, WEEKLY_TEST_PHASE_LABELS } from '../utils/testSchedule';
+import { describeMarkingScheme } from '../utils/marking';
+import { Trophy, Clock, CheckCircle, Hourglass, FileText, Key, X } from 'lucide-react';
+
+interface Props {
+    user: User;
+    onStart: (test: PublicWeeklyTest) => void;
+    onViewResult: (testId: string) => void;
+}
+
+const PHASE_STYLES: Record<WeeklyTestPhase, string> = {
+    UPCOMING: 'bg-blue-100 text-blue-700',
+    LIVE: 'bg-green-100 text-green-700 animate-pulse',
+    ENTRY_CLOSED: 'bg-amber-100 text-amber-700',
+    CLOSED: 'bg-slate-100 text-slate-500'
+};
+
+export const WeeklyTestList: React.FC<Props> = ({ user, onStart, onViewResult }) => {
+    const [tests, setTests] = useState<PublicWeeklyTest[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [results, setResults] = useState<Record<string, WeeklyTestResult | null>>({});
+    const [now, setNow] = useState(Date.now());
+    const [answerKey, setAnswerKey] = useState<{ test: PublicWeeklyTest; key: WeeklyTestKey } | null>(null);
+    const submitted: Record<string, any> = JSON.parse(localStorage.getItem(`nst_test_attempts_${user.id}`) || '{}');
+
+    useEffect(() => {
+        const unsub = subscribeToWeeklyTests((data) => {
+            // Scheduled tests stay listed after closing so the result/key can be opened
+            setTests(data
+                .filter(t => (t.isActive || t.closesAt) && (!user.classLevel || t.classLevel === user.classLevel))
+                .sort((a, b) => new Date(b.opensAt || b.createdAt).getTime() - new Date(a.opensAt || a.createdAt).getTime()));
+            setLoading(false);
+        });
+        return () => unsub();
+    }, [user.classLevel]);
+
+    // Drives the countdowns and phase changes
+    useEffect(() => {
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, []);
+
+    // Live status of every test this student has submitted
+    useEffect(() => {
+        const unsubs = tests.filter(t => submitted[t.id]).map(t =>
+            subscribeToTestResult(t.id, user.id, (result) => setResults(prev => ({ ...prev, [t.id]: result })))
+        );
+        return () => unsubs.forEach(u => u());
+    }, [tests, user.id]);
+
+    const openAnswerKey = async (test: PublicWeeklyTest) => {
+        const key = await getPublishedTestKey(test.id);
+        if (key) setAnswerKey({ test, key });
+    };
+
+    return (
+        <div className="space-y-4 animate-in fade-in slide-in-from-bottom-2 duration-300">
+            <div className="bg-gradient-to-r from-orange-500 to-red-600 p-5 rounded-2xl text-white shadow-lg">
+                <h2 className="text-xl font-black flex items-center gap-2"><Trophy size={22} /> Weekly Tests</h2>
+                <p className="text-xs text-orange-100 mt-1">Results, ranks and the answer key are published after the test closes.</p>
+            </div>
+
+            {loading && <p className="text-xs text-slate-400 text-center py-6">Loading...</p>}
+            {!loading && tests.length === 0 && (
+                <div className="text-center py-12 bg-white rounded-2xl border border-dashed border-slate-200">
+                    <FileText size={32} className="mx-auto text-slate-300 mb-2" />
+                    <p className="text-sm text-slate-400 font-medium">No weekly tests for your class right now.</p>
+                </div>
+            )}
+
+            {tests.map(t => {
+                const phase = getTestPhase(t, now);
+                const isSubmitted = !!submitted[t.id];
+                // After submitting, the only thing left to wait for is the results
+                const countdown = isSubmitted
+                    ? (t.closesAt && phase !== 'CLOSED' ? { label: 'Results in', at: new Date(t.closesAt).getTime() } : null)
+                    : getNextTestEvent(t, now);
+                const result = results[t.id];
+                return (
+                    <div key={t.id} className="bg-white p-4 rounded-2xl border border-slate-200 shadow-sm">
+                        <div className="flex justify-between items-start gap-3">
+                            <div className="min-w-0">
+                                <h3 className="font-bold text-slate-800">{t.name}</h3>
+                                {t.description && <p className="text-xs text-slate-500 mt-0.5">{t.description}</p>}
+                                <p className="text-[10px] text-slate-400 font-bold mt-2 flex items-center gap-1">
+                                    <Clock size={12} /> {t.durationMinutes || 120} min • {t.questions?.length || t.totalQuestions} Questions{t.sections?.length ? ` • ${t.sections.map(s => s.name).join(' / ')}` : ''}{t.markingScheme && ` • Marking ${describeMarkingScheme(t.markingScheme)}`}
+                                </p>
+                                {(t.opensAt || t.closesAt) && (
+                                    <p className="text-[10px] text-slate-400 mt-0.5">
+                                        {t.opensAt && `Opens ${new Date(t.opensAt).toLocaleString()}`}
+                                        {t.opensAt && t.closesAt && ' • '}
+                                        {t.closesAt && `Closes ${new Date(t.closesAt).toLocaleString()}`}
+                                    </p>
+                                )}
+                                {t.fixedStartAt && <p className="text-[10px] text-slate-400 mt-0.5">Everyone starts at {new Date(t.fixedStartAt).toLocaleTimeString()}</p>}
+                            </div>
+                            <span className={`shrink-0 text-[10px] font-bold px-2 py-1 rounded-full flex items-center gap-1 ${isSubmitted ? 'bg-green-100 text-green-700' : PHASE_STYLES[phase]}`}>
+                                {isSubmitted ? <><CheckCircle size={12} /> Submitted</> : WEEKLY_TEST_PHASE_LABELS[phase]}
+                            </span>
+                        </div>
+
+                        {countdown && (
+                            <p className="mt-3 text-xs font-bold text-slate-600 bg-slate-50 p-2 rounded-xl text-center">
+                                {countdown.label} <span className="font-mono text-slate-900">{formatCountdown(countdown.at - now)}</span>
+                            </p>
+                        )}
+
+                        {!isSubmitted && phase === 'LIVE' && (
+                            <button onClick={() => onStart(t)} disabled={!canStartTest(t, now)} className="mt-3 w-full bg-slate-900 text-white font-bold py-2.5 rounded-xl text-sm hover:bg-slate-800 disabled:opacity-40">
+                                {canStartTest(t, now) ? 'Start Test' : 'Waiting for Start'}
+                            </button>
+                        )}
+                        {!isSubmitted && phase === 'ENTRY_CLOSED' && (
+                            <p className="mt-3 text-xs font-bold text-amber-700 bg-amber-50 p-2.5 rounded-xl text-center">Late entry is closed for this test.</p>
+                        )}
+                        {isSubmitted && result && (
+                            <button onClick={() => onViewResult(t.id)} className="mt-3 w-full bg-blue-600 text-white font-bold py-2.5 rounded-xl text-sm hover:bg-blue-700">
+                                View Marksheet • Rank #{result.rank} of {result.totalParticipants}
+                            </button>
+                        )}
+                        {isSubmitted && !result && (
+                            <p className="mt-3 text-xs font-bold text-amber-600 bg-amber-50 p-2.5 rounded-xl flex items-center justify-center gap-1">
+                                <Hourglass size={14} /> {phase === 'CLOSED' ? 'Awaiting evaluation' : 'Results after the test closes'}
+                            </p>
+                        )}
+                        {/* Pool tests have no shared key: every student got their own questions, see the marksheet */}
+                        {t.resultsPublishedAt && !t.poolRules?.length && (
+                            <button onClick={() => openAnswerKey(t)} className="mt-2 w-full bg-slate-100 text-slate-700 font-bold py-2 rounded-xl text-xs hover:bg-slate-200 flex items-center justify-center gap-1">
+                                <Key size={14} /> Answer Key
+                            </button>
+                        )}
+                    </div>
+                );
+            })}
+
+            {answerKey && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-in fade-in">
+                    <div className="bg-white rounded-2xl w-full max-w-lg shadow-xl max-h-[85vh] flex flex-col overflow-hidden">
+                        <div className="p-4 border-b border-slate-100 flex items-center justify-between">
+                            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2"><Key size={18} className="text-orange-500" /> {answerKey.test.name}</h3>
+                            <button onClick={() => setAnswerKey(null)} className="p-2 text-slate-400 hover:text-slate-600 bg-slate-50 rounded-full"><X size={18} /></button>
+                        </div>
+                        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+                            {answerKey.test.questions.map((q, idx) => (
+                                <div key={idx} className="p-3 bg-slate-50 rounded-xl border border-slate-100">
+                                    <p className="text-sm font-bold text-slate-800">{idx + 1}. {q.question}</p>
+                                    <p className="text-xs font-bold text-green-700 mt-1">✓ {q.options[answerKey.key.answers[idx]]}</p>
+                                    {answerKey.key.explanations?.[idx] && <p className="text-xs text-slate-500 mt-1">{answerKey.key.explanations[idx]}</p>}
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
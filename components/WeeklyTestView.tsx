@@ -1,28 +1,93 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { WeeklyTest, MCQItem } from '../types';
-import { Clock, AlertTriangle, CheckCircle, Trophy, ArrowLeft } from 'lucide-react';
+import { PublicWeeklyTest, WeeklyTestSection, IntegrityEvent, TestSubmission } from '../types';
+import { Clock, AlertTriangle, CheckCircle, Trophy, ArrowLeft, ArrowRight, Bookmark, LayoutGrid, Lock, X, Maximize, ShieldAlert } from 'lucide-react';
 import { CustomAlert, CustomConfirm } from './CustomDialogs';
+import { getAttemptDeadline } from '../utils/testSchedule';
+import { getTestSections, getSectionQuestionIndices, getSectionForQuestion } from '../utils/testSections';
+import { buildAttemptOrder, applyAttemptOrder, createAttemptSeed } from '../utils/testShuffle';
+import { startIntegrityMonitor, requestTestFullscreen, INTEGRITY_EVENT_LABELS } from '../utils/proctoring';
 
 interface Props {
-  test: WeeklyTest;
-  onComplete: (score: number, total: number, answers: Record<number, number>) => void;
+  test: PublicWeeklyTest;
+  // Raw answers as displayed, the evaluator maps them back with the seed and scores them
+  // Section open and answer times let it drop answers given after a section locked
+  onComplete: (answers: Record<number, number>, startedAt: string, seed: number, integrityLog: IntegrityEvent[], timing: Pick<TestSubmission, 'sectionOpenedAt' | 'answeredAt'>, autoSubmitReason?: TestSubmission['autoSubmitReason']) => void;
   onExit: () => void;
 }
 
-export const WeeklyTestView: React.FC<Props> = ({ test, onComplete, onExit }) => {
+type PaletteStatus = 'ANSWERED' | 'ANSWERED_REVIEW' | 'REVIEW' | 'NOT_ANSWERED' | 'UNVISITED';
+
+const PALETTE_STYLES: Record<PaletteStatus, string> = {
+  ANSWERED: 'bg-green-500 text-white border-green-500',
+  ANSWERED_REVIEW: 'bg-purple-600 text-white border-purple-600 ring-2 ring-green-400',
+  REVIEW: 'bg-purple-600 text-white border-purple-600',
+  NOT_ANSWERED: 'bg-red-500 text-white border-red-500',
+  UNVISITED: 'bg-white text-slate-500 border-slate-300'
+};
+
+const PALETTE_LABELS: Record<PaletteStatus, string> = {
+  ANSWERED: 'Answered',
+  ANSWERED_REVIEW: 'Answered & Marked',
+  REVIEW: 'Marked for Review',
+  NOT_ANSWERED: 'Not Answered',
+  UNVISITED: 'Not Visited'
+};
+
+export const WeeklyTestView: React.FC<Props> = ({ test: canonicalTest, onComplete, onExit }) => {
+  const SECTIONS_KEY = `weekly_test_sections_${canonicalTest.id}`;
+  const SEED_KEY = `weekly_test_seed_${canonicalTest.id}`;
+  const INTEGRITY_KEY = `weekly_test_integrity_${canonicalTest.id}`;
+  const proctoring = canonicalTest.proctoring || {};
+
+  // Per-attempt order, kept across reloads so the questions don't reshuffle mid-test
+  const [seed] = useState<number>(() => {
+    const saved = localStorage.getItem(SEED_KEY);
+    if (saved) return parseInt(saved);
+    const fresh = createAttemptSeed();
+    localStorage.setItem(SEED_KEY, fresh.toString());
+    return fresh;
+  });
+  const [test] = useState(() => applyAttemptOrder(canonicalTest, buildAttemptOrder(canonicalTest, seed)));
+  const sections = getTestSections(test);
+
   const [answers, setAnswers] = useState<Record<number, number>>({});
-  const [timeLeft, setTimeLeft] = useState<number>(0);
-  const [isSubmitting, setIsSubmitting] = useState(false);
+  const answersRef = useRef(answers); // Timer callback would otherwise submit the first render's (empty) answers
+  answersRef.current = answers;
+  const answeredAtRef = useRef<Record<number, number>>({});
+  const [currentIndex, setCurrentIndex] = useState(sections[0] ? sections[0].fromQuestion - 1 : 0);
+  const [visited, setVisited] = useState<Record<number, boolean>>({});
+  const [review, setReview] = useState<Record<number, boolean>>({});
+  // When each section was first opened, kept across reloads so section timers can't be reset
+  const [sectionOpenedAt, setSectionOpenedAt] = useState<Record<string, number>>(() => JSON.parse(localStorage.getItem(SECTIONS_KEY) || '{}'));
+  const [showPalette, setShowPalette] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const [deadline, setDeadline] = useState<number | null>(null);
+  const submittedRef = useRef(false);
+  // Kept across reloads so a refresh doesn't wipe violations
+  const [integrityLog, setIntegrityLog] = useState<IntegrityEvent[]>(() => JSON.parse(localStorage.getItem(INTEGRITY_KEY) || '[]'));
+  const integrityRef = useRef(integrityLog);
+  integrityRef.current = integrityLog;
+  const [isFullscreen, setIsFullscreen] = useState(!!document.fullscreenElement);
   const [alertConfig, setAlertConfig] = useState<{isOpen: boolean, message: string}>({isOpen: false, message: ''});
   const [confirmConfig, setConfirmConfig] = useState<{isOpen: boolean, message: string, onConfirm: () => void}>({
       isOpen: false, message: '', onConfirm: () => {}
   });
   const [postAlertAction, setPostAlertAction] = useState<() => void>(() => {});
 
-  // Initialize Timer
+  const currentSection = getSectionForQuestion(sections, currentIndex) || sections[0];
+
+  const getSectionEnd = (section: WeeklyTestSection): number | null => {
+    if (!section.timeLimitMinutes || !sectionOpenedAt[section.id]) return null;
+    return sectionOpenedAt[section.id] + section.timeLimitMinutes * 60 * 1000;
+  };
+  const isSectionLocked = (section: WeeklyTestSection) => {
+    const end = getSectionEnd(section);
+    return end !== null && now >= end;
+  };
+
+  // Initialize Timer (counts down to the attempt deadline: common start + duration, capped at closing time)
   useEffect(() => {
-    const DURATION_SECONDS = (test.durationMinutes || 120) * 60;
     const STORAGE_KEY = `weekly_test_start_${test.id}`;
     
     let startTime = localStorage.getItem(STORAGE_KEY);
@@ -32,45 +97,90 @@ export const WeeklyTestView: React.FC<Props> = ({ test, onComplete, onExit }) =>
       localStorage.setItem(STORAGE_KEY, startTime);
     }
     
-    const elapsedSeconds = Math.floor((Date.now() - parseInt(startTime)) / 1000);
-    const remaining = Math.max(0, DURATION_SECONDS - elapsedSeconds);
-    
-    setTimeLeft(remaining);
-    
-    const timer = setInterval(() => {
-      setTimeLeft((prev) => {
-        if (prev <= 1) {
-          clearInterval(timer);
-          handleSubmit(true); // Auto submit
-          return 0;
-        }
-        return prev - 1;
-      });
-    }, 1000);
-    
+    setDeadline(getAttemptDeadline(test, parseInt(startTime)));
+
+    const timer = setInterval(() => setNow(Date.now()), 1000);
     return () => clearInterval(timer);
-  }, [test.id, test.durationMinutes]);
+  }, [test.id, test.durationMinutes, test.fixedStartAt, test.closesAt]);
 
-  const handleSubmit = (auto: boolean = false) => {
-    if (isSubmitting) return;
-    setIsSubmitting(true);
-    
-    // Calculate Score
-    let score = 0;
-    test.questions.forEach((q, idx) => {
-      if (answers[idx] === q.correctAnswer) {
-        score++;
-      }
+  // Mark the current question visited and start its section's clock on first entry
+  useEffect(() => {
+    setVisited(prev => prev[currentIndex] ? prev : { ...prev, [currentIndex]: true });
+    if (currentSection && !sectionOpenedAt[currentSection.id]) {
+      const next = { ...sectionOpenedAt, [currentSection.id]: Date.now() };
+      setSectionOpenedAt(next);
+      localStorage.setItem(SECTIONS_KEY, JSON.stringify(next));
+    }
+  }, [currentIndex]);
+
+  // Proctoring: every signal goes into the attempt's integrity log
+  useEffect(() => {
+    if (proctoring.requireFullscreen) requestTestFullscreen();
+    const onFullscreenChange = () => setIsFullscreen(!!document.fullscreenElement);
+    document.addEventListener('fullscreenchange', onFullscreenChange);
+    const stop = startIntegrityMonitor({ idleMinutes: proctoring.idleMinutes }, (event) => {
+      if (submittedRef.current) return;
+      setIntegrityLog(prev => {
+        const next = [...prev, event];
+        localStorage.setItem(INTEGRITY_KEY, JSON.stringify(next));
+        return next;
+      });
     });
+    return () => { stop(); document.removeEventListener('fullscreenchange', onFullscreenChange); };
+  }, []);
+
+  // Warn on each violation, auto-submit at the Admin's limit
+  useEffect(() => {
+    if (integrityLog.length === 0 || submittedRef.current) return;
+    const last = integrityLog[integrityLog.length - 1];
+    if (proctoring.maxViolations && integrityLog.length >= proctoring.maxViolations) {
+      handleSubmit('VIOLATIONS');
+      return;
+    }
+    const remaining = proctoring.maxViolations ? ` ${proctoring.maxViolations - integrityLog.length} more and your test will be submitted automatically.` : '';
+    setAlertConfig({isOpen: true, message: `Warning: ${INTEGRITY_EVENT_LABELS[last.type]} was recorded.${remaining}`});
+  }, [integrityLog.length]);
+
+  // Overall and section time-outs
+  useEffect(() => {
+    if (submittedRef.current || deadline === null) return;
+    if (now >= deadline) {
+      handleSubmit('TIME'); // Auto submit
+      return;
+    }
+    if (currentSection && isSectionLocked(currentSection)) {
+      const nextOpen = sections.find(s => !isSectionLocked(s) && s.fromQuestion > currentSection.toQuestion) || sections.find(s => !isSectionLocked(s));
+      if (nextOpen) {
+        setCurrentIndex(nextOpen.fromQuestion - 1);
+        setAlertConfig({isOpen: true, message: `Time is up for ${currentSection.name}. Moving to ${nextOpen.name}.`});
+      } else {
+        handleSubmit('TIME');
+      }
+    }
+  }, [now, deadline]);
+
+  const handleSubmit = (autoReason?: TestSubmission['autoSubmitReason']) => {
+    if (submittedRef.current) return;
+    submittedRef.current = true;
+
+    const startTime = localStorage.getItem(`weekly_test_start_${test.id}`);
+    const startedAt = new Date(startTime ? parseInt(startTime) : Date.now()).toISOString();
     
     // Clear local storage for this test
     localStorage.removeItem(`weekly_test_start_${test.id}`);
-    
-    if (auto) {
-        setPostAlertAction(() => () => onComplete(score, test.questions.length, answers));
-        setAlertConfig({isOpen: true, message: "Time is up! Your test has been submitted automatically."});
+    localStorage.removeItem(SECTIONS_KEY);
+    localStorage.removeItem(SEED_KEY);
+    localStorage.removeItem(INTEGRITY_KEY);
+    if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+
+    const timing = { sectionOpenedAt, answeredAt: answeredAtRef.current };
+    if (autoReason) {
+        setPostAlertAction(() => () => onComplete(answersRef.current, startedAt, seed, integrityRef.current, timing, autoReason));
+        setAlertConfig({isOpen: true, message: autoReason === 'VIOLATIONS'
+            ? "Too many violations were recorded. Your test has been submitted automatically."
+            : "Time is up! Your test has been submitted automatically."});
     } else {
-        onComplete(score, test.questions.length, answers);
+        onComplete(answersRef.current, startedAt, seed, integrityRef.current, timing);
     }
   };
 
@@ -81,6 +191,69 @@ export const WeeklyTestView: React.FC<Props> = ({ test, onComplete, onExit }) =>
     return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
   };
 
+  const getStatus = (idx: number): PaletteStatus => {
+    const answered = answers[idx] !== undefined;
+    if (review[idx]) return answered ? 'ANSWERED_REVIEW' : 'REVIEW';
+    if (answered) return 'ANSWERED';
+    return visited[idx] ? 'NOT_ANSWERED' : 'UNVISITED';
+  };
+
+  // Next/previous question, skipping sections that are locked
+  const goTo = (idx: number) => {
+    const section = getSectionForQuestion(sections, idx);
+    if (!section || isSectionLocked(section)) return;
+    setCurrentIndex(idx);
+    setShowPalette(false);
+  };
+  const step = (dir: 1 | -1) => {
+    for (let i = currentIndex + dir; i >= 0 && i < test.questions.length; i += dir) {
+      const section = getSectionForQuestion(sections, i);
+      if (section && !isSectionLocked(section)) { setCurrentIndex(i); return; }
+    }
+  };
+
+  const timeLeft = deadline === null ? 0 : Math.max(0, Math.ceil((deadline - now) / 1000));
+  const sectionEnd = currentSection ? getSectionEnd(currentSection) : null;
+  const sectionTimeLeft = sectionEnd === null ? null : Math.max(0, Math.ceil((sectionEnd - now) / 1000));
+  const q = test.questions[currentIndex];
+  const locked = currentSection ? isSectionLocked(currentSection) : false;
+
+  const renderPalette = () => (
+    <div className="space-y-4">
+      {sections.map(section => {
+        const indices = getSectionQuestionIndices(section);
+        const sectionLocked = isSectionLocked(section);
+        return (
+          <div key={section.id}>
+            <p className="text-xs font-bold text-slate-700 mb-2 flex items-center justify-between">
+              <span className="flex items-center gap-1">{sectionLocked && <Lock size={12} className="text-slate-400" />}{section.name}</span>
+              <span className="text-[10px] text-slate-400">{indices.filter(i => answers[i] !== undefined).length}/{indices.length}</span>
+            </p>
+            <div className="grid grid-cols-6 gap-1.5">
+              {indices.map(i => (
+                <button
+                  key={i}
+                  onClick={() => goTo(i)}
+                  disabled={sectionLocked}
+                  className={`h-8 rounded-lg border text-xs font-bold ${PALETTE_STYLES[getStatus(i)]} ${i === currentIndex ? 'ring-2 ring-blue-500 ring-offset-1' : ''} disabled:opacity-40`}
+                >
+                  {i + 1}
+                </button>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+      <div className="grid grid-cols-2 gap-1.5 pt-2 border-t border-slate-100">
+        {(Object.keys(PALETTE_LABELS) as PaletteStatus[]).map(status => (
+          <div key={status} className="flex items-center gap-1.5 text-[10px] text-slate-500">
+            <span className={`w-3 h-3 rounded border ${PALETTE_STYLES[status]}`}></span> {PALETTE_LABELS[status]}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
   return (
     <div className="flex flex-col h-screen bg-slate-50">
       <CustomAlert 
@@ -89,6 +262,7 @@ export const WeeklyTestView: React.FC<Props> = ({ test, onComplete, onExit }) =>
           onClose={() => {
               setAlertConfig({...alertConfig, isOpen: false});
               postAlertAction();
+              setPostAlertAction(() => () => {});
           }} 
       />
       <CustomConfirm
@@ -107,56 +281,134 @@ export const WeeklyTestView: React.FC<Props> = ({ test, onComplete, onExit }) =>
           <p className="text-xs text-slate-500">Total Questions: {test.questions.length}</p>
         </div>
         
-        <div className={`flex items-center gap-2 font-mono font-bold text-lg px-4 py-2 rounded-lg ${timeLeft < 300 ? 'bg-red-100 text-red-600 animate-pulse' : 'bg-blue-50 text-blue-600'}`}>
-          <Clock size={20} />
-          {formatTime(timeLeft)}
+        <div className="flex items-center gap-2">
+          <div className={`flex items-center gap-2 font-mono font-bold text-lg px-4 py-2 rounded-lg ${timeLeft < 300 ? 'bg-red-100 text-red-600 animate-pulse' : 'bg-blue-50 text-blue-600'}`}>
+            <Clock size={20} />
+            {formatTime(timeLeft)}
+          </div>
+          <button onClick={() => setShowPalette(true)} className="lg:hidden p-2.5 rounded-lg bg-slate-100 text-slate-600"><LayoutGrid size={20} /></button>
         </div>
       </div>
 
+      {/* Section Tabs */}
+      {sections.length > 1 && (
+        <div className="bg-white border-b border-slate-200 px-4 py-2 flex gap-2 overflow-x-auto">
+          {sections.map(section => {
+            const sectionLocked = isSectionLocked(section);
+            const active = section.id === currentSection?.id;
+            return (
+              <button
+                key={section.id}
+                onClick={() => goTo(section.fromQuestion - 1)}
+                disabled={sectionLocked}
+                className={`shrink-0 px-3 py-1.5 rounded-lg text-xs font-bold flex items-center gap-1 ${active ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-600'} disabled:opacity-40`}
+              >
+                {sectionLocked && <Lock size={12} />} {section.name}
+                {section.timeLimitMinutes && !sectionOpenedAt[section.id] && <span className="text-[10px] opacity-70">({section.timeLimitMinutes}m)</span>}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
       {/* Warning Banner */}
       <div className="bg-amber-50 text-amber-800 text-xs px-4 py-2 flex items-center justify-center gap-2 border-b border-amber-100">
         <AlertTriangle size={14} />
-        Do not close the app. Test will auto-submit when timer ends.
+        {sectionTimeLeft !== null
+          ? <>Section time left: <span className="font-mono font-bold">{formatTime(sectionTimeLeft)}</span>. {currentSection?.name} locks when it ends.</>
+          : 'Do not close the app. Test will auto-submit when timer ends.'}
       </div>
 
-      {/* Questions List */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-6 max-w-3xl mx-auto w-full pb-24">
-        {test.questions.map((q, idx) => (
-          <div key={idx} className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
-            <h4 className="font-bold text-slate-800 mb-4 flex gap-3">
-              <span className="bg-slate-100 text-slate-600 w-6 h-6 rounded-full flex items-center justify-center text-xs shrink-0 font-bold mt-0.5">{idx + 1}</span>
-              {q.question}
-            </h4>
-            <div className="space-y-2">
-              {q.options.map((opt, oIdx) => (
+      {proctoring.requireFullscreen && !isFullscreen && (
+        <button onClick={requestTestFullscreen} className="bg-red-50 text-red-700 text-xs font-bold px-4 py-2 flex items-center justify-center gap-2 border-b border-red-100">
+          <Maximize size={14} /> This test must be taken in fullscreen. Tap to return.
+        </button>
+      )}
+      {integrityLog.length > 0 && (
+        <div className="bg-red-600 text-white text-[10px] font-bold px-4 py-1 flex items-center justify-center gap-1">
+          <ShieldAlert size={12} /> {integrityLog.length} violation{integrityLog.length > 1 ? 's' : ''} recorded{proctoring.maxViolations ? ` (auto-submit at ${proctoring.maxViolations})` : ''}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-hidden flex max-w-5xl mx-auto w-full">
+        {/* Current Question */}
+        <div className="flex-1 overflow-y-auto p-4 pb-24">
+          {q && (
+            <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2">{currentSection?.name}</p>
+              <h4 className="font-bold text-slate-800 mb-4 flex gap-3">
+                <span className="bg-slate-100 text-slate-600 w-6 h-6 rounded-full flex items-center justify-center text-xs shrink-0 font-bold mt-0.5">{currentIndex + 1}</span>
+                {q.question}
+              </h4>
+              <div className="space-y-2">
+                {q.options.map((opt, oIdx) => (
+                  <button
+                    key={oIdx}
+                    disabled={locked}
+                    onClick={() => { answeredAtRef.current[currentIndex] = Date.now(); setAnswers(prev => ({ ...prev, [currentIndex]: oIdx })); }}
+                    className={`w-full text-left p-3 rounded-lg border transition-all text-sm font-medium flex items-center justify-between
+                      ${answers[currentIndex] === oIdx
+                        ? 'bg-blue-50 border-blue-500 text-blue-700 ring-1 ring-blue-500'
+                        : 'bg-white border-slate-200 hover:bg-slate-50 text-slate-700'}`}
+                  >
+                    {opt}
+                    {answers[currentIndex] === oIdx && <CheckCircle size={16} className="text-blue-600" />}
+                  </button>
+                ))}
+              </div>
+
+              <div className="flex flex-wrap gap-2 mt-5 pt-4 border-t border-slate-100">
+                <button onClick={() => step(-1)} className="px-3 py-2 rounded-lg bg-slate-100 text-slate-600 text-xs font-bold flex items-center gap-1"><ArrowLeft size={14} /> Previous</button>
                 <button
-                  key={oIdx}
-                  onClick={() => setAnswers(prev => ({ ...prev, [idx]: oIdx }))}
-                  className={`w-full text-left p-3 rounded-lg border transition-all text-sm font-medium flex items-center justify-between
-                    ${answers[idx] === oIdx 
-                      ? 'bg-blue-50 border-blue-500 text-blue-700 ring-1 ring-blue-500' 
-                      : 'bg-white border-slate-200 hover:bg-slate-50 text-slate-700'}`}
+                  onClick={() => { delete answeredAtRef.current[currentIndex]; setAnswers(prev => { const { [currentIndex]: _cleared, ...rest } = prev; return rest; }); }}
+                  disabled={answers[currentIndex] === undefined}
+                  className="px-3 py-2 rounded-lg bg-slate-100 text-slate-600 text-xs font-bold disabled:opacity-40"
                 >
-                  {opt}
-                  {answers[idx] === oIdx && <CheckCircle size={16} className="text-blue-600" />}
+                  Clear Response
                 </button>
-              ))}
+                <button
+                  onClick={() => { setReview(prev => ({ ...prev, [currentIndex]: !prev[currentIndex] })); if (!review[currentIndex]) step(1); }}
+                  className={`px-3 py-2 rounded-lg text-xs font-bold flex items-center gap-1 ${review[currentIndex] ? 'bg-purple-600 text-white' : 'bg-purple-50 text-purple-700'}`}
+                >
+                  <Bookmark size={14} /> {review[currentIndex] ? 'Unmark' : 'Mark for Review & Next'}
+                </button>
+                <button onClick={() => step(1)} className="ml-auto px-4 py-2 rounded-lg bg-blue-600 text-white text-xs font-bold flex items-center gap-1">Save & Next <ArrowRight size={14} /></button>
+              </div>
             </div>
-          </div>
-        ))}
+          )}
+        </div>
+
+        {/* Palette (side panel on large screens) */}
+        <div className="hidden lg:block w-72 shrink-0 border-l border-slate-200 bg-white p-4 overflow-y-auto">
+          {renderPalette()}
+        </div>
       </div>
 
+      {/* Palette (sheet on small screens) */}
+      {showPalette && (
+        <div className="fixed inset-0 z-40 bg-slate-900/50 flex items-end lg:hidden" onClick={() => setShowPalette(false)}>
+          <div className="bg-white w-full rounded-t-2xl p-4 max-h-[75vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+            <div className="flex justify-between items-center mb-3">
+              <h3 className="font-bold text-slate-800">Question Palette</h3>
+              <button onClick={() => setShowPalette(false)} className="p-1.5 bg-slate-100 rounded-full text-slate-500"><X size={16} /></button>
+            </div>
+            {renderPalette()}
+          </div>
+        </div>
+      )}
+
       {/* Footer */}
       <div className="p-4 bg-white border-t border-slate-200 sticky bottom-0 z-10 flex justify-between items-center shadow-[0_-4px_6px_-1px_rgba(0,0,0,0.05)]">
         <div className="text-xs text-slate-500 font-medium">
           {Object.keys(answers).length} of {test.questions.length} Answered
+          {Object.keys(review).filter(k => review[Number(k)]).length > 0 && ` • ${Object.keys(review).filter(k => review[Number(k)]).length} Marked`}
         </div>
         <button
           onClick={() => {
               setConfirmConfig({
                   isOpen: true,
                   message: "Are you sure you want to submit the test?",
-                  onConfirm: () => handleSubmit(false)
+                  onConfirm: () => handleSubmit()
               });
           }}
           className="bg-green-600 hover:bg-green-700 text-white font-bold py-3 px-8 rounded-xl shadow-lg transition-all active:scale-95 flex items-center gap-2"
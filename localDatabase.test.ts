@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { GiftCode, LeaderboardEntry, MCQResult, User } from './types';
+import { createLocalDatabase } from './localDatabase';
+
+const makeUser = (overrides: Partial<User> = {}): User => ({
+  id: 'u1', name: 'Asha', mobile: '', email: 'asha@example.com', role: 'STUDENT', createdAt: '2026-10-18T08:00:00Z',
+  credits: 10, streak: 0, lastLoginDate: '', redeemedCodes: [], progress: {}, classLevel: '10', board: 'CBSE',
+  ...overrides
+});
+
+const makeDatabase = (initialData?: Record<string, any>) => createLocalDatabase({ persist: false, initialData });
+
+describe('users', () => {
+  it('saves, reads back and finds by email', async () => {
+    const db = makeDatabase();
+    await db.saveUserToLive({ ...makeUser(), password: 'plain' });
+    expect(await db.getUserData('u1')).toEqual(makeUser());
+    expect((await db.getUserByEmail('asha@example.com'))?.id).toBe('u1');
+    expect(await db.getUserData('nobody')).toBeNull();
+  });
+
+  it('applies field updates on top of the stored record, with their ledger entries', async () => {
+    const db = makeDatabase();
+    await db.saveUserToLive(makeUser({ inbox: [{ id: 'm1', text: 'Hi', date: '', read: false }] }));
+    const txn = { id: 't1', userId: 'u1', type: 'INBOX_GIFT' as const, amount: 5, balanceAfter: 15, actor: 'ADMIN' as const, timestamp: '' };
+    await db.updateUserFields('u1', { increment: { credits: 5 }, ledger: [txn] });
+    await db.updateUserFields('u1', {
+      set: { name: 'Asha K' },
+      arrayRemove: { inbox: [{ id: 'm1', text: 'Hi', date: '', read: false }] },
+      arrayUnion: { inbox: [{ id: 'm1', text: 'Hi', date: '', read: true }] }
+    });
+    expect(await db.getUserData('u1')).toMatchObject({ credits: 15, name: 'Asha K', inbox: [{ id: 'm1', read: true }] });
+    expect(await db.getCreditLedger('u1')).toEqual([txn]);
+  });
+
+  it('writes a conditional change only while the expected fields still hold', async () => {
+    const db = makeDatabase();
+    const ended = '2026-10-18T00:00:00Z';
+    await db.saveUserToLive(makeUser({ isPremium: true, subscriptionEndDate: ended }));
+    const expire = { set: { isPremium: false }, remove: ['subscriptionEndDate' as const], expect: { subscriptionEndDate: ended } };
+    await db.updateUserFields('u1', { set: { subscriptionEndDate: '2026-11-18T00:00:00Z' } });
+    expect(await db.updateUserFields('u1', expire)).toBe(false);
+    expect(await db.getUserData('u1')).toMatchObject({ isPremium: true, subscriptionEndDate: '2026-11-18T00:00:00Z' });
+    expect(await db.updateUserFields('u1', { ...expire, expect: { subscriptionEndDate: '2026-11-18T00:00:00Z' } })).toBe(true);
+    expect(await db.getUserData('u1')).not.toHaveProperty('subscriptionEndDate');
+  });
+
+  it('takes a deleted user off the list but keeps the record until it is saved again', async () => {
+    const db = makeDatabase();
+    await db.saveUserToLive(makeUser());
+    await db.deleteUser('u1');
+    let listed: User[] = [];
+    const unsubscribe = db.subscribeToUsers(users => { listed = users; });
+    await Promise.resolve();
+    expect(listed).toEqual([]);
+    expect(await db.getUserByEmail('asha@example.com')).toBeNull();
+    expect(await db.getUserData('u1')).toMatchObject({ id: 'u1', credits: 10 });
+
+    await db.saveUserToLive(makeUser());
+    expect(listed.map(u => u.id)).toEqual(['u1']);
+    unsubscribe();
+  });
+
+  it('tells subscribers about every write to their path', async () => {
+    const db = makeDatabase();
+    const seen: (User | null)[] = [];
+    const unsubscribe = db.subscribeToUser('u1', user => seen.push(user));
+    await Promise.resolve();
+    await db.saveUserToLive(makeUser());
+    await db.updateUserFields('u1', { increment: { credits: 1 } });
+    unsubscribe();
+    await db.updateUserFields('u1', { increment: { credits: 1 } });
+    expect(seen.map(u => u?.credits ?? null)).toEqual([null, 10, 11]);
+  });
+});
+
+describe('auth', () => {
+  it('signs in with the password the account was created with only', async () => {
+    const db = makeDatabase();
+    const { uid } = await db.createAccount('Asha@Example.com', 'secret1');
+    expect((await db.signInWithEmail('asha@example.com', 'secret1')).uid).toBe(uid);
+    await expect(db.signInWithEmail('asha@example.com', 'wrong12')).rejects.toMatchObject({ code: 'auth/invalid-credential' });
+    await expect(db.createAccount('asha@example.com', 'secret2')).rejects.toMatchObject({ code: 'auth/email-already-in-use' });
+  });
+});
+
+describe('gift codes', () => {
+  const code: GiftCode = { id: 'g1', code: 'CODE1', amount: 5, createdAt: '', isRedeemed: false, generatedBy: 'admin', maxUses: 1 };
+
+  it('redeems a code once per user and reports why it fails', async () => {
+    const db = makeDatabase({ redeem_codes: { CODE1: code } });
+    const first = await db.redeemGiftCode('CODE1', makeUser(), 'txn-1');
+    expect(first).toMatchObject({ ok: true, txnId: 'txn-1', code: { usedCount: 1, isRedeemed: true } });
+    expect(await db.redeemGiftCode('CODE1', makeUser(), 'txn-2')).toMatchObject({ ok: false, reason: 'ALREADY_USED' });
+    expect(await db.redeemGiftCode('CODE1', makeUser({ id: 'u2' }), 'txn-3')).toMatchObject({ ok: false, reason: 'EXHAUSTED' });
+    expect(await db.redeemGiftCode('MISSING', makeUser(), 'txn-4')).toMatchObject({ ok: false, reason: 'NOT_FOUND' });
+  });
+});
+
+describe('leaderboard', () => {
+  it('adds each result to the current period rows', async () => {
+    const db = makeDatabase();
+    const entry: LeaderboardEntry = { id: 'e1', userId: 'u1', userName: 'Asha', score: 8, total: 10, date: new Date().toISOString(), topic: 'Light', timeTakenSeconds: 40 };
+    await db.recordLeaderboardEntry(entry);
+    await db.recordLeaderboardEntry({ ...entry, id: 'e2', score: 6 });
+    expect(await db.getLeaderboardRank('DAILY', {}, 'u1')).toMatchObject({ score: 14, timeTakenSeconds: 80, attempts: 2, rank: 1 });
+    expect(await db.getLeaderboardRank('ALL_TIME', {}, 'u2')).toBeNull();
+  });
+
+  it('ranks each filter in its own bucket', async () => {
+    const db = makeDatabase();
+    const base: LeaderboardEntry = { id: 'e1', userId: 'u1', userName: 'Asha', score: 8, total: 10, date: new Date().toISOString(), topic: 'Light', classLevel: '10', timeTakenSeconds: 40 };
+    await db.recordLeaderboardEntry(base);
+    await db.recordLeaderboardEntry({ ...base, id: 'e2', userId: 'u2', userName: 'Ravi', score: 9, classLevel: '9' });
+    await db.recordLeaderboardEntry({ ...base, id: 'e3', userId: 'u3', userName: 'Mina', score: 5 });
+    expect(await db.getLeaderboardRank('WEEKLY', {}, 'u1')).toMatchObject({ rank: 2 });
+    expect(await db.getLeaderboardRank('WEEKLY', { classLevel: '10' }, 'u1')).toMatchObject({ rank: 1 });
+    expect(await db.getLeaderboardRank('WEEKLY', { classLevel: '10' }, 'u2')).toBeNull();
+  });
+});
+
+describe('mcq results', () => {
+  it('pages results newest first', async () => {
+    const db = makeDatabase();
+    const results = ['2026-10-01', '2026-10-03', '2026-10-02'].map((date, i) => ({ id: `r${i}`, userId: 'u1', date } as MCQResult));
+    await db.saveMcqResults('u1', results);
+    const first = await db.getMcqResultsPage('u1', 2);
+    expect(first.results.map(r => r.date)).toEqual(['2026-10-03', '2026-10-02']);
+    expect(first.hasMore).toBe(true);
+    const next = await db.getMcqResultsPage('u1', 2, first.results[1].date);
+    expect(next).toEqual({ results: [results[0]], hasMore: false });
+  });
+});
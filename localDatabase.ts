@@ -0,0 +1,418 @@
+import { AuthAccount, BankQuestion, GiftCampaign, GiftCode, LeaderboardEntry, LeaderboardFilters, LeaderboardRow, LeaderboardWindow, MCQResult, PrizeEntry, PrizeRule, RecoveryRequest, RedeemFailureReason, SpinAuditEntry, SpinReward, StorageRepository, TestSubmission, UniversalUpdate, User, UserUpdate, WeeklyTest, WeeklyTestResult } from "./types";
+import { applyRedemption, checkGiftCodeEligibility } from "./utils/giftCodes";
+import { consumeSpinBudget } from "./utils/spinWheel";
+import { splitWeeklyTest } from "./utils/testScoring";
+import { splitBankQuestion } from "./utils/questionBank";
+import { buildLeaderboardUpdates, getLeaderboardPath, getOwnRank, getTopRows } from "./utils/leaderboard";
+import { applyUserUpdate, isEmptyUserUpdate, matchesExpected, stripCredentials } from "./utils/userUpdates";
+
+// --- LOCAL DATABASE (STORAGE_BACKEND=local) ---
+// Same paths as the Realtime Database, held in one tree on this device: no network, no security rules.
+// Saved to IndexedDB in the browser; memory only where IndexedDB is missing (e.g. Node) or persist is off.
+
+const IDB_NAME = 'nst_local_db';
+const IDB_STORE = 'tree';
+const SAVE_DELAY_MS = 300;
+
+export interface LocalDatabaseOptions {
+  persist?: boolean; // Default: true when IndexedDB exists
+  initialData?: Record<string, any>; // Starting tree (keyed like the RTDB), used when nothing is saved yet
+}
+
+type Listener = { path: string; callback: (value: any) => void };
+
+// Atomic add inside write() (the local stand-in for the database's increment())
+const INCREMENT = Symbol('increment');
+const increment = (by: number) => ({ [INCREMENT]: by });
+const isIncrement = (v: any) => !!v && typeof v === 'object' && INCREMENT in v;
+
+// JSON round trip: detached copies, undefined fields dropped (like sanitizeForFirestore)
+const clone = (v: any) => v === undefined || v === null ? null : JSON.parse(JSON.stringify(v));
+
+const splitPath = (path: string) => path.split('/').filter(Boolean);
+
+// A write at `a` changes what a listener at `b` sees (or the other way round)
+const isRelated = (a: string, b: string) => !a || !b || a === b || a.startsWith(`${b}/`) || b.startsWith(`${a}/`);
+
+const values = <T>(data: any): T[] => data ? Object.values(data) as T[] : [];
+
+// Newest `count` children, oldest first (push keys sort by time)
+const lastEntries = (data: any, count: number): any[] =>
+  Object.keys(data || {}).sort().slice(-count).map(k => ({ id: k, ...data[k] }));
+
+const authError = (code: string, message: string) => Object.assign(new Error(message), { code });
+
+// Emails are stored as tree keys, which can't hold . # $ [ ] /
+const emailKey = (email: string) => email.trim().toLowerCase().replace(/[.#$\[\]\/]/g, '_');
+
+const hashPassword = async (email: string, password: string): Promise<string> => {
+  const bytes = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${emailKey(email)}:${password}`));
+  return Array.from(new Uint8Array(bytes)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const openIdb = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const req = indexedDB.open(IDB_NAME, 1);
+  req.onupgradeneeded = () => req.result.createObjectStore(IDB_STORE);
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const loadTree = async (): Promise<Record<string, any> | null> => {
+  try {
+    const idb = await openIdb();
+    return await new Promise((resolve, reject) => {
+      const req = idb.transaction(IDB_STORE).objectStore(IDB_STORE).get('root');
+      req.onsuccess = () => resolve(req.result || null);
+      req.onerror = () => reject(req.error);
+    });
+  } catch (e) { console.error("Local DB Load Error:", e); return null; }
+};
+
+const saveTree = async (tree: Record<string, any>) => {
+  try {
+    const idb = await openIdb();
+    await new Promise<void>((resolve, reject) => {
+      const tx = idb.transaction(IDB_STORE, 'readwrite');
+      tx.objectStore(IDB_STORE).put(tree, 'root');
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } catch (e) { console.error("Local DB Save Error:", e); }
+};
+
+export const createLocalDatabase = (options: LocalDatabaseOptions = {}): StorageRepository => {
+  let root: Record<string, any> = clone(options.initialData) || {};
+  const listeners = new Set<Listener>();
+  const persist = options.persist !== false && typeof indexedDB !== 'undefined';
+  let saveTimer: ReturnType<typeof setTimeout> | null = null;
+  let pushCounter = 0;
+
+  // Reads wait for the saved tree; listeners get their first value once it is loaded
+  const ready: Promise<void> = persist
+    ? loadTree().then(saved => { if (saved) root = saved; })
+    : Promise.resolve();
+
+  const read = (path: string): any => {
+    let node: any = root;
+    for (const key of splitPath(path)) {
+      if (node === null || typeof node !== 'object' || !(key in node)) return null;
+      node = node[key];
+    }
+    return clone(node);
+  };
+
+  // null / undefined deletes, and parents left empty are dropped (as in the RTDB)
+  const setAt = (path: string, value: any) => {
+    const keys = splitPath(path);
+    if (keys.length === 0) { root = value ?? {}; return; }
+    const parents: any[] = [root];
+    let node: any = root;
+    for (const key of keys.slice(0, -1)) {
+      if (node[key] === null || typeof node[key] !== 'object') {
+        if (value === null) return;
+        node[key] = {};
+      }
+      node = node[key];
+      parents.push(node);
+    }
+    const last = keys[keys.length - 1];
+    if (value === null) delete node[last];
+    else node[last] = value;
+    for (let i = parents.length - 1; i > 0; i--) {
+      if (Object.keys(parents[i]).length > 0) break;
+      delete parents[i - 1][keys[i - 1]];
+    }
+  };
+
+  const scheduleSave = () => {
+    if (!persist) return;
+    if (saveTimer) clearTimeout(saveTimer);
+    saveTimer = setTimeout(flushSave, SAVE_DELAY_MS);
+  };
+
+  const flushSave = () => {
+    if (!saveTimer) return;
+    clearTimeout(saveTimer);
+    saveTimer = null;
+    saveTree(root);
+  };
+
+  // A save still waiting when the tab closes is started right away
+  if (persist && typeof window !== 'undefined') window.addEventListener('pagehide', flushSave);
+
+  // Multi-path write, like update(ref(rtdb), updates)
+  const write = (updates: Record<string, any>) => {
+    const paths = Object.keys(updates);
+    paths.forEach(path => {
+      const v = updates[path];
+      setAt(path, isIncrement(v) ? (Number(read(path)) || 0) + v[INCREMENT] : clone(v));
+    });
+    listeners.forEach(l => {
+      if (paths.some(p => isRelated(l.path, p))) l.callback(read(l.path));
+    });
+    scheduleSave();
+  };
+
+  const get = async (path: string) => { await ready; return read(path); };
+
+  const set = async (path: string, value: any) => { await ready; write({ [path]: value }); };
+
+  // Applies `fn` to the current value in one step; returning undefined aborts (like runTransaction)
+  const transact = async (path: string, fn: (current: any) => any): Promise<{ committed: boolean; value: any }> => {
+    await ready;
+    const next = fn(read(path));
+    if (next === undefined) return { committed: false, value: read(path) };
+    write({ [path]: next });
+    return { committed: true, value: read(path) };
+  };
+
+  const subscribe = (path: string, callback: (value: any) => void) => {
+    const listener: Listener = { path, callback };
+    listeners.add(listener);
+    ready.then(() => { if (listeners.has(listener)) callback(read(path)); });
+    return () => { listeners.delete(listener); };
+  };
+
+  // Time ordered keys, so sorting keys sorts by creation (like push ids)
+  const push = async (path: string, value: any) => {
+    const key = `${Date.now().toString(36).padStart(9, '0')}${(pushCounter++ % 1296).toString(36).padStart(2, '0')}`;
+    await set(`${path}/${key}`, value);
+  };
+
+  // --- AUTH (accounts in local_auth, password hashes only) ---
+  const signInWithEmail = async (email: string, password: string): Promise<AuthAccount> => {
+    const account = await get(`local_auth/${emailKey(email)}`);
+    if (!account || account.passwordHash !== await hashPassword(email, password)) {
+      throw authError('auth/invalid-credential', 'Invalid email or password.');
+    }
+    return { uid: account.uid, email: account.email };
+  };
+
+  const createAccount = async (email: string, password: string): Promise<AuthAccount> => {
+    if (password.length < 6) throw authError('auth/weak-password', 'Password should be at least 6 characters.');
+    const key = emailKey(email);
+    if (await get(`local_auth/${key}`)) throw authError('auth/email-already-in-use', 'Email already in use.');
+    const account = { uid: `local-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`, email, passwordHash: await hashPassword(email, password) };
+    await set(`local_auth/${key}`, account);
+    return { uid: account.uid, email };
+  };
+
+  const signInAnonymous = async (): Promise<AuthAccount> => ({ uid: `local-anon-${Math.random().toString(36).slice(2, 10)}` });
+
+  // No email leaves this device
+  const sendPasswordReset = async (email: string): Promise<boolean> => {
+    console.warn(`Local storage backend: no reset email sent to ${email}`);
+    return false;
+  };
+
+  // --- USERS ---
+  // Deleted users move to unlisted_users: off the admin list, but getUserData still finds them, as with the
+  // RTDB copy Firebase keeps. Saving the user again lists them again.
+  const saveUserToLive = async (user: any) => {
+    if (!user || !user.id) return;
+    await ready;
+    write({ [`users/${user.id}`]: stripCredentials(user), [`unlisted_users/${user.id}`]: null });
+  };
+
+  // User and ledger entries in one write
+  const updateUserFields = async (userId: string, change: UserUpdate) => {
+    if (!userId || isEmptyUserUpdate(change)) return false;
+    await ready;
+    const current = read(`users/${userId}`) || read(`unlisted_users/${userId}`) || { id: userId };
+    if (change.expect && !matchesExpected(current, change.expect)) return false;
+    const updates: Record<string, any> = { [`users/${userId}`]: applyUserUpdate(current, change), [`unlisted_users/${userId}`]: null };
+    (change.ledger || []).forEach(t => { updates[`credit_ledger/${userId}/${t.id}`] = t; });
+    write(updates);
+    return true;
+  };
+
+  const deleteUser = async (userId: string) => {
+    await ready;
+    const user = read(`users/${userId}`);
+    if (user) write({ [`users/${userId}`]: null, [`unlisted_users/${userId}`]: user });
+  };
+
+  const getUserByEmail = async (email: string) =>
+    values<User>(await get('users')).find(u => u.email === email) || null;
+
+  const updateUserStatus = async (userId: string, time: number) => {
+    if (await get(`users/${userId}`)) await set(`users/${userId}/lastActiveTime`, new Date().toISOString());
+  };
+
+  // --- CODES ---
+  const redeemGiftCode = async (codeId: string, user: User, txnId: string) => {
+    let failure: RedeemFailureReason | null = null;
+    const result = await transact(`redeem_codes/${codeId}`, (current: GiftCode | null) => {
+      failure = current ? checkGiftCodeEligibility(current, user) : 'NOT_FOUND';
+      return failure ? undefined : applyRedemption(current, user.id, txnId);
+    });
+    if (result.committed) return { ok: true, code: result.value as GiftCode, txnId };
+    return { ok: false, reason: failure || 'NOT_FOUND', code: failure === 'ALREADY_USED' ? result.value as GiftCode : undefined };
+  };
+
+  const saveGiftCampaign = async (campaign: GiftCampaign, codes: GiftCode[]) => {
+    await ready;
+    const updates: Record<string, any> = { [`gift_campaigns/${campaign.id}`]: campaign };
+    codes.forEach(c => { updates[`redeem_codes/${c.code}`] = c; });
+    write(updates);
+  };
+
+  // --- RESULTS ---
+  const saveWeeklyTest = async (test: WeeklyTest) => {
+    await ready;
+    const { publicTest, key } = splitWeeklyTest(test);
+    write({ [`weekly_tests/${test.id}`]: publicTest, [`weekly_test_keys/${test.id}`]: key });
+  };
+
+  const publishTestResults = async (testId: string, results: WeeklyTestResult[], publishedAt: string) => {
+    await ready;
+    const updates: Record<string, any> = { [`weekly_tests/${testId}/resultsPublishedAt`]: publishedAt };
+    results.forEach(r => { updates[`test_results/${testId}/${r.userId}`] = r; });
+    write(updates);
+  };
+
+  const getMcqResultsPage = async (userId: string, pageSize: number, before?: string) => {
+    const sorted = values<MCQResult>(await get(`mcq_results/${userId}`))
+      .filter(r => !before || r.date < before)
+      .sort((a, b) => b.date.localeCompare(a.date));
+    return { results: sorted.slice(0, pageSize), hasMore: sorted.length > pageSize };
+  };
+
+  return {
+    checkConnection: () => true,
+    signInWithEmail,
+    createAccount,
+    signInAnonymous,
+    sendPasswordReset,
+
+    saveUserToLive,
+    updateUserFields,
+    getUserData: async (userId: string) => await get(`users/${userId}`) || get(`unlisted_users/${userId}`),
+    getUserByEmail,
+    subscribeToUsers: (callback: (users: any[]) => void) => subscribe('users', data => callback(values(data))),
+    subscribeToUser: (userId: string, callback: (user: User | null) => void) => subscribe(`users/${userId}`, callback),
+    deleteUser,
+    updateUserStatus,
+    saveUserEntitlement: (userId: string, entitlement: any) => set(`users/${userId}/entitlements/${entitlement.id}`, entitlement),
+    removeUserEntitlement: (userId: string, entitlementId: string) => set(`users/${userId}/entitlements/${entitlementId}`, null),
+    appendCreditTransaction: (txn: any) => set(`credit_ledger/${txn.userId}/${txn.id}`, txn),
+    getCreditLedger: async (userId: string) => values(await get(`credit_ledger/${userId}`)),
+    subscribeToCreditLedger: (userId: string, callback: (txns: any[]) => void) => subscribe(`credit_ledger/${userId}`, data => callback(values(data))),
+
+    saveSystemSettings: (settings: any) => set('system_settings', settings),
+    subscribeToSettings: (callback: (settings: any) => void) => subscribe('system_settings', data => { if (data) callback(data); }),
+
+    // Links land where getChapterData reads (the Firestore copy does this for the live database)
+    bulkSaveLinks: async (updates: Record<string, any>) => {
+      await ready;
+      write(Object.fromEntries(Object.entries(updates).map(([key, data]) => [`content_data/${key}`, data])));
+    },
+    saveChapterData: (key: string, data: any) => set(`content_data/${key}`, data),
+    getChapterData: (key: string) => get(`content_data/${key}`),
+    subscribeToChapterData: (key: string, callback: (data: any) => void) => subscribe(`content_data/${key}`, data => { if (data) callback(data); }),
+    postUniversalUpdate: (update: UniversalUpdate) => push('universal_updates', update),
+    subscribeToUniversalUpdates: (count: number, callback: (updates: UniversalUpdate[]) => void) => subscribe('universal_updates', data => callback(lastEntries(data, count))),
+    saveBankQuestion: async (question: BankQuestion) => {
+      await ready;
+      const { publicQuestion, key } = splitBankQuestion(question);
+      write({ [`question_bank/${question.id}`]: publicQuestion, [`question_bank_keys/${question.id}`]: key });
+    },
+    deleteBankQuestion: async (questionId: string) => {
+      await ready;
+      write({ [`question_bank/${questionId}`]: null, [`question_bank_keys/${questionId}`]: null });
+    },
+    subscribeToQuestionBank: callback => subscribe('question_bank', data => callback(values(data))),
+    getQuestionBank: async () => values(await get('question_bank')),
+    getBankQuestions: async (ids: string[]) => {
+      const bank = await get('question_bank') || {};
+      return Object.fromEntries(ids.filter(id => bank[id]).map(id => [id, bank[id]]));
+    },
+    getBankQuestionKeys: async (ids: string[]) => {
+      const keys = await get('question_bank_keys') || {};
+      return Object.fromEntries(ids.filter(id => keys[id]).map(id => [id, keys[id]]));
+    },
+    recordQuestionsServed: async (ids: string[]) => {
+      if (!ids.length) return;
+      await ready;
+      const now = new Date().toISOString();
+      const updates: Record<string, any> = {};
+      ids.forEach(id => {
+        updates[`question_bank_stats/${id}/served`] = increment(1);
+        updates[`question_bank_stats/${id}/lastServedAt`] = now;
+      });
+      write(updates);
+    },
+    subscribeToQuestionStats: callback => subscribe('question_bank_stats', data => callback(data || {})),
+    recordQuestionAnswers: async (chapterId: string, answers: { key: string; correct: boolean }[]) => {
+      if (answers.length === 0) return;
+      await ready;
+      const updates: Record<string, any> = {};
+      answers.forEach(a => {
+        updates[`mcq_stats/${chapterId}/${a.key}/attempts`] = increment(1);
+        if (a.correct) updates[`mcq_stats/${chapterId}/${a.key}/correct`] = increment(1);
+      });
+      write(updates);
+    },
+    getChapterQuestionStats: async (chapterId: string) => await get(`mcq_stats/${chapterId}`) || {},
+
+    subscribeToChat: (channel: string, count: number, callback: (messages: any[]) => void) => subscribe(`chat/${channel}`, data => callback(lastEntries(data, count))),
+    sendChatMessage: (channel: string, message: any) => push(`chat/${channel}`, message),
+
+    redeemGiftCode,
+    saveGiftCampaign,
+    getGiftCampaigns: async () => values<GiftCampaign>(await get('gift_campaigns')),
+    getCampaignCodes: async (campaignId: string) => values<GiftCode>(await get('redeem_codes')).filter(c => c.campaignId === campaignId),
+
+    logSpinOutcome: (entry: SpinAuditEntry) => set(`spin_audit/${entry.id}`, entry),
+    getSpinAudit: async (limit: number = 500) => values<SpinAuditEntry>(await get('spin_audit')).sort((a, b) => a.timestamp.localeCompare(b.timestamp)).slice(-limit),
+    getSpinBudgetUsage: async () => await get('spin_budget') || {},
+    claimSpinBudget: async (reward: SpinReward) => {
+      const result = await transact(`spin_budget/${reward.id}`, current => consumeSpinBudget(reward, current) ?? undefined);
+      return result.committed;
+    },
+
+    saveWeeklyTest,
+    deleteWeeklyTest: async (testId: string) => {
+      await ready;
+      write({ [`weekly_tests/${testId}`]: null, [`weekly_test_keys/${testId}`]: null });
+    },
+    subscribeToWeeklyTests: callback => subscribe('weekly_tests', data => callback(values(data))),
+    getWeeklyTest: (testId: string) => get(`weekly_tests/${testId}`),
+    submitTestAnswers: async (submission: TestSubmission) => {
+      await set(`test_submissions/${submission.testId}/${submission.userId}`, { ...submission, serverSubmittedAt: Date.now() });
+      return true;
+    },
+    getTestSubmissions: async (testId: string) => values<TestSubmission>(await get(`test_submissions/${testId}`)),
+    publishTestResults,
+    getTestResults: async (testId: string) => values<WeeklyTestResult>(await get(`test_results/${testId}`)),
+    getPublishedTestKey: (testId: string) => get(`weekly_test_keys/${testId}`),
+    subscribeToTestResult: (testId: string, userId: string, callback: (result: WeeklyTestResult | null) => void) => subscribe(`test_results/${testId}/${userId}`, callback),
+    recordLeaderboardEntry: async (entry: LeaderboardEntry) => { await ready; write(buildLeaderboardUpdates(entry, increment)); },
+    subscribeToLeaderboard: (window: LeaderboardWindow, filters: LeaderboardFilters, callback) => subscribe(getLeaderboardPath(window, filters), data => callback(getTopRows(values(data)))),
+    getLeaderboardRank: async (window: LeaderboardWindow, filters: LeaderboardFilters, userId: string) => {
+      const rows = values<LeaderboardRow>(await get(getLeaderboardPath(window, filters)));
+      const mine = rows.find(r => r.userId === userId);
+      return mine ? { ...mine, rank: getOwnRank(rows.filter(r => r.score >= mine.score), mine) } : null;
+    },
+    savePrizeRule: (rule: PrizeRule) => set(`prize_rules/${rule.id}`, rule),
+    deletePrizeRule: (ruleId: string) => set(`prize_rules/${ruleId}`, null),
+    subscribeToPrizeRules: callback => subscribe('prize_rules', data => callback(values(data))),
+    getPrizeRules: async () => values<PrizeRule>(await get('prize_rules')),
+    hasPrize: async (prizeId: string) => !!(await get(`prizes/${prizeId}`)),
+    savePrize: (entry: PrizeEntry) => set(`prizes/${entry.id}`, entry),
+    subscribeToPrizes: callback => subscribe('prizes', data => callback(values(data))),
+    saveMcqResults: async (userId: string, results: MCQResult[]) => {
+      await ready;
+      write(Object.fromEntries(results.map(r => [`mcq_results/${userId}/${r.id}`, r])));
+      return true;
+    },
+    getMcqResultsPage,
+    // Only the Firebase backend has copies from before mcq_results
+    getLegacyMcqResults: async () => [],
+    deleteLegacyMcqResults: async () => {},
+
+    saveRecoveryRequest: (request: RecoveryRequest) => set(`recovery_requests/${request.id}`, request),
+    subscribeToRecoveryRequests: callback => subscribe('recovery_requests', data => callback(values(data))),
+    resolveRecoveryRequest: (requestId: string) => set(`recovery_requests/${requestId}/status`, 'RESOLVED')
+  };
+};
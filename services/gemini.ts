@@ -2,7 +2,7 @@
 import { GoogleGenAI, Type, Schema } from "@google/genai";
 import { ClassLevel, Subject, Chapter, LessonContent, Language, Board, Stream, ContentType, MCQItem, SystemSettings } from "../types";
 import { STATIC_SYLLABUS } from "../constants";
-import { getChapterData } from "../firebase";
+import { getChapterData } from "../storage";
 
 const getAvailableKeys = (): string[] => {
     try {
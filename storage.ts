@@ -0,0 +1,251 @@
+import { BankQuestionKey, CreditTransaction, MCQItem, MCQResult, PrizeEntry, PublicBankQuestion, RedeemResult, ReviewCard, StorageBackendName, StorageRepository, User, UserUpdate, WeeklyTestResult } from "./types";
+import { createLocalDatabase } from "./localDatabase";
+import { evaluateSubmission, getSubmissionProblem, rankResults } from "./utils/testScoring";
+import { canPublishResults } from "./utils/testSchedule";
+import { getPoolCandidates, getQuestionKey, toMcqItems, toPoolTestKey, toTestQuestions } from "./utils/questionBank";
+import { buildPrizeEntryMessage, evaluatePrizeRules } from "./utils/prizeRules";
+import { getSubjectScores } from "./utils/leaderboard";
+import { buildMcqSummary, normaliseLegacyResult } from "./utils/mcqResults";
+import { rebuildChapterMastery } from "./utils/chapterMastery";
+import { applyUserUpdate, diffUserUpdate } from "./utils/userUpdates";
+import { applyCreditChange, deriveBalance, newTxnId } from "./utils/creditLedger";
+import { applyGiftReward } from "./utils/giftCodes";
+
+// --- STORAGE BACKEND ---
+// Components read and write through this module only. STORAGE_BACKEND in .env.local picks the backend at build time:
+// 'firebase' (default) or 'local' for development and tests with no network (see localDatabase.ts).
+export const STORAGE_BACKEND: StorageBackendName = process.env.STORAGE_BACKEND === 'local' ? 'local' : 'firebase';
+
+// The Firebase SDK (and its config) is only loaded when it is the backend
+const repository: StorageRepository = STORAGE_BACKEND === 'local' ? createLocalDatabase() : (await import("./firebase")).firebaseRepository;
+
+export const {
+  checkConnection, signInWithEmail, createAccount, signInAnonymous, sendPasswordReset,
+  saveUserToLive, updateUserFields, getUserData, getUserByEmail, subscribeToUsers, subscribeToUser, deleteUser, updateUserStatus,
+  saveUserEntitlement, removeUserEntitlement, appendCreditTransaction, getCreditLedger, subscribeToCreditLedger,
+  saveSystemSettings, subscribeToSettings,
+  bulkSaveLinks, saveChapterData, getChapterData, subscribeToChapterData, postUniversalUpdate, subscribeToUniversalUpdates,
+  saveBankQuestion, deleteBankQuestion, subscribeToQuestionBank, getQuestionBank, getBankQuestions, getBankQuestionKeys,
+  recordQuestionsServed, subscribeToQuestionStats, recordQuestionAnswers, getChapterQuestionStats,
+  subscribeToChat, sendChatMessage,
+  redeemGiftCode, saveGiftCampaign, getGiftCampaigns, getCampaignCodes,
+  logSpinOutcome, getSpinAudit, getSpinBudgetUsage, claimSpinBudget,
+  saveWeeklyTest, deleteWeeklyTest, subscribeToWeeklyTests, getWeeklyTest, submitTestAnswers, getTestSubmissions,
+  publishTestResults, getTestResults, getPublishedTestKey, subscribeToTestResult,
+  recordLeaderboardEntry, subscribeToLeaderboard, getLeaderboardRank,
+  savePrizeRule, deletePrizeRule, subscribeToPrizeRules, getPrizeRules, hasPrize, savePrize, subscribeToPrizes,
+  saveMcqResults, getMcqResultsPage, getLegacyMcqResults, deleteLegacyMcqResults,
+  saveRecoveryRequest, subscribeToRecoveryRequests, resolveRecoveryRequest
+} = repository;
+
+// --- BUILT ON THE REPOSITORY (same for every backend) ---
+
+// For code that edits a copy of the user: writes only what differs from `before` (credits as an increment),
+// with the ledger entries for any coins that moved
+export const saveUserChanges = (before: User, after: User, ledger?: CreditTransaction[]) =>
+    updateUserFields(after.id, { ...diffUserUpdate(before, after), ledger });
+
+export const saveMcqResult = (result: MCQResult) => saveMcqResults(result.userId, [result]);
+
+// Redeems a code and gives its reward. The reward is a second write, so the code's redemption record keeps the ledger id:
+// if that write never landed (tab closed, network), entering the code again grants it with the same id instead of failing
+// as already used. The code in the user's redeemedCodes marks the reward as given.
+export const claimGiftCode = async (codeId: string, user: User): Promise<RedeemResult> => {
+    const current: User = await getUserData(user.id) || user;
+    let result = await redeemGiftCode(codeId, current, newTxnId());
+    if (!result.ok) {
+        const unfinished = result.reason === 'ALREADY_USED' && result.code?.redemptions?.[user.id];
+        if (!unfinished || (current.redeemedCodes || []).includes(result.code!.code)) return { ok: false, reason: result.reason };
+        result = { ok: true, code: result.code, txnId: unfinished.txnId };
+    }
+    const code = result.code!;
+    const reward = applyGiftReward(current, code, result.txnId!);
+    const updated: User = { ...reward.user, redeemedCodes: [...(current.redeemedCodes || []), code.code] };
+    await saveUserChanges(current, updated, reward.txn ? [reward.txn] : undefined);
+    return { ...result, user: updated };
+};
+
+// Balances from before the ledger existed get one opening entry, so the ledger adds up to the live balance
+export const openCreditLedger = async (user: User): Promise<User> => {
+    if (user.ledgerOpenedAt) return user;
+    const recorded = deriveBalance(await getCreditLedger(user.id));
+    const change: UserUpdate = { set: { ledgerOpenedAt: new Date().toISOString() } };
+    const gap = (user.credits || 0) - recorded;
+    if (gap !== 0) {
+        change.ledger = [applyCreditChange({ ...user, credits: recorded }, gap, 'OPENING_BALANCE', { note: 'Balance before the ledger', actor: 'SYSTEM' }).txn];
+    }
+    await updateUserFields(user.id, change);
+    return applyUserUpdate(user, change);
+};
+
+// Moves an ended subscription to Free, only if the stored end date is still the one that ended: a renewal or reward
+// given meanwhile (another device, an Admin) is kept, and the stored user comes back instead
+export const expireSubscription = async (user: User): Promise<{ user: User; expired: boolean }> => {
+    const change: UserUpdate = {
+        set: { isPremium: false, subscriptionTier: 'FREE', subscriptionLevel: 'BASIC' },
+        remove: ['subscriptionEndDate'],
+        expect: { subscriptionEndDate: user.subscriptionEndDate }
+    };
+    if (await updateUserFields(user.id, change)) return { user: applyUserUpdate(user, change), expired: true };
+    return { user: await getUserData(user.id) || user, expired: false };
+};
+
+// Counts one spin for `today` and returns the count fields for the local copy, or null if nothing was written.
+// Same day is an atomic +1; a new day restarts the count with a conditional write on the old date, so two tabs
+// starting the day together can't both reset it: the one that loses adds to the other's count instead.
+export const countDailySpin = async (user: User, today: string): Promise<Pick<User, 'dailySpinDate' | 'dailySpinCount'> | null> => {
+    let current = user;
+    if (current.dailySpinDate !== today) {
+        const reset: UserUpdate = { set: { dailySpinDate: today, dailySpinCount: 1 }, expect: { dailySpinDate: current.dailySpinDate } };
+        if (await updateUserFields(user.id, reset)) return { dailySpinDate: today, dailySpinCount: 1 };
+        current = await getUserData(user.id);
+        if (current?.dailySpinDate !== today) return null;
+    }
+    if (!(await updateUserFields(user.id, { increment: { dailySpinCount: 1 } }))) return null;
+    return { dailySpinDate: today, dailySpinCount: (current.dailySpinCount || 0) + 1 };
+};
+
+const loadAllMcqResults = async (userId: string): Promise<MCQResult[]> => {
+    const all: MCQResult[] = [];
+    let before: string | undefined;
+    for (;;) {
+        const page = await getMcqResultsPage(userId, 100, before);
+        all.push(...page.results);
+        if (!page.hasMore || page.results.length === 0) return all;
+        before = page.results[page.results.length - 1].date;
+    }
+};
+
+// Moves older result copies into mcq_results, keeping every field incl. OMR data: results embedded in the user
+// document (older clients, which may write them back later) and, once, the Firestore users/{uid}/history docs.
+// Ids are kept, so saving again overwrites, and the summary is recounted from mcq_results rather than added to:
+// running twice changes nothing. The old copies are only dropped once the results are saved.
+export const migrateMcqHistory = async (user: User): Promise<User> => {
+    if (user.resultsMigratedAt && !user.mcqHistory?.length) return user;
+    const embedded = (user.mcqHistory || []).map(r => normaliseLegacyResult(r, user.id));
+    let legacy: MCQResult[] = [];
+    if (!user.resultsMigratedAt) {
+        try { legacy = (await getLegacyMcqResults(user.id)).map(r => normaliseLegacyResult(r, user.id)); }
+        catch (e) { console.error("Error reading old history:", e); return user; }
+    }
+    const copies = Array.from(new Map([...legacy, ...embedded].map(r => [r.id, r])).values());
+    if (!(await saveMcqResults(user.id, copies))) return user;
+
+    const stored = await loadAllMcqResults(user.id);
+    const storedIds = new Set(stored.map(r => r.id));
+    if (copies.some(r => !storedIds.has(r.id))) return user; // Read failed, try again next load
+
+    const change: UserUpdate = {
+        set: {
+            mcqSummary: buildMcqSummary(stored),
+            chapterMastery: user.chapterMastery || rebuildChapterMastery(stored),
+            resultsMigratedAt: new Date().toISOString()
+        },
+        remove: ['mcqHistory']
+    };
+    await updateUserFields(user.id, change);
+    if (legacy.length) await deleteLegacyMcqResults(user.id);
+    return applyUserUpdate(user, change);
+};
+
+// Questions for revision cards, by card id: from the chapter's content, or the bank for pool chapters.
+// Cards whose question was removed since are left out.
+export const loadReviewQuestions = async (cards: ReviewCard[]): Promise<Record<string, MCQItem>> => {
+    const found: Record<string, MCQItem> = {};
+    cards.forEach(c => { if (c.item) found[c.id] = c.item; });
+    try {
+        const contentKeys = Array.from(new Set(cards.filter(c => !found[c.id] && c.contentKey).map(c => c.contentKey!)));
+        for (const contentKey of contentKeys) {
+            const items: MCQItem[] = (await getChapterData(contentKey))?.manualMcqData || [];
+            cards.filter(c => c.contentKey === contentKey).forEach(c => {
+                const item = items.find(q => getQuestionKey(c.chapterId, q.question) === c.id);
+                if (item) found[c.id] = item;
+            });
+        }
+        const missing = cards.filter(c => !found[c.id]);
+        if (missing.length) {
+            const bank = getPoolCandidates(await getQuestionBank(), false);
+            const matched = missing.flatMap(c => {
+                const q = bank.find(q => q.chapterId === c.chapterId && getQuestionKey(c.chapterId, q.question) === c.id);
+                return q ? [{ cardId: c.id, q }] : [];
+            });
+            const keys = await getBankQuestionKeys(matched.map(m => m.q.id));
+            matched.forEach(({ cardId, q }) => {
+                const [item] = toMcqItems([q.id], { [q.id]: q }, keys);
+                if (item) found[cardId] = item;
+            });
+        }
+    } catch (e) { console.error("Error loading revision questions:", e); }
+    return found;
+};
+
+// Records each new entry and drops the claimable reward in the winner's inbox. Returns how many were new.
+export const awardPrizes = async (entries: PrizeEntry[]): Promise<number> => {
+    let awarded = 0;
+    for (const entry of entries) {
+        try {
+            if (await hasPrize(entry.id)) continue;
+            const user = await getUserData(entry.userId);
+            if (!user) continue;
+            const inbox = user.inbox || [];
+            if (!inbox.some(m => m.id === entry.id)) {
+                await updateUserFields(entry.userId, { arrayUnion: { inbox: [buildPrizeEntryMessage(entry)] } });
+            }
+            await savePrize(entry);
+            awarded++;
+        } catch (e) { console.error("Error awarding prize:", e); }
+    }
+    return awarded;
+};
+
+// The weekly test evaluator. Nothing runs it on a schedule: it runs in the Admin's browser when they click
+// Publish Results, since it needs key + submission read access. Until then no results exist.
+// Does nothing before the window closes: results, ranks and the key are published together.
+export const runLocalEvaluator = async (testId: string): Promise<WeeklyTestResult[]> => {
+    try {
+        const [test, key, allSubmissions] = await Promise.all([
+            getWeeklyTest(testId),
+            getPublishedTestKey(testId),
+            getTestSubmissions(testId)
+        ]);
+        if (!test || !key) return [];
+        if (!canPublishResults(test)) return [];
+        // Pool tests are marked against the bank questions each student was served
+        const fullBank = test.poolRules?.length ? await getQuestionBank() : [];
+        const submissions = allSubmissions.filter(s => !getSubmissionProblem(test, s, fullBank));
+        const bank: Record<string, PublicBankQuestion> = Object.fromEntries(fullBank.map(q => [q.id, q]));
+        const bankKeys: Record<string, BankQuestionKey> = test.poolRules?.length
+            ? await getBankQuestionKeys(Array.from(new Set(submissions.flatMap(s => s.questionIds || []))))
+            : {};
+        const ranked = rankResults(submissions.map(s => {
+            if (!test.poolRules?.length) return evaluateSubmission(test, key, s);
+            const ids = s.questionIds || [];
+            return evaluateSubmission({ ...test, questions: toTestQuestions(ids, bank) }, toPoolTestKey(testId, ids, bankKeys), s);
+        }));
+
+        await publishTestResults(testId, ranked, new Date().toISOString());
+        // Leaderboard counts a test once, re-publishing doesn't add it again
+        if (!test.resultsPublishedAt) {
+            const boards = Object.fromEntries(submissions.map(s => [s.userId, s.board]));
+            for (const r of ranked) {
+                await recordLeaderboardEntry({
+                    id: `wt-${testId}-${r.userId}`,
+                    userId: r.userId,
+                    userName: r.userName,
+                    score: r.correctCount,
+                    total: r.totalQuestions,
+                    date: r.submittedAt,
+                    topic: r.testName,
+                    classLevel: r.classLevel,
+                    board: boards[r.userId],
+                    subjectScores: getSubjectScores(r, test, bank),
+                    timeTakenSeconds: r.timeTakenSeconds,
+                    source: 'WEEKLY_TEST'
+                });
+            }
+        }
+        // Every publish: prizes already given are skipped, so rules added later still apply
+        await awardPrizes(evaluatePrizeRules(await getPrizeRules(), test, ranked));
+        return ranked;
+    } catch (e) { console.error("Error evaluating test:", e); return []; }
+};
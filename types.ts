@@ -31,6 +31,25 @@ export interface PrizeEntry {
   reason: string;
   date: string;
   scorePercentage: number;
+
+  // Set when a prize rule created the entry (see utils/prizeRules)
+  ruleId?: string;
+  testId?: string;
+  classLevel?: ClassLevel;
+  rank?: number;
+  reward?: InboxMessage['reward'];
+}
+
+// Admin-defined: "top N of every weekly test (one test per class) get this reward"
+export interface PrizeRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  topN: number;
+  classLevels?: ClassLevel[]; // Empty = every class's test
+  minPercentage?: number;
+  reward: NonNullable<InboxMessage['reward']>;
+  createdAt: string;
 }
 
 export interface InboxMessage {
@@ -56,7 +75,6 @@ export interface InboxMessage {
 export interface User {
   id: string; // Login ID (Firebase UID)
   displayId?: string; // Visible ID (IIC-XXX)
-  password: string;
   name: string;
   mobile: string;
   email: string;
@@ -74,6 +92,9 @@ export interface User {
   deletedAt?: string; // ISO Date when deleted. If > 30 days, auto purge.
   recoveryCode?: string; // Generated by Admin to restore account
   isPasswordless?: boolean; // NEW: Allow login without password (Admin Approved Recovery)
+  authMigratedAt?: string; // Set when a legacy (plaintext) account moved onto Firebase Auth
+  authEmail?: string; // Sign-in email when the account has no contact email of its own (migrated legacy accounts)
+  ledgerOpenedAt?: string; // Set once the ledger holds the opening balance, so ledger and credits add up (openCreditLedger)
   
   // GRANULAR BANS
   isChatBanned?: boolean; // Can't send messages
@@ -111,9 +132,112 @@ export interface User {
   // Progress Tracking
   progress: Record<string, SubjectProgress>; // Key is subjectID
   
+  // PURCHASED CONTENT (Keyed by entitlement id)
+  entitlements?: Record<string, ContentEntitlement>;
+
   // New Analytics Data
-  mcqHistory?: MCQResult[]; // List of all completed tests
-  topicStrength?: Record<string, { correct: number, total: number }>; // Key: subjectId or topicId
+  mcqHistory?: MCQResult[]; // Legacy embedded results, moved to the mcq_results collection on next load (migrateMcqHistory)
+  mcqSummary?: McqSummary; // Totals over every result in the mcq_results collection
+  resultsMigratedAt?: string; // Set once older result copies are in mcq_results (migrateMcqHistory)
+  reviewQueue?: ReviewCard[]; // Spaced repetition of missed / unsure questions (utils/spacedRepetition)
+  chapterMastery?: Record<string, ChapterMastery>; // By chapter id, also where adaptive practice resumes
+}
+
+// Field-level change to a stored user (updateUserFields in storage.ts). Only the named fields are written,
+// so two tabs or an admin edit made while the student is online don't overwrite each other.
+type UserFieldsOf<V> = { [K in keyof User]-?: K extends 'id' ? never : NonNullable<User[K]> extends V ? K : never }[keyof User];
+export type UserCounterField = UserFieldsOf<number>;
+export type UserListField = UserFieldsOf<any[]>;
+export type UserMapField = Exclude<UserFieldsOf<object>, UserListField>;
+
+export interface UserUpdate {
+  set?: Partial<Omit<User, 'id'>>; // Replaces these fields
+  increment?: { [K in UserCounterField]?: number }; // Atomic add (negative subtracts)
+  merge?: { [K in UserMapField]?: Partial<NonNullable<User[K]>> }; // Replaces single keys of an object field (undefined deletes the key)
+  arrayUnion?: { [K in UserListField]?: User[K] }; // Adds items not already in the list
+  arrayRemove?: { [K in UserListField]?: User[K] };
+  remove?: Exclude<keyof LegacyUserRecord, 'id'>[]; // Deletes these fields (including a legacy plaintext password)
+  ledger?: CreditTransaction[]; // Credit ledger entries for the coins this change moves, written in the same update
+  expect?: Partial<Omit<User, 'id'>>; // Applies only if these fields still hold these values (undefined: missing), checked in a transaction
+}
+
+// Running totals of a user's MCQ results; the results themselves are paged from the mcq_results collection
+export interface McqSummary {
+  tests: number;
+  questions: number;
+  correct: number;
+  timeSeconds: number;
+  lastResultAt?: string;
+}
+
+// Old records still carry a plaintext password until the user's next login migrates them (see Auth)
+export type LegacyUserRecord = User & { password?: string };
+
+export interface ContentEntitlement {
+  id: string; // `${contentKey}::${slot}` (sanitized for DB keys)
+  contentKey: string; // nst_content_* chapter key (or nst_universal_playlist)
+  slot: string; // e.g. PDF_PREMIUM_SCHOOL, PDF_ULTRA, MODULE_2, VIDEO_SCHOOL_0
+  type: 'PDF' | 'MODULE' | 'VIDEO';
+  title: string; // For "My Purchases" display
+  price: number; // Credits paid (0 if granted)
+  purchasedAt: string; // ISO Date
+  source: 'PURCHASE' | 'ADMIN_GRANT';
+}
+
+// CREDIT LEDGER (Append-only, one entry per balance change)
+export type CreditTxnType =
+  | 'OPENING_BALANCE' // Balance before the ledger existed (Admin reconcile)
+  | 'SIGNUP_BONUS'
+  | 'DAILY_LOGIN'
+  | 'DAILY_GOAL'
+  | 'REWARD_CLAIM'
+  | 'INBOX_GIFT'
+  | 'REDEEM_CODE'
+  | 'SPIN_COST'
+  | 'SPIN_WIN'
+  | 'CONTENT_PURCHASE'
+  | 'MCQ_UNLOCK'
+  | 'APP_ACCESS'
+  | 'PROFILE_EDIT'
+  | 'ADMIN_ADJUST'
+  | 'REFUND'
+  | 'REVERSAL';
+
+export interface CreditTransaction {
+  id: string;
+  userId: string;
+  type: CreditTxnType;
+  amount: number; // Signed: +credit / -debit
+  balanceAfter: number;
+  refId?: string; // Code, entitlement id, chapter id, message id...
+  note?: string;
+  actor: 'SELF' | 'SYSTEM' | 'ADMIN';
+  timestamp: string; // ISO
+  reversalOf?: string; // Txn id this entry reverses/refunds
+}
+
+// ACCESS POLICY (Single source of truth for who can open what)
+export type AccessLevel = 'FREE' | 'BASIC' | 'ULTRA';
+
+export type AccessContentKind = 'PDF_FREE' | 'PDF_PREMIUM' | 'PDF_ULTRA' | 'HTML_MODULE' | 'PREMIUM_SLOT' | 'VIDEO' | 'EXTERNAL_APP' | 'LESSON';
+
+export interface AccessContentDescriptor {
+  kind: AccessContentKind;
+  access?: AccessLevel; // Admin-set level. Falls back to the kind's default
+  price?: number; // Credits. Falls back to settings default for the kind
+  syllabusMode?: 'SCHOOL' | 'COMPETITION';
+  contentKey?: string; // nst_content_* key, used for purchase lookup
+  itemId?: string | number; // Module id / video index inside the chapter
+  lessonType?: ContentType; // For kind LESSON (App content flow)
+}
+
+export interface AccessDecision {
+  result: 'ALLOW' | 'PAY' | 'UPGRADE';
+  reason: 'ADMIN' | 'FREE' | 'SUBSCRIPTION' | 'PURCHASED' | 'CREDITS_REQUIRED' | 'SUBSCRIPTION_REQUIRED';
+  message: string;
+  requiredLevel: AccessLevel;
+  cost: number; // Credits to pay (0 unless PAY)
+  canAfford: boolean;
 }
 
 export interface CreditPackage {
@@ -240,6 +364,7 @@ export interface SystemSettings {
 
   // GAME CONFIG
   wheelRewards: SpinReward[]; // Updated to support Objects
+  wheelRewardsByTier?: Partial<Record<AccessLevel, SpinReward[]>>; // Empty/missing tier = wheelRewards
 
   chatCost: number;       // Default 1. If 0, it's free.
   chatCooldownHours?: number; // NEW: Cooldown
@@ -283,7 +408,7 @@ export interface SystemSettings {
   subscriptionPlans?: SubscriptionPlan[]; // List of subscription plans
   
   // WEEKLY TEST CONFIG
-  weeklyTests?: WeeklyTest[]; // List of active weekly tests
+  weeklyTests?: WeeklyTest[]; // LEGACY: tests now live in weekly_tests (answer keys in weekly_test_keys)
   
   sessionStartDate?: string; // NEW: ISO Date for Session Start
 
@@ -350,6 +475,30 @@ export interface SpinReward {
   label: string;
   probability?: number; // Optional weighting
   color?: string; // Optional custom color
+  dailyCap?: number; // Max wins per day across all users (undefined = unlimited)
+  weeklyCap?: number; // Max wins per ISO week across all users
+}
+
+// Global win counters for capped rewards, stored at spin_budget/{rewardId}
+export interface SpinBudgetUsage {
+  day?: { key: string; count: number }; // key = YYYY-MM-DD
+  week?: { key: string; count: number }; // key = YYYY-Www
+}
+
+export interface SpinAuditEntry {
+  id: string;
+  userId: string;
+  userName: string;
+  seed: number; // Replay with pickWeightedReward(rewards without excludedRewardIds, seed)
+  roll: number;
+  rewardId: string;
+  rewardType: SpinReward['type'];
+  rewardValue: number | string;
+  rewardLabel: string;
+  odds: number; // Chance this prize had at spin time
+  cost: number;
+  excludedRewardIds?: string[]; // Capped prizes that sold out during this spin, re-picked without them
+  timestamp: string;
 }
 
 export interface FeaturedItem {
@@ -376,10 +525,38 @@ export interface EngagementReward {
   enabled: boolean;
 }
 
+export type GiftRewardType = 'CREDITS' | 'SUBSCRIPTION' | 'CONTENT';
+
+export interface GiftReward {
+  type: GiftRewardType;
+  amount?: number; // CREDITS
+  tier?: 'WEEKLY' | 'MONTHLY' | 'YEARLY' | 'LIFETIME'; // SUBSCRIPTION
+  level?: 'BASIC' | 'ULTRA';
+  durationHours?: number;
+  contentKey?: string; // CONTENT (same key/slot format as ContentEntitlement)
+  slot?: string;
+  title?: string;
+}
+
+export interface GiftCampaign {
+  id: string;
+  name: string;
+  createdAt: string;
+  createdBy: string;
+  reward: GiftReward;
+  codeCount: number;
+  maxUsesPerCode: number;
+  expiresAt?: string;
+  targetClasses?: ClassLevel[]; // Empty/undefined = everyone
+  targetBoards?: Board[];
+  newUsersOnly?: boolean;
+  newUserDays?: number; // Account age limit for newUsersOnly (Default 7)
+}
+
 export interface GiftCode {
   id: string;
   code: string;
-  amount: number;
+  amount: number; // Credits (legacy codes have no `reward`)
   createdAt: string;
   isRedeemed: boolean;
   redeemedBy?: string | string[]; // User ID or List of User IDs
@@ -387,6 +564,24 @@ export interface GiftCode {
   generatedBy: string; // Admin ID (or name)
   maxUses?: number; // New: Multiple use support
   usedCount?: number; // New: Track usage
+  expiresAt?: string; // ISO date, code stops working after this
+  allowedClasses?: ClassLevel[]; // Empty/undefined = all classes
+  allowedBoards?: Board[];
+  newUsersOnly?: boolean;
+  newUserDays?: number;
+  campaignId?: string;
+  reward?: GiftReward;
+  redemptions?: Record<string, { txnId: string; redeemedAt: string }>; // userId -> credit ledger entry
+}
+
+export type RedeemFailureReason = 'NOT_FOUND' | 'EXPIRED' | 'EXHAUSTED' | 'ALREADY_USED' | 'CLASS_RESTRICTED' | 'BOARD_RESTRICTED' | 'NEW_USERS_ONLY' | 'NETWORK_ERROR';
+
+export interface RedeemResult {
+  ok: boolean;
+  code?: GiftCode; // Set when ok, and with ALREADY_USED (so an unfinished grant can be completed)
+  txnId?: string;
+  reason?: RedeemFailureReason; // Set when !ok
+  user?: User; // Set by claimGiftCode: the user with the reward applied
 }
 
 export interface PendingReward {
@@ -451,15 +646,84 @@ export interface WatermarkConfig {
   rotation: number; // deg
 }
 
+// Marks for one question. `wrong` is the penalty, stored positive (0.25 = minus a quarter mark).
+export interface MarkingRule {
+  correct: number;
+  wrong: number;
+  unattempted?: number; // Default 0
+}
+
+// Overrides for a range of questions (1-based, inclusive)
+export interface MarkingSectionRule extends Partial<MarkingRule> {
+  name: string;
+  fromQuestion: number;
+  toQuestion: number;
+}
+
+export interface MarkingScheme extends MarkingRule {
+  preset?: string; // Key in MARKING_PRESETS, for display only
+  sections?: MarkingSectionRule[];
+}
+
 export interface MCQItem {
+  id?: string; // Bank id, or the Admin position ("q1", "q2"...) for chapter lists; stamped when a test starts
   question: string;
   options: string[];
   correctAnswer: number; // Index 0-3
   explanation: string;
   mnemonic?: string; // Memory Trick
   concept?: string; // Full concept explanation
+  difficulty?: QuestionDifficulty; // Admin-set; otherwise learned from answers (utils/adaptivePractice)
+  tags?: string[]; // Concept tags (bank questions), tracked in chapter mastery
+}
+
+// Everyone's answers to one chapter question (mcq_stats/{chapterId}/{questionKey})
+export interface QuestionAnswerStats {
+  attempts: number;
+  correct: number;
+}
+
+export type MasteryLevel = 'BEGINNER' | 'DEVELOPING' | 'PROFICIENT' | 'MASTERED';
+
+// Running totals with old answers decayed away (see utils/chapterMastery)
+export interface MasteryStat {
+  correct: number;
+  total: number;
+  timeSeconds: number;
+  attempts: number; // Sessions, not decayed
+  lastPracticedAt: string;
+}
+
+export interface ChapterMastery extends MasteryStat {
+  chapterId: string;
+  chapterTitle: string;
+  subjectId: string;
+  subjectName: string;
+  tags?: Record<string, MasteryStat>; // By concept tag
+  ability?: number; // Last adaptive practice estimate, on the question difficulty scale (0 = medium)
+}
+
+// Spaced repetition: one missed (or unsure) question scheduled for revision. Only the key is kept on the user;
+// the question is looked up again when it comes up (loadReviewQuestions in storage.ts).
+export interface ReviewCard {
+  id: string; // Stable per chapter + question text, see getQuestionKey
+  contentKey?: string; // Chapter content (nst_content_...) the question came from
+  item?: MCQItem; // Legacy: cards from before contentKey carried the question itself
+  subjectId: string;
+  subjectName: string;
+  chapterId: string;
+  chapterTitle: string;
+  ease: number; // SM-2 ease factor, min 1.3
+  intervalDays: number;
+  repetitions: number; // Correct reviews in a row
+  lapses: number; // Times answered wrong
+  dueAt: string;
+  addedAt: string;
+  lastReviewedAt?: string;
 }
 
+export type ReviewGrade = 'AGAIN' | 'HARD' | 'GOOD';
+
 // NEW: Performance Analytics
 export type PerformanceTag = 'EXCELLENT' | 'GOOD' | 'BAD' | 'VERY_BAD';
 
@@ -489,7 +753,21 @@ export interface MCQResult {
       qIndex: number;
       selected: number; // -1 if skipped
       correct: number;
+      marks?: number; // Marks this answer earned under the scheme (negative = penalty)
   }[];
+
+  // MARKING (score stays the correct count for older screens)
+  rawScore?: number; // Correct answers x marks per correct, no penalties
+  netScore?: number; // After negative marking
+  maxScore?: number;
+  markingScheme?: MarkingScheme;
+  sectionScores?: SectionScore[];
+  integrityLog?: IntegrityEvent[]; // Proctoring events during the attempt
+  integrityScore?: number;
+
+  // Weekly tests: set by the evaluator, not the client
+  rank?: number;
+  totalParticipants?: number;
 }
 
 export interface LeaderboardEntry {
@@ -500,6 +778,38 @@ export interface LeaderboardEntry {
     total: number;
     date: string;
     topic: string;
+    classLevel?: ClassLevel;
+    board?: Board;
+    subjectScores?: Record<string, number>; // Subject id -> correct answers in it (see getSubjectScores)
+    timeTakenSeconds?: number;
+    source?: 'WEEKLY_TEST';
+}
+
+export type LeaderboardWindow = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'ALL_TIME';
+
+export interface LeaderboardStat {
+    score: number;
+    timeTakenSeconds: number;
+    attempts: number;
+}
+
+// One student's totals for a window and filter bucket (leaderboard/{window}/{periodKey}/{scope}/{uid})
+export interface LeaderboardRow extends LeaderboardStat {
+    userId: string;
+    userName: string;
+    classLevel?: ClassLevel;
+    board?: Board;
+}
+
+// Each combination of filters has its own bucket (see getLeaderboardScope), so ranks inside it are exact
+export interface LeaderboardFilters {
+    classLevel?: ClassLevel;
+    board?: Board;
+    subjectId?: string;
+}
+
+export interface RankedLeaderboardRow extends LeaderboardRow {
+    rank: number;
 }
 
 export interface ActivityLogEntry {
@@ -570,6 +880,8 @@ export interface LessonContent {
   aiImagePrice?: number; // Price for AI Image Notes
   isComingSoon?: boolean; // If content is missing
   userAnswers?: Record<number, number>; // Saved answers for History/Analysis
+  markingScheme?: MarkingScheme; // Chapter test marking (set by Admin in the MCQ editor)
+  poolRules?: QuestionPoolRule[]; // Chapter test drawn from the bank per attempt
 }
 
 export type ViewState = 'BOARDS' | 'CLASSES' | 'STREAMS' | 'SUBJECTS' | 'CHAPTERS' | 'LESSON' | 'ADMIN_DASHBOARD' | 'AUDIO_STUDIO' | 'STUDENT_DASHBOARD' | 'UNIVERSAL_CHAT' | 'RULES' | 'IIC' | 'LEADERBOARD';
@@ -588,6 +900,160 @@ export interface WeeklyTest {
   autoSubmitEnabled?: boolean; // Auto-submit after timeout
   selectedSubjects?: string[]; // Subject IDs included in this test
   selectedChapters?: string[]; // Chapter IDs included in this test (mix from multiple)
+
+  // SCHEDULED WINDOW (all optional, ISO timestamps)
+  opensAt?: string; // Students can start from here
+  closesAt?: string; // Every attempt ends here, results publish after
+  closesAtMs?: number; // Same instant in ms, set on save (the security rules can't read ISO dates)
+  fixedStartAt?: string; // Common start: everyone's timer runs from this time
+  lateEntryMinutes?: number; // No new starts this long after the (common) start
+  resultsPublishedAt?: string; // Set by the evaluator once results and the key are visible
+  markingScheme?: MarkingScheme; // Default: +1 per correct, no penalty
+  sections?: WeeklyTestSection[]; // Empty = one flat list
+  shuffleQuestions?: boolean; // Default on: per-attempt order (within each section)
+  shuffleOptions?: boolean; // Default on
+  poolRules?: QuestionPoolRule[]; // Draw questions from the bank per attempt instead of `questions`
+  poolSeed?: number; // With the student's uid, fixes their draw (see drawWeeklyPool)
+  poolQuestions?: Record<string, string[]>; // Reserved bank question id -> pool rules it matched on create (see snapshotPool)
+  proctoring?: ProctoringConfig;
+}
+
+// --- PROCTORING ---
+export type IntegrityEventType = 'TAB_HIDDEN' | 'FULLSCREEN_EXIT' | 'COPY' | 'PASTE' | 'IDLE';
+
+export interface IntegrityEvent {
+  type: IntegrityEventType;
+  at: string; // ISO
+  durationSeconds?: number; // Time away (TAB_HIDDEN) or idle (IDLE)
+}
+
+export interface ProctoringConfig {
+  maxViolations?: number; // Auto-submit on this many violations, empty = never
+  idleMinutes?: number; // No input this long counts as idle (default 3)
+  requireFullscreen?: boolean; // Ask students to stay in fullscreen
+}
+
+// Named block of consecutive questions (1-based, inclusive)
+export interface WeeklyTestSection {
+  id: string;
+  name: string;
+  fromQuestion: number;
+  toQuestion: number;
+  timeLimitMinutes?: number; // Section locks this long after the student first opens it
+}
+
+export interface SectionScore {
+  sectionId: string;
+  name: string;
+  totalQuestions: number;
+  correctCount: number;
+  wrongCount: number;
+  skippedCount: number;
+  netScore: number;
+  maxScore: number;
+}
+
+// What students can read: questions without the answer key
+export type WeeklyTestQuestion = Pick<MCQItem, 'question' | 'options'>;
+
+export interface PublicWeeklyTest extends Omit<WeeklyTest, 'questions'> {
+  questions: WeeklyTestQuestion[];
+}
+
+// Admin/evaluator only
+export interface WeeklyTestKey {
+  testId: string;
+  answers: number[]; // question index -> correct option index
+  explanations?: string[];
+}
+
+// Raw answers only. The score is never sent by the student.
+export interface TestSubmission {
+  testId: string;
+  userId: string;
+  userName: string;
+  classLevel?: ClassLevel;
+  board?: Board;
+  answers: Record<number, number>; // As displayed: position -> option shown (canonical when no seed)
+  seed?: number; // Attempt order, replay with buildAttemptOrder(test, seed)
+  questionIds?: string[]; // Bank questions drawn for this attempt (pool tests)
+  integrityLog?: IntegrityEvent[];
+  autoSubmitReason?: 'TIME' | 'VIOLATIONS';
+  sectionOpenedAt?: Record<string, number>; // Section id -> when the student first opened it (ms)
+  answeredAt?: Record<number, number>; // Displayed position -> when its answer was last changed (ms)
+  startedAt: string;
+  submittedAt: string; // Device clock, for display and time taken
+  serverSubmittedAt?: number; // Stamped by the database on write; the late-submission cutoff trusts only this
+}
+
+// Official result, written by the evaluator
+export interface WeeklyTestResult {
+  testId: string;
+  testName: string;
+  userId: string;
+  userName: string;
+  classLevel?: ClassLevel;
+  totalQuestions: number;
+  correctCount: number;
+  wrongCount: number;
+  skippedCount: number;
+  score: number; // Net marks, used for ranking
+  rawScore: number;
+  maxScore: number;
+  markingScheme?: MarkingScheme;
+  sectionScores?: SectionScore[];
+  percentage: number;
+  timeTakenSeconds: number;
+  omrData: { qIndex: number; selected: number; correct: number; marks: number }[]; // Canonical indices
+  seed?: number; // Attempt order the student saw
+  questionIds?: string[]; // Pool tests: bank question behind each omrData qIndex
+  integrityScore?: number; // 100 = no violations, see utils/proctoring
+  violationCount?: number;
+  rank: number;
+  totalParticipants: number;
+  submittedAt: string;
+  evaluatedAt: string;
+}
+
+// --- QUESTION BANK ---
+export type QuestionDifficulty = 'EASY' | 'MEDIUM' | 'HARD';
+
+// One editable copy of a question, referenced by id from every test that draws it
+export interface BankQuestion extends MCQItem {
+  id: string;
+  subjectId: string;
+  chapterId: string;
+  chapterTitle?: string;
+  difficulty: QuestionDifficulty;
+  tags: string[];
+  reserved?: boolean; // Weekly tests only: answer never readable by students before results
+  createdAt: string;
+  updatedAt: string;
+}
+
+// What students can read (answer lives in question_bank_keys)
+export type PublicBankQuestion = Omit<BankQuestion, 'correctAnswer' | 'explanation' | 'mnemonic' | 'concept'>;
+
+export interface BankQuestionKey {
+  correctAnswer: number;
+  explanation: string;
+  mnemonic?: string;
+  concept?: string;
+}
+
+export interface QuestionServeStats {
+  served: number; // Times drawn into an attempt
+  lastServedAt?: string;
+}
+
+// "Draw `count` questions of this difficulty from these chapters/tags", evaluated per attempt
+export interface QuestionPoolRule {
+  id: string;
+  count: number;
+  difficulty?: QuestionDifficulty; // Any when empty
+  subjectIds?: string[];
+  chapterIds?: string[];
+  tags?: string[]; // Question needs at least one of these
 }
 
 export interface StudentTestAttempt {
@@ -599,7 +1065,7 @@ export interface StudentTestAttempt {
   answers: Record<number, number>; // question index -> selected answer index
 }
 
-export type StudentTab = 'HOME' | 'COURSES' | 'ROUTINE' | 'CHAT' | 'HISTORY' | 'REDEEM' | 'PREMIUM' | 'GAME' | 'WEEKLY_TEST' | 'PROFILE' | 'LEADERBOARD' | 'STORE' | 'VIDEO' | 'PDF' | 'MCQ' | 'ANALYTICS' | 'PRIZES' | 'REWARDS' | 'UPDATES';
+export type StudentTab = 'HOME' | 'REVISION' | 'COURSES' | 'ROUTINE' | 'CHAT' | 'HISTORY' | 'REDEEM' | 'PREMIUM' | 'GAME' | 'WEEKLY_TEST' | 'PROFILE' | 'LEADERBOARD' | 'STORE' | 'VIDEO' | 'PDF' | 'MCQ' | 'ANALYTICS' | 'PRIZES' | 'REWARDS' | 'UPDATES';
 
 export type Language = 'English' | 'Hindi';
 
@@ -621,3 +1087,115 @@ export interface AppState {
   globalMessage: string | null; // Admin Broadcast
   settings: SystemSettings; // New Global Settings
 }
+
+// --- STORAGE BACKEND (storage.ts picks one from STORAGE_BACKEND) ---
+// 'firebase' is the live database; 'local' keeps everything on this device (IndexedDB, or memory only)
+export type StorageBackendName = 'firebase' | 'local';
+
+export interface AuthAccount {
+  uid: string;
+  email?: string;
+  displayName?: string;
+}
+
+export interface UniversalUpdate {
+  id: string;
+  text: string;
+  type?: string;
+  timestamp: string;
+}
+
+// Every read and write the app makes, implemented once per backend (firebase.ts, localDatabase.ts).
+// Reads resolve empty (null / [] / {}) when they fail; subscribe* return their unsubscribe function.
+export interface StorageRepository {
+  // Connection & Auth (sign-in failures reject with Firebase Auth style codes, e.g. 'auth/invalid-credential')
+  checkConnection: () => boolean;
+  signInWithEmail: (email: string, password: string) => Promise<AuthAccount>;
+  createAccount: (email: string, password: string) => Promise<AuthAccount>;
+  signInAnonymous: () => Promise<AuthAccount>;
+  sendPasswordReset: (email: string) => Promise<boolean>;
+
+  // Users
+  saveUserToLive: (user: any) => Promise<void>;
+  updateUserFields: (userId: string, change: UserUpdate) => Promise<boolean>; // False if nothing was written (failed, or `expect` didn't match)
+  getUserData: (userId: string) => Promise<any>;
+  getUserByEmail: (email: string) => Promise<any>;
+  subscribeToUsers: (callback: (users: any[]) => void) => () => void;
+  subscribeToUser: (userId: string, callback: (user: User | null) => void) => () => void;
+  deleteUser: (userId: string) => Promise<void>;
+  updateUserStatus: (userId: string, time: number) => Promise<void>;
+  saveUserEntitlement: (userId: string, entitlement: any) => Promise<void>;
+  removeUserEntitlement: (userId: string, entitlementId: string) => Promise<void>;
+  appendCreditTransaction: (txn: any) => Promise<void>;
+  getCreditLedger: (userId: string) => Promise<any[]>;
+  subscribeToCreditLedger: (userId: string, callback: (txns: any[]) => void) => () => void;
+
+  // Settings
+  saveSystemSettings: (settings: any) => Promise<void>;
+  subscribeToSettings: (callback: (settings: any) => void) => () => void;
+
+  // Content
+  bulkSaveLinks: (updates: Record<string, any>) => Promise<void>;
+  saveChapterData: (key: string, data: any) => Promise<void>;
+  getChapterData: (key: string) => Promise<any>;
+  subscribeToChapterData: (key: string, callback: (data: any) => void) => () => void;
+  postUniversalUpdate: (update: UniversalUpdate) => Promise<void>;
+  subscribeToUniversalUpdates: (count: number, callback: (updates: UniversalUpdate[]) => void) => () => void; // Oldest first
+  saveBankQuestion: (question: BankQuestion) => Promise<void>;
+  deleteBankQuestion: (questionId: string) => Promise<void>;
+  subscribeToQuestionBank: (callback: (questions: PublicBankQuestion[]) => void) => () => void;
+  getQuestionBank: () => Promise<PublicBankQuestion[]>;
+  getBankQuestions: (ids: string[]) => Promise<Record<string, PublicBankQuestion>>;
+  getBankQuestionKeys: (ids: string[]) => Promise<Record<string, BankQuestionKey>>;
+  recordQuestionsServed: (ids: string[]) => Promise<void>;
+  subscribeToQuestionStats: (callback: (stats: Record<string, QuestionServeStats>) => void) => () => void;
+  recordQuestionAnswers: (chapterId: string, answers: { key: string; correct: boolean }[]) => Promise<void>;
+  getChapterQuestionStats: (chapterId: string) => Promise<Record<string, QuestionAnswerStats>>;
+
+  // Chat (channel: 'universal', `dm/${userId}` or `rooms/${roomId}`)
+  subscribeToChat: (channel: string, count: number, callback: (messages: any[]) => void) => () => void; // Oldest first
+  sendChatMessage: (channel: string, message: any) => Promise<void>;
+
+  // Codes
+  redeemGiftCode: (codeId: string, user: User, txnId: string) => Promise<RedeemResult>;
+  saveGiftCampaign: (campaign: GiftCampaign, codes: GiftCode[]) => Promise<void>;
+  getGiftCampaigns: () => Promise<GiftCampaign[]>;
+  getCampaignCodes: (campaignId: string) => Promise<GiftCode[]>;
+
+  // Spin Wheel
+  logSpinOutcome: (entry: SpinAuditEntry) => Promise<void>;
+  getSpinAudit: (limit?: number) => Promise<SpinAuditEntry[]>;
+  getSpinBudgetUsage: () => Promise<Record<string, SpinBudgetUsage>>;
+  claimSpinBudget: (reward: SpinReward) => Promise<boolean>;
+
+  // Results (weekly tests, leaderboard, prizes, MCQ results)
+  saveWeeklyTest: (test: WeeklyTest) => Promise<void>;
+  deleteWeeklyTest: (testId: string) => Promise<void>;
+  subscribeToWeeklyTests: (callback: (tests: PublicWeeklyTest[]) => void) => () => void;
+  getWeeklyTest: (testId: string) => Promise<PublicWeeklyTest | null>;
+  submitTestAnswers: (submission: TestSubmission) => Promise<boolean>;
+  getTestSubmissions: (testId: string) => Promise<TestSubmission[]>;
+  publishTestResults: (testId: string, results: WeeklyTestResult[], publishedAt: string) => Promise<void>; // Results + publish flag together
+  getTestResults: (testId: string) => Promise<WeeklyTestResult[]>;
+  getPublishedTestKey: (testId: string) => Promise<WeeklyTestKey | null>;
+  subscribeToTestResult: (testId: string, userId: string, callback: (result: WeeklyTestResult | null) => void) => () => void;
+  recordLeaderboardEntry: (entry: LeaderboardEntry) => Promise<void>;
+  subscribeToLeaderboard: (window: LeaderboardWindow, filters: LeaderboardFilters, callback: (rows: LeaderboardRow[]) => void) => () => void;
+  getLeaderboardRank: (window: LeaderboardWindow, filters: LeaderboardFilters, userId: string) => Promise<RankedLeaderboardRow | null>;
+  savePrizeRule: (rule: PrizeRule) => Promise<void>;
+  deletePrizeRule: (ruleId: string) => Promise<void>;
+  subscribeToPrizeRules: (callback: (rules: PrizeRule[]) => void) => () => void;
+  getPrizeRules: () => Promise<PrizeRule[]>;
+  hasPrize: (prizeId: string) => Promise<boolean>;
+  savePrize: (entry: PrizeEntry) => Promise<void>;
+  subscribeToPrizes: (callback: (prizes: PrizeEntry[]) => void) => () => void;
+  saveMcqResults: (userId: string, results: MCQResult[]) => Promise<boolean>;
+  getMcqResultsPage: (userId: string, pageSize: number, before?: string) => Promise<{ results: MCQResult[]; hasMore: boolean }>;
+  getLegacyMcqResults: (userId: string) => Promise<MCQResult[]>;
+  deleteLegacyMcqResults: (userId: string) => Promise<void>;
+
+  // Recovery Requests
+  saveRecoveryRequest: (request: RecoveryRequest) => Promise<void>;
+  subscribeToRecoveryRequests: (callback: (requests: RecoveryRequest[]) => void) => () => void;
+  resolveRecoveryRequest: (requestId: string) => Promise<void>;
+}
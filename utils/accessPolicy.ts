@@ -0,0 +1,166 @@
+import { AccessContentDescriptor, AccessContentKind, AccessDecision, AccessLevel, ContentType, SystemSettings, User } from '../types';
+import { getContentSlot, hasEntitlement } from './entitlements';
+
+const LEVEL_RANK: Record<AccessLevel, number> = { FREE: 0, BASIC: 1, ULTRA: 2 };
+
+// Level needed when the admin hasn't set one on the item.
+// BASIC = MCQ + Notes, ULTRA = PDF + Video (see SubscriptionPlan)
+const DEFAULT_ACCESS: Record<AccessContentKind, AccessLevel> = {
+  PDF_FREE: 'FREE',
+  PDF_PREMIUM: 'ULTRA',
+  PDF_ULTRA: 'ULTRA',
+  HTML_MODULE: 'ULTRA',
+  PREMIUM_SLOT: 'ULTRA',
+  VIDEO: 'ULTRA',
+  EXTERNAL_APP: 'ULTRA',
+  LESSON: 'ULTRA'
+};
+
+// Premium note slots can only be opened with a subscription
+const PURCHASABLE: Record<AccessContentKind, boolean> = {
+  PDF_FREE: true,
+  PDF_PREMIUM: true,
+  PDF_ULTRA: true,
+  HTML_MODULE: true,
+  PREMIUM_SLOT: false,
+  VIDEO: true,
+  EXTERNAL_APP: true,
+  LESSON: true
+};
+
+const BASIC_LESSON_TYPES: ContentType[] = ['MCQ_ANALYSIS', 'MCQ_SIMPLE', 'NOTES_HTML_FREE', 'NOTES_HTML_PREMIUM', 'NOTES_PREMIUM', 'NOTES_SIMPLE'];
+
+export const isSubscriptionActive = (user: User): boolean => {
+  if (!user.isPremium) return false;
+  if (user.subscriptionTier === 'LIFETIME') return true;
+  return !!user.subscriptionEndDate && new Date(user.subscriptionEndDate) > new Date();
+};
+
+type SubscriptionTier = NonNullable<User['subscriptionTier']>;
+const TIER_RANK: Record<SubscriptionTier, number> = { FREE: 0, WEEKLY: 1, MONTHLY: 2, YEARLY: 3, LIFETIME: 4 };
+
+// Subscription fields after granting a plan on top of the user's own: an active plan keeps its higher tier and level,
+// and the granted hours start when it ends (a lifetime plan keeps its end date)
+export const grantSubscription = (user: User, tier: SubscriptionTier, level: 'BASIC' | 'ULTRA', durationHours: number, now: Date = new Date()): Pick<User, 'subscriptionTier' | 'subscriptionLevel' | 'subscriptionEndDate' | 'isPremium'> => {
+  const active = isSubscriptionActive(user);
+  const currentTier = active ? user.subscriptionTier || 'FREE' : 'FREE';
+  const currentLevel = active ? user.subscriptionLevel || 'BASIC' : 'FREE';
+  const start = active && user.subscriptionEndDate ? Math.max(now.getTime(), new Date(user.subscriptionEndDate).getTime()) : now.getTime();
+  return {
+    subscriptionTier: TIER_RANK[currentTier] > TIER_RANK[tier] ? currentTier : tier,
+    subscriptionLevel: LEVEL_RANK[currentLevel] > LEVEL_RANK[level] ? currentLevel as 'BASIC' | 'ULTRA' : level,
+    subscriptionEndDate: currentTier === 'LIFETIME' ? user.subscriptionEndDate : new Date(start + durationHours * 60 * 60 * 1000).toISOString(),
+    isPremium: true
+  };
+};
+
+export const getUserAccessLevel = (user: User): AccessLevel => {
+  if (!isSubscriptionActive(user)) return 'FREE';
+  return user.subscriptionLevel || 'BASIC'; // Default to BASIC if undefined (Legacy)
+};
+
+export const getRequiredLevel = (content: AccessContentDescriptor): AccessLevel => {
+  if (content.access) return content.access;
+  if (content.kind === 'LESSON' && content.lessonType && BASIC_LESSON_TYPES.includes(content.lessonType)) return 'BASIC';
+  return DEFAULT_ACCESS[content.kind];
+};
+
+export const resolvePrice = (content: AccessContentDescriptor, settings?: SystemSettings): number => {
+  if (content.price !== undefined && content.price !== null) return content.price;
+  switch (content.kind) {
+    case 'PDF_PREMIUM': return settings?.defaultPdfCost ?? 5;
+    case 'PDF_ULTRA': return 10;
+    case 'VIDEO': return settings?.defaultVideoCost ?? 5;
+    default: return 0;
+  }
+};
+
+export const evaluateAccess = (user: User, content: AccessContentDescriptor, settings?: SystemSettings): AccessDecision => {
+  const requiredLevel = getRequiredLevel(content);
+  const allow = (reason: AccessDecision['reason'], message: string): AccessDecision => ({
+    result: 'ALLOW', reason, message, requiredLevel, cost: 0, canAfford: true
+  });
+
+  // 1. Admin
+  if (user.role === 'ADMIN') return allow('ADMIN', 'Admin access');
+
+  // 2. Already Purchased
+  const slot = getContentSlot(content);
+  if (content.contentKey && slot && hasEntitlement(user, content.contentKey, slot)) {
+      return allow('PURCHASED', 'Purchased');
+  }
+
+  // 3. Free Content
+  if (requiredLevel === 'FREE') return allow('FREE', 'Free content');
+
+  // 4. Subscription
+  if (LEVEL_RANK[getUserAccessLevel(user)] >= LEVEL_RANK[requiredLevel]) {
+      return allow('SUBSCRIPTION', `Included in your ${getUserAccessLevel(user)} subscription`);
+  }
+
+  // 5. Subscription-only content
+  if (!PURCHASABLE[content.kind]) {
+      return {
+          result: 'UPGRADE',
+          reason: 'SUBSCRIPTION_REQUIRED',
+          message: `🔒 Locked! You need ${requiredLevel} Subscription to access this.`,
+          requiredLevel,
+          cost: 0,
+          canAfford: false
+      };
+  }
+
+  // 6. Pay with Credits (Price 0 = Free, Legacy)
+  const cost = resolvePrice(content, settings);
+  if (cost <= 0) return allow('FREE', 'Free content');
+
+  const canAfford = (user.credits || 0) >= cost;
+  return {
+      result: 'PAY',
+      reason: 'CREDITS_REQUIRED',
+      message: canAfford
+          ? `Unlock for ${cost} coins or get ${requiredLevel} Subscription.`
+          : `Insufficient Credits! You need ${cost} coins (or ${requiredLevel} Subscription).`,
+      requiredLevel,
+      cost,
+      canAfford
+  };
+};
+
+// --- ADMIN PREVIEW (Pricing screen) ---
+export const ACCESS_MATRIX_ROWS: { label: string; content: AccessContentDescriptor }[] = [
+  { label: 'Free PDF', content: { kind: 'PDF_FREE' } },
+  { label: 'Premium PDF', content: { kind: 'PDF_PREMIUM' } },
+  { label: 'Ultra PDF', content: { kind: 'PDF_ULTRA' } },
+  { label: 'HTML Module (FREE)', content: { kind: 'HTML_MODULE', access: 'FREE', price: 5 } },
+  { label: 'HTML Module (BASIC)', content: { kind: 'HTML_MODULE', access: 'BASIC', price: 5 } },
+  { label: 'HTML Module (ULTRA)', content: { kind: 'HTML_MODULE', access: 'ULTRA', price: 5 } },
+  { label: 'Premium Note Slot (BASIC)', content: { kind: 'PREMIUM_SLOT', access: 'BASIC' } },
+  { label: 'Premium Note Slot (ULTRA)', content: { kind: 'PREMIUM_SLOT', access: 'ULTRA' } },
+  { label: 'Video (FREE)', content: { kind: 'VIDEO', access: 'FREE' } },
+  { label: 'Video (BASIC)', content: { kind: 'VIDEO', access: 'BASIC' } },
+  { label: 'Video (ULTRA / Default)', content: { kind: 'VIDEO' } },
+  { label: 'AI Notes / MCQ', content: { kind: 'LESSON', lessonType: 'NOTES_PREMIUM', price: 5 } },
+  { label: 'External App', content: { kind: 'EXTERNAL_APP', price: 5 } }
+];
+
+const previewUser = (level: AccessLevel): User => ({
+  id: `preview-${level}`, name: level, mobile: '', email: '', role: 'STUDENT',
+  createdAt: '', credits: 0, streak: 0, lastLoginDate: '', redeemedCodes: [], progress: {},
+  isPremium: level !== 'FREE',
+  subscriptionTier: level === 'FREE' ? 'FREE' : 'MONTHLY',
+  subscriptionLevel: level === 'FREE' ? undefined : level,
+  subscriptionEndDate: level === 'FREE' ? undefined : new Date(Date.now() + 86400000).toISOString()
+});
+
+// Decision for every row x tier, e.g. matrix[0].cells.BASIC
+export const buildAccessMatrix = (settings?: SystemSettings) => {
+  const levels: AccessLevel[] = ['FREE', 'BASIC', 'ULTRA'];
+  return ACCESS_MATRIX_ROWS.map(row => ({
+    label: row.label,
+    cells: levels.reduce((acc, level) => {
+      acc[level] = evaluateAccess(previewUser(level), row.content, settings);
+      return acc;
+    }, {} as Record<AccessLevel, AccessDecision>)
+  }));
+};
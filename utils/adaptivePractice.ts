@@ -0,0 +1,54 @@
+import { ChapterMastery, MCQItem, QuestionAnswerStats, QuestionDifficulty } from '../types';
+import { hasEnoughData } from './chapterMastery';
+
+// Difficulty and student ability share one scale: 0 = medium, higher = harder / stronger
+const DIFFICULTY_RATINGS: Record<QuestionDifficulty, number> = { EASY: -1, MEDIUM: 0, HARD: 1 };
+const MAX_RATING = 2;
+const ABILITY_STEP = 0.5; // How far one answer moves the estimate
+
+// Learned difficulty needs this many answers before it replaces "medium"
+export const MIN_STATS_ATTEMPTS = 10;
+export const ADAPTIVE_SESSION_LENGTH = 15;
+
+const clampRating = (r: number) => Math.max(-MAX_RATING, Math.min(MAX_RATING, r));
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+
+// Admin-set difficulty wins; otherwise the logit of how often everyone gets it wrong
+export const getQuestionRating = (item: MCQItem, stats?: QuestionAnswerStats): number => {
+  if (item.difficulty) return DIFFICULTY_RATINGS[item.difficulty];
+  if (!stats || stats.attempts < MIN_STATS_ATTEMPTS) return 0;
+  const p = Math.min(0.95, Math.max(0.05, stats.correct / stats.attempts));
+  return clampRating(Math.log((1 - p) / p));
+};
+
+export const ratingToDifficulty = (rating: number): QuestionDifficulty =>
+  rating <= -0.5 ? 'EASY' : rating >= 0.5 ? 'HARD' : 'MEDIUM';
+
+// Elo-style: moves up more for a right answer to a hard question, down more for a miss on an easy one
+export const updateAbility = (ability: number, rating: number, correct: boolean): number => {
+  const expected = sigmoid(ability - rating);
+  return clampRating(ability + ABILITY_STEP * ((correct ? 1 : 0) - expected));
+};
+
+// Unanswered question whose difficulty is nearest the current estimate (random among equals)
+export const pickNextQuestion = (ratings: number[], used: Set<number>, ability: number, random: () => number = Math.random): number => {
+  let best: number[] = [];
+  let bestGap = Infinity;
+  ratings.forEach((r, idx) => {
+    if (used.has(idx)) return;
+    const gap = Math.round(Math.abs(r - ability) * 100);
+    if (gap < bestGap) { bestGap = gap; best = [idx]; }
+    else if (gap === bestGap) best.push(idx);
+  });
+  return best.length ? best[Math.floor(random() * best.length)] : -1;
+};
+
+// Where a session starts: the chapter's last adaptive estimate, else its accuracy on the same scale, else medium.
+// Results go back into chapterMastery (recordChapterAttempt with `ability`), so there is one mastery per chapter.
+export const getStartingAbility = (mastery?: ChapterMastery): number => {
+  if (!mastery) return 0;
+  if (mastery.ability !== undefined) return mastery.ability;
+  if (!hasEnoughData(mastery)) return 0;
+  const p = Math.min(0.95, Math.max(0.05, mastery.correct / mastery.total));
+  return clampRating(Math.log(p / (1 - p)));
+};
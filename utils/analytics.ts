@@ -0,0 +1,137 @@
+import { MCQResult } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ChartPoint {
+  x: number;
+  y: number;
+  label?: string;
+}
+
+export interface ChartSeries {
+  id: string;
+  name: string;
+  points: ChartPoint[];
+}
+
+export interface DayValue {
+  date: Date;
+  label: string;
+  value: number;
+}
+
+export interface TimeOfDayBucket {
+  id: 'MORNING' | 'AFTERNOON' | 'EVENING' | 'NIGHT';
+  label: string;
+  hours: string;
+  tests: number;
+  questions: number;
+  accuracy: number;
+}
+
+export interface PeriodSummary {
+  tests: number;
+  questions: number;
+  accuracy: number;
+  avgSeconds: number;
+  studySeconds: number;
+}
+
+// Time-of-day buckets need this many questions before one can be called "best"
+export const MIN_BUCKET_QUESTIONS = 10;
+
+export const getResultPct = (r: MCQResult) => r.totalQuestions > 0 ? Math.round((r.correctCount / r.totalQuestions) * 100) : 0;
+
+const sortByDate = (history: MCQResult[]) => [...history].sort((a, b) => a.date.localeCompare(b.date));
+
+// One line per subject: score % of each test in date order
+export const getScoreTrend = (history: MCQResult[] = []): ChartSeries[] => {
+  const bySubject = new Map<string, ChartSeries>();
+  sortByDate(history).forEach(r => {
+    const s = bySubject.get(r.subjectId) || { id: r.subjectId, name: r.subjectName, points: [] };
+    s.points.push({ x: new Date(r.date).getTime(), y: getResultPct(r), label: r.chapterTitle });
+    bySubject.set(r.subjectId, s);
+  });
+  return Array.from(bySubject.values());
+};
+
+// One dot per test: seconds per question against score %
+export const getAccuracySpeedPoints = (history: MCQResult[] = []): ChartPoint[] =>
+  history
+    .filter(r => r.totalQuestions > 0)
+    .map(r => ({ x: Math.round(r.averageTimePerQuestion * 10) / 10, y: getResultPct(r), label: `${r.chapterTitle} (${r.subjectName})` }));
+
+// Last `days` calendar days, oldest first; `readSeconds` gets each day's Date.toDateString()
+export const getStudyTimeByDay = (readSeconds: (dateStr: string) => number, days: number = 14, now: Date = new Date()): DayValue[] =>
+  Array.from({ length: days }, (_, i) => {
+    const date = new Date(now.getTime() - (days - 1 - i) * DAY_MS);
+    return {
+      date,
+      label: date.toLocaleDateString(undefined, { day: 'numeric', month: 'short' }),
+      value: Math.max(0, readSeconds(date.toDateString()) || 0)
+    };
+  });
+
+const TIME_OF_DAY: { id: TimeOfDayBucket['id']; label: string; hours: string; from: number; to: number }[] = [
+  { id: 'MORNING', label: 'Morning', hours: '5am-12pm', from: 5, to: 12 },
+  { id: 'AFTERNOON', label: 'Afternoon', hours: '12pm-5pm', from: 12, to: 17 },
+  { id: 'EVENING', label: 'Evening', hours: '5pm-9pm', from: 17, to: 21 },
+  { id: 'NIGHT', label: 'Night', hours: '9pm-5am', from: 21, to: 29 }
+];
+
+// Accuracy by the local hour each test was finished in
+export const getTimeOfDayPerformance = (history: MCQResult[] = []): TimeOfDayBucket[] =>
+  TIME_OF_DAY.map(b => {
+    const inBucket = history.filter(r => {
+      const h = new Date(r.date).getHours();
+      const hour = h < 5 ? h + 24 : h;
+      return hour >= b.from && hour < b.to;
+    });
+    const questions = inBucket.reduce((acc, r) => acc + r.totalQuestions, 0);
+    const correct = inBucket.reduce((acc, r) => acc + r.correctCount, 0);
+    return {
+      id: b.id,
+      label: b.label,
+      hours: b.hours,
+      tests: inBucket.length,
+      questions,
+      accuracy: questions > 0 ? Math.round((correct / questions) * 100) : 0
+    };
+  });
+
+export const getBestTimeOfDay = (buckets: TimeOfDayBucket[]): TimeOfDayBucket | null =>
+  buckets
+    .filter(b => b.questions >= MIN_BUCKET_QUESTIONS)
+    .sort((a, b) => b.accuracy - a.accuracy)[0] || null;
+
+const summarise = (results: MCQResult[], studySeconds: number): PeriodSummary => {
+  const questions = results.reduce((acc, r) => acc + r.totalQuestions, 0);
+  const correct = results.reduce((acc, r) => acc + r.correctCount, 0);
+  const time = results.reduce((acc, r) => acc + r.totalTimeSeconds, 0);
+  return {
+    tests: results.length,
+    questions,
+    accuracy: questions > 0 ? Math.round((correct / questions) * 100) : 0,
+    avgSeconds: questions > 0 ? Math.round((time / questions) * 10) / 10 : 0,
+    studySeconds
+  };
+};
+
+// The last 7 days against the 7 before them (study time from the per-day log, 14 days oldest first)
+export const getWeekComparison = (history: MCQResult[] = [], studyByDay: DayValue[] = [], now: Date = new Date()): { thisWeek: PeriodSummary; lastWeek: PeriodSummary } => {
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  const thisStart = startOfToday - 6 * DAY_MS;
+  const lastStart = thisStart - 7 * DAY_MS;
+  const inRange = (from: number, to: number) => history.filter(r => {
+    const t = new Date(r.date).getTime();
+    return t >= from && t < to;
+  });
+  const studyIn = (from: number, to: number) => studyByDay
+    .filter(d => d.date.getTime() >= from && d.date.getTime() < to)
+    .reduce((acc, d) => acc + d.value, 0);
+  const end = startOfToday + DAY_MS;
+  return {
+    thisWeek: summarise(inRange(thisStart, end), studyIn(thisStart, end)),
+    lastWeek: summarise(inRange(lastStart, thisStart), studyIn(lastStart, thisStart))
+  };
+};
@@ -0,0 +1,144 @@
+import { ChapterMastery, MCQResult, MCQItem, MasteryLevel, MasteryStat } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Old answers count half as much after this many days
+export const MASTERY_HALF_LIFE_DAYS = 30;
+// Below this many (decayed) answers a chapter is shown as "not enough data"
+export const MIN_MASTERY_QUESTIONS = 5;
+
+export interface MasterySource {
+  chapterId: string;
+  chapterTitle: string;
+  subjectId: string;
+  subjectName: string;
+}
+
+export interface MasteryAttempt {
+  correct: number;
+  total: number;
+  timeSeconds: number;
+  answers?: { item: MCQItem; correct: boolean }[]; // Only needed for concept tags
+  ability?: number; // Adaptive practice estimate at the end of the session
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const getDecay = (lastPracticedAt: string | undefined, now: Date): number => {
+  if (!lastPracticedAt) return 1;
+  const days = Math.max(0, (now.getTime() - new Date(lastPracticedAt).getTime()) / DAY_MS);
+  return Math.pow(0.5, days / MASTERY_HALF_LIFE_DAYS);
+};
+
+const foldStat = (stat: MasteryStat | undefined, correct: number, total: number, timeSeconds: number, now: Date): MasteryStat => {
+  const d = getDecay(stat?.lastPracticedAt, now);
+  return {
+    correct: round2((stat?.correct || 0) * d + correct),
+    total: round2((stat?.total || 0) * d + total),
+    timeSeconds: round2((stat?.timeSeconds || 0) * d + timeSeconds),
+    attempts: (stat?.attempts || 0) + 1,
+    lastPracticedAt: now.toISOString()
+  };
+};
+
+// Adds one session to its chapter (and to each concept tag the questions carry)
+export const recordChapterAttempt = (
+  mastery: Record<string, ChapterMastery> = {},
+  source: MasterySource,
+  attempt: MasteryAttempt,
+  now: Date = new Date()
+): Record<string, ChapterMastery> => {
+  const previous = mastery[source.chapterId];
+  const tags = { ...(previous?.tags || {}) };
+  const perTag: Record<string, { correct: number; total: number }> = {};
+  (attempt.answers || []).forEach(a => (a.item.tags || []).forEach(t => {
+    perTag[t] = perTag[t] || { correct: 0, total: 0 };
+    perTag[t].total++;
+    if (a.correct) perTag[t].correct++;
+  }));
+  const timePerQuestion = attempt.total ? attempt.timeSeconds / attempt.total : 0;
+  Object.entries(perTag).forEach(([t, c]) => { tags[t] = foldStat(tags[t], c.correct, c.total, timePerQuestion * c.total, now); });
+  const ability = attempt.ability ?? previous?.ability;
+
+  return {
+    ...mastery,
+    [source.chapterId]: {
+      ...source,
+      ...foldStat(previous, attempt.correct, attempt.total, attempt.timeSeconds, now),
+      ...(Object.keys(tags).length ? { tags } : {}),
+      ...(ability !== undefined ? { ability: round2(ability) } : {})
+    }
+  };
+};
+
+// Accounts from before chapter mastery: rebuild it from the stored results, oldest first
+export const rebuildChapterMastery = (history: MCQResult[] = []): Record<string, ChapterMastery> =>
+  [...history]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .reduce((acc, r) => recordChapterAttempt(
+      acc,
+      { chapterId: r.chapterId, chapterTitle: r.chapterTitle, subjectId: r.subjectId, subjectName: r.subjectName },
+      { correct: r.correctCount, total: r.totalQuestions, timeSeconds: r.totalTimeSeconds },
+      new Date(r.date)
+    ), {} as Record<string, ChapterMastery>);
+
+export const getAccuracy = (stat: MasteryStat) => stat.total > 0 ? Math.round((stat.correct / stat.total) * 100) : 0;
+
+export const getAvgSeconds = (stat: MasteryStat) => stat.total > 0 ? Math.round(stat.timeSeconds / stat.total) : 0;
+
+// 15s or faster per question = full marks for speed, 60s or slower = none
+const getSpeedScore = (stat: MasteryStat) => Math.max(0, Math.min(1, (60 - getAvgSeconds(stat)) / 45));
+
+// 0-100: mostly accuracy, some speed, fading towards half when not practised (3/4 after one half-life)
+export const getMasteryScore = (stat: MasteryStat, now: Date = new Date()): number => {
+  if (stat.total <= 0) return 0;
+  const base = 0.8 * (stat.correct / stat.total) + 0.2 * getSpeedScore(stat);
+  const recency = 0.5 + 0.5 * getDecay(stat.lastPracticedAt, now);
+  return Math.round(base * recency * 100);
+};
+
+export const hasEnoughData = (stat: MasteryStat) => stat.total >= MIN_MASTERY_QUESTIONS;
+
+export const MASTERY_LEVEL_LABELS: Record<MasteryLevel, string> = {
+  BEGINNER: 'Beginner',
+  DEVELOPING: 'Developing',
+  PROFICIENT: 'Proficient',
+  MASTERED: 'Mastered'
+};
+
+// Same bands as the heatmap colours (getMasteryTone)
+export const getMasteryLevel = (score: number): MasteryLevel =>
+  score >= 75 ? 'MASTERED' : score >= 55 ? 'PROFICIENT' : score >= 35 ? 'DEVELOPING' : 'BEGINNER';
+
+export const getWeakestChapters = (mastery: Record<string, ChapterMastery> = {}, count: number = 3, now: Date = new Date()): ChapterMastery[] =>
+  Object.values(mastery)
+    .filter(hasEnoughData)
+    .sort((a, b) => getMasteryScore(a, now) - getMasteryScore(b, now))
+    .slice(0, count);
+
+// Weakest concept tags of a chapter (for "focus on" hints)
+export const getWeakTags = (chapter: ChapterMastery, count: number = 2): string[] =>
+  Object.entries(chapter.tags || {})
+    .filter(([, s]) => s.total >= 2)
+    .sort((a, b) => a[1].correct / a[1].total - b[1].correct / b[1].total)
+    .slice(0, count)
+    .map(([t]) => t);
+
+export const groupBySubject = (mastery: Record<string, ChapterMastery> = {}): { subjectId: string; subjectName: string; chapters: ChapterMastery[] }[] => {
+  const groups = new Map<string, { subjectId: string; subjectName: string; chapters: ChapterMastery[] }>();
+  Object.values(mastery).forEach(c => {
+    const g = groups.get(c.subjectId) || { subjectId: c.subjectId, subjectName: c.subjectName, chapters: [] };
+    g.chapters.push(c);
+    groups.set(c.subjectId, g);
+  });
+  return Array.from(groups.values());
+};
+
+// Tailwind colour for a heatmap tile
+export const getMasteryTone = (score: number, enoughData: boolean = true): string => {
+  if (!enoughData) return 'bg-slate-100 text-slate-500 border-slate-200';
+  if (score >= 75) return 'bg-green-500 text-white border-green-600';
+  if (score >= 55) return 'bg-lime-300 text-lime-900 border-lime-400';
+  if (score >= 35) return 'bg-amber-300 text-amber-900 border-amber-400';
+  return 'bg-red-400 text-white border-red-500';
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { CreditTransaction, User } from '../types';
+import { applyCreditChange, buildOpeningTransaction, deriveBalance, isReversed, newTxnId, reverseCreditTransaction, sortLedger } from './creditLedger';
+
+const makeUser = (overrides: Partial<User> = {}): User => ({
+  id: 'u1', name: 'Asha', mobile: '', email: 'asha@example.com', role: 'STUDENT', createdAt: '2026-10-18T08:00:00Z',
+  credits: 10, streak: 0, lastLoginDate: '', redeemedCodes: [], progress: {},
+  ...overrides
+});
+
+describe('applyCreditChange', () => {
+  it('moves the balance and records the entry with the balance after it', () => {
+    const { user, txn } = applyCreditChange(makeUser(), -4, 'SPIN_COST');
+    expect(user.credits).toBe(6);
+    expect(txn).toMatchObject({ userId: 'u1', type: 'SPIN_COST', amount: -4, balanceAfter: 6, actor: 'SELF' });
+  });
+
+  it('returns the field-level write: the coins as an increment with the entry in the same update', () => {
+    const { txn, change } = applyCreditChange(makeUser(), -4, 'SPIN_COST');
+    expect(change).toEqual({ increment: { credits: -4 }, ledger: [txn] });
+  });
+
+  it('keeps the reference, note and actor it is given', () => {
+    const { txn } = applyCreditChange(makeUser(), 5, 'INBOX_GIFT', { refId: 'msg-1', note: 'Welcome', actor: 'ADMIN' });
+    expect(txn).toMatchObject({ refId: 'msg-1', note: 'Welcome', actor: 'ADMIN' });
+  });
+
+  it('uses an id generated ahead of time, so another record can point at the entry', () => {
+    const id = newTxnId();
+    expect(applyCreditChange(makeUser(), 5, 'REDEEM_CODE', { id }).txn.id).toBe(id);
+    expect(newTxnId()).not.toBe(id);
+  });
+});
+
+describe('buildOpeningTransaction', () => {
+  it('records the whole current balance from zero', () => {
+    expect(buildOpeningTransaction(makeUser({ credits: 42 }), 'SIGNUP_BONUS', 'Signup Bonus'))
+      .toMatchObject({ type: 'SIGNUP_BONUS', amount: 42, balanceAfter: 42, actor: 'SYSTEM', note: 'Signup Bonus' });
+  });
+});
+
+describe('reverseCreditTransaction', () => {
+  it('refunds a debit and reverses a credit, linked to the original', () => {
+    const user = makeUser();
+    const debit = applyCreditChange(user, -3, 'CONTENT_PURCHASE', { refId: 'pdf-1' });
+    const refund = reverseCreditTransaction(debit.user, debit.txn);
+    expect(refund.user.credits).toBe(10);
+    expect(refund.txn).toMatchObject({ type: 'REFUND', amount: 3, reversalOf: debit.txn.id, refId: 'pdf-1', actor: 'ADMIN' });
+
+    const credit = applyCreditChange(user, 5, 'REDEEM_CODE');
+    expect(reverseCreditTransaction(credit.user, credit.txn).txn).toMatchObject({ type: 'REVERSAL', amount: -5 });
+  });
+});
+
+describe('ledger reads', () => {
+  const entry = (id: string, amount: number, timestamp: string, reversalOf?: string): CreditTransaction =>
+    ({ id, userId: 'u1', type: 'ADMIN_ADJUST', amount, balanceAfter: 0, actor: 'ADMIN', timestamp, reversalOf });
+  const txns = [entry('a', 10, '2026-10-01T00:00:00Z'), entry('b', -4, '2026-10-03T00:00:00Z'), entry('c', 4, '2026-10-02T00:00:00Z', 'b')];
+
+  it('derives the balance from the entries', () => {
+    expect(deriveBalance(txns)).toBe(10);
+    expect(deriveBalance([])).toBe(0);
+  });
+
+  it('finds reversed entries', () => {
+    expect(isReversed(txns, 'b')).toBe(true);
+    expect(isReversed(txns, 'a')).toBe(false);
+  });
+
+  it('sorts newest first without changing the input', () => {
+    expect(sortLedger(txns).map(t => t.id)).toEqual(['b', 'c', 'a']);
+    expect(txns.map(t => t.id)).toEqual(['a', 'b', 'c']);
+  });
+});
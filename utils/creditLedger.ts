@@ -0,0 +1,78 @@
+import { CreditTransaction, CreditTxnType, User, UserUpdate } from '../types';
+
+export const CREDIT_TXN_LABELS: Record<CreditTxnType, string> = {
+  OPENING_BALANCE: 'Opening Balance',
+  SIGNUP_BONUS: 'Signup Bonus',
+  DAILY_LOGIN: 'Daily Login Bonus',
+  DAILY_GOAL: 'Daily Study Goal',
+  REWARD_CLAIM: 'Reward Claimed',
+  INBOX_GIFT: 'Gift from Admin',
+  REDEEM_CODE: 'Gift Code',
+  SPIN_COST: 'Spin Wheel Entry',
+  SPIN_WIN: 'Spin Wheel Win',
+  CONTENT_PURCHASE: 'Content Unlock',
+  MCQ_UNLOCK: 'MCQ Unlock',
+  APP_ACCESS: 'App Access',
+  PROFILE_EDIT: 'Profile Edit',
+  ADMIN_ADJUST: 'Admin Adjustment',
+  REFUND: 'Refund',
+  REVERSAL: 'Reversal'
+};
+
+interface CreditChangeMeta {
+  id?: string; // Pre-generated with newTxnId when another record must point at this entry
+  refId?: string;
+  note?: string;
+  actor?: CreditTransaction['actor'];
+  reversalOf?: string;
+}
+
+export const newTxnId = (): string => `txn-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+// Applies a signed credit change and returns the matching ledger entry, plus the field-level write that
+// moves the coins and records `txn` together (spread it into a bigger UserUpdate when other fields change too).
+export const applyCreditChange = (user: User, amount: number, type: CreditTxnType, meta: CreditChangeMeta = {}): { user: User; txn: CreditTransaction; change: UserUpdate } => {
+  const balanceAfter = (user.credits || 0) + amount;
+  const txn: CreditTransaction = {
+    id: meta.id || newTxnId(),
+    userId: user.id,
+    type,
+    amount,
+    balanceAfter,
+    refId: meta.refId,
+    note: meta.note,
+    actor: meta.actor || 'SELF',
+    timestamp: new Date().toISOString(),
+    reversalOf: meta.reversalOf
+  };
+  return { user: { ...user, credits: balanceAfter }, txn, change: { increment: { credits: amount }, ledger: [txn] } };
+};
+
+// Entry for credits a user already holds (new accounts, balances from before the ledger)
+export const buildOpeningTransaction = (user: User, type: CreditTxnType = 'OPENING_BALANCE', note?: string): CreditTransaction => {
+  return applyCreditChange({ ...user, credits: 0 }, user.credits || 0, type, { note, actor: 'SYSTEM' }).txn;
+};
+
+// Refund of a debit / reversal of a credit, linked to the original entry
+export const reverseCreditTransaction = (user: User, original: CreditTransaction, note?: string) => {
+  return applyCreditChange(user, -original.amount, original.amount < 0 ? 'REFUND' : 'REVERSAL', {
+    refId: original.refId,
+    note: note || `${original.amount < 0 ? 'Refund' : 'Reversal'} of ${CREDIT_TXN_LABELS[original.type]}`,
+    actor: 'ADMIN',
+    reversalOf: original.id
+  });
+};
+
+// Balance is the sum of all entries (settles disputes)
+export const deriveBalance = (txns: CreditTransaction[]): number => {
+  return txns.reduce((sum, t) => sum + (Number(t.amount) || 0), 0);
+};
+
+export const isReversed = (txns: CreditTransaction[], txnId: string): boolean => {
+  return txns.some(t => t.reversalOf === txnId);
+};
+
+// Newest first
+export const sortLedger = (txns: CreditTransaction[]): CreditTransaction[] => {
+  return [...txns].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+};
@@ -0,0 +1,17 @@
+export const csvCell = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`;
+
+export const toCsv = (rows: (string | number)[][]): string => rows.map(r => r.map(csvCell).join(',')).join('\n');
+
+export const safeFileName = (name: string) => name.replace(/[^a-z0-9]+/gi, '_');
+
+export const downloadCsv = (csv: string, fileName: string) => {
+  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+};
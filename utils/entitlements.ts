@@ -0,0 +1,72 @@
+import { AccessContentDescriptor, ContentEntitlement, User } from '../types';
+
+// Same key format the Admin uses when saving chapter content
+export const getContentKey = (board: string, classLevel: string, stream: string | null, subjectName: string, chapterId: string): string => {
+  if (chapterId === 'UNIVERSAL') return 'nst_universal_playlist';
+  const streamKey = (classLevel === '11' || classLevel === '12') && stream ? `-${stream}` : '';
+  return `nst_content_${board}_${classLevel}${streamKey}_${subjectName}_${chapterId}`;
+};
+
+// RTDB keys cannot contain . # $ / [ ] (Firestore field paths also break on '.')
+export const getEntitlementId = (contentKey: string, slot: string): string => {
+  return `${contentKey}::${slot}`.replace(/[.#$/\[\]]/g, '_');
+};
+
+// Slot naming inside a chapter. Returns null for content that can't be bought (subscription-only)
+export const getContentSlot = (content: AccessContentDescriptor): string | null => {
+  const mode = content.syllabusMode || 'SCHOOL';
+  switch (content.kind) {
+    case 'PDF_PREMIUM': return `PDF_PREMIUM_${mode}`;
+    case 'PDF_ULTRA': return 'PDF_ULTRA';
+    case 'HTML_MODULE': return `MODULE_${content.itemId}`;
+    case 'VIDEO': return `VIDEO_${mode}_${content.itemId}`;
+    default: return null;
+  }
+};
+
+export const getEntitlementType = (content: AccessContentDescriptor): ContentEntitlement['type'] => {
+  if (content.kind === 'VIDEO') return 'VIDEO';
+  if (content.kind === 'HTML_MODULE') return 'MODULE';
+  return 'PDF';
+};
+
+export const hasEntitlement = (user: User, contentKey: string, slot: string): boolean => {
+  return !!user.entitlements?.[getEntitlementId(contentKey, slot)];
+};
+
+export const createEntitlement = (
+  contentKey: string,
+  slot: string,
+  type: ContentEntitlement['type'],
+  title: string,
+  price: number,
+  source: ContentEntitlement['source'] = 'PURCHASE'
+): ContentEntitlement => ({
+  id: getEntitlementId(contentKey, slot),
+  contentKey,
+  slot,
+  type,
+  title,
+  price,
+  purchasedAt: new Date().toISOString(),
+  source
+});
+
+// Returns a copy of the user with the entitlement added
+export const withEntitlement = (user: User, entitlement: ContentEntitlement): User => ({
+  ...user,
+  entitlements: { ...(user.entitlements || {}), [entitlement.id]: entitlement }
+});
+
+// Returns a copy of the user without the entitlement
+export const withoutEntitlement = (user: User, entitlementId: string): User => {
+  const { [entitlementId]: _removed, ...rest } = user.entitlements || {};
+  return { ...user, entitlements: rest };
+};
+
+// Newest first, for "My Purchases"
+export const listEntitlements = (user: User): ContentEntitlement[] => {
+  return Object.values(user.entitlements || {}).sort(
+    (a, b) => new Date(b.purchasedAt).getTime() - new Date(a.purchasedAt).getTime()
+  );
+};
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { GiftCampaign, GiftCode, User } from '../types';
+import { applyGiftReward, applyRedemption, buildCampaignCodes, campaignCodesToCsv, checkGiftCodeEligibility, getCampaignStats, getRedeemedByList } from './giftCodes';
+
+const NOW = new Date('2026-10-19T08:00:00Z');
+
+const makeUser = (overrides: Partial<User> = {}): User => ({
+  id: 'u1', name: 'Asha', mobile: '', email: 'asha@example.com', role: 'STUDENT', createdAt: '2026-10-18T08:00:00Z',
+  credits: 10, streak: 0, lastLoginDate: '', redeemedCodes: [], progress: {}, classLevel: '10', board: 'CBSE',
+  ...overrides
+});
+
+const makeCode = (overrides: Partial<GiftCode> = {}): GiftCode => ({
+  id: 'g1', code: 'CODE1', amount: 5, createdAt: '2026-10-01T00:00:00Z', isRedeemed: false, generatedBy: 'admin',
+  ...overrides
+});
+
+describe('checkGiftCodeEligibility', () => {
+  it('accepts a fresh code', () => {
+    expect(checkGiftCodeEligibility(makeCode(), makeUser(), NOW)).toBeNull();
+  });
+
+  it('names the reason a code is refused', () => {
+    const user = makeUser();
+    expect(checkGiftCodeEligibility(makeCode({ expiresAt: '2026-10-18T00:00:00Z' }), user, NOW)).toBe('EXPIRED');
+    expect(checkGiftCodeEligibility(makeCode({ redeemedBy: 'u1' }), user, NOW)).toBe('ALREADY_USED');
+    expect(checkGiftCodeEligibility(makeCode({ maxUses: 2, usedCount: 2 }), user, NOW)).toBe('EXHAUSTED');
+    expect(checkGiftCodeEligibility(makeCode({ allowedClasses: ['12'] }), user, NOW)).toBe('CLASS_RESTRICTED');
+    expect(checkGiftCodeEligibility(makeCode({ allowedBoards: ['BSEB'] }), user, NOW)).toBe('BOARD_RESTRICTED');
+    expect(checkGiftCodeEligibility(makeCode({ newUsersOnly: true }), makeUser({ createdAt: '2026-09-01T00:00:00Z' }), NOW)).toBe('NEW_USERS_ONLY');
+    expect(checkGiftCodeEligibility(makeCode({ newUsersOnly: true, newUserDays: 60 }), makeUser({ createdAt: '2026-09-01T00:00:00Z' }), NOW)).toBeNull();
+  });
+});
+
+describe('applyRedemption', () => {
+  it('records the user and ledger id, and closes the code at its last use', () => {
+    const once = applyRedemption(makeCode({ maxUses: 2 }), 'u1', 'txn-1');
+    expect(once).toMatchObject({ usedCount: 1, isRedeemed: false, redeemedBy: ['u1'] });
+    expect(once.redemptions?.u1.txnId).toBe('txn-1');
+    const twice = applyRedemption(once, 'u2', 'txn-2');
+    expect(twice).toMatchObject({ usedCount: 2, isRedeemed: true, redeemedBy: ['u1', 'u2'] });
+    expect(checkGiftCodeEligibility(twice, makeUser({ id: 'u3' }), NOW)).toBe('EXHAUSTED');
+  });
+
+  it('reads the legacy single id and RTDB object forms of redeemedBy', () => {
+    expect(getRedeemedByList(makeCode({ redeemedBy: 'u9' }))).toEqual(['u9']);
+    expect(getRedeemedByList(makeCode({ redeemedBy: { 0: 'u1', 1: 'u2' } as unknown as string[] }))).toEqual(['u1', 'u2']);
+  });
+});
+
+describe('applyGiftReward', () => {
+  it('adds the credits of a legacy code with the stored ledger id', () => {
+    const { user, txn } = applyGiftReward(makeUser(), makeCode(), 'txn-1');
+    expect(user.credits).toBe(15);
+    expect(txn).toMatchObject({ id: 'txn-1', amount: 5, balanceAfter: 15, type: 'REDEEM_CODE', refId: 'CODE1' });
+  });
+
+  it('grants a subscription without a ledger entry', () => {
+    const code = makeCode({ reward: { type: 'SUBSCRIPTION', tier: 'MONTHLY', level: 'ULTRA', durationHours: 24 } });
+    const { user, txn } = applyGiftReward(makeUser(), code, 'txn-1');
+    expect(txn).toBeNull();
+    expect(user).toMatchObject({ subscriptionTier: 'MONTHLY', subscriptionLevel: 'ULTRA', isPremium: true, grantedByAdmin: true, credits: 10 });
+  });
+
+  it('starts granted hours when an active subscription ends', () => {
+    const endDate = new Date(Date.now() + 48 * 3600000).toISOString();
+    const code = makeCode({ reward: { type: 'SUBSCRIPTION', tier: 'WEEKLY', level: 'BASIC', durationHours: 24 } });
+    const { user } = applyGiftReward(makeUser({ isPremium: true, subscriptionTier: 'WEEKLY', subscriptionLevel: 'BASIC', subscriptionEndDate: endDate }), code, 'txn-1');
+    expect(new Date(user.subscriptionEndDate!).getTime()).toBe(new Date(endDate).getTime() + 24 * 3600000);
+  });
+
+  it('keeps a higher active tier and level instead of downgrading it', () => {
+    const endDate = new Date(Date.now() + 300 * 86400000).toISOString();
+    const code = makeCode({ reward: { type: 'SUBSCRIPTION', tier: 'WEEKLY', level: 'BASIC', durationHours: 24 } });
+    const { user } = applyGiftReward(makeUser({ isPremium: true, subscriptionTier: 'YEARLY', subscriptionLevel: 'ULTRA', subscriptionEndDate: endDate }), code, 'txn-1');
+    expect(user).toMatchObject({ subscriptionTier: 'YEARLY', subscriptionLevel: 'ULTRA' });
+    expect(new Date(user.subscriptionEndDate!).getTime()).toBe(new Date(endDate).getTime() + 24 * 3600000);
+  });
+
+  it('grants content as a free entitlement', () => {
+    const code = makeCode({ reward: { type: 'CONTENT', contentKey: 'nst_content_ch1', slot: 'VIDEO_SCHOOL_0', title: 'Light' } });
+    const { user, entitlement, txn } = applyGiftReward(makeUser(), code, 'txn-1');
+    expect(txn).toBeNull();
+    expect(entitlement).toMatchObject({ type: 'VIDEO', price: 0, source: 'ADMIN_GRANT' });
+    expect(user.entitlements?.[entitlement!.id]).toEqual(entitlement);
+  });
+});
+
+describe('campaigns', () => {
+  const campaign: GiftCampaign = {
+    id: 'c1', name: 'Diwali', createdAt: '2026-10-01T00:00:00Z', createdBy: 'admin', codeCount: 3, maxUsesPerCode: 2,
+    reward: { type: 'CREDITS', amount: 7 }, targetClasses: ['10']
+  };
+
+  it('builds unique codes that carry the campaign rules', () => {
+    const codes = buildCampaignCodes(campaign);
+    expect(new Set(codes.map(c => c.code)).size).toBe(3);
+    codes.forEach(c => expect(c).toMatchObject({ amount: 7, maxUses: 2, allowedClasses: ['10'], campaignId: 'c1', usedCount: 0 }));
+  });
+
+  it('counts redemptions against the campaign capacity and exports them', () => {
+    const [a, b, c] = buildCampaignCodes(campaign);
+    const codes = [applyRedemption(applyRedemption(a, 'u1', 't1'), 'u2', 't2'), applyRedemption(b, 'u3', 't3'), c];
+    expect(getCampaignStats(campaign, codes)).toMatchObject({ codes: 3, redemptions: 3, capacity: 6, fullyRedeemed: 1, unused: 1, redemptionRate: 50 });
+    const csv = campaignCodesToCsv(campaign, codes).split('\n');
+    expect(csv).toHaveLength(4);
+    expect(csv[1]).toContain('FULLY_REDEEMED');
+    expect(csv[1]).toContain('u1 u2');
+  });
+});
@@ -0,0 +1,152 @@
+import { ContentEntitlement, CreditTransaction, GiftCampaign, GiftCode, GiftReward, RedeemFailureReason, User } from '../types';
+import { applyCreditChange } from './creditLedger';
+import { createEntitlement, withEntitlement } from './entitlements';
+import { grantSubscription } from './accessPolicy';
+import { toCsv } from './csv';
+
+export const REDEEM_FAILURE_MESSAGES: Record<RedeemFailureReason, string> = {
+  NOT_FOUND: 'Invalid Code. Please check and try again.',
+  EXPIRED: 'This code has expired.',
+  EXHAUSTED: 'This code has reached its maximum usage limit.',
+  ALREADY_USED: 'You have already used this code.',
+  CLASS_RESTRICTED: 'This code is not valid for your class.',
+  BOARD_RESTRICTED: 'This code is not valid for your board.',
+  NEW_USERS_ONLY: 'This code is only for new students.',
+  NETWORK_ERROR: 'Connection Error. Please try again.'
+};
+
+// RTDB stores arrays as objects, legacy codes store a single user id
+export const getRedeemedByList = (code: GiftCode): string[] => {
+  if (Array.isArray(code.redeemedBy)) return code.redeemedBy;
+  if (code.redeemedBy && typeof code.redeemedBy === 'object') return Object.values(code.redeemedBy as Record<string, string>);
+  return code.redeemedBy ? [code.redeemedBy] : [];
+};
+
+// Null = user may redeem. Runs inside the redeem transaction, so it must stay pure.
+export const checkGiftCodeEligibility = (code: GiftCode, user: User, now: Date = new Date()): RedeemFailureReason | null => {
+  if (code.expiresAt && new Date(code.expiresAt) < now) return 'EXPIRED';
+  if (getRedeemedByList(code).includes(user.id) || code.redemptions?.[user.id]) return 'ALREADY_USED';
+  if (code.isRedeemed) return 'EXHAUSTED';
+  if ((code.usedCount || 0) >= (code.maxUses || 1)) return 'EXHAUSTED';
+  if (code.allowedClasses?.length && (!user.classLevel || !code.allowedClasses.includes(user.classLevel))) return 'CLASS_RESTRICTED';
+  if (code.allowedBoards?.length && (!user.board || !code.allowedBoards.includes(user.board))) return 'BOARD_RESTRICTED';
+  if (code.newUsersOnly) {
+    const ageMs = now.getTime() - new Date(user.createdAt).getTime();
+    if (!user.createdAt || ageMs > (code.newUserDays || 7) * 24 * 60 * 60 * 1000) return 'NEW_USERS_ONLY';
+  }
+  return null;
+};
+
+// The code after one more redemption by `userId`
+export const applyRedemption = (code: GiftCode, userId: string, txnId: string): GiftCode => {
+  const usedCount = (code.usedCount || 0) + 1;
+  return {
+    ...code,
+    usedCount,
+    isRedeemed: usedCount >= (code.maxUses || 1),
+    redeemedBy: [...getRedeemedByList(code), userId],
+    redeemedDate: new Date().toISOString(),
+    redemptions: { ...(code.redemptions || {}), [userId]: { txnId, redeemedAt: new Date().toISOString() } }
+  };
+};
+
+// Legacy codes only carry a credit `amount`
+export const getGiftReward = (code: GiftCode): GiftReward => {
+  return code.reward || { type: 'CREDITS', amount: code.amount };
+};
+
+export const describeGiftReward = (reward: GiftReward): string => {
+  if (reward.type === 'SUBSCRIPTION') return `${reward.tier} ${reward.level} (${reward.durationHours || 0}h)`;
+  if (reward.type === 'CONTENT') return reward.title || reward.slot || 'Content';
+  return `${reward.amount || 0} Credits`;
+};
+
+// Gives the user what the code is worth. `txnId` is the id already stored on the code's redemption record.
+export const applyGiftReward = (user: User, code: GiftCode, txnId: string): { user: User; txn: CreditTransaction | null; entitlement: ContentEntitlement | null } => {
+  const reward = getGiftReward(code);
+
+  if (reward.type === 'SUBSCRIPTION') {
+    // Stacks on an active subscription instead of cutting it short or downgrading it
+    return {
+      user: {
+        ...user,
+        ...grantSubscription(user, reward.tier || 'WEEKLY', reward.level || 'BASIC', reward.durationHours || 24),
+        grantedByAdmin: true
+      },
+      txn: null,
+      entitlement: null
+    };
+  }
+
+  if (reward.type === 'CONTENT' && reward.contentKey && reward.slot) {
+    const type: ContentEntitlement['type'] = reward.slot.startsWith('VIDEO_') ? 'VIDEO' : reward.slot.startsWith('MODULE_') ? 'MODULE' : 'PDF';
+    const entitlement = createEntitlement(reward.contentKey, reward.slot, type, reward.title || reward.slot, 0, 'ADMIN_GRANT');
+    return { user: withEntitlement(user, entitlement), txn: null, entitlement };
+  }
+
+  const change = applyCreditChange(user, reward.amount || 0, 'REDEEM_CODE', { id: txnId, refId: code.code, note: code.campaignId ? `Campaign ${code.campaignId}` : undefined });
+  return { user: change.user, txn: change.txn, entitlement: null };
+};
+
+const CODE_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+// 20-char random mixed case string
+export const generateCodeString = (): string => {
+  let code = '';
+  for (let j = 0; j < 20; j++) {
+    code += CODE_CHARS.charAt(Math.floor(Math.random() * CODE_CHARS.length));
+  }
+  return code;
+};
+
+// Codes carry a copy of the campaign rules so redemption never needs a second read
+export const buildCampaignCodes = (campaign: GiftCampaign): GiftCode[] => {
+  return Array.from({ length: campaign.codeCount }, (_, i) => ({
+    id: `${campaign.id}-${i}`,
+    code: generateCodeString(),
+    amount: campaign.reward.type === 'CREDITS' ? (campaign.reward.amount || 0) : 0,
+    createdAt: campaign.createdAt,
+    isRedeemed: false,
+    generatedBy: campaign.createdBy,
+    maxUses: campaign.maxUsesPerCode,
+    usedCount: 0,
+    redeemedBy: [],
+    expiresAt: campaign.expiresAt,
+    allowedClasses: campaign.targetClasses,
+    allowedBoards: campaign.targetBoards,
+    newUsersOnly: campaign.newUsersOnly,
+    newUserDays: campaign.newUserDays,
+    campaignId: campaign.id,
+    reward: campaign.reward
+  }));
+};
+
+export const getCampaignStats = (campaign: GiftCampaign, codes: GiftCode[]) => {
+  const totalUses = codes.reduce((sum, c) => sum + (c.usedCount || 0), 0);
+  const capacity = codes.length * (campaign.maxUsesPerCode || 1);
+  return {
+    codes: codes.length,
+    redemptions: totalUses,
+    capacity,
+    fullyRedeemed: codes.filter(c => c.isRedeemed).length,
+    unused: codes.filter(c => !c.usedCount).length,
+    redemptionRate: capacity ? Math.round((totalUses / capacity) * 100) : 0,
+    isExpired: !!campaign.expiresAt && new Date(campaign.expiresAt) < new Date()
+  };
+};
+
+export const campaignCodesToCsv = (campaign: GiftCampaign, codes: GiftCode[]): string => {
+  const header = ['Campaign', 'Code', 'Reward', 'Used', 'Max Uses', 'Status', 'Expires', 'Redeemed By', 'Last Redeemed'];
+  const rows = codes.map(c => [
+    campaign.name,
+    c.code,
+    describeGiftReward(getGiftReward(c)),
+    c.usedCount || 0,
+    c.maxUses || 1,
+    c.isRedeemed ? 'FULLY_REDEEMED' : (c.usedCount ? 'PARTIAL' : 'UNUSED'),
+    c.expiresAt || '',
+    getRedeemedByList(c).join(' '),
+    c.redeemedDate || ''
+  ]);
+  return toCsv([header, ...rows]);
+};
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { LeaderboardEntry, LeaderboardRow, PublicBankQuestion, PublicWeeklyTest, WeeklyTestResult } from '../types';
+import { LEADERBOARD_WINDOWS, buildLeaderboardUpdates, getLeaderboardPath, getLeaderboardScope, getOwnRank, getPeriodKey, getSubjectScores, rankLeaderboard } from './leaderboard';
+
+const row = (userId: string, score: number, timeTakenSeconds: number, overrides: Partial<LeaderboardRow> = {}): LeaderboardRow =>
+  ({ userId, userName: userId, score, timeTakenSeconds, attempts: 1, ...overrides });
+
+describe('getPeriodKey', () => {
+  it('buckets by UTC day, ISO week and month', () => {
+    const date = new Date(Date.UTC(2026, 0, 1, 12)); // Thursday, week 1 of 2026
+    expect(getPeriodKey('DAILY', date)).toBe('2026-01-01');
+    expect(getPeriodKey('WEEKLY', date)).toBe('2026-W01');
+    expect(getPeriodKey('MONTHLY', date)).toBe('2026-01');
+    expect(getPeriodKey('ALL_TIME', date)).toBe('all');
+  });
+
+  it('uses the UTC date, not the device\'s', () => {
+    const lateSunday = new Date(Date.UTC(2026, 9, 18, 23, 30));
+    expect(getPeriodKey('DAILY', lateSunday)).toBe('2026-10-18');
+    expect(getPeriodKey('WEEKLY', lateSunday)).toBe('2026-W42');
+    expect(getPeriodKey('MONTHLY', new Date(Date.UTC(2026, 9, 31, 23, 30)))).toBe('2026-10');
+  });
+
+  it('puts the days before the first Thursday in the previous ISO year', () => {
+    expect(getPeriodKey('WEEKLY', new Date(Date.UTC(2027, 0, 1, 12)))).toBe('2026-W53');
+  });
+});
+
+describe('getLeaderboardScope', () => {
+  it('names one bucket per filter combination', () => {
+    expect(getLeaderboardScope({})).toBe('all');
+    expect(getLeaderboardScope({ classLevel: '10' })).toBe('class-10');
+    expect(getLeaderboardScope({ classLevel: '10', board: 'CBSE', subjectId: 'sci' })).toBe('class-10_board-CBSE_subject-sci');
+  });
+});
+
+describe('buildLeaderboardUpdates', () => {
+  const date = new Date(Date.UTC(2026, 9, 19));
+  const entry: LeaderboardEntry = { id: 'e1', userId: 'u1', userName: 'Asha', score: 9, total: 10, date: date.toISOString(), topic: 'Weekly 7', classLevel: '10', subjectScores: { sci: 6, maths: 3 }, timeTakenSeconds: 30.6 };
+  const updates = buildLeaderboardUpdates(entry, n => ({ inc: n }));
+
+  it('writes every window and every bucket the result counts in, with each subject\'s own score', () => {
+    LEADERBOARD_WINDOWS.forEach(w => {
+      ([[{}, 9], [{ classLevel: '10' as const }, 9], [{ subjectId: 'sci' }, 6], [{ classLevel: '10' as const, subjectId: 'maths' }, 3]] as const).forEach(([filters, score]) => {
+        const base = `${getLeaderboardPath(w, filters, date)}/u1`;
+        expect(updates[`${base}/score`]).toEqual({ inc: score });
+        expect(updates[`${base}/timeTakenSeconds`]).toEqual({ inc: 31 });
+        expect(updates[`${base}/attempts`]).toEqual({ inc: 1 });
+      });
+    });
+    expect(Object.keys(updates).filter(k => k.endsWith('/attempts'))).toHaveLength(LEADERBOARD_WINDOWS.length * 6);
+  });
+
+  it('leaves out the board when the entry has none', () => {
+    expect(Object.keys(updates).some(k => k.endsWith('/board') || k.includes('board-'))).toBe(false);
+  });
+});
+
+describe('getSubjectScores', () => {
+  const omr = [{ qIndex: 0, selected: 1, correct: 1 }, { qIndex: 1, selected: 2, correct: 0 }, { qIndex: 2, selected: -1, correct: 3 }];
+  const result = { correctCount: 1, omrData: omr } as WeeklyTestResult;
+
+  it('counts correct answers by each bank question\'s subject on pool tests', () => {
+    const bank = { q1: { subjectId: 'sci' }, q2: { subjectId: 'maths' }, q3: { subjectId: 'sci' } } as unknown as Record<string, PublicBankQuestion>;
+    expect(getSubjectScores({ ...result, questionIds: ['q1', 'q2', 'q3'] }, {} as PublicWeeklyTest, bank)).toEqual({ sci: 1, maths: 0 });
+  });
+
+  it('gives a fixed test\'s score to its subject only when it has one', () => {
+    expect(getSubjectScores(result, { selectedSubjects: ['sci'] } as PublicWeeklyTest, {})).toEqual({ sci: 1 });
+    expect(getSubjectScores(result, { selectedSubjects: ['sci', 'maths'] } as PublicWeeklyTest, {})).toEqual({});
+  });
+});
+
+describe('rankLeaderboard', () => {
+  it('ranks by score, then less time, sharing ranks on full ties', () => {
+    const ranked = rankLeaderboard([row('a', 10, 50), row('b', 20, 70), row('c', 10, 50), row('d', 10, 40)]);
+    expect(ranked.map(r => [r.userId, r.rank])).toEqual([['b', 1], ['d', 2], ['a', 3], ['c', 3]]);
+  });
+});
+
+describe('getOwnRank', () => {
+  it('counts the rows ahead from the rows scoring at least as much', () => {
+    const mine = row('me', 10, 50);
+    expect(getOwnRank([row('a', 30, 10), row('b', 10, 40), row('c', 10, 50), row('d', 10, 60), mine], mine)).toBe(3);
+    expect(getOwnRank([mine], mine)).toBe(1);
+  });
+});
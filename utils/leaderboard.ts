@@ -0,0 +1,104 @@
+import { LeaderboardEntry, LeaderboardFilters, LeaderboardRow, LeaderboardWindow, PublicBankQuestion, PublicWeeklyTest, RankedLeaderboardRow, WeeklyTestResult } from '../types';
+import { getIsoWeekKey } from './spinWheel';
+
+export const LEADERBOARD_WINDOW_LABELS: Record<LeaderboardWindow, string> = {
+  DAILY: 'Today',
+  WEEKLY: 'This Week',
+  MONTHLY: 'This Month',
+  ALL_TIME: 'All Time'
+};
+
+// Rows read per bucket, highest score first
+export const LEADERBOARD_TOP_N = 50;
+
+// Bucket a result falls into for each window. UTC days and ISO weeks, the same boundaries as the spin limits,
+// so every student and the evaluator agree on the bucket whatever their time zone.
+export const getPeriodKey = (window: LeaderboardWindow, date: Date = new Date()): string => {
+  const day = date.toISOString().split('T')[0];
+  if (window === 'DAILY') return day;
+  if (window === 'WEEKLY') return getIsoWeekKey(date);
+  if (window === 'MONTHLY') return day.slice(0, 7);
+  return 'all';
+};
+
+export const LEADERBOARD_WINDOWS: LeaderboardWindow[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'ALL_TIME'];
+
+// Bucket for one filter combination, e.g. "all", "class-10" or "class-10_board-CBSE_subject-science"
+export const getLeaderboardScope = (filters: LeaderboardFilters): string => {
+  const parts = [
+    filters.classLevel && `class-${filters.classLevel}`,
+    filters.board && `board-${filters.board}`,
+    filters.subjectId && `subject-${filters.subjectId}`
+  ].filter(Boolean);
+  return parts.length ? parts.join('_') : 'all';
+};
+
+export const getLeaderboardPath = (window: LeaderboardWindow, filters: LeaderboardFilters, date: Date = new Date()) =>
+  `leaderboard/${window}/${getPeriodKey(window, date)}/${getLeaderboardScope(filters)}`;
+
+// Every filter combination a result counts in: with and without its class, board and each of its subjects
+const getEntryScopes = (entry: LeaderboardEntry): LeaderboardFilters[] => {
+  const withAndWithout = <T>(value?: T): (T | undefined)[] => value ? [undefined, value] : [undefined];
+  const subjects = [undefined, ...Object.keys(entry.subjectScores || {})];
+  return withAndWithout(entry.classLevel).flatMap(classLevel =>
+    withAndWithout(entry.board).flatMap(board =>
+      subjects.map(subjectId => ({ classLevel, board, subjectId }))));
+};
+
+// Correct answers per subject in one weekly test result: each bank question's subject (pool tests), or the test's
+// only subject. Empty when a fixed test covers several subjects, since its questions carry none.
+export const getSubjectScores = (result: WeeklyTestResult, test: PublicWeeklyTest, bank: Record<string, PublicBankQuestion>): Record<string, number> => {
+  const questionIds = result.questionIds;
+  if (questionIds?.length) {
+    const scores: Record<string, number> = {};
+    result.omrData.forEach(o => {
+      const subjectId = bank[questionIds[o.qIndex]]?.subjectId;
+      if (subjectId) scores[subjectId] = (scores[subjectId] || 0) + (o.selected !== -1 && o.selected === o.correct ? 1 : 0);
+    });
+    return scores;
+  }
+  return test.selectedSubjects?.length === 1 ? { [test.selectedSubjects[0]]: result.correctCount } : {};
+};
+
+// Multi-path update adding one result to every window and bucket it falls in. `increment` is the backend's atomic add.
+// Only the evaluator calls this: practice scores are marked on the student's device, so they don't count.
+export const buildLeaderboardUpdates = (entry: LeaderboardEntry, increment: (n: number) => any): Record<string, any> => {
+  const date = new Date(entry.date);
+  const time = Math.max(0, Math.round(entry.timeTakenSeconds || 0));
+  const updates: Record<string, any> = {};
+  LEADERBOARD_WINDOWS.forEach(w => getEntryScopes(entry).forEach(scope => {
+    const base = `${getLeaderboardPath(w, scope, date)}/${entry.userId}`;
+    const score = scope.subjectId ? entry.subjectScores?.[scope.subjectId] || 0 : entry.score;
+    updates[`${base}/userId`] = entry.userId;
+    updates[`${base}/userName`] = entry.userName;
+    if (entry.classLevel) updates[`${base}/classLevel`] = entry.classLevel;
+    if (entry.board) updates[`${base}/board`] = entry.board;
+    updates[`${base}/score`] = increment(Math.max(0, Math.round(score)));
+    updates[`${base}/timeTakenSeconds`] = increment(time);
+    updates[`${base}/attempts`] = increment(1);
+  }));
+  return updates;
+};
+
+// What the database query returns: the highest scores of a bucket
+export const getTopRows = (rows: LeaderboardRow[]): LeaderboardRow[] =>
+  [...rows].sort((a, b) => b.score - a.score).slice(0, LEADERBOARD_TOP_N);
+
+// A row ranks above another on a higher score, or the same score in less time
+const ranksAbove = (a: LeaderboardRow, b: LeaderboardRow) =>
+  a.score > b.score || (a.score === b.score && a.timeTakenSeconds < b.timeTakenSeconds);
+
+// Score desc, less time first on ties. Equal score and time share a rank (1, 2, 2, 4).
+export const rankLeaderboard = (rows: LeaderboardRow[]): RankedLeaderboardRow[] => {
+  const sorted = [...rows].sort((a, b) => b.score - a.score || a.timeTakenSeconds - b.timeTakenSeconds);
+  let rank = 0;
+  return sorted.map((r, i) => {
+    const prev = sorted[i - 1];
+    if (!prev || ranksAbove(prev, r)) rank = i + 1;
+    return { ...r, rank };
+  });
+};
+
+// A student's rank from the rows of their bucket scoring at least as much as they do (the query from their score up)
+export const getOwnRank = (rows: LeaderboardRow[], mine: LeaderboardRow): number =>
+  1 + rows.filter(r => r.userId !== mine.userId && ranksAbove(r, mine)).length;
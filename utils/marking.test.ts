@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { MarkingScheme } from '../types';
+import { MARKING_PRESETS, describeMarkingScheme, formatMarks, getQuestionMarks, getQuestionRule, scoreAnswers } from './marking';
+
+const JEE = MARKING_PRESETS.JEE_NEET.scheme;
+
+describe('getQuestionMarks', () => {
+  it('gives the correct, wrong and unattempted marks', () => {
+    expect(getQuestionMarks(JEE, 0, 2, 2)).toBe(4);
+    expect(getQuestionMarks(JEE, 0, 1, 2)).toBe(-1);
+    expect(getQuestionMarks(JEE, 0, -1, 2)).toBe(0);
+  });
+
+  it('treats a penalty entered as negative the same as a positive one', () => {
+    expect(getQuestionMarks({ correct: 1, wrong: -0.25, unattempted: 0 }, 0, 0, 1)).toBe(-0.25);
+  });
+
+  it('falls back to +1 / 0 without a scheme', () => {
+    expect(getQuestionMarks(undefined, 0, 1, 1)).toBe(1);
+    expect(getQuestionMarks(undefined, 0, 0, 1)).toBe(-0);
+  });
+});
+
+describe('getQuestionRule', () => {
+  const scheme: MarkingScheme = { correct: 1, wrong: 0, sections: [{ name: 'Hard', fromQuestion: 3, toQuestion: 4, correct: 3, wrong: 1 }] };
+
+  it('uses the section override inside its 1-based range only', () => {
+    expect(getQuestionRule(scheme, 1)).toEqual({ correct: 1, wrong: 0, unattempted: 0 });
+    expect(getQuestionRule(scheme, 2)).toEqual({ correct: 3, wrong: 1, unattempted: 0 });
+    expect(getQuestionRule(scheme, 3)).toEqual({ correct: 3, wrong: 1, unattempted: 0 });
+    expect(getQuestionRule(scheme, 4)).toEqual({ correct: 1, wrong: 0, unattempted: 0 });
+  });
+});
+
+describe('scoreAnswers', () => {
+  it('totals counts and marks, rounding away float noise', () => {
+    const railway = MARKING_PRESETS.RAILWAY.scheme;
+    const result = scoreAnswers(railway, [
+      { qIndex: 0, selected: 0, correct: 0 },
+      { qIndex: 1, selected: 1, correct: 0 },
+      { qIndex: 2, selected: 2, correct: 0 },
+      { qIndex: 3, selected: -1, correct: 0 }
+    ]);
+    expect(result).toMatchObject({ correctCount: 1, wrongCount: 2, skippedCount: 1, rawScore: 1, netScore: 0.33, maxScore: 4 });
+    expect(result.marks).toEqual([1, -0.33, -0.33, 0]);
+  });
+});
+
+describe('formatting', () => {
+  it('signs positive marks', () => {
+    expect(formatMarks(4)).toBe('+4');
+    expect(formatMarks(-1)).toBe('-1');
+    expect(formatMarks(0)).toBe('0');
+  });
+
+  it('describes the scheme with its section rules', () => {
+    expect(describeMarkingScheme(JEE)).toBe('+4 / -1');
+    expect(describeMarkingScheme({ ...JEE, sections: [{ name: 'A', fromQuestion: 1, toQuestion: 5 }] })).toBe('+4 / -1 (1 section rule)');
+  });
+});
@@ -0,0 +1,74 @@
+import { MarkingRule, MarkingScheme } from '../types';
+
+export const DEFAULT_MARKING_SCHEME: MarkingScheme = { correct: 1, wrong: 0, unattempted: 0 };
+
+// Common competition patterns, picked in the Admin editor
+export const MARKING_PRESETS: Record<string, { label: string; scheme: MarkingScheme }> = {
+  DEFAULT: { label: 'Simple (+1, no penalty)', scheme: { ...DEFAULT_MARKING_SCHEME, preset: 'DEFAULT' } },
+  JEE_NEET: { label: 'JEE / NEET (+4, -1)', scheme: { correct: 4, wrong: 1, unattempted: 0, preset: 'JEE_NEET' } },
+  SSC: { label: 'SSC (+2, -0.5)', scheme: { correct: 2, wrong: 0.5, unattempted: 0, preset: 'SSC' } },
+  RAILWAY: { label: 'Railway / BPSC (+1, -1/3)', scheme: { correct: 1, wrong: 1 / 3, unattempted: 0, preset: 'RAILWAY' } },
+  UPSC: { label: 'UPSC Prelims (+2, -0.66)', scheme: { correct: 2, wrong: 0.66, unattempted: 0, preset: 'UPSC' } }
+};
+
+// Avoids 0.30000000000000004 on the marksheet
+export const roundMarks = (marks: number): number => Math.round(marks * 100) / 100;
+
+// Section override for the question, falling back to the test-wide rule
+export const getQuestionRule = (scheme: MarkingScheme | undefined, qIndex: number): Required<MarkingRule> => {
+  const base = scheme || DEFAULT_MARKING_SCHEME;
+  const section = base.sections?.find(s => qIndex + 1 >= s.fromQuestion && qIndex + 1 <= s.toQuestion);
+  return {
+    correct: section?.correct ?? base.correct,
+    wrong: section?.wrong ?? base.wrong,
+    unattempted: section?.unattempted ?? base.unattempted ?? 0
+  };
+};
+
+// selected = -1 for unattempted. Every question has exactly one correct option, so marks are all-or-nothing:
+// partial credit would need multi-answer questions, which MCQItem and the test key don't have.
+export const getQuestionMarks = (scheme: MarkingScheme | undefined, qIndex: number, selected: number, correct: number): number => {
+  const rule = getQuestionRule(scheme, qIndex);
+  if (selected === -1) return rule.unattempted;
+  return selected === correct ? rule.correct : -Math.abs(rule.wrong);
+};
+
+export interface MarkedAnswer {
+  qIndex: number; // Position used for section lookup
+  selected: number;
+  correct: number;
+}
+
+export const scoreAnswers = (scheme: MarkingScheme | undefined, answers: MarkedAnswer[]) => {
+  let correctCount = 0;
+  let wrongCount = 0;
+  let rawScore = 0;
+  let netScore = 0;
+  let maxScore = 0;
+  const marks = answers.map(a => {
+    const rule = getQuestionRule(scheme, a.qIndex);
+    const m = getQuestionMarks(scheme, a.qIndex, a.selected, a.correct);
+    maxScore += rule.correct;
+    netScore += m;
+    if (a.selected !== -1 && a.selected === a.correct) { correctCount++; rawScore += rule.correct; }
+    else if (a.selected !== -1) wrongCount++;
+    return roundMarks(m);
+  });
+  return {
+    correctCount,
+    wrongCount,
+    skippedCount: answers.length - correctCount - wrongCount,
+    rawScore: roundMarks(rawScore),
+    netScore: roundMarks(netScore),
+    maxScore: roundMarks(maxScore),
+    marks
+  };
+};
+
+export const formatMarks = (marks: number): string => `${marks > 0 ? '+' : ''}${roundMarks(marks)}`;
+
+export const describeMarkingScheme = (scheme?: MarkingScheme): string => {
+  const s = scheme || DEFAULT_MARKING_SCHEME;
+  const base = `+${roundMarks(s.correct)} / -${roundMarks(Math.abs(s.wrong))}`;
+  return s.sections?.length ? `${base} (${s.sections.length} section rule${s.sections.length > 1 ? 's' : ''})` : base;
+};
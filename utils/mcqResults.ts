@@ -0,0 +1,33 @@
+import { MCQResult, McqSummary } from '../types';
+
+export const MCQ_RESULTS_PAGE_SIZE = 20;
+export const ANALYTICS_PAGE_SIZE = 50; // Charts need more than one list page
+
+const EMPTY_SUMMARY: McqSummary = { tests: 0, questions: 0, correct: 0, timeSeconds: 0 };
+
+export const addToMcqSummary = (summary: McqSummary | undefined, result: MCQResult): McqSummary => {
+  const base = summary || EMPTY_SUMMARY;
+  return {
+    tests: base.tests + 1,
+    questions: base.questions + (result.totalQuestions || 0),
+    correct: base.correct + (result.correctCount || 0),
+    timeSeconds: base.timeSeconds + (result.totalTimeSeconds || 0),
+    lastResultAt: !base.lastResultAt || result.date > base.lastResultAt ? result.date : base.lastResultAt
+  };
+};
+
+export const buildMcqSummary = (results: MCQResult[] = [], base?: McqSummary): McqSummary =>
+  results.reduce((acc, r) => addToMcqSummary(acc, r), base || EMPTY_SUMMARY);
+
+// Embedded results from old clients may lack an id or owner; the collection is keyed by both
+export const normaliseLegacyResult = (result: MCQResult, userId: string): MCQResult => ({
+  ...result,
+  id: result.id || `res-${new Date(result.date).getTime()}`,
+  userId
+});
+
+// Pages are appended as they load; drops duplicates and keeps newest first
+export const mergeResultPages = (loaded: MCQResult[], page: MCQResult[]): MCQResult[] => {
+  const seen = new Set(loaded.map(r => r.id));
+  return [...loaded, ...page.filter(r => !seen.has(r.id))].sort((a, b) => b.date.localeCompare(a.date));
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { PrizeRule, PublicWeeklyTest, WeeklyTestResult } from '../types';
+import { buildPrizeEntryMessage, describePrizeRule, evaluatePrizeRules, getConsolePrizeEntries, getPrizeEntryId, ruleAppliesToTest } from './prizeRules';
+
+const makeRule = (overrides: Partial<PrizeRule> = {}): PrizeRule => ({
+  id: 'r1', name: 'Top 2', enabled: true, topN: 2, classLevels: [],
+  reward: { tier: 'MONTHLY', level: 'BASIC', durationHours: 720 }, createdAt: '2026-10-01T00:00:00Z',
+  ...overrides
+});
+
+const test = { id: 't1', name: 'Weekly 7', classLevel: '10' } as PublicWeeklyTest;
+
+const makeResult = (userId: string, rank: number, percentage: number): WeeklyTestResult => ({
+  userId, userName: userId.toUpperCase(), rank, percentage, totalParticipants: 4, classLevel: '10'
+} as WeeklyTestResult);
+
+const results = [makeResult('a', 1, 90), makeResult('b', 2, 70), makeResult('c', 2, 40), makeResult('d', 4, 30)];
+
+describe('ruleAppliesToTest', () => {
+  it('needs the rule enabled and the test\'s class, when classes are set', () => {
+    expect(ruleAppliesToTest(makeRule(), test)).toBe(true);
+    expect(ruleAppliesToTest(makeRule({ enabled: false }), test)).toBe(false);
+    expect(ruleAppliesToTest(makeRule({ classLevels: ['9'] }), test)).toBe(false);
+  });
+});
+
+describe('evaluatePrizeRules', () => {
+  it('awards every student up to the rank, ties included', () => {
+    expect(evaluatePrizeRules([makeRule()], test, results).map(e => e.userId)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('leaves out students under the minimum percentage', () => {
+    expect(evaluatePrizeRules([makeRule({ minPercentage: 50 })], test, results).map(e => e.userId)).toEqual(['a', 'b']);
+  });
+
+  it('gives each rule, test and student one stable id', () => {
+    const [entry] = evaluatePrizeRules([makeRule()], test, results);
+    expect(entry).toMatchObject({ id: getPrizeEntryId('r1', 't1', 'a'), ruleId: 'r1', testId: 't1', rank: 1, prize: 'Monthly Basic', reason: 'Rank #1 of 4 in Weekly 7' });
+    expect(evaluatePrizeRules([makeRule()], test, results)[0].id).toBe(entry.id);
+  });
+
+  it('skips rules that don\'t apply to the test', () => {
+    expect(evaluatePrizeRules([makeRule({ enabled: false }), makeRule({ id: 'r2', classLevels: ['12'] })], test, results)).toEqual([]);
+  });
+});
+
+describe('getConsolePrizeEntries', () => {
+  const reward = { tier: 'WEEKLY' as const, level: 'ULTRA' as const, durationHours: 168 };
+
+  it('builds prize entries with the same kind of id as a rule', () => {
+    const entries = getConsolePrizeEntries(test, results, 1, reward, []);
+    expect(entries).toEqual([expect.objectContaining({ id: getPrizeEntryId('console', 't1', 'a'), userId: 'a', reward })]);
+  });
+
+  it('leaves out students a rule or an earlier send already gave a prize for this test', () => {
+    const fromRule = evaluatePrizeRules([makeRule({ topN: 1 })], test, results);
+    const otherTest = { ...fromRule[0], id: 'x', userId: 'b', testId: 't0' };
+    expect(getConsolePrizeEntries(test, results, 2, reward, [...fromRule, otherTest]).map(e => e.userId)).toEqual(['b', 'c']);
+  });
+});
+
+describe('buildPrizeEntryMessage', () => {
+  it('is a claimable reward with the entry\'s id', () => {
+    const [entry] = evaluatePrizeRules([makeRule()], test, results);
+    expect(buildPrizeEntryMessage(entry)).toMatchObject({ id: entry.id, type: 'REWARD', isClaimed: false, reward: { tier: 'MONTHLY', level: 'BASIC', durationHours: 720 } });
+  });
+});
+
+describe('describePrizeRule', () => {
+  it('reads as one line', () => {
+    expect(describePrizeRule(makeRule({ minPercentage: 60, classLevels: ['10', '12'] }))).toBe('Top 2 with 60%+ in each weekly test (Class 10, 12) → Monthly Basic for 720h');
+  });
+});
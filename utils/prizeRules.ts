@@ -0,0 +1,61 @@
+import { InboxMessage, PrizeEntry, PrizeRule, PublicWeeklyTest, WeeklyTestResult } from '../types';
+
+const titleCase = (s: string) => s.charAt(0) + s.slice(1).toLowerCase();
+
+// "Monthly Basic" (PrizeList styles Ultra prizes by the name)
+export const describePrizeReward = (reward: NonNullable<InboxMessage['reward']>): string =>
+  `${titleCase(reward.tier)} ${titleCase(reward.level)}`;
+
+export const describePrizeRule = (rule: PrizeRule): string => {
+  const classes = rule.classLevels?.length ? `Class ${rule.classLevels.join(', ')}` : 'every class';
+  const min = rule.minPercentage ? ` with ${rule.minPercentage}%+` : '';
+  return `Top ${rule.topN}${min} in each weekly test (${classes}) → ${describePrizeReward(rule.reward)} for ${rule.reward.durationHours}h`;
+};
+
+export const ruleAppliesToTest = (rule: PrizeRule, test: PublicWeeklyTest): boolean =>
+  rule.enabled && (!rule.classLevels?.length || rule.classLevels.includes(test.classLevel));
+
+// Same rule + test + student always gives the same id, so re-running never awards twice
+export const getPrizeEntryId = (ruleId: string, testId: string, userId: string) => `prize-${ruleId}-${testId}-${userId}`;
+
+// Prize entries earned from one test's ranked results
+export const evaluatePrizeRules = (rules: PrizeRule[], test: PublicWeeklyTest, results: WeeklyTestResult[]): PrizeEntry[] => {
+  const date = new Date().toISOString();
+  return rules
+    .filter(rule => ruleAppliesToTest(rule, test))
+    .flatMap(rule => results
+      .filter(r => r.rank <= rule.topN && r.percentage >= (rule.minPercentage || 0))
+      .map(r => ({
+        id: getPrizeEntryId(rule.id, test.id, r.userId),
+        userId: r.userId,
+        userName: r.userName,
+        prize: describePrizeReward(rule.reward),
+        reason: `Rank #${r.rank} of ${r.totalParticipants} in ${test.name}`,
+        date,
+        scorePercentage: r.percentage,
+        ruleId: rule.id,
+        testId: test.id,
+        classLevel: r.classLevel,
+        rank: r.rank,
+        reward: rule.reward
+      })));
+};
+
+// The results console's "send prize" as a one-off rule, so its entries get the same ids, inbox message and prize list
+// row. Students who already have a prize for this test (from a rule or an earlier send) are left out.
+export const getConsolePrizeEntries = (test: PublicWeeklyTest, results: WeeklyTestResult[], topN: number, reward: PrizeRule['reward'], existing: PrizeEntry[]): PrizeEntry[] => {
+  const rule: PrizeRule = { id: 'console', name: 'Results console', enabled: true, topN, reward, createdAt: new Date().toISOString() };
+  const paid = new Set(existing.filter(p => p.testId === test.id).map(p => p.userId));
+  return evaluatePrizeRules([rule], test, results).filter(e => !paid.has(e.userId));
+};
+
+// Claimable inbox reward for one entry (same id, so the inbox can't hold it twice)
+export const buildPrizeEntryMessage = (entry: PrizeEntry): InboxMessage => ({
+  id: entry.id,
+  text: `🏆 Congratulations! ${entry.reason}. Claim your prize: ${entry.prize} for ${entry.reward?.durationHours} hours.`,
+  date: entry.date,
+  read: false,
+  type: 'REWARD',
+  reward: entry.reward,
+  isClaimed: false
+});
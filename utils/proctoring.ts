@@ -0,0 +1,106 @@
+import { IntegrityEvent, IntegrityEventType } from '../types';
+
+export const INTEGRITY_EVENT_LABELS: Record<IntegrityEventType, string> = {
+  TAB_HIDDEN: 'Left the test',
+  FULLSCREEN_EXIT: 'Exited fullscreen',
+  COPY: 'Copy attempt',
+  PASTE: 'Paste attempt',
+  IDLE: 'Idle'
+};
+
+// Points taken off the integrity score per event
+const VIOLATION_WEIGHTS: Record<IntegrityEventType, number> = {
+  TAB_HIDDEN: 10,
+  FULLSCREEN_EXIT: 10,
+  COPY: 5,
+  PASTE: 5,
+  IDLE: 5
+};
+
+export const DEFAULT_IDLE_MINUTES = 3;
+
+const IDLE_CHECK_MS = 5000;
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'scroll'];
+
+export interface IntegrityMonitorOptions {
+  idleMinutes?: number;
+}
+
+// Attaches the listeners for one attempt. Returns the cleanup for useEffect.
+export const startIntegrityMonitor = (options: IntegrityMonitorOptions, onEvent: (event: IntegrityEvent) => void): (() => void) => {
+  const idleMs = (options.idleMinutes || DEFAULT_IDLE_MINUTES) * 60 * 1000;
+  let hiddenAt: number | null = null;
+  let lastActivity = Date.now();
+  let idleSince: number | null = null;
+  let wasFullscreen = !!document.fullscreenElement;
+
+  const emit = (type: IntegrityEventType, durationSeconds?: number) =>
+    onEvent({ type, at: new Date().toISOString(), ...(durationSeconds !== undefined ? { durationSeconds } : {}) });
+
+  // Logged on return so the time away is known
+  const onVisibility = () => {
+    if (document.visibilityState === 'hidden') hiddenAt = Date.now();
+    else if (hiddenAt !== null) {
+      emit('TAB_HIDDEN', Math.round((Date.now() - hiddenAt) / 1000));
+      hiddenAt = null;
+    }
+  };
+  const onFullscreen = () => {
+    const isFullscreen = !!document.fullscreenElement;
+    if (wasFullscreen && !isFullscreen) emit('FULLSCREEN_EXIT');
+    wasFullscreen = isFullscreen;
+  };
+  const onCopy = (e: Event) => { e.preventDefault(); emit('COPY'); };
+  const onPaste = (e: Event) => { e.preventDefault(); emit('PASTE'); };
+  const onActivity = () => {
+    if (idleSince !== null) {
+      emit('IDLE', Math.round((Date.now() - idleSince) / 1000));
+      idleSince = null;
+    }
+    lastActivity = Date.now();
+  };
+  const idleTimer = setInterval(() => {
+    if (idleSince === null && document.visibilityState === 'visible' && Date.now() - lastActivity >= idleMs) idleSince = lastActivity;
+  }, IDLE_CHECK_MS);
+
+  document.addEventListener('visibilitychange', onVisibility);
+  document.addEventListener('fullscreenchange', onFullscreen);
+  document.addEventListener('copy', onCopy);
+  document.addEventListener('cut', onCopy);
+  document.addEventListener('paste', onPaste);
+  ACTIVITY_EVENTS.forEach(evt => window.addEventListener(evt, onActivity, { passive: true }));
+
+  return () => {
+    clearInterval(idleTimer);
+    document.removeEventListener('visibilitychange', onVisibility);
+    document.removeEventListener('fullscreenchange', onFullscreen);
+    document.removeEventListener('copy', onCopy);
+    document.removeEventListener('cut', onCopy);
+    document.removeEventListener('paste', onPaste);
+    ACTIVITY_EVENTS.forEach(evt => window.removeEventListener(evt, onActivity));
+  };
+};
+
+export const requestTestFullscreen = () => {
+  if (document.fullscreenElement || !document.documentElement.requestFullscreen) return;
+  document.documentElement.requestFullscreen().catch(() => {});
+};
+
+export const getIntegrityScore = (log?: IntegrityEvent[]): number =>
+  Math.max(0, 100 - (log || []).reduce((sum, e) => sum + (VIOLATION_WEIGHTS[e.type] || 0), 0));
+
+export const countViolationsByType = (log?: IntegrityEvent[]): Partial<Record<IntegrityEventType, number>> => {
+  const counts: Partial<Record<IntegrityEventType, number>> = {};
+  (log || []).forEach(e => { counts[e.type] = (counts[e.type] || 0) + 1; });
+  return counts;
+};
+
+export const describeIntegrityLog = (log?: IntegrityEvent[]): string => {
+  const counts = countViolationsByType(log);
+  const parts = (Object.keys(counts) as IntegrityEventType[]).map(t => `${INTEGRITY_EVENT_LABELS[t]} ×${counts[t]}`);
+  return parts.length ? parts.join(', ') : 'No violations';
+};
+
+// Tailwind colour for the score badge
+export const getIntegrityTone = (score: number): string =>
+  score >= 80 ? 'bg-green-100 text-green-700' : score >= 50 ? 'bg-amber-100 text-amber-700' : 'bg-red-100 text-red-700';
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { PublicBankQuestion, PublicWeeklyTest, QuestionPoolRule } from '../types';
+import { drawWeeklyPool, snapshotPool, validatePoolSubmission } from './questionBank';
+
+const makeQuestion = (i: number, overrides: Partial<PublicBankQuestion> = {}): PublicBankQuestion => ({
+  id: `q${i}`, question: `Question ${i}`, options: ['A', 'B', 'C', 'D'], subjectId: 'physics', chapterId: 'light',
+  difficulty: i % 2 ? 'HARD' : 'EASY', tags: [], reserved: true, createdAt: '2026-10-01T00:00:00Z', updatedAt: '2026-10-01T00:00:00Z',
+  ...overrides
+});
+
+const bank = Array.from({ length: 12 }, (_, i) => makeQuestion(i));
+const rules: QuestionPoolRule[] = [{ id: 'r1', count: 3, difficulty: 'HARD' }, { id: 'r2', count: 2 }];
+
+const makeTest = (overrides: Partial<PublicWeeklyTest> = {}): PublicWeeklyTest => ({
+  id: 't1', name: 'Weekly', description: '', isActive: true, classLevel: '10', questions: [], totalQuestions: 5,
+  passingScore: 0, createdAt: '2026-10-10T00:00:00Z', poolRules: rules, poolSeed: 99, poolQuestions: snapshotPool(rules, bank),
+  ...overrides
+} as PublicWeeklyTest);
+
+describe('snapshotPool', () => {
+  it('keeps each reserved question with the rules it matches', () => {
+    const snapshot = snapshotPool(rules, [...bank, makeQuestion(20, { reserved: false })]);
+    expect(snapshot.q1).toEqual(['r1', 'r2']);
+    expect(snapshot.q2).toEqual(['r2']);
+    expect(snapshot.q20).toBeUndefined();
+  });
+});
+
+describe('drawWeeklyPool', () => {
+  it('gives a student the same draw every time, following the rules in order', () => {
+    const { questionIds, shortfalls } = drawWeeklyPool(makeTest(), bank, 'u1');
+    expect(drawWeeklyPool(makeTest(), bank, 'u1').questionIds).toEqual(questionIds);
+    expect(questionIds).toHaveLength(5);
+    expect(new Set(questionIds).size).toBe(5);
+    questionIds.slice(0, 3).forEach(id => expect(bank.find(q => q.id === id)?.difficulty).toBe('HARD'));
+    expect(shortfalls).toEqual([]);
+  });
+
+  it('replays from the snapshot when bank questions are edited, re-tagged or deleted', () => {
+    const before = drawWeeklyPool(makeTest(), bank, 'u1').questionIds;
+    const edited = bank.filter(q => q.id !== before[0]).map(q => ({ ...q, difficulty: 'EASY' as const, tags: ['moved'] }));
+    expect(drawWeeklyPool(makeTest(), [...edited, makeQuestion(30)], 'u1').questionIds).toEqual(before);
+  });
+
+  it('draws tests without a snapshot from the reserved questions that existed at creation', () => {
+    const legacy = makeTest({ poolQuestions: undefined });
+    const later = makeQuestion(40, { createdAt: '2026-10-11T00:00:00Z' });
+    expect(drawWeeklyPool(legacy, [...bank, later], 'u1').questionIds).not.toContain('q40');
+  });
+});
+
+describe('validatePoolSubmission', () => {
+  const test = makeTest();
+  const drawn = drawWeeklyPool(test, bank, 'u1').questionIds;
+
+  it('accepts the student\'s own draw, even after the bank changed', () => {
+    expect(validatePoolSubmission(test, [], 'u1', drawn)).toBeNull();
+  });
+
+  it('says why any other questions are not marked', () => {
+    expect(validatePoolSubmission(test, bank, 'u1', [drawn[0], drawn[0], drawn[1], drawn[2], drawn[3]])).toBe('repeated questions');
+    expect(validatePoolSubmission(test, bank, 'u1', drawn.slice(1))).toBe('4 questions, the draw has 5');
+    expect(validatePoolSubmission(test, bank, 'u2', drawn)).toBe('not the draw for this student');
+  });
+
+  it('still checks the pool rules on tests without a snapshot', () => {
+    const legacy = makeTest({ poolQuestions: undefined });
+    const own = drawWeeklyPool(legacy, bank, 'u1').questionIds;
+    const unreserved = bank.map(q => q.id === own[0] ? { ...q, reserved: false } : q);
+    expect(validatePoolSubmission(legacy, unreserved, 'u1', own)).toBe('questions outside the pool rules');
+  });
+});
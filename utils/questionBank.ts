@@ -0,0 +1,131 @@
+import { BankQuestion, BankQuestionKey, MCQItem, PublicBankQuestion, PublicWeeklyTest, QuestionDifficulty, QuestionPoolRule, WeeklyTestKey, WeeklyTestQuestion } from '../types';
+import { seededRandom } from './spinWheel';
+import { shuffleIndices } from './testShuffle';
+
+export const QUESTION_DIFFICULTY_LABELS: Record<QuestionDifficulty, string> = {
+  EASY: 'Easy',
+  MEDIUM: 'Medium',
+  HARD: 'Hard'
+};
+
+// Same split as weekly tests: students read the question, the key stays behind the rules
+export const splitBankQuestion = (q: BankQuestion): { publicQuestion: PublicBankQuestion; key: BankQuestionKey } => {
+  const { correctAnswer, explanation, mnemonic, concept, ...publicQuestion } = q;
+  return { publicQuestion, key: { correctAnswer, explanation, mnemonic, concept } };
+};
+
+const hashNumber = (text: string): number => {
+  let h = 5381;
+  for (let i = 0; i < text.length; i++) h = ((h << 5) + h + text.charCodeAt(i)) | 0;
+  return h >>> 0;
+};
+
+const hashText = (text: string): string => hashNumber(text).toString(36);
+
+// Stable key for a chapter question that has no bank id (revision cards, answer stats)
+export const getQuestionKey = (chapterId: string, question: string) => `${chapterId}-${hashText(question.trim())}`;
+
+export const parseTags = (text: string): string[] =>
+  Array.from(new Set(text.split(',').map(t => t.trim().toLowerCase()).filter(Boolean)));
+
+export const matchesPoolRule = (q: PublicBankQuestion, rule: QuestionPoolRule): boolean => {
+  if (rule.difficulty && q.difficulty !== rule.difficulty) return false;
+  if (rule.subjectIds?.length && !rule.subjectIds.includes(q.subjectId)) return false;
+  if (rule.chapterIds?.length && !rule.chapterIds.includes(q.chapterId)) return false;
+  if (rule.tags?.length && !rule.tags.some(t => (q.tags || []).includes(t))) return false;
+  return true;
+};
+
+export const getPoolQuestionCount = (rules?: QuestionPoolRule[]): number =>
+  (rules || []).reduce((sum, r) => sum + Math.max(0, r.count || 0), 0);
+
+export interface PoolDraw {
+  questionIds: string[];
+  shortfalls: { ruleId: string; wanted: number; got: number }[];
+}
+
+// Weekly tests draw only reserved questions, whose answers students can't read before results.
+// Chapter tests are scored on the device and need the answers up front, so they draw only the others.
+export const getPoolCandidates = (bank: PublicBankQuestion[], reserved: boolean): PublicBankQuestion[] =>
+  bank.filter(q => !!q.reserved === reserved);
+
+// Rules are drawn in order, a question is never drawn twice in one attempt
+const drawIds = (rules: QuestionPoolRule[], getEligible: (rule: QuestionPoolRule) => string[], seed: number): PoolDraw => {
+  const random = seededRandom(seed);
+  const taken = new Set<string>();
+  const questionIds: string[] = [];
+  const shortfalls: PoolDraw['shortfalls'] = [];
+  rules.forEach(rule => {
+    const eligible = getEligible(rule).filter(id => !taken.has(id));
+    const picked = shuffleIndices(eligible.length, random).slice(0, Math.max(0, rule.count || 0)).map(i => eligible[i]);
+    picked.forEach(id => { taken.add(id); questionIds.push(id); });
+    if (picked.length < rule.count) shortfalls.push({ ruleId: rule.id, wanted: rule.count, got: picked.length });
+  });
+  return { questionIds, shortfalls };
+};
+
+export const drawPoolQuestions = (rules: QuestionPoolRule[], bank: PublicBankQuestion[], seed: number): PoolDraw =>
+  drawIds(rules, rule => bank.filter(q => matchesPoolRule(q, rule)).map(q => q.id), seed);
+
+// Taken when a weekly pool test is created: each reserved question the rules can draw -> the ids of those rules.
+// Draws replay from this, so editing, re-tagging or deleting bank questions while the test is open changes no one's questions.
+export const snapshotPool = (rules: QuestionPoolRule[], bank: PublicBankQuestion[]): Record<string, string[]> => {
+  const snapshot: Record<string, string[]> = {};
+  getPoolCandidates(bank, true).forEach(q => {
+    const ruleIds = rules.filter(r => matchesPoolRule(q, r)).map(r => r.id);
+    if (ruleIds.length) snapshot[q.id] = ruleIds;
+  });
+  return snapshot;
+};
+
+// A student's weekly draw follows from the test's poolSeed (set by the Admin on create) and their uid, so it can't be
+// re-rolled and the evaluator can replay it. Tests created before poolQuestions existed draw from the current bank,
+// leaving out questions added after the test was created; before poolSeed, the seed is derived from the test id.
+export const drawWeeklyPool = (test: PublicWeeklyTest, bank: PublicBankQuestion[], userId: string): PoolDraw => {
+  const seed = ((test.poolSeed ?? hashNumber(test.id)) ^ hashNumber(userId)) >>> 0;
+  const snapshot = test.poolQuestions;
+  if (snapshot) {
+    // Sorted: the stored map comes back in whatever order the backend keeps its keys
+    const ids = Object.keys(snapshot).sort();
+    return drawIds(test.poolRules || [], rule => ids.filter(id => snapshot[id].includes(rule.id)), seed);
+  }
+  const candidates = getPoolCandidates(bank, true).filter(q => q.createdAt <= test.createdAt);
+  return drawPoolQuestions(test.poolRules || [], candidates, seed);
+};
+
+// Null = the questions this student was served. Otherwise why the submission can't be marked.
+export const validatePoolSubmission = (test: PublicWeeklyTest, bank: PublicBankQuestion[], userId: string, questionIds: string[] = []): string | null => {
+  if (new Set(questionIds).size !== questionIds.length) return 'repeated questions';
+  const expected = drawWeeklyPool(test, bank, userId).questionIds;
+  if (questionIds.length !== expected.length) return `${questionIds.length} questions, the draw has ${expected.length}`;
+  if (!test.poolQuestions) {
+    const bankById = new Map(bank.map(q => [q.id, q]));
+    const rules = test.poolRules || [];
+    if (questionIds.some(id => { const q = bankById.get(id); return !q?.reserved || !rules.some(r => matchesPoolRule(q, r)); })) {
+      return 'questions outside the pool rules';
+    }
+  }
+  if (questionIds.some((id, i) => id !== expected[i])) return 'not the draw for this student';
+  return null;
+};
+
+// Positions are kept: a question deleted since the draw becomes an empty slot that can't be answered
+export const toTestQuestions = (questionIds: string[], bank: Record<string, PublicBankQuestion>): WeeklyTestQuestion[] =>
+  questionIds.map(id => bank[id] ? { question: bank[id].question, options: bank[id].options } : { question: '', options: [] });
+
+export const toMcqItems = (questionIds: string[], bank: Record<string, PublicBankQuestion>, keys: Record<string, BankQuestionKey>): MCQItem[] =>
+  questionIds.filter(id => bank[id] && keys[id]).map(id => ({ id, question: bank[id].question, options: bank[id].options, difficulty: bank[id].difficulty, tags: bank[id].tags, ...keys[id] }));
+
+export const toPoolTestKey = (testId: string, questionIds: string[], keys: Record<string, BankQuestionKey>): WeeklyTestKey => ({
+  testId,
+  answers: questionIds.map(id => keys[id]?.correctAnswer ?? -1),
+  explanations: questionIds.map(id => keys[id]?.explanation || '')
+});
+
+export const describePoolRule = (rule: QuestionPoolRule): string => {
+  const parts = [`${rule.count} ${rule.difficulty ? QUESTION_DIFFICULTY_LABELS[rule.difficulty].toLowerCase() : 'any'}`];
+  if (rule.chapterIds?.length) parts.push(`from ${rule.chapterIds.length} chapter${rule.chapterIds.length > 1 ? 's' : ''}`);
+  else if (rule.subjectIds?.length) parts.push(`from ${rule.subjectIds.join(', ')}`);
+  if (rule.tags?.length) parts.push(`tagged ${rule.tags.join('/')}`);
+  return parts.join(' ');
+};
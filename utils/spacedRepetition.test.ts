@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { MCQItem, ReviewCard } from '../types';
+import { addAttemptToQueue, buildRevisionSession, capReviewQueue, gradeAnswer, reviewCard, scheduleCard } from './spacedRepetition';
+import { getQuestionKey } from './questionBank';
+
+const NOW = new Date('2026-10-19T08:00:00Z');
+const SOURCE = { contentKey: 'nst_content_ch1', subjectId: 'sci', subjectName: 'Science', chapterId: 'ch1', chapterTitle: 'Light' };
+
+const makeCard = (overrides: Partial<ReviewCard> = {}): ReviewCard => ({
+  id: 'c1',
+  ...SOURCE,
+  ease: 2.5,
+  intervalDays: 1,
+  repetitions: 0,
+  lapses: 0,
+  dueAt: NOW.toISOString(),
+  addedAt: NOW.toISOString(),
+  ...overrides
+});
+
+const item = (question: string): MCQItem => ({ question, options: ['A', 'B'], correctAnswer: 0, explanation: '' });
+
+describe('scheduleCard', () => {
+  it('steps 1, 6, then interval x ease on correct answers', () => {
+    let card = scheduleCard(makeCard(), 'GOOD', NOW);
+    expect(card.intervalDays).toBe(1);
+    card = scheduleCard(card, 'GOOD', NOW);
+    expect(card.intervalDays).toBe(6);
+    card = scheduleCard(card, 'GOOD', NOW);
+    expect(card.intervalDays).toBe(15);
+    expect(card.dueAt).toBe(new Date(NOW.getTime() + 15 * 86400000).toISOString());
+  });
+
+  it('resets on a miss and never drops ease below 1.3', () => {
+    const card = scheduleCard(makeCard({ ease: 1.4, intervalDays: 20, repetitions: 4 }), 'AGAIN', NOW);
+    expect(card).toMatchObject({ ease: 1.3, intervalDays: 1, repetitions: 0, lapses: 1 });
+  });
+});
+
+describe('reviewCard', () => {
+  it('drops a card once a correct review masters it', () => {
+    const queue = [makeCard({ intervalDays: 30, repetitions: 3 }), makeCard({ id: 'c2' })];
+    expect(reviewCard(queue, 'c1', 'GOOD', NOW).map(c => c.id)).toEqual(['c2']);
+    expect(reviewCard(queue, 'c1', 'HARD', NOW).map(c => c.id)).toEqual(['c1', 'c2']);
+  });
+});
+
+describe('addAttemptToQueue', () => {
+  it('queues misses and unsure answers by question key, not correct ones', () => {
+    const queue = addAttemptToQueue([], [
+      { item: item('Q1'), grade: gradeAnswer(false, false) },
+      { item: item('Q2'), grade: gradeAnswer(true, true) },
+      { item: item('Q3'), grade: gradeAnswer(true, false) }
+    ], SOURCE, NOW);
+    expect(queue.map(c => c.id)).toEqual([getQuestionKey('ch1', 'Q1'), getQuestionKey('ch1', 'Q2')]);
+    expect(queue[0]).toMatchObject({ lapses: 1, intervalDays: 1 });
+    expect(queue[0]).not.toHaveProperty('item');
+  });
+
+  it('reschedules a queued question and drops its legacy copy', () => {
+    const id = getQuestionKey('ch1', 'Q1');
+    const queue = addAttemptToQueue([makeCard({ id, item: item('Q1'), contentKey: undefined })], [{ item: item('Q1'), grade: 'GOOD' }], SOURCE, NOW);
+    expect(queue).toHaveLength(1);
+    expect(queue[0]).toMatchObject({ repetitions: 1, contentKey: SOURCE.contentKey });
+    expect(queue[0]).not.toHaveProperty('item');
+  });
+});
+
+describe('capReviewQueue', () => {
+  it('drops the longest intervals first', () => {
+    const queue = [makeCard({ id: 'a', intervalDays: 30 }), makeCard({ id: 'b', intervalDays: 1 }), makeCard({ id: 'c', intervalDays: 6 })];
+    expect(capReviewQueue(queue, 2).map(c => c.id)).toEqual(['b', 'c']);
+  });
+});
+
+describe('buildRevisionSession', () => {
+  it('takes due cards only, alternating subjects, up to the limit', () => {
+    const past = (h: number) => new Date(NOW.getTime() - h * 3600000).toISOString();
+    const queue = [
+      makeCard({ id: 'm1', subjectId: 'math', dueAt: past(5) }),
+      makeCard({ id: 'm2', subjectId: 'math', dueAt: past(4) }),
+      makeCard({ id: 'm3', subjectId: 'math', dueAt: past(3) }),
+      makeCard({ id: 's1', subjectId: 'sci', dueAt: past(1) }),
+      makeCard({ id: 'later', subjectId: 'sci', dueAt: new Date(NOW.getTime() + 3600000).toISOString() })
+    ];
+    expect(buildRevisionSession(queue, NOW, 3).map(c => c.id)).toEqual(['m1', 's1', 'm2']);
+  });
+});
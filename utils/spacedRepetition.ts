@@ -0,0 +1,121 @@
+import { MCQItem, ReviewCard, ReviewGrade } from '../types';
+import { getQuestionKey } from './questionBank';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+const START_EASE = 2.5;
+
+// A card reviewed correctly at this interval leaves the queue
+export const MASTERED_INTERVAL_DAYS = 60;
+export const DAILY_REVISION_LIMIT = 20;
+// Cards kept on the user; past this the ones closest to mastered are dropped
+export const MAX_REVIEW_QUEUE = 300;
+
+// Wrong = AGAIN, right but unsure = HARD, right = GOOD
+export const gradeAnswer = (correct: boolean, unsure: boolean): ReviewGrade =>
+  !correct ? 'AGAIN' : unsure ? 'HARD' : 'GOOD';
+
+// SM-2 style update: first steps 1 and 6 days, then interval x ease
+export const scheduleCard = (card: ReviewCard, grade: ReviewGrade, now: Date = new Date()): ReviewCard => {
+  let { ease, intervalDays, repetitions, lapses } = card;
+  if (grade === 'AGAIN') {
+    repetitions = 0;
+    lapses++;
+    intervalDays = 1;
+    ease = Math.max(MIN_EASE, ease - 0.2);
+  } else if (grade === 'HARD') {
+    repetitions++;
+    intervalDays = Math.max(1, Math.round(intervalDays * 1.2));
+    ease = Math.max(MIN_EASE, ease - 0.15);
+  } else {
+    repetitions++;
+    intervalDays = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(intervalDays * ease);
+  }
+  return {
+    ...card,
+    ease: Math.round(ease * 100) / 100,
+    intervalDays,
+    repetitions,
+    lapses,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS).toISOString(),
+    lastReviewedAt: now.toISOString()
+  };
+};
+
+export const isMastered = (card: ReviewCard) => card.intervalDays >= MASTERED_INTERVAL_DAYS;
+
+// Applies one review and drops the card once it is mastered
+export const reviewCard = (queue: ReviewCard[], cardId: string, grade: ReviewGrade, now: Date = new Date()): ReviewCard[] =>
+  queue
+    .map(c => c.id === cardId ? scheduleCard(c, grade, now) : c)
+    .filter(c => c.id !== cardId || grade !== 'GOOD' || !isMastered(c));
+
+export interface ReviewSource {
+  contentKey: string;
+  subjectId: string;
+  subjectName: string;
+  chapterId: string;
+  chapterTitle: string;
+}
+
+// Drops the longest intervals first, then the latest due
+export const capReviewQueue = (queue: ReviewCard[], max: number = MAX_REVIEW_QUEUE): ReviewCard[] => {
+  if (queue.length <= max) return queue;
+  const keep = new Set([...queue]
+    .sort((a, b) => a.intervalDays - b.intervalDays || a.dueAt.localeCompare(b.dueAt))
+    .slice(0, max)
+    .map(c => c.id));
+  return queue.filter(c => keep.has(c.id));
+};
+
+// Folds a practice attempt into the queue: misses and unsure answers are added (first revision tomorrow),
+// questions already queued are rescheduled by how they were answered this time (legacy cards lose their copy).
+// Cards hold the question key only.
+export const addAttemptToQueue = (
+  queue: ReviewCard[],
+  answered: { item: MCQItem; grade: ReviewGrade }[],
+  source: ReviewSource,
+  now: Date = new Date()
+): ReviewCard[] => {
+  let next = [...queue];
+  answered.forEach(({ item, grade }) => {
+    const id = getQuestionKey(source.chapterId, item.question);
+    if (next.some(c => c.id === id)) {
+      next = reviewCard(next.map(c => {
+        if (c.id !== id) return c;
+        const { item: _copy, ...card } = c;
+        return { ...card, contentKey: source.contentKey };
+      }), id, grade, now);
+      return;
+    }
+    if (grade === 'GOOD') return;
+    next.push({
+      id,
+      ...source,
+      ease: grade === 'HARD' ? START_EASE - 0.15 : START_EASE - 0.2,
+      intervalDays: 1,
+      repetitions: 0,
+      lapses: grade === 'AGAIN' ? 1 : 0,
+      dueAt: new Date(now.getTime() + DAY_MS).toISOString(),
+      addedAt: now.toISOString()
+    });
+  });
+  return capReviewQueue(next);
+};
+
+export const getDueCards = (queue: ReviewCard[] = [], now: Date = new Date()): ReviewCard[] =>
+  queue.filter(c => new Date(c.dueAt).getTime() <= now.getTime());
+
+// Oldest-due first, taking turns between subjects so one subject can't fill the session
+export const buildRevisionSession = (queue: ReviewCard[] = [], now: Date = new Date(), limit: number = DAILY_REVISION_LIMIT): ReviewCard[] => {
+  const bySubject = new Map<string, ReviewCard[]>();
+  getDueCards(queue, now)
+    .sort((a, b) => a.dueAt.localeCompare(b.dueAt))
+    .forEach(c => bySubject.set(c.subjectId, [...(bySubject.get(c.subjectId) || []), c]));
+  const piles = Array.from(bySubject.values());
+  const session: ReviewCard[] = [];
+  while (session.length < limit && piles.some(p => p.length)) {
+    piles.forEach(p => { if (p.length && session.length < limit) session.push(p.shift()!); });
+  }
+  return session;
+};
@@ -0,0 +1,146 @@
+import { AccessLevel, SpinBudgetUsage, SpinReward, SystemSettings, User } from '../types';
+
+export const DEFAULT_SPIN_REWARDS: SpinReward[] = [
+  { id: '1', type: 'COINS', value: 0, label: '0', color: '#ef4444' },
+  { id: '2', type: 'COINS', value: 1, label: '1 CR', color: '#3b82f6' },
+  { id: '3', type: 'COINS', value: 2, label: '2 CR', color: '#22c55e' },
+  { id: '4', type: 'COINS', value: 5, label: '5 CR', color: '#a855f7' },
+  { id: '5', type: 'COINS', value: 10, label: '10 CR', color: '#f97316' },
+  { id: '6', type: 'COINS', value: 0, label: 'Try Again', color: '#fbbf24' }
+];
+
+const LEGACY_COLORS = ['#ef4444', '#3b82f6', '#22c55e', '#a855f7', '#f97316', '#fbbf24'];
+
+// Handle Legacy number[] if present (Backwards Compatibility)
+export const normalizeSpinRewards = (raw?: (SpinReward | number)[]): SpinReward[] => {
+  if (!raw || raw.length === 0) return DEFAULT_SPIN_REWARDS;
+  return raw.map((r, idx) => {
+    if (typeof r === 'number') {
+      return { id: `legacy-${idx}`, type: 'COINS', value: r, label: r === 0 ? '0' : `${r} CR`, color: LEGACY_COLORS[idx % LEGACY_COLORS.length] };
+    }
+    return r;
+  });
+};
+
+export interface SpinOdds {
+  reward: SpinReward;
+  weight: number;
+  odds: number; // 0..1 after normalization
+}
+
+// No weights set anywhere = equal odds (old behaviour). Once any weight is set, unset ones count as 0.
+export const getSpinOdds = (rewards: SpinReward[]): SpinOdds[] => {
+  const anyWeighted = rewards.some(r => r.probability !== undefined && r.probability !== null);
+  const weights = rewards.map(r => anyWeighted ? Math.max(0, Number(r.probability) || 0) : 1);
+  const total = weights.reduce((a, b) => a + b, 0);
+  return rewards.map((reward, i) => ({
+    reward,
+    weight: weights[i],
+    odds: total > 0 ? weights[i] / total : 1 / rewards.length
+  }));
+};
+
+// Shown in Game Config so the admin knows what the wheel will actually do
+export const getSpinWeightWarnings = (rewards: SpinReward[]): string[] => {
+  const warnings: string[] = [];
+  if (!rewards.some(r => r.probability !== undefined && r.probability !== null)) return warnings;
+
+  const unset = rewards.filter(r => r.probability === undefined || r.probability === null);
+  if (unset.length) warnings.push(`${unset.length} prize(s) have no weight and will never be picked: ${unset.map(r => r.label).join(', ')}`);
+
+  const total = rewards.reduce((sum, r) => sum + Math.max(0, Number(r.probability) || 0), 0);
+  if (total === 0) warnings.push('All weights are 0. The wheel falls back to equal odds.');
+  else if (Math.abs(total - 100) > 0.01) warnings.push(`Weights add up to ${Math.round(total * 100) / 100}, not 100. They are scaled to 100%.`);
+  return warnings;
+};
+
+export const createSpinSeed = (): number => {
+  if (typeof crypto !== 'undefined' && crypto.getRandomValues) {
+    return crypto.getRandomValues(new Uint32Array(1))[0];
+  }
+  return Math.floor(Math.random() * 0xffffffff);
+};
+
+// Mulberry32: same seed always gives the same sequence, so an audited spin can be replayed
+export const seededRandom = (seed: number): (() => number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const pickWeightedReward = (rewards: SpinReward[], seed: number): { index: number; reward: SpinReward; roll: number } => {
+  const roll = seededRandom(seed)();
+  const odds = getSpinOdds(rewards);
+  let cumulative = 0;
+  for (let i = 0; i < odds.length; i++) {
+    cumulative += odds[i].odds;
+    if (roll < cumulative && odds[i].odds > 0) return { index: i, reward: rewards[i], roll };
+  }
+  // Float rounding: fall back to the last prize that can win
+  const last = odds.map(o => o.odds > 0).lastIndexOf(true);
+  const index = last === -1 ? odds.length - 1 : last;
+  return { index, reward: rewards[index], roll };
+};
+
+// Same tiers as the daily spin limit: admin-granted subscriptions play the FREE table
+export const getSpinTier = (user: User): AccessLevel => {
+  if (!user.isPremium || user.grantedByAdmin) return 'FREE';
+  return user.subscriptionLevel === 'ULTRA' ? 'ULTRA' : 'BASIC';
+};
+
+export const getTierSpinRewards = (settings: SystemSettings | undefined, tier: AccessLevel): SpinReward[] => {
+  const table = settings?.wheelRewardsByTier?.[tier];
+  return normalizeSpinRewards(table && table.length ? table : settings?.wheelRewards);
+};
+
+// ISO-8601 week (UTC), e.g. 2026-W42
+export const getIsoWeekKey = (date: Date): string => {
+  const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const day = d.getUTCDay() || 7;
+  d.setUTCDate(d.getUTCDate() + 4 - day);
+  const yearStart = new Date(Date.UTC(d.getUTCFullYear(), 0, 1));
+  const week = Math.ceil(((d.getTime() - yearStart.getTime()) / 86400000 + 1) / 7);
+  return `${d.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+};
+
+// One day boundary (UTC) for the global prize budgets and each student's daily spin limit
+export const getSpinPeriodKeys = (date: Date = new Date()) => ({
+  day: date.toISOString().split('T')[0],
+  week: getIsoWeekKey(date)
+});
+
+export const isSpinRewardCapped = (reward: SpinReward): boolean => !!(reward.dailyCap || reward.weeklyCap);
+
+// Counters from an older day/week count as 0
+export const getBudgetCounts = (usage: SpinBudgetUsage | undefined, keys = getSpinPeriodKeys()) => ({
+  day: usage?.day?.key === keys.day ? usage.day.count : 0,
+  week: usage?.week?.key === keys.week ? usage.week.count : 0
+});
+
+export const hasSpinBudget = (reward: SpinReward, usage: SpinBudgetUsage | undefined, keys = getSpinPeriodKeys()): boolean => {
+  const counts = getBudgetCounts(usage, keys);
+  if (reward.dailyCap && counts.day >= reward.dailyCap) return false;
+  if (reward.weeklyCap && counts.week >= reward.weeklyCap) return false;
+  return true;
+};
+
+// Used-up rewards drop out of the wheel
+export const filterAvailableSpinRewards = (rewards: SpinReward[], usage: Record<string, SpinBudgetUsage>): SpinReward[] => {
+  const keys = getSpinPeriodKeys();
+  return rewards.filter(r => !isSpinRewardCapped(r) || hasSpinBudget(r, usage[r.id], keys));
+};
+
+// Next counter value, or null when the cap is reached (aborts the transaction)
+export const consumeSpinBudget = (reward: SpinReward, usage: SpinBudgetUsage | null, keys = getSpinPeriodKeys()): SpinBudgetUsage | null => {
+  if (!hasSpinBudget(reward, usage || undefined, keys)) return null;
+  const counts = getBudgetCounts(usage || undefined, keys);
+  return {
+    day: { key: keys.day, count: counts.day + 1 },
+    week: { key: keys.week, count: counts.week + 1 }
+  };
+};
@@ -0,0 +1,77 @@
+import { PublicWeeklyTest, WeeklyTestResult } from '../types';
+import { toCsv } from './csv';
+
+export interface QuestionStat {
+  key: string; // Bank id for pool tests, position otherwise
+  qIndex: number; // First position it was seen at
+  questionId?: string;
+  attempts: number; // Students who were served it
+  answered: number;
+  correct: number;
+  correctPct: number; // Of students served it
+  skippedPct: number;
+  mostChosenWrong: { option: number; count: number } | null;
+}
+
+// Per-question difficulty from the evaluator's omrData (canonical indices)
+export const getQuestionStats = (results: WeeklyTestResult[]): QuestionStat[] => {
+  const stats = new Map<string, QuestionStat & { wrongCounts: Record<number, number> }>();
+  results.forEach(r => {
+    (r.omrData || []).forEach(row => {
+      const questionId = r.questionIds?.[row.qIndex];
+      const key = questionId || `q${row.qIndex}`;
+      let s = stats.get(key);
+      if (!s) {
+        s = { key, qIndex: row.qIndex, questionId, attempts: 0, answered: 0, correct: 0, correctPct: 0, skippedPct: 0, mostChosenWrong: null, wrongCounts: {} };
+        stats.set(key, s);
+      }
+      s.attempts++;
+      if (row.selected === -1) return;
+      s.answered++;
+      if (row.selected === row.correct) s.correct++;
+      else s.wrongCounts[row.selected] = (s.wrongCounts[row.selected] || 0) + 1;
+    });
+  });
+  return Array.from(stats.values())
+    .map(({ wrongCounts, ...s }) => {
+      const worst = Object.entries(wrongCounts).sort((a, b) => b[1] - a[1])[0];
+      return {
+        ...s,
+        correctPct: s.attempts ? Math.round((s.correct / s.attempts) * 100) : 0,
+        skippedPct: s.attempts ? Math.round(((s.attempts - s.answered) / s.attempts) * 100) : 0,
+        mostChosenWrong: worst ? { option: Number(worst[0]), count: worst[1] } : null
+      };
+    })
+    .sort((a, b) => a.qIndex - b.qIndex);
+};
+
+export const formatTestDuration = (seconds: number): string => {
+  const m = Math.floor(seconds / 60);
+  const s = seconds % 60;
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+export const sortByRank = (results: WeeklyTestResult[]) => [...results].sort((a, b) => a.rank - b.rank);
+
+export const testResultsToCsv = (test: PublicWeeklyTest, results: WeeklyTestResult[]): string => {
+  const sections = test.sections || [];
+  const header = ['Rank', 'Name', 'User ID', 'Class', 'Net Marks', 'Raw Marks', 'Max Marks', 'Percentage', 'Correct', 'Wrong', 'Skipped', 'Time Taken', 'Submitted At', 'Integrity', ...sections.map(s => s.name)];
+  const rows = sortByRank(results).map(r => [
+    r.rank,
+    r.userName,
+    r.userId,
+    r.classLevel || '',
+    r.score,
+    r.rawScore,
+    r.maxScore,
+    r.percentage,
+    r.correctCount,
+    r.wrongCount,
+    r.skippedCount,
+    formatTestDuration(r.timeTakenSeconds),
+    r.submittedAt,
+    r.integrityScore ?? '',
+    ...sections.map(s => r.sectionScores?.find(x => x.sectionId === s.id)?.netScore ?? '')
+  ]);
+  return toCsv([header, ...rows]);
+};
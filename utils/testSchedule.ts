@@ -0,0 +1,79 @@
+import { PublicWeeklyTest } from '../types';
+
+export type WeeklyTestPhase = 'UPCOMING' | 'LIVE' | 'ENTRY_CLOSED' | 'CLOSED';
+
+export const WEEKLY_TEST_PHASE_LABELS: Record<WeeklyTestPhase, string> = {
+  UPCOMING: 'Upcoming',
+  LIVE: 'Live',
+  ENTRY_CLOSED: 'Entry Closed',
+  CLOSED: 'Closed'
+};
+
+const toMs = (iso?: string): number | null => (iso ? new Date(iso).getTime() : null);
+
+const getDurationMs = (test: PublicWeeklyTest) => (test.durationMinutes || 120) * 60 * 1000;
+
+// Late entry counts from the common start if there is one, otherwise from opening
+export const getEntryDeadline = (test: PublicWeeklyTest): number | null => {
+  if (test.lateEntryMinutes === undefined || test.lateEntryMinutes === null) return null;
+  const from = toMs(test.fixedStartAt) ?? toMs(test.opensAt);
+  return from === null ? null : from + test.lateEntryMinutes * 60 * 1000;
+};
+
+// Tests without a window (legacy) stay LIVE while active
+export const getTestPhase = (test: PublicWeeklyTest, now: number = Date.now()): WeeklyTestPhase => {
+  const opens = toMs(test.opensAt);
+  const closes = toMs(test.closesAt);
+  if (closes !== null && now >= closes) return 'CLOSED';
+  if (!test.isActive && closes === null) return 'CLOSED';
+  if (opens !== null && now < opens) return 'UPCOMING';
+  const entryDeadline = getEntryDeadline(test);
+  if (entryDeadline !== null && now > entryDeadline) return 'ENTRY_CLOSED';
+  return 'LIVE';
+};
+
+// A common start also waits for the start time, even if the window is already open
+export const canStartTest = (test: PublicWeeklyTest, now: number = Date.now()): boolean => {
+  if (getTestPhase(test, now) !== 'LIVE') return false;
+  const fixedStart = toMs(test.fixedStartAt);
+  return fixedStart === null || now >= fixedStart;
+};
+
+// When this attempt must be submitted: duration from the (common) start, never past closing
+export const getAttemptDeadline = (test: PublicWeeklyTest, startedAt: number): number => {
+  const start = toMs(test.fixedStartAt) ?? startedAt;
+  const closes = toMs(test.closesAt);
+  const end = start + getDurationMs(test);
+  return closes === null ? end : Math.min(end, closes);
+};
+
+// Next moment the student is waiting for, for the countdown on the card
+export const getNextTestEvent = (test: PublicWeeklyTest, now: number = Date.now()): { label: string; at: number } | null => {
+  const phase = getTestPhase(test, now);
+  const opens = toMs(test.opensAt);
+  const fixedStart = toMs(test.fixedStartAt);
+  const closes = toMs(test.closesAt);
+  if (phase === 'UPCOMING' && opens !== null) return { label: 'Opens in', at: opens };
+  if (phase === 'LIVE' && fixedStart !== null && now < fixedStart) return { label: 'Starts in', at: fixedStart };
+  if (phase === 'LIVE') {
+    const entryDeadline = getEntryDeadline(test);
+    if (entryDeadline !== null) return { label: 'Entry closes in', at: entryDeadline };
+    if (closes !== null) return { label: 'Closes in', at: closes };
+  }
+  if (phase === 'ENTRY_CLOSED' && closes !== null) return { label: 'Closes in', at: closes };
+  return null;
+};
+
+// Results, ranks and the answer key stay hidden until the test is closed: its window has ended, or
+// (no window) the Admin has deactivated it, so no one can still be writing answers
+export const canPublishResults = (test: PublicWeeklyTest, now: number = Date.now()): boolean => getTestPhase(test, now) === 'CLOSED';
+
+export const formatCountdown = (ms: number): string => {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  const d = Math.floor(total / 86400);
+  const h = Math.floor((total % 86400) / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const hms = `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
+  return d > 0 ? `${d}d ${hms}` : hms;
+};
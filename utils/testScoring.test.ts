@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { PublicWeeklyTest, TestSubmission, WeeklyTestKey } from '../types';
+import { buildAttemptOrder } from './testShuffle';
+import { evaluateSubmission, getSubmissionProblem, LATE_SUBMISSION_GRACE_MS, rankResults } from './testScoring';
+
+const closesAt = '2026-10-18T10:00:00Z';
+
+const makeTest = (overrides: Partial<PublicWeeklyTest> = {}): PublicWeeklyTest => ({
+  id: 't1', name: 'Weekly', description: '', isActive: true, classLevel: '10', totalQuestions: 3, passingScore: 0,
+  createdAt: '2026-10-10T00:00:00Z', closesAt,
+  questions: Array.from({ length: 3 }, (_, i) => ({ question: `Q${i}`, options: ['A', 'B', 'C', 'D'] })),
+  ...overrides
+} as PublicWeeklyTest);
+
+const makeSubmission = (overrides: Partial<TestSubmission> = {}): TestSubmission => ({
+  testId: 't1', userId: 'u1', userName: 'Asha', answers: {}, startedAt: '2026-10-18T09:00:00Z', submittedAt: '2026-10-18T09:30:00Z',
+  serverSubmittedAt: new Date('2026-10-18T09:30:00Z').getTime(),
+  ...overrides
+});
+
+const key: WeeklyTestKey = { testId: 't1', answers: [0, 1, 2] };
+
+describe('evaluateSubmission', () => {
+  it('marks the raw answers against the key with the test\'s scheme', () => {
+    const test = makeTest({ markingScheme: { correct: 4, wrong: 1, unattempted: 0 } });
+    const result = evaluateSubmission(test, key, makeSubmission({ answers: { 0: 0, 1: 3 } }));
+    expect(result).toMatchObject({ correctCount: 1, wrongCount: 1, skippedCount: 1, score: 3, rawScore: 4, maxScore: 12, percentage: 25, timeTakenSeconds: 1800 });
+    expect(result.omrData.map(o => o.selected)).toEqual([0, 3, -1]);
+  });
+
+  it('maps a shuffled attempt back to the Admin\'s order before marking', () => {
+    const test = makeTest();
+    const seed = 11;
+    const order = buildAttemptOrder(test, seed);
+    // Shown position -> the option shown for the correct answer of the question there
+    const answers = Object.fromEntries(order.questionOrder.map((q, pos) => [pos, order.optionOrders[q].indexOf(key.answers[q])]));
+    expect(evaluateSubmission(test, key, makeSubmission({ seed, answers })).correctCount).toBe(3);
+  });
+
+  it('times everyone from a common start', () => {
+    const test = makeTest({ fixedStartAt: '2026-10-18T09:00:00Z' });
+    expect(evaluateSubmission(test, key, makeSubmission({ startedAt: '2026-10-18T09:20:00Z' })).timeTakenSeconds).toBe(1800);
+  });
+});
+
+describe('rankResults', () => {
+  it('ranks by score, then time, with shared ranks for ties', () => {
+    const base = evaluateSubmission(makeTest(), key, makeSubmission());
+    const ranked = rankResults([
+      { ...base, userId: 'a', score: 2, timeTakenSeconds: 100 },
+      { ...base, userId: 'b', score: 3, timeTakenSeconds: 300 },
+      { ...base, userId: 'c', score: 2, timeTakenSeconds: 100 },
+      { ...base, userId: 'd', score: 2, timeTakenSeconds: 50 }
+    ]);
+    expect(ranked.map(r => [r.userId, r.rank])).toEqual([['b', 1], ['d', 2], ['a', 3], ['c', 3]]);
+    expect(ranked.every(r => r.totalParticipants === 4)).toBe(true);
+  });
+});
+
+describe('getSubmissionProblem', () => {
+  it('marks submissions stored up to the grace period after closing', () => {
+    expect(getSubmissionProblem(makeTest(), makeSubmission({ serverSubmittedAt: new Date(closesAt).getTime() + LATE_SUBMISSION_GRACE_MS }), [])).toBeNull();
+  });
+
+  it('trusts the server time over a back-dated device time', () => {
+    const late = makeSubmission({ submittedAt: '2026-10-18T09:00:00Z', serverSubmittedAt: new Date(closesAt).getTime() + LATE_SUBMISSION_GRACE_MS + 1 });
+    expect(getSubmissionProblem(makeTest(), late, [])).toBe('submitted after closing');
+  });
+
+  it('checks pool tests against the student\'s draw', () => {
+    const test = makeTest({ poolRules: [{ id: 'r1', count: 1 }], poolSeed: 1, poolQuestions: { q1: ['r1'] } });
+    expect(getSubmissionProblem(test, makeSubmission({ questionIds: ['q1'] }), [])).toBeNull();
+    expect(getSubmissionProblem(test, makeSubmission({ questionIds: ['q2'] }), [])).toBe('not the draw for this student');
+  });
+});
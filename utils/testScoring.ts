@@ -0,0 +1,126 @@
+import { MCQResult, PublicBankQuestion, PublicWeeklyTest, TestSubmission, WeeklyTest, WeeklyTestKey, WeeklyTestResult } from '../types';
+import { scoreAnswers } from './marking';
+import { keepInTimeAnswers, scoreSections } from './testSections';
+import { buildAttemptOrder, toCanonicalAnswers } from './testShuffle';
+import { getIntegrityScore } from './proctoring';
+import { validatePoolSubmission } from './questionBank';
+
+// Students get the public half, the key goes where only the admin/evaluator can read it
+export const splitWeeklyTest = (test: WeeklyTest): { publicTest: PublicWeeklyTest; key: WeeklyTestKey } => ({
+  publicTest: {
+    ...test,
+    closesAtMs: test.closesAt ? new Date(test.closesAt).getTime() : undefined,
+    questions: test.questions.map(q => ({ question: q.question, options: q.options }))
+  },
+  key: {
+    testId: test.id,
+    answers: test.questions.map(q => q.correctAnswer),
+    explanations: test.questions.map(q => q.explanation || '')
+  }
+});
+
+export type UnrankedTestResult = Omit<WeeklyTestResult, 'rank' | 'totalParticipants'>;
+
+// Pure: runLocalEvaluator (storage.ts) runs it for every submission when the Admin publishes results
+export const evaluateSubmission = (test: PublicWeeklyTest, key: WeeklyTestKey, submission: TestSubmission): UnrankedTestResult => {
+  // Answers given after their section locked don't count
+  const displayed = test.sections?.length ? keepInTimeAnswers(test.sections, submission) : submission.answers || {};
+  // Shuffled attempts are mapped back to the Admin's question and option order before marking
+  const answers = submission.seed !== undefined && submission.seed !== null
+    ? toCanonicalAnswers(buildAttemptOrder(test, submission.seed), displayed)
+    : displayed;
+  const marked = key.answers.map((correct, qIndex) => {
+    const picked = answers[qIndex];
+    return { qIndex, selected: picked === undefined || picked === null ? -1 : Number(picked), correct };
+  });
+  const scored = scoreAnswers(test.markingScheme, marked);
+  const omrData = marked.map((a, i) => ({ ...a, marks: scored.marks[i] }));
+
+  const totalQuestions = key.answers.length;
+  // With a common start everyone's clock runs from the same moment, whatever the client reports
+  const startedAt = test.fixedStartAt || submission.startedAt;
+  const timeTakenSeconds = Math.max(0, Math.round((new Date(submission.submittedAt).getTime() - new Date(startedAt).getTime()) / 1000)) || 0;
+
+  return {
+    testId: test.id,
+    testName: test.name,
+    userId: submission.userId,
+    userName: submission.userName,
+    classLevel: submission.classLevel || test.classLevel,
+    totalQuestions,
+    correctCount: scored.correctCount,
+    wrongCount: scored.wrongCount,
+    skippedCount: scored.skippedCount,
+    score: scored.netScore,
+    rawScore: scored.rawScore,
+    maxScore: scored.maxScore,
+    markingScheme: test.markingScheme,
+    sectionScores: test.sections?.length ? scoreSections(test.sections, omrData, test.markingScheme) : undefined,
+    percentage: scored.maxScore ? Math.round((Math.max(0, scored.netScore) / scored.maxScore) * 100) : 0,
+    timeTakenSeconds,
+    omrData,
+    seed: submission.seed,
+    questionIds: submission.questionIds,
+    integrityScore: getIntegrityScore(submission.integrityLog),
+    violationCount: (submission.integrityLog || []).length,
+    submittedAt: submission.submittedAt,
+    evaluatedAt: new Date().toISOString()
+  };
+};
+
+// Submissions stored this long after closing still count (slow networks on auto-submit). Same 120000 ms as the
+// test_submissions rule in FIREBASE_RULES.md, which rejects anything later.
+export const LATE_SUBMISSION_GRACE_MS = 2 * 60 * 1000;
+
+// Null = the evaluator marks this submission. Otherwise why it is left out, shown in the Admin results console.
+// Pool tests: the `questionIds` marked must be the student's own draw replayed here (a client could otherwise
+// send questions it already knows).
+export const getSubmissionProblem = (test: PublicWeeklyTest, submission: TestSubmission, bank: PublicBankQuestion[]): string | null => {
+  const cutoff = test.closesAt ? new Date(test.closesAt).getTime() + LATE_SUBMISSION_GRACE_MS : Infinity;
+  // Server time of the write; the device's submittedAt can be back-dated
+  if ((submission.serverSubmittedAt ?? new Date(submission.submittedAt).getTime()) > cutoff) return 'submitted after closing';
+  if (test.poolRules?.length) return validatePoolSubmission(test, bank, submission.userId, submission.questionIds);
+  return null;
+};
+
+// Higher score first, faster finish breaks ties. Equal score and time share a rank (1, 2, 2, 4).
+export const rankResults = (results: UnrankedTestResult[]): WeeklyTestResult[] => {
+  const sorted = [...results].sort((a, b) => b.score - a.score || a.timeTakenSeconds - b.timeTakenSeconds);
+  let rank = 0;
+  return sorted.map((r, i) => {
+    const prev = sorted[i - 1];
+    if (!prev || prev.score !== r.score || prev.timeTakenSeconds !== r.timeTakenSeconds) rank = i + 1;
+    return { ...r, rank, totalParticipants: sorted.length };
+  });
+};
+
+// Official result in the shape MarksheetCard renders
+export const toMarksheetResult = (result: WeeklyTestResult): MCQResult => {
+  const ratio = result.percentage / 100;
+  return {
+    id: `wt-${result.testId}-${result.userId}`,
+    userId: result.userId,
+    chapterId: result.testId,
+    subjectId: 'WEEKLY',
+    subjectName: 'Weekly Test',
+    chapterTitle: result.testName,
+    date: result.submittedAt,
+    totalQuestions: result.totalQuestions,
+    correctCount: result.correctCount,
+    wrongCount: result.wrongCount,
+    score: result.correctCount,
+    rawScore: result.rawScore,
+    netScore: result.score,
+    maxScore: result.maxScore,
+    markingScheme: result.markingScheme,
+    sectionScores: result.sectionScores,
+    integrityScore: result.integrityScore,
+    totalTimeSeconds: result.timeTakenSeconds,
+    averageTimePerQuestion: result.totalQuestions ? result.timeTakenSeconds / result.totalQuestions : 0,
+    performanceTag: ratio >= 0.8 ? 'EXCELLENT' : ratio >= 0.5 ? 'GOOD' : 'BAD',
+    classLevel: result.classLevel,
+    omrData: result.omrData,
+    rank: result.rank,
+    totalParticipants: result.totalParticipants
+  };
+};
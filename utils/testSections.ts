@@ -0,0 +1,77 @@
+import { MarkingScheme, SectionScore, TestSubmission, WeeklyTestSection } from '../types';
+import { getQuestionRule, roundMarks } from './marking';
+
+// Tests without sections behave as one section holding every question
+export const getTestSections = (test: { sections?: WeeklyTestSection[]; questions: unknown[] }): WeeklyTestSection[] => {
+  if (test.sections && test.sections.length) return test.sections;
+  return [{ id: 'all', name: 'All Questions', fromQuestion: 1, toQuestion: test.questions.length }];
+};
+
+// 0-based question indices in the section
+export const getSectionQuestionIndices = (section: WeeklyTestSection): number[] => {
+  const count = Math.max(0, section.toQuestion - section.fromQuestion + 1);
+  return Array.from({ length: count }, (_, i) => section.fromQuestion - 1 + i);
+};
+
+export const getSectionForQuestion = (sections: WeeklyTestSection[], qIndex: number): WeeklyTestSection | undefined => {
+  return sections.find(s => qIndex + 1 >= s.fromQuestion && qIndex + 1 <= s.toQuestion);
+};
+
+// Answer clicks this close after a section locked still count (timer tick, slow device)
+const SECTION_GRACE_MS = 5000;
+
+// Displayed answers given while their section was open. Shuffles keep questions inside their section, so displayed
+// positions fall in the same sections. Answers in a timed section without timing data are dropped. The times come
+// from the device: this catches answers changed after a section locked, not a rewritten client.
+export const keepInTimeAnswers = (sections: WeeklyTestSection[], submission: TestSubmission): Record<number, number> => {
+  const startedAt = new Date(submission.startedAt).getTime();
+  const kept: Record<number, number> = {};
+  Object.entries(submission.answers || {}).forEach(([pos, opt]) => {
+    const section = getSectionForQuestion(sections, Number(pos));
+    if (section?.timeLimitMinutes) {
+      const openedAt = submission.sectionOpenedAt?.[section.id];
+      const answeredAt = submission.answeredAt?.[Number(pos)];
+      if (!openedAt || !answeredAt || openedAt < startedAt || answeredAt < openedAt) return;
+      if (answeredAt > openedAt + section.timeLimitMinutes * 60 * 1000 + SECTION_GRACE_MS) return;
+    }
+    kept[Number(pos)] = opt;
+  });
+  return kept;
+};
+
+// Null = valid. Sections must not overlap or point past the last question.
+export const validateSections = (sections: WeeklyTestSection[], totalQuestions: number): string | null => {
+  const sorted = [...sections].sort((a, b) => a.fromQuestion - b.fromQuestion);
+  for (let i = 0; i < sorted.length; i++) {
+    const s = sorted[i];
+    if (!s.name.trim()) return 'Every section needs a name.';
+    if (s.fromQuestion < 1 || s.toQuestion > totalQuestions || s.fromQuestion > s.toQuestion) {
+      return `"${s.name}" must cover questions between 1 and ${totalQuestions}.`;
+    }
+    if (i > 0 && s.fromQuestion <= sorted[i - 1].toQuestion) return `"${s.name}" overlaps "${sorted[i - 1].name}".`;
+  }
+  return null;
+};
+
+// `omrData` uses test question indices, as written by the evaluator
+export const scoreSections = (
+  sections: WeeklyTestSection[],
+  omrData: { qIndex: number; selected: number; correct: number; marks: number }[],
+  scheme?: MarkingScheme
+): SectionScore[] => {
+  return sections.map(section => {
+    const rows = omrData.filter(r => r.qIndex + 1 >= section.fromQuestion && r.qIndex + 1 <= section.toQuestion);
+    const correctCount = rows.filter(r => r.selected !== -1 && r.selected === r.correct).length;
+    const wrongCount = rows.filter(r => r.selected !== -1 && r.selected !== r.correct).length;
+    return {
+      sectionId: section.id,
+      name: section.name,
+      totalQuestions: rows.length,
+      correctCount,
+      wrongCount,
+      skippedCount: rows.length - correctCount - wrongCount,
+      netScore: roundMarks(rows.reduce((sum, r) => sum + r.marks, 0)),
+      maxScore: roundMarks(rows.reduce((sum, r) => sum + getQuestionRule(scheme, r.qIndex).correct, 0))
+    };
+  });
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { PublicWeeklyTest } from '../types';
+import { applyAttemptOrder, buildAttemptOrder, toCanonicalAnswers } from './testShuffle';
+
+const makeTest = (overrides: Partial<PublicWeeklyTest> = {}): PublicWeeklyTest => ({
+  id: 't1',
+  questions: Array.from({ length: 6 }, (_, i) => ({ question: `Q${i}`, options: ['A', 'B', 'C', 'D'] })),
+  sections: [
+    { id: 's1', name: 'One', fromQuestion: 1, toQuestion: 3 },
+    { id: 's2', name: 'Two', fromQuestion: 4, toQuestion: 6 }
+  ],
+  ...overrides
+} as PublicWeeklyTest);
+
+describe('buildAttemptOrder', () => {
+  it('gives the same order for the same seed', () => {
+    expect(buildAttemptOrder(makeTest(), 42)).toEqual(buildAttemptOrder(makeTest(), 42));
+  });
+
+  it('shuffles each question\'s options as a permutation', () => {
+    buildAttemptOrder(makeTest(), 7).optionOrders.forEach(o => expect([...o].sort()).toEqual([0, 1, 2, 3]));
+  });
+
+  it('moves questions only inside their section', () => {
+    for (let seed = 1; seed <= 20; seed++) {
+      const { questionOrder } = buildAttemptOrder(makeTest(), seed);
+      expect([...questionOrder.slice(0, 3)].sort()).toEqual([0, 1, 2]);
+      expect([...questionOrder.slice(3)].sort()).toEqual([3, 4, 5]);
+    }
+  });
+
+  it('keeps the Admin order when shuffling is off', () => {
+    const order = buildAttemptOrder(makeTest({ shuffleQuestions: false, shuffleOptions: false }), 42);
+    expect(order.questionOrder).toEqual([0, 1, 2, 3, 4, 5]);
+    order.optionOrders.forEach(o => expect(o).toEqual([0, 1, 2, 3]));
+  });
+});
+
+describe('toCanonicalAnswers', () => {
+  it('maps displayed answers back to the Admin question and option', () => {
+    const test = makeTest();
+    const order = buildAttemptOrder(test, 99);
+    const shown = applyAttemptOrder(test, order);
+    // Pick the option showing "C" for each displayed question
+    const answers: Record<number, number> = {};
+    shown.questions.forEach((q, pos) => { answers[pos] = q.options.indexOf('C'); });
+    const canonical = toCanonicalAnswers(order, answers);
+    expect(canonical).toEqual({ 0: 2, 1: 2, 2: 2, 3: 2, 4: 2, 5: 2 });
+  });
+
+  it('skips positions that are not in the order', () => {
+    expect(toCanonicalAnswers({ questionOrder: [0], optionOrders: [[1, 0]] }, { 0: 0, 5: 1 })).toEqual({ 0: 1 });
+  });
+});
@@ -0,0 +1,60 @@
+import { PublicWeeklyTest } from '../types';
+import { createSpinSeed, seededRandom } from './spinWheel';
+import { getTestSections, getSectionQuestionIndices } from './testSections';
+
+// Displayed position -> canonical (Admin) index, for questions and for each question's options
+export interface AttemptOrder {
+  questionOrder: number[];
+  optionOrders: number[][]; // Indexed by canonical question
+}
+
+export const createAttemptSeed = createSpinSeed;
+
+// Fisher-Yates with the attempt's generator
+export const shuffleIndices = (count: number, random: () => number): number[] => {
+  const order = Array.from({ length: count }, (_, i) => i);
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+};
+
+// Same test + seed always gives the same order. Questions only move inside their section,
+// so section ranges and timers keep working on displayed positions.
+export const buildAttemptOrder = (test: PublicWeeklyTest, seed: number): AttemptOrder => {
+  const random = seededRandom(seed);
+  const shuffleQuestions = test.shuffleQuestions !== false;
+  const shuffleOptions = test.shuffleOptions !== false;
+
+  const questionOrder = test.questions.map((_, i) => i);
+  if (shuffleQuestions) {
+    getTestSections(test).forEach(section => {
+      const indices = getSectionQuestionIndices(section).filter(i => i < questionOrder.length);
+      shuffleIndices(indices.length, random).forEach((from, to) => { questionOrder[indices[to]] = indices[from]; });
+    });
+  }
+  const optionOrders = test.questions.map(q => shuffleOptions ? shuffleIndices(q.options.length, random) : q.options.map((_, i) => i));
+  return { questionOrder, optionOrders };
+};
+
+// Questions and options in the order this student sees them
+export const applyAttemptOrder = (test: PublicWeeklyTest, order: AttemptOrder): PublicWeeklyTest => ({
+  ...test,
+  questions: order.questionOrder.map(qIndex => {
+    const q = test.questions[qIndex];
+    return { ...q, options: order.optionOrders[qIndex].map(o => q.options[o]) };
+  })
+});
+
+// { displayedQ: displayedOption } -> { canonicalQ: canonicalOption }
+export const toCanonicalAnswers = (order: AttemptOrder, answers: Record<number, number>): Record<number, number> => {
+  const canonical: Record<number, number> = {};
+  Object.entries(answers || {}).forEach(([pos, opt]) => {
+    const qIndex = order.questionOrder[Number(pos)];
+    if (qIndex === undefined || opt === undefined || opt === null) return;
+    const mapped = order.optionOrders[qIndex]?.[Number(opt)];
+    if (mapped !== undefined) canonical[qIndex] = mapped;
+  });
+  return canonical;
+};
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { InboxMessage, User } from '../types';
+import { applyListChange, applyUserUpdate, diffUserUpdate, getListChanges, isEmptyUserUpdate, matchesExpected, stripCredentials } from './userUpdates';
+
+const makeUser = (overrides: Partial<User> = {}): User => ({
+  id: 'u1', name: 'Asha', mobile: '', email: 'asha@example.com', role: 'STUDENT', createdAt: '2026-10-18T08:00:00Z',
+  credits: 10, streak: 2, lastLoginDate: '', redeemedCodes: [], progress: {},
+  ...overrides
+});
+
+const message = (id: string, read = false): InboxMessage => ({ id, text: id, date: '2026-10-19', read });
+
+describe('applyListChange', () => {
+  it('matches items with an id by id and anything else by value', () => {
+    expect(applyListChange([message('a'), message('b')], [message('a', true)], [message('a')])).toEqual([message('b'), message('a', true)]);
+    expect(applyListChange(['x', 'y'], ['y', 'z'], ['x'])).toEqual(['y', 'z']);
+  });
+
+  it('reads RTDB lists stored as objects', () => {
+    expect(applyListChange({ 0: 'x', 1: 'y' }, ['z'])).toEqual(['x', 'y', 'z']);
+    expect(applyListChange(null, ['z'])).toEqual(['z']);
+  });
+});
+
+describe('diffUserUpdate', () => {
+  it('sends counters as increments and other scalars as sets', () => {
+    const before = makeUser();
+    const change = diffUserUpdate(before, { ...before, credits: 4, streak: 3, name: 'Asha K' });
+    expect(change).toEqual({ increment: { credits: -6, streak: 1 }, set: { name: 'Asha K' } });
+  });
+
+  it('sends an edited list item as a remove plus a union', () => {
+    const before = makeUser({ inbox: [message('a'), message('b')] });
+    const change = diffUserUpdate(before, { ...before, inbox: [message('a', true), message('b')] });
+    expect(change).toEqual({ arrayUnion: { inbox: [message('a', true)] }, arrayRemove: { inbox: [message('a')] } });
+  });
+
+  it('merges object fields key by key and removes dropped fields', () => {
+    const before = makeUser({ progress: { sci: { currentChapterIndex: 1, totalMCQsSolved: 5 } }, board: 'CBSE' });
+    const { board, ...rest } = before;
+    const change = diffUserUpdate(before, { ...rest, progress: { ...before.progress, math: { currentChapterIndex: 0, totalMCQsSolved: 0 } } } as User);
+    expect(change).toEqual({ merge: { progress: { math: { currentChapterIndex: 0, totalMCQsSolved: 0 } } }, remove: ['board'] });
+  });
+
+  it('is empty when nothing changed', () => {
+    const user = makeUser();
+    expect(isEmptyUserUpdate(diffUserUpdate(user, { ...user }))).toBe(true);
+  });
+
+  it('counts ledger entries as a change', () => {
+    expect(isEmptyUserUpdate({ ledger: [{ id: 't1', userId: 'u1', type: 'ADMIN_ADJUST', amount: 0, balanceAfter: 10, actor: 'ADMIN', timestamp: '' }] })).toBe(false);
+  });
+});
+
+describe('applyUserUpdate', () => {
+  it('gives the same user the diff was made from', () => {
+    const before = makeUser({ inbox: [message('a'), message('b')], progress: { sci: { currentChapterIndex: 1, totalMCQsSolved: 5 } } });
+    const after: User = { ...before, credits: 25, inbox: [message('b'), message('a', true)], progress: { sci: { currentChapterIndex: 2, totalMCQsSolved: 0 } } };
+    const applied = applyUserUpdate(before, diffUserUpdate(before, after));
+    expect(applied.credits).toBe(25);
+    expect(applied.progress).toEqual(after.progress);
+    expect(applied.inbox?.map(m => [m.id, m.read])).toEqual([['b', false], ['a', true]]);
+  });
+
+  it('applies on top of changes made by another writer meanwhile', () => {
+    const before = makeUser();
+    const change = diffUserUpdate(before, { ...before, credits: 5 });
+    const server = { ...before, credits: 30, inbox: [message('admin')] };
+    expect(applyUserUpdate(server, change)).toMatchObject({ credits: 25, inbox: [message('admin')] });
+  });
+});
+
+describe('getListChanges', () => {
+  it('lists each touched list field once', () => {
+    expect(getListChanges({ arrayUnion: { inbox: [message('a')] }, arrayRemove: { inbox: [message('b')], redeemedCodes: ['C1'] } })).toEqual([
+      { field: 'inbox', add: [message('a')], remove: [message('b')] },
+      { field: 'redeemedCodes', add: [], remove: ['C1'] }
+    ]);
+  });
+});
+
+describe('matchesExpected', () => {
+  it('compares each expected field, a missing field matching undefined', () => {
+    const user = makeUser({ subscriptionEndDate: '2026-10-18T00:00:00Z' });
+    expect(matchesExpected(user, { subscriptionEndDate: '2026-10-18T00:00:00Z', credits: 10 })).toBe(true);
+    expect(matchesExpected(user, { subscriptionEndDate: '2026-11-18T00:00:00Z' })).toBe(false);
+    expect(matchesExpected(user, { dailySpinDate: undefined })).toBe(true);
+    expect(matchesExpected(null, {})).toBe(false);
+  });
+});
+
+describe('stripCredentials', () => {
+  it('drops a legacy password', () => {
+    expect(stripCredentials({ ...makeUser(), password: 'secret' })).not.toHaveProperty('password');
+  });
+});
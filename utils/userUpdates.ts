@@ -0,0 +1,99 @@
+import { LegacyUserRecord, User, UserCounterField, UserListField, UserUpdate } from '../types';
+
+// Counts that other writers change too (admin gifts, refunds, another tab), so edits are sent as increments
+const COUNTER_FIELDS: UserCounterField[] = ['credits', 'streak', 'dailySpinCount'];
+
+// Credentials live only in the auth provider. Drops any legacy plaintext password from a user record.
+export const stripCredentials = <T extends LegacyUserRecord>(user: T): Omit<T, 'password'> => {
+  const { password, ...rest } = user;
+  return rest;
+};
+
+const same = (a: any, b: any) => JSON.stringify(a) === JSON.stringify(b);
+
+const isPlainObject = (v: any) => !!v && typeof v === 'object' && !Array.isArray(v);
+
+// List items with an id are matched by id, anything else by value
+export const listItemKey = (item: any): string =>
+  isPlainObject(item) && item.id !== undefined ? `id:${item.id}` : JSON.stringify(item);
+
+// RTDB may hand lists back as objects keyed by index
+export const applyListChange = (current: any, add: any[] = [], remove: any[] = []): any[] => {
+  const list: any[] = Array.isArray(current) ? current : current ? Object.values(current) : [];
+  const removeKeys = new Set(remove.map(listItemKey));
+  const kept = list.filter(i => !removeKeys.has(listItemKey(i)));
+  const keys = new Set(kept.map(listItemKey));
+  add.forEach(i => {
+    const key = listItemKey(i);
+    if (keys.has(key)) return;
+    keys.add(key);
+    kept.push(i);
+  });
+  return kept;
+};
+
+// Items added and removed per list field, one entry per field the change touches
+export const getListChanges = (change: UserUpdate): { field: UserListField; add: unknown[]; remove: unknown[] }[] => {
+  const fields = new Set([...Object.keys(change.arrayUnion || {}), ...Object.keys(change.arrayRemove || {})] as UserListField[]);
+  return [...fields].map(field => ({ field, add: change.arrayUnion?.[field] || [], remove: change.arrayRemove?.[field] || [] }));
+};
+
+export const isEmptyUserUpdate = (change: UserUpdate): boolean =>
+  !change || [change.set, change.increment, change.merge, change.arrayUnion, change.arrayRemove].every(part => !part || Object.keys(part).length === 0)
+    && !(change.remove && change.remove.length) && !(change.ledger && change.ledger.length);
+
+// True if the stored user still holds the values a conditional change expects (see UserUpdate.expect)
+export const matchesExpected = (user: User | null, expected: Partial<User> = {}): boolean =>
+  !!user && Object.entries(expected).every(([k, v]) => same((user as any)[k] ?? null, v ?? null));
+
+// Same change applied to the local copy, so the screen matches what the server ends up with (ledger entries aren't part of the user)
+export const applyUserUpdate = (user: User, change: UserUpdate): User => {
+  const next: Record<string, any> = { ...user, ...(change.set || {}) };
+  Object.entries(change.increment || {}).forEach(([k, n]) => { next[k] = (Number(next[k]) || 0) + (Number(n) || 0); });
+  Object.entries(change.merge || {}).forEach(([k, entries]) => {
+    const merged = { ...(next[k] || {}) };
+    Object.entries(entries || {}).forEach(([key, v]) => {
+      if (v === undefined) delete merged[key];
+      else merged[key] = v;
+    });
+    next[k] = merged;
+  });
+  getListChanges(change).forEach(({ field, add, remove }) => { next[field] = applyListChange(next[field], add, remove); });
+  (change.remove || []).forEach(k => { delete next[k]; });
+  return next as User;
+};
+
+// Field-level writes for an edited copy of the user: counters become increments, lists become the items
+// removed plus the items added (an edited item is both), objects are merged key by key, anything else is set.
+export const diffUserUpdate = (before: User, after: User): UserUpdate => {
+  const change: UserUpdate = {};
+  const a: any = before || {};
+  const b: any = after || {};
+  new Set([...Object.keys(a), ...Object.keys(b)] as (keyof User)[]).forEach(k => {
+    if (k === 'id' || same(a[k], b[k])) return;
+
+    if (b[k] === undefined) {
+      change.remove = [...(change.remove || []), k];
+    } else if (COUNTER_FIELDS.includes(k as UserCounterField) && typeof a[k] === 'number' && typeof b[k] === 'number') {
+      change.increment = { ...(change.increment || {}), [k]: b[k] - a[k] };
+    } else if (Array.isArray(b[k]) && (a[k] === undefined || Array.isArray(a[k]))) {
+      const before: any[] = a[k] || [];
+      const oldItems = new Set(before.map(i => JSON.stringify(i)));
+      const newItems = new Set(b[k].map((i: any) => JSON.stringify(i)));
+      const added = b[k].filter((i: any) => !oldItems.has(JSON.stringify(i)));
+      const removed = before.filter(i => !newItems.has(JSON.stringify(i)));
+      if (added.length) change.arrayUnion = { ...(change.arrayUnion || {}), [k]: added };
+      if (removed.length) change.arrayRemove = { ...(change.arrayRemove || {}), [k]: removed };
+    } else if (isPlainObject(b[k]) && (a[k] === undefined || isPlainObject(a[k]))) {
+      const before = a[k] || {};
+      const entries: Record<string, any> = {};
+      new Set([...Object.keys(before), ...Object.keys(b[k])]).forEach(key => {
+        if (!same(before[key], b[k][key])) entries[key] = b[k][key];
+      });
+      change.merge = { ...(change.merge || {}), [k]: entries };
+    } else {
+      change.set = { ...(change.set || {}), [k]: b[k] };
+    }
+  });
+  return change;
+};
@@ -11,9 +11,14 @@ export default defineConfig(({ mode }) => {
         allowedHosts: true,
       },
       plugins: [react()],
+      build: {
+        target: 'es2022' // storage.ts picks its backend with a top-level await
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.STORAGE_BACKEND': JSON.stringify(env.STORAGE_BACKEND || 'firebase'),
+        'process.env.FIREBASE_CONFIG': JSON.stringify(env.FIREBASE_CONFIG || '')
       },
       resolve: {
         alias: {